@@ -12,14 +12,18 @@ const bytecode = contractPath.bytecode;
 
 /**
  * Deploy the WasteContract smart contract.
- * @param {string} termsJson - The contract terms in JSON string format.
+ * @param {Object} params
+ * @param {string} params.sellerAddress - Seller's wallet; only it can sign as seller.
+ * @param {string} params.buyerAddress - Buyer's wallet; only it can sign as buyer.
+ * @param {string} params.contractId - Database id of the contract, part of the signed typed data.
+ * @param {string} params.termsHash - SHA-256 of the canonical terms as a 0x-prefixed bytes32.
  * @returns {Object} address and transaction hash.
  */
-const deployContract = async (termsJson) => {
+const deployContract = async ({ sellerAddress, buyerAddress, contractId, termsHash }) => {
   const ContractFactory = new ethers.ContractFactory(abi, bytecode, wallet);
 
-  // 🧬 Deploying the contract with terms, seller, and buyer
-  const contract = await ContractFactory.deploy(termsJson);
+  // 🧬 Deploying the contract with the parties and the terms hash
+  const contract = await ContractFactory.deploy(sellerAddress, buyerAddress, contractId, termsHash);
 
   // ⏳ Wait for deployment confirmation
   await contract.waitForDeployment();
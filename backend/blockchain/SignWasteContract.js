@@ -10,16 +10,24 @@ const wallet = new ethers.Wallet(process.env.PRIVATE_KEY, provider);
 const contractPath = path.resolve(__dirname, "./WasteContractAbi.json");
 const { abi } = JSON.parse(fs.readFileSync(contractPath, "utf8"));
 
-const signContractOnChain = async (contractAddress, signerRole) => {
+/**
+ * Record a party's signature on-chain. The platform wallet only relays the transaction;
+ * the contract accepts it only if the signature recovers to that party's address.
+ * @param {string} contractAddress - Deployed WasteContract address.
+ * @param {string} signerRole - "seller" or "buyer".
+ * @param {string} signature - The party's EIP-712 signature.
+ * @returns {string} Transaction hash.
+ */
+const signContractOnChain = async (contractAddress, signerRole, signature) => {
   const contract = new ethers.Contract(contractAddress, abi, wallet);
 
   // Call the corresponding function based on role
   if (signerRole === "seller") {
-    const tx = await contract.signAsSeller();
+    const tx = await contract.signAsSeller(signature);
     await tx.wait();
     return tx.hash;
   } else if (signerRole === "buyer") {
-    const tx = await contract.signAsBuyer();
+    const tx = await contract.signAsBuyer(signature);
     await tx.wait();
     return tx.hash;
   } else {
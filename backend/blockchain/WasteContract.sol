@@ -2,31 +2,96 @@
 pragma solidity ^0.8.0;
 
 contract WasteContract {
+    // EIP-712 types matching the ContractSignature the parties sign off-chain. The domain binds a signature
+    // to this chain and this deployment; a party who signed before deployment could only bind it to the chain.
+    bytes32 private constant DOMAIN_TYPEHASH = keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+    bytes32 private constant PRE_DEPLOYMENT_DOMAIN_TYPEHASH = keccak256("EIP712Domain(string name,string version,uint256 chainId)");
+    bytes32 private constant SIGNATURE_TYPEHASH = keccak256("ContractSignature(string contractId,string role,bytes32 termsHash)");
+
+    address public platform;
     address public seller;
     address public buyer;
-    string public terms;
+    string public contractId;
+    bytes32 public termsHash;
     bool public sellerSigned;
     bool public buyerSigned;
 
-    constructor(string memory _terms) {
-        terms = _terms;
+    event Signed(address indexed party, string role);
+    event FullySigned(bytes32 termsHash);
 
-        // Both roles are initially assigned to deployer (your wallet)
-        seller = msg.sender;
-        buyer = msg.sender;
-    }
+    constructor(address _seller, address _buyer, string memory _contractId, bytes32 _termsHash) {
+        require(_seller != address(0) && _buyer != address(0), "Party address required");
+        require(_seller != _buyer, "Seller and buyer must differ");
 
-    function signAsBuyer() public {
-        require(!buyerSigned, "Buyer already signed");
-        buyerSigned = true;
+        platform = msg.sender;
+        seller = _seller;
+        buyer = _buyer;
+        contractId = _contractId;
+        termsHash = _termsHash;
     }
 
-    function signAsSeller() public {
+    // The seller signs directly, or anyone relays the seller's EIP-712 signature
+    function signAsSeller(bytes calldata signature) public {
         require(!sellerSigned, "Seller already signed");
+        require(isAuthorised(seller, "seller", signature), "Only the seller can sign");
         sellerSigned = true;
+        emit Signed(seller, "seller");
+        emitIfFullySigned();
+    }
+
+    // The buyer signs directly, or anyone relays the buyer's EIP-712 signature
+    function signAsBuyer(bytes calldata signature) public {
+        require(!buyerSigned, "Buyer already signed");
+        require(isAuthorised(buyer, "buyer", signature), "Only the buyer can sign");
+        buyerSigned = true;
+        emit Signed(buyer, "buyer");
+        emitIfFullySigned();
     }
 
     function isFullySigned() public view returns (bool) {
         return sellerSigned && buyerSigned;
     }
+
+    // Digest of the typed data a party signs for the given role
+    function signingDigest(string memory role) public view returns (bytes32) {
+        return digestFor(keccak256(abi.encode(DOMAIN_TYPEHASH, keccak256("WasteEx"), keccak256("1"), block.chainid, address(this))), role);
+    }
+
+    // Digest of the same typed data signed before this contract's address was known
+    function preDeploymentSigningDigest(string memory role) public view returns (bytes32) {
+        return digestFor(keccak256(abi.encode(PRE_DEPLOYMENT_DOMAIN_TYPEHASH, keccak256("WasteEx"), keccak256("1"), block.chainid)), role);
+    }
+
+    function digestFor(bytes32 domainSeparator, string memory role) private view returns (bytes32) {
+        bytes32 structHash = keccak256(abi.encode(
+            SIGNATURE_TYPEHASH,
+            keccak256(bytes(contractId)),
+            keccak256(bytes(role)),
+            termsHash
+        ));
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator, structHash));
+    }
+
+    function isAuthorised(address party, string memory role, bytes calldata signature) private view returns (bool) {
+        if (msg.sender == party) return true;
+        return recoverSigner(signingDigest(role), signature) == party
+            || recoverSigner(preDeploymentSigningDigest(role), signature) == party;
+    }
+
+    function recoverSigner(bytes32 digest, bytes calldata signature) private pure returns (address) {
+        if (signature.length != 65) return address(0);
+
+        bytes32 r = bytes32(signature[0:32]);
+        bytes32 s = bytes32(signature[32:64]);
+        uint8 v = uint8(signature[64]);
+        if (v < 27) v += 27;
+
+        // Reject malleable signatures (upper-half s), as OpenZeppelin's ECDSA does
+        if (uint256(s) > 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0) return address(0);
+        return ecrecover(digest, v, r, s);
+    }
+
+    function emitIfFullySigned() private {
+        if (isFullySigned()) emit FullySigned(termsHash);
+    }
 }
@@ -0,0 +1,158 @@
+const { expect } = require('chai');
+const { ethers } = require('hardhat');
+const { getSigningRequest } = require('../../utils/ContractSignatureService');
+
+// A stored contract as ContractSignatureService sees it; only the id and terms are signed
+const storedContract = {
+  _id: '66f1c0ffee00000000000001',
+  terms: { materialType: 'HDPE regrind', quantity: { value: 10, unit: 'tonnes' }, totalValue: 118000 }
+};
+
+describe('WasteContract', () => {
+  let platform, seller, buyer, stranger, wasteContract, deployedContract;
+
+  // Sign the same typed data the backend hands to a party's wallet, by default once the contract is deployed
+  const signAs = async (wallet, role, contract = deployedContract) => {
+    const { domain, types, message } = getSigningRequest(contract, role);
+    return wallet.signTypedData(domain, types, message);
+  };
+
+  before(async () => {
+    process.env.CHAIN_ID = (await ethers.provider.getNetwork()).chainId.toString();
+  });
+
+  after(() => {
+    delete process.env.CHAIN_ID;
+  });
+
+  beforeEach(async () => {
+    [platform, seller, buyer, stranger] = await ethers.getSigners();
+    const { message } = getSigningRequest(storedContract, 'seller');
+    wasteContract = await ethers.deployContract('WasteContract', [seller.address, buyer.address, message.contractId, message.termsHash], platform);
+    deployedContract = { ...storedContract, blockchain: { contractAddress: await wasteContract.getAddress() } };
+  });
+
+  describe('deployment', () => {
+    it('records the parties, the platform and the terms hash', async () => {
+      expect(await wasteContract.platform()).to.equal(platform.address);
+      expect(await wasteContract.seller()).to.equal(seller.address);
+      expect(await wasteContract.buyer()).to.equal(buyer.address);
+      expect(await wasteContract.termsHash()).to.equal(getSigningRequest(storedContract, 'seller').message.termsHash);
+    });
+
+    it('requires two distinct parties', async () => {
+      await expect(ethers.deployContract('WasteContract', [seller.address, seller.address, 'c', ethers.ZeroHash]))
+        .to.be.revertedWith('Seller and buyer must differ');
+      await expect(ethers.deployContract('WasteContract', [ethers.ZeroAddress, buyer.address, 'c', ethers.ZeroHash]))
+        .to.be.revertedWith('Party address required');
+    });
+  });
+
+  describe('direct signing', () => {
+    it('lets each party sign for its own role', async () => {
+      await expect(wasteContract.connect(seller).signAsSeller('0x'))
+        .to.emit(wasteContract, 'Signed').withArgs(seller.address, 'seller');
+      await expect(wasteContract.connect(buyer).signAsBuyer('0x'))
+        .to.emit(wasteContract, 'Signed').withArgs(buyer.address, 'buyer');
+
+      expect(await wasteContract.sellerSigned()).to.equal(true);
+      expect(await wasteContract.buyerSigned()).to.equal(true);
+    });
+
+    it('only lets the seller sign as seller', async () => {
+      await expect(wasteContract.connect(buyer).signAsSeller('0x')).to.be.revertedWith('Only the seller can sign');
+      await expect(wasteContract.connect(platform).signAsSeller('0x')).to.be.revertedWith('Only the seller can sign');
+    });
+
+    it('only lets the buyer sign as buyer', async () => {
+      await expect(wasteContract.connect(seller).signAsBuyer('0x')).to.be.revertedWith('Only the buyer can sign');
+      await expect(wasteContract.connect(stranger).signAsBuyer('0x')).to.be.revertedWith('Only the buyer can sign');
+    });
+
+    it('refuses a second signature from the same party', async () => {
+      await wasteContract.connect(seller).signAsSeller('0x');
+
+      await expect(wasteContract.connect(seller).signAsSeller('0x')).to.be.revertedWith('Seller already signed');
+    });
+  });
+
+  describe('relayed signatures', () => {
+    it('rebuilds the digest the backend asks parties to sign', async () => {
+      const { domain, types, message } = getSigningRequest(deployedContract, 'buyer');
+
+      expect(await wasteContract.signingDigest('buyer')).to.equal(ethers.TypedDataEncoder.hash(domain, types, message));
+    });
+
+    it('rebuilds the digest of a signing request made before deployment', async () => {
+      const { domain, types, message } = getSigningRequest(storedContract, 'buyer');
+
+      expect(await wasteContract.preDeploymentSigningDigest('buyer')).to.equal(ethers.TypedDataEncoder.hash(domain, types, message));
+    });
+
+    it('accepts a signature made before the contract was deployed', async () => {
+      await expect(wasteContract.signAsSeller(await signAs(seller, 'seller', storedContract)))
+        .to.emit(wasteContract, 'Signed').withArgs(seller.address, 'seller');
+    });
+
+    it('accepts each party\'s EIP-712 signature relayed by the platform', async () => {
+      await expect(wasteContract.connect(platform).signAsSeller(await signAs(seller, 'seller')))
+        .to.emit(wasteContract, 'Signed').withArgs(seller.address, 'seller');
+      await expect(wasteContract.connect(platform).signAsBuyer(await signAs(buyer, 'buyer')))
+        .to.emit(wasteContract, 'Signed').withArgs(buyer.address, 'buyer');
+
+      expect(await wasteContract.isFullySigned()).to.equal(true);
+    });
+
+    it('rejects a signature from the wrong party', async () => {
+      await expect(wasteContract.signAsSeller(await signAs(buyer, 'seller'))).to.be.revertedWith('Only the seller can sign');
+      await expect(wasteContract.signAsBuyer(await signAs(stranger, 'buyer'))).to.be.revertedWith('Only the buyer can sign');
+    });
+
+    it('rejects a party\'s signature made for the other role', async () => {
+      await expect(wasteContract.signAsSeller(await signAs(seller, 'buyer'))).to.be.revertedWith('Only the seller can sign');
+      await expect(wasteContract.signAsBuyer(await signAs(buyer, 'seller'))).to.be.revertedWith('Only the buyer can sign');
+    });
+
+    it('rejects a signature over different terms', async () => {
+      const amended = { ...deployedContract, terms: { ...storedContract.terms, totalValue: 99000 } };
+
+      await expect(wasteContract.signAsSeller(await signAs(seller, 'seller', amended))).to.be.revertedWith('Only the seller can sign');
+    });
+
+    it('rejects a signature made for another chain', async () => {
+      process.env.CHAIN_ID = '11155111';
+      const signature = await signAs(seller, 'seller');
+      process.env.CHAIN_ID = (await ethers.provider.getNetwork()).chainId.toString();
+
+      await expect(wasteContract.signAsSeller(signature)).to.be.revertedWith('Only the seller can sign');
+    });
+
+    it('rejects a signature made for another deployment of the same contract', async () => {
+      const redeployed = { ...storedContract, blockchain: { contractAddress: stranger.address } };
+
+      await expect(wasteContract.signAsSeller(await signAs(seller, 'seller', redeployed))).to.be.revertedWith('Only the seller can sign');
+    });
+
+    it('rejects malformed and malleable signatures', async () => {
+      const signature = ethers.Signature.from(await signAs(seller, 'seller'));
+      const order = BigInt('0xFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFFEBAAEDCE6AF48A03BBFD25E8CD0364141');
+      const malleable = ethers.concat([
+        signature.r,
+        ethers.toBeHex(order - BigInt(signature.s), 32),
+        ethers.toBeHex(signature.v === 27 ? 28 : 27, 1)
+      ]);
+
+      await expect(wasteContract.signAsSeller('0x1234')).to.be.revertedWith('Only the seller can sign');
+      await expect(wasteContract.signAsSeller(malleable)).to.be.revertedWith('Only the seller can sign');
+    });
+  });
+
+  describe('FullySigned', () => {
+    it('is emitted with the terms hash once the second party signs', async () => {
+      await expect(wasteContract.signAsBuyer(await signAs(buyer, 'buyer'))).not.to.emit(wasteContract, 'FullySigned');
+
+      await expect(wasteContract.signAsSeller(await signAs(seller, 'seller')))
+        .to.emit(wasteContract, 'FullySigned').withArgs(await wasteContract.termsHash());
+    });
+  });
+});
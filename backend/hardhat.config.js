@@ -0,0 +1,30 @@
+require('@nomicfoundation/hardhat-ethers');
+require('@nomicfoundation/hardhat-chai-matchers');
+const path = require('path');
+const { subtask } = require('hardhat/config');
+const { TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD } = require('hardhat/builtin-tasks/task-names');
+
+const SOLC_VERSION = '0.8.26';
+
+// Compile with the solc-js build from npm instead of downloading a native compiler
+subtask(TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD, async ({ solcVersion }, hre, runSuper) => {
+  if (solcVersion !== SOLC_VERSION) return runSuper();
+
+  const solc = require('solc');
+  return {
+    compilerPath: path.join(path.dirname(require.resolve('solc')), 'soljson.js'),
+    isSolcJs: true,
+    version: solcVersion,
+    longVersion: solc.version()
+  };
+});
+
+module.exports = {
+  solidity: SOLC_VERSION,
+  paths: {
+    sources: './blockchain',
+    tests: './blockchain/test',
+    cache: './blockchain/cache',
+    artifacts: './blockchain/artifacts'
+  }
+};
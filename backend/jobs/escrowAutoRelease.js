@@ -0,0 +1,31 @@
+// jobs/escrowAutoRelease.js
+const Payment = require('../models/Payment');
+const { releasePaymentToSeller } = require('../utils/EscrowService');
+
+/**
+ * Release escrowed payments whose auto-release date has passed,
+ * unless a dispute or refund request is still open on them.
+ */
+const autoReleaseEscrow = async () => {
+  const now = new Date();
+  const payments = await Payment.find({
+    status: 'held_in_escrow',
+    'escrow.autoReleaseDate': { $lte: now },
+    'escrow.releaseConditions.disputeResolved': { $ne: false },
+    'refund.status': { $nin: ['requested', 'processing'] }
+  });
+
+  let released = 0;
+  for (const payment of payments) {
+    try {
+      await releasePaymentToSeller(payment, undefined, 'Escrow auto-released after the holding period');
+      released++;
+    } catch (error) {
+      console.error(`Auto-release failed for payment ${payment._id}:`, error);
+    }
+  }
+
+  return { eligible: payments.length, released };
+};
+
+module.exports = autoReleaseEscrow;
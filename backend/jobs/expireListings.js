@@ -0,0 +1,18 @@
+// jobs/expireListings.js
+const WasteListing = require('../models/WasteListing');
+const MaterialRequest = require('../models/MaterialRequest');
+
+/**
+ * Expire active listings and material requests past their expiry date.
+ */
+const expireListings = async () => {
+  const now = new Date();
+  const filter = { status: 'active', expiryDate: { $lt: now } };
+
+  const listings = await WasteListing.updateMany(filter, { status: 'expired' });
+  const requests = await MaterialRequest.updateMany(filter, { status: 'expired' });
+
+  return { listings: listings.modifiedCount, requests: requests.modifiedCount };
+};
+
+module.exports = expireListings;
@@ -0,0 +1,17 @@
+// jobs/index.js
+const { registerJob, runJob, startScheduler, stopScheduler } = require('./scheduler');
+const autoReleaseEscrow = require('./escrowAutoRelease');
+const markOverdueMilestones = require('./milestoneOverdue');
+const expireListings = require('./expireListings');
+const sendSavedSearchDigests = require('./savedSearchDigest');
+const handleNegotiationInactivity = require('./negotiationInactivity');
+
+const HOUR = 60 * 60 * 1000;
+
+registerJob('escrow-auto-release', 15 * 60 * 1000, autoReleaseEscrow);
+registerJob('milestone-overdue', HOUR, markOverdueMilestones);
+registerJob('listing-expiry', HOUR, expireListings);
+registerJob('saved-search-digest', 24 * HOUR, sendSavedSearchDigests);
+registerJob('negotiation-inactivity', HOUR, handleNegotiationInactivity);
+
+module.exports = { runJob, startScheduler, stopScheduler };
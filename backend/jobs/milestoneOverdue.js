@@ -0,0 +1,32 @@
+// jobs/milestoneOverdue.js
+const Contract = require('../models/Contract');
+
+/**
+ * Mark pending contract milestones past their due date as overdue.
+ */
+const markOverdueMilestones = async () => {
+  const now = new Date();
+  const contracts = await Contract.find({
+    status: { $nin: ['completed', 'cancelled'] },
+    milestones: { $elemMatch: { status: 'pending', dueDate: { $lt: now } } }
+  });
+
+  let milestones = 0;
+  for (const contract of contracts) {
+    contract.milestones.forEach(milestone => {
+      if (milestone.status === 'pending' && milestone.dueDate && milestone.dueDate < now) {
+        milestone.status = 'overdue';
+        contract.auditTrail.push({
+          action: 'Milestone marked overdue',
+          details: { milestoneId: milestone._id, title: milestone.title, dueDate: milestone.dueDate }
+        });
+        milestones++;
+      }
+    });
+    await contract.save();
+  }
+
+  return { contracts: contracts.length, milestones };
+};
+
+module.exports = markOverdueMilestones;
@@ -0,0 +1,90 @@
+// jobs/negotiationInactivity.js
+const Negotiation = require('../models/Negotiation');
+const { notifyUsers } = require('../utils/NotificationService');
+const { addSystemMessage, getAwaitingParticipants } = require('../utils/NegotiationService');
+const { publishToNegotiation } = require('../utils/RealtimeService');
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Days without activity before the party who owes a reply is reminded, and before the negotiation expires
+const REMINDER_DAYS = parseFloat(process.env.NEGOTIATION_REMINDER_DAYS) || 3;
+const EXPIRY_DAYS = parseFloat(process.env.NEGOTIATION_EXPIRY_DAYS) || 14;
+
+// Open negotiations that haven't turned into a contract yet
+const OPEN_FILTER = { status: { $in: ['active', 'pending'] }, contract: { $exists: false } };
+
+const formatDays = (days) => `${days} day${days === 1 ? '' : 's'}`;
+
+/**
+ * Remind participants of negotiations that have gone quiet that a reply is owed,
+ * and expire negotiations that stay quiet past the expiry window.
+ */
+const handleNegotiationInactivity = async () => {
+  const now = Date.now();
+
+  // Expire first so a thread past both windows isn't reminded as well
+  const stale = await Negotiation.find({ ...OPEN_FILTER, lastActivity: { $lt: new Date(now - EXPIRY_DAYS * DAY) } });
+
+  let expired = 0;
+  for (const negotiation of stale) {
+    try {
+      negotiation.status = 'expired';
+      addSystemMessage(negotiation, null, `This negotiation expired after ${formatDays(EXPIRY_DAYS)} without activity.`);
+      await negotiation.save();
+
+      publishToNegotiation(negotiation, 'message', { message: negotiation.messages[negotiation.messages.length - 1] });
+      publishToNegotiation(negotiation, 'status', { status: negotiation.status, lastActivity: negotiation.lastActivity });
+
+      await notifyUsers(negotiation.participants.map(p => p.user), {
+        type: 'deal',
+        title: 'Negotiation Expired',
+        message: `"${negotiation.title}" expired after ${formatDays(EXPIRY_DAYS)} without activity.`,
+        priority: 'low',
+        actionUrl: '/negotiations',
+        metadata: { negotiationId: negotiation._id }
+      });
+      expired++;
+    } catch (error) {
+      console.error(`Expiring negotiation ${negotiation._id} failed:`, error);
+    }
+  }
+
+  // Remind once per quiet spell: skip threads already reminded since their last activity
+  const quiet = await Negotiation.find({
+    ...OPEN_FILTER,
+    lastActivity: { $lt: new Date(now - REMINDER_DAYS * DAY) },
+    $or: [
+      { reminderSentAt: { $exists: false } },
+      { $expr: { $lt: ['$reminderSentAt', '$lastActivity'] } }
+    ]
+  });
+
+  let reminded = 0;
+  for (const negotiation of quiet) {
+    try {
+      const expiresAt = new Date(negotiation.lastActivity.getTime() + EXPIRY_DAYS * DAY);
+      const recipients = getAwaitingParticipants(negotiation);
+
+      await notifyUsers(recipients, {
+        type: 'deal',
+        title: 'Reply Needed',
+        message: negotiation.currentOffer?.status === 'pending'
+          ? `An offer in "${negotiation.title}" is waiting for your response. The negotiation expires on ${expiresAt.toLocaleDateString('en-IN')}.`
+          : `"${negotiation.title}" is waiting for your reply. The negotiation expires on ${expiresAt.toLocaleDateString('en-IN')}.`,
+        priority: 'medium',
+        actionUrl: '/negotiations',
+        metadata: { negotiationId: negotiation._id, amount: negotiation.currentOffer?.price }
+      });
+
+      // Not saved through the document so the reminder doesn't count as activity
+      await Negotiation.updateOne({ _id: negotiation._id }, { reminderSentAt: new Date() });
+      reminded += recipients.length;
+    } catch (error) {
+      console.error(`Reminding negotiation ${negotiation._id} failed:`, error);
+    }
+  }
+
+  return { expired, reminded };
+};
+
+module.exports = handleNegotiationInactivity;
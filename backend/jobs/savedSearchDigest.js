@@ -0,0 +1,67 @@
+// jobs/savedSearchDigest.js
+const SavedSearch = require('../models/SavedSearch');
+const { notifyUsers } = require('../utils/NotificationService');
+const { sendEmail, getFrontendUrl } = require('../utils/EmailService');
+
+/**
+ * Send each buyer one digest of the listings queued by their daily saved search alerts.
+ */
+const sendSavedSearchDigests = async () => {
+  const searches = await SavedSearch.find({
+    'alerts.enabled': true,
+    'alerts.frequency': 'daily',
+    'pendingListings.0': { $exists: true }
+  })
+    .populate('user', 'name email isActive preferences.notifications')
+    .populate('pendingListings', 'title quantity location status');
+
+  const digests = new Map();
+  searches.forEach(search => {
+    if (!search.user || search.user.isActive === false) return;
+
+    const userId = search.user._id.toString();
+    if (!digests.has(userId)) digests.set(userId, { user: search.user, sections: [] });
+
+    // Listings sold or withdrawn since they were queued are left out
+    const listings = search.pendingListings.filter(listing => listing && listing.status === 'active');
+    if (listings.length > 0) digests.get(userId).sections.push({ name: search.name, listings });
+  });
+
+  let listingsSent = 0;
+  for (const { user, sections } of digests.values()) {
+    const count = new Set(sections.flatMap(section => section.listings.map(l => l._id.toString()))).size;
+    if (count === 0) continue;
+    listingsSent += count;
+
+    await notifyUsers(user._id, {
+      type: 'deal',
+      title: 'Saved Search Digest',
+      message: `${count} new listing${count === 1 ? '' : 's'} matched ${sections.map(s => `"${s.name}"`).join(', ')} today.`,
+      priority: 'low',
+      actionUrl: '/listings'
+    });
+
+    if (user.preferences?.notifications?.email !== false) {
+      const body = sections.map(section => [
+        `${section.name}:`,
+        ...section.listings.map(listing =>
+          `  - ${listing.title} (${listing.quantity.value} ${listing.quantity.unit}, ${listing.location.city}) ${getFrontendUrl(`/listings/${listing._id}`)}`)
+      ].join('\n')).join('\n\n');
+
+      await sendEmail({
+        to: user.email,
+        subject: `${count} new listing${count === 1 ? '' : 's'} match your saved searches`,
+        text: `Hi ${user.name},\n\nNew listings matched your saved searches today:\n\n${body}`
+      });
+    }
+  }
+
+  await SavedSearch.updateMany(
+    { _id: { $in: searches.map(search => search._id) } },
+    { $set: { pendingListings: [], lastDigestAt: new Date() } }
+  );
+
+  return { users: digests.size, listings: listingsSent };
+};
+
+module.exports = sendSavedSearchDigests;
@@ -0,0 +1,118 @@
+// jobs/scheduler.js
+const os = require('os');
+const Job = require('../models/Job');
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS) || 60 * 1000;
+const LOCK_TIMEOUT_MS = parseInt(process.env.JOB_LOCK_TIMEOUT_MS) || 10 * 60 * 1000;
+const instanceId = `${os.hostname()}-${process.pid}`;
+
+const handlers = new Map();
+let timer = null;
+let ticking = false;
+
+/**
+ * Register a recurring job.
+ * @param {string} name - Unique job name, used as the key in the jobs collection.
+ * @param {number} intervalMs - Delay between the end of one run and the next.
+ * @param {Function} handler - Async function returning a summary of what it did.
+ */
+const registerJob = (name, intervalMs, handler) => {
+  handlers.set(name, { intervalMs, handler });
+};
+
+// Atomically claim a due job so concurrent instances never run it twice
+const claimJob = async (name, force = false) => {
+  const now = new Date();
+  const filter = {
+    name,
+    enabled: true,
+    $or: [
+      { lockedAt: null },
+      { lockedAt: { $lt: new Date(now.getTime() - LOCK_TIMEOUT_MS) } }
+    ]
+  };
+  if (!force) filter.nextRunAt = { $lte: now };
+
+  return Job.findOneAndUpdate(
+    filter,
+    { lockedAt: now, lockedBy: instanceId, lastRunAt: now },
+    { new: true }
+  );
+};
+
+const runJob = async (name, { force = false } = {}) => {
+  const registered = handlers.get(name);
+  if (!registered) throw new Error(`Unknown job: ${name}`);
+
+  const job = await claimJob(name, force);
+  if (!job) return null;
+
+  const update = {
+    lockedAt: null,
+    lockedBy: null,
+    lastFinishedAt: new Date(),
+    nextRunAt: new Date(Date.now() + job.intervalMs),
+    $inc: { runCount: 1 }
+  };
+
+  try {
+    const result = await registered.handler();
+    update.lastStatus = 'success';
+    update.lastResult = result;
+    update.lastError = null;
+    return result;
+  } catch (error) {
+    console.error(`❌ Job ${name} failed:`, error);
+    update.lastStatus = 'failed';
+    update.lastError = error.message;
+    update.$inc.failCount = 1;
+    throw error;
+  } finally {
+    await Job.updateOne({ _id: job._id }, update);
+  }
+};
+
+const tick = async () => {
+  if (ticking) return;
+  ticking = true;
+  try {
+    for (const name of handlers.keys()) {
+      try {
+        await runJob(name);
+      } catch (error) {
+        // Already recorded on the job; keep running the others
+      }
+    }
+  } finally {
+    ticking = false;
+  }
+};
+
+/**
+ * Persist job definitions and start polling for due jobs.
+ * Jobs that came due while the server was down run on the first tick.
+ */
+const startScheduler = async () => {
+  for (const [name, { intervalMs }] of handlers) {
+    await Job.updateOne(
+      { name },
+      { $set: { intervalMs }, $setOnInsert: { nextRunAt: new Date() } },
+      { upsert: true }
+    );
+  }
+
+  // Release locks left behind by this host if it crashed mid-run
+  await Job.updateMany({ lockedBy: instanceId }, { lockedAt: null, lockedBy: null });
+
+  timer = setInterval(tick, POLL_INTERVAL_MS);
+  timer.unref();
+  console.log(`⏱️  Job scheduler started with ${handlers.size} jobs`);
+  await tick();
+};
+
+const stopScheduler = () => {
+  if (timer) clearInterval(timer);
+  timer = null;
+};
+
+module.exports = { registerJob, runJob, startScheduler, stopScheduler };
@@ -0,0 +1,40 @@
+const multer = require('multer');
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10 MB
+const MAX_FILES = 5;
+
+// Documents and images traders exchange: specs, lab reports, photos, spreadsheets
+const ALLOWED_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'application/pdf',
+  'text/plain',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+];
+
+// Files are held in memory and handed to the storage driver by the route
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_FILE_SIZE, files: MAX_FILES },
+  fileFilter: (req, file, cb) => {
+    if (ALLOWED_TYPES.includes(file.mimetype)) return cb(null, true);
+
+    const error = new Error(`File type not allowed: ${file.originalname}`);
+    error.statusCode = 400;
+    cb(error);
+  }
+});
+
+// Accept up to MAX_FILES files in the "files" field
+const uploadFiles = upload.array('files', MAX_FILES);
+
+// Accept a single file in the "file" field
+const uploadFile = upload.single('file');
+
+module.exports = { uploadFiles, uploadFile, MAX_FILE_SIZE, MAX_FILES, ALLOWED_TYPES };
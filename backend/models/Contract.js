@@ -20,6 +20,8 @@ const contractSchema = new mongoose.Schema({
       company: String,
       signedAt: Date,
       signature: String,
+      signerAddress: String,
+      termsHash: String,
       ipAddress: String
     },
     buyer: {
@@ -31,6 +33,8 @@ const contractSchema = new mongoose.Schema({
       company: String,
       signedAt: Date,
       signature: String,
+      signerAddress: String,
+      termsHash: String,
       ipAddress: String
     }
   },
@@ -121,6 +125,14 @@ const contractSchema = new mongoose.Schema({
     enum: ['not_initiated', 'pending', 'held_in_escrow', 'released_to_seller', 'refunded', 'failed'],
     default: 'not_initiated'
   },
+  // SHA-256 of each version of the canonical PDF; a new version is rendered when a party signs
+  pdfVersions: [{
+    sha256: String,
+    generatedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
   documents: [{
     name: String,
     url: String,
@@ -137,6 +149,11 @@ const contractSchema = new mongoose.Schema({
   milestones: [{
     title: String,
     description: String,
+    type: {
+      type: String,
+      enum: ['advance-payment', 'pickup', 'delivery', 'inspection', 'payment', 'custom'],
+      default: 'custom'
+    },
     dueDate: Date,
     status: {
       type: String,
@@ -147,6 +164,10 @@ const contractSchema = new mongoose.Schema({
     completedBy: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User'
+    },
+    shipment: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Shipment'
     }
   }],
   logistics: {
@@ -156,9 +177,15 @@ const contractSchema = new mongoose.Schema({
     actualDelivery: Date,
     cost: Number
   },
+  // Fixed from the fee schedule when the contract is created
   platformFee: {
     percentage: Number,
     amount: Number,
+    rule: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'FeeRule'
+    },
+    ruleName: String,
     paid: {
       type: Boolean,
       default: false
@@ -215,6 +242,25 @@ contractSchema.pre('save', async function(next) {
   next();
 });
 
+// Signatures cover the terms; changing the terms after anyone has signed voids every signature
+contractSchema.pre('save', function(next) {
+  const { seller, buyer } = this.parties;
+  if (this.isNew || !this.isModified('terms') || (!seller.signedAt && !buyer.signedAt)) return next();
+
+  [seller, buyer].forEach(party => {
+    party.signedAt = undefined;
+    party.signature = undefined;
+    party.signerAddress = undefined;
+    party.termsHash = undefined;
+  });
+  if (this.status === 'signed') this.status = 'pending';
+  this.auditTrail.push({
+    action: 'Signatures invalidated',
+    details: { reason: 'Contract terms changed after signing' }
+  });
+  next();
+});
+
 // Indexes for better query performance
 contractSchema.index({ contractNumber: 1 });
 contractSchema.index({ 'parties.seller.user': 1, status: 1 });
@@ -0,0 +1,145 @@
+const mongoose = require('mongoose');
+
+const evidenceSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  url: {
+    type: String,
+    required: true
+  },
+  type: {
+    type: String,
+    enum: ['image', 'document', 'video', 'other'],
+    default: 'other'
+  },
+  uploadedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  uploadedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+const disputeSchema = new mongoose.Schema({
+  disputeNumber: {
+    type: String,
+    unique: true
+  },
+  contract: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  subject: {
+    type: {
+      type: String,
+      enum: ['contract', 'payment', 'shipment'],
+      required: true
+    },
+    payment: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Payment'
+    },
+    shipment: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Shipment'
+    }
+  },
+  category: {
+    type: String,
+    enum: ['quality', 'quantity', 'delay', 'damage', 'lost', 'payment', 'documentation', 'breach', 'other'],
+    required: true
+  },
+  reason: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 200
+  },
+  description: {
+    type: String,
+    required: true,
+    maxlength: 5000
+  },
+  raisedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  against: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  evidence: [evidenceSchema],
+  responses: [{
+    user: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    message: {
+      type: String,
+      required: true,
+      maxlength: 5000
+    },
+    evidence: [evidenceSchema],
+    createdAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  status: {
+    type: String,
+    enum: ['open', 'investigating', 'escalated', 'resolved'],
+    default: 'open'
+  },
+  statusHistory: [{
+    status: String,
+    note: String,
+    changedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    changedAt: {
+      type: Date,
+      default: Date.now
+    }
+  }],
+  resolution: String,
+  resolvedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  resolvedAt: Date
+}, {
+  timestamps: true
+});
+
+// Generate dispute number before saving
+disputeSchema.pre('save', async function(next) {
+  if (this.isNew && !this.disputeNumber) {
+    const year = new Date().getFullYear();
+    const count = await this.constructor.countDocuments({
+      createdAt: {
+        $gte: new Date(year, 0, 1),
+        $lt: new Date(year + 1, 0, 1)
+      }
+    });
+    this.disputeNumber = `DSP-${year}-${String(count + 1).padStart(6, '0')}`;
+  }
+  next();
+});
+
+// Indexes for better query performance
+disputeSchema.index({ contract: 1, status: 1 });
+disputeSchema.index({ raisedBy: 1, createdAt: -1 });
+disputeSchema.index({ against: 1, createdAt: -1 });
+disputeSchema.index({ status: 1, createdAt: -1 });
+
+module.exports = mongoose.model('Dispute', disputeSchema);
@@ -0,0 +1,83 @@
+const mongoose = require('mongoose');
+
+// One band of the schedule: the percentage applies to deals worth more than `above` rupees
+const feeTierSchema = new mongoose.Schema({
+  above: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  percentage: {
+    type: Number,
+    required: true,
+    min: 0,
+    max: 100
+  }
+}, { _id: false });
+
+const feeRuleSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  // Seller rules beat category rules, which beat the default schedule
+  scope: {
+    type: String,
+    enum: ['default', 'category', 'seller'],
+    default: 'default'
+  },
+  category: {
+    type: String,
+    required: function() { return this.scope === 'category'; }
+  },
+  seller: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: function() { return this.scope === 'seller'; }
+  },
+  // Promotions run alongside the regular schedule and only ever lower the fee
+  isPromotion: {
+    type: Boolean,
+    default: false
+  },
+  validFrom: Date,
+  validUntil: Date,
+  tiers: {
+    type: [feeTierSchema],
+    validate: {
+      validator: (tiers) => tiers.length > 0,
+      message: 'A fee rule needs at least one tier'
+    }
+  },
+  minimumFee: {
+    type: Number,
+    min: 0
+  },
+  maximumFee: {
+    type: Number,
+    min: 0
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+feeRuleSchema.index({ isActive: 1, scope: 1 });
+feeRuleSchema.index({ seller: 1, isActive: 1 });
+feeRuleSchema.index({ category: 1, isActive: 1 });
+
+module.exports = mongoose.model('FeeRule', feeRuleSchema);
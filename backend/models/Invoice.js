@@ -0,0 +1,161 @@
+const mongoose = require('mongoose');
+
+// Invoice parties are copied from the user profiles when the document is issued,
+// so later profile edits never change an invoice that has already gone out.
+// The platform itself has no user; its details come from the server configuration.
+const invoicePartySchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  gstin: String,
+  address: {
+    street: String,
+    city: String,
+    state: String,
+    pincode: String
+  },
+  stateCode: String
+}, { _id: false });
+
+const invoiceLineSchema = new mongoose.Schema({
+  description: {
+    type: String,
+    required: true
+  },
+  hsnCode: {
+    type: String,
+    required: true
+  },
+  isService: {
+    type: Boolean,
+    default: false
+  },
+  quantity: Number,
+  unit: String,
+  unitPrice: Number,
+  taxableValue: {
+    type: Number,
+    required: true
+  },
+  gstRate: {
+    type: Number,
+    required: true
+  },
+  cgst: {
+    type: Number,
+    default: 0
+  },
+  sgst: {
+    type: Number,
+    default: 0
+  },
+  igst: {
+    type: Number,
+    default: 0
+  },
+  total: {
+    type: Number,
+    required: true
+  }
+}, { _id: false });
+
+const invoiceSchema = new mongoose.Schema({
+  invoiceNumber: {
+    type: String,
+    required: true
+  },
+  // invoice: seller to buyer for the material. platform_fee: platform to seller for its service fee.
+  type: {
+    type: String,
+    enum: ['invoice', 'credit_note', 'platform_fee'],
+    default: 'invoice'
+  },
+  // Numbers run per financial year (April to March) and per document type: per seller for the
+  // seller's invoices and credit notes, in one platform-wide series for platform fee invoices
+  sequence: {
+    type: Number,
+    required: true
+  },
+  financialYear: {
+    type: String,
+    required: true
+  },
+  seller: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  // Not set on platform fee invoices, which the buyer is no party to
+  buyer: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: function() { return this.type !== 'platform_fee'; }
+  },
+  contract: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Contract',
+    required: true
+  },
+  payment: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Payment',
+    required: true
+  },
+  // The invoice a credit note reduces
+  originalInvoice: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Invoice'
+  },
+  reason: String,
+  issuedAt: {
+    type: Date,
+    default: Date.now
+  },
+  supplier: {
+    type: invoicePartySchema,
+    required: true
+  },
+  recipient: {
+    type: invoicePartySchema,
+    required: true
+  },
+  placeOfSupply: String,
+  supplyType: {
+    type: String,
+    enum: ['intra_state', 'inter_state'],
+    required: true
+  },
+  lines: [invoiceLineSchema],
+  totals: {
+    taxableValue: Number,
+    cgst: Number,
+    sgst: Number,
+    igst: Number,
+    total: Number
+  },
+  currency: {
+    type: String,
+    default: 'INR'
+  },
+  issuedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+invoiceSchema.index({ seller: 1, type: 1, financialYear: 1, sequence: 1 }, { unique: true });
+invoiceSchema.index({ type: 1, financialYear: 1, sequence: 1 }, { unique: true, partialFilterExpression: { type: 'platform_fee' } });
+invoiceSchema.index({ payment: 1 }, { unique: true, partialFilterExpression: { type: 'invoice' } });
+invoiceSchema.index({ payment: 1, type: 1 }, { unique: true, partialFilterExpression: { type: 'platform_fee' } });
+invoiceSchema.index({ contract: 1, issuedAt: 1 });
+invoiceSchema.index({ buyer: 1, issuedAt: -1 });
+invoiceSchema.index({ originalInvoice: 1 });
+
+module.exports = mongoose.model('Invoice', invoiceSchema);
@@ -0,0 +1,47 @@
+const mongoose = require('mongoose');
+
+const jobSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  intervalMs: {
+    type: Number,
+    required: true,
+    min: 1000
+  },
+  enabled: {
+    type: Boolean,
+    default: true
+  },
+  nextRunAt: {
+    type: Date,
+    default: Date.now
+  },
+  lastRunAt: Date,
+  lastFinishedAt: Date,
+  lastStatus: {
+    type: String,
+    enum: ['success', 'failed']
+  },
+  lastResult: mongoose.Schema.Types.Mixed,
+  lastError: String,
+  runCount: {
+    type: Number,
+    default: 0
+  },
+  failCount: {
+    type: Number,
+    default: 0
+  },
+  // Lock so only one process runs a job at a time; stale locks expire
+  lockedAt: Date,
+  lockedBy: String
+}, {
+  timestamps: true
+});
+
+jobSchema.index({ enabled: 1, nextRunAt: 1 });
+
+module.exports = mongoose.model('Job', jobSchema);
@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const { resolveCoordinates, toGeoPoint } = require('../utils/GeoService');
 
 const materialRequestSchema = new mongoose.Schema({
   buyer: {
@@ -67,6 +68,11 @@ const materialRequestSchema = new mongoose.Schema({
     coordinates: {
       latitude: Number,
       longitude: Number
+    },
+    // GeoJSON point derived from coordinates or the first preferred city on save
+    point: {
+      type: { type: String, enum: ['Point'] },
+      coordinates: { type: [Number], default: undefined }
     }
   },
   qualityGrade: {
@@ -121,6 +127,18 @@ const materialRequestSchema = new mongoose.Schema({
     },
     message: String,
     quotedPrice: Number,
+    // Buyer's handling of the response; negotiating/accepted are set by the negotiation and contract flow
+    status: {
+      type: String,
+      enum: ['pending', 'shortlisted', 'declined', 'negotiating', 'accepted'],
+      default: 'pending'
+    },
+    statusUpdatedAt: Date,
+    declineReason: String,
+    negotiation: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Negotiation'
+    },
     createdAt: {
       type: Date,
       default: Date.now
@@ -137,6 +155,7 @@ const materialRequestSchema = new mongoose.Schema({
 materialRequestSchema.index({ buyer: 1, status: 1 });
 materialRequestSchema.index({ category: 1, status: 1 });
 materialRequestSchema.index({ 'location.preferredCities': 1 });
+materialRequestSchema.index({ 'location.point': '2dsphere' });
 materialRequestSchema.index({ urgency: 1, createdAt: -1 });
 
 // Text index for search functionality
@@ -152,6 +171,18 @@ materialRequestSchema.virtual('responseCount').get(function() {
   return this.responses.length;
 });
 
+// Keep the GeoJSON point in sync with the request location
+materialRequestSchema.pre('save', function(next) {
+  if (this.isModified('location') || !this.location.point?.coordinates) {
+    const coordinates = resolveCoordinates({
+      coordinates: this.location.coordinates,
+      city: this.location.preferredCities?.[0]
+    });
+    this.location.point = coordinates ? toGeoPoint(coordinates) : undefined;
+  }
+  next();
+});
+
 // Auto-expire requests after 30 days if no expiry date set
 materialRequestSchema.pre('save', function(next) {
   if (!this.expiryDate && this.isNew) {
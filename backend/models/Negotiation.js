@@ -1,10 +1,11 @@
 const mongoose = require('mongoose');
 
 const messageSchema = new mongoose.Schema({
+  // System messages come from the platform and have no sender
   sender: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'User',
-    required: true
+    required: function() { return this.type !== 'system'; }
   },
   content: {
     type: String,
@@ -18,10 +19,12 @@ const messageSchema = new mongoose.Schema({
   attachments: [{
     name: String,
     url: String,
-    type: String,
+    publicId: String,
+    type: { type: String },
     size: Number
   }],
   offer: {
+    offerId: mongoose.Schema.Types.ObjectId,
     price: Number,
     quantity: Number,
     deliveryDate: Date,
@@ -41,11 +44,57 @@ const messageSchema = new mongoose.Schema({
     type: Boolean,
     default: false
   },
-  editedAt: Date
+  editedAt: Date,
+  editHistory: [{
+    content: String,
+    editedAt: Date
+  }]
 }, {
   timestamps: true
 });
 
+const offerSchema = new mongoose.Schema({
+  price: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  deliveryDate: Date,
+  terms: String,
+  paymentTerms: {
+    type: String,
+    enum: ['advance', 'cod', 'net-15', 'net-30', 'net-45']
+  },
+  qualitySpecs: String,
+  logistics: String,
+  offeredBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  offeredAt: {
+    type: Date,
+    default: Date.now
+  },
+  status: {
+    type: String,
+    enum: ['pending', 'accepted', 'rejected', 'countered'],
+    default: 'pending'
+  },
+  respondedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  respondedAt: Date,
+  counterOf: mongoose.Schema.Types.ObjectId,
+  message: mongoose.Schema.Types.ObjectId
+});
+
 const negotiationSchema = new mongoose.Schema({
   title: {
     type: String,
@@ -65,7 +114,14 @@ const negotiationSchema = new mongoose.Schema({
     joinedAt: {
       type: Date,
       default: Date.now
-    }
+    },
+    // The participant's own labels; like private notes, the other party never sees them
+    priority: {
+      type: String,
+      enum: ['low', 'medium', 'high'],
+      default: 'medium'
+    },
+    tags: [String]
   }],
   relatedListing: {
     type: mongoose.Schema.Types.ObjectId,
@@ -81,7 +137,9 @@ const negotiationSchema = new mongoose.Schema({
     default: 'active'
   },
   messages: [messageSchema],
+  offers: [offerSchema],
   currentOffer: {
+    offerId: mongoose.Schema.Types.ObjectId,
     price: Number,
     quantity: Number,
     deliveryDate: Date,
@@ -106,6 +164,29 @@ const negotiationSchema = new mongoose.Schema({
     qualitySpecs: String,
     logistics: String
   },
+  termChangeRequest: {
+    changes: {
+      price: Number,
+      quantity: Number,
+      deliveryDate: Date,
+      paymentTerms: String
+    },
+    reason: String,
+    requestedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    requestedAt: Date,
+    approvedBy: [{
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    }],
+    status: {
+      type: String,
+      enum: ['pending', 'approved', 'rejected']
+    },
+    resolvedAt: Date
+  },
   contract: {
     type: mongoose.Schema.Types.ObjectId,
     ref: 'Contract'
@@ -114,12 +195,8 @@ const negotiationSchema = new mongoose.Schema({
     type: Date,
     default: Date.now
   },
-  priority: {
-    type: String,
-    enum: ['low', 'medium', 'high'],
-    default: 'medium'
-  },
-  tags: [String],
+  // Last inactivity reminder; one is sent per quiet spell
+  reminderSentAt: Date,
   notes: [{
     user: {
       type: mongoose.Schema.Types.ObjectId,
@@ -133,7 +210,8 @@ const negotiationSchema = new mongoose.Schema({
     createdAt: {
       type: Date,
       default: Date.now
-    }
+    },
+    updatedAt: Date
   }]
 }, {
   timestamps: true
@@ -150,16 +228,37 @@ negotiationSchema.methods.getUnreadCount = function(userId) {
   let unreadCount = 0;
   this.messages.forEach(message => {
     const isRead = message.readBy.some(read => read.user.toString() === userId.toString());
-    if (!isRead && message.sender.toString() !== userId.toString()) {
+    if (!isRead && message.sender?.toString() !== userId.toString()) {
       unreadCount++;
     }
   });
   return unreadCount;
 };
 
-// Update last activity on message add
+// Participant entry of a user, or undefined if they are not part of the negotiation
+negotiationSchema.methods.getParticipant = function(userId) {
+  return this.participants.find(participant =>
+    (participant.user?._id || participant.user).toString() === userId.toString()
+  );
+};
+
+// Plain object for a participant, with their own priority and tags and without other users' private notes or labels
+negotiationSchema.methods.toJSONFor = function(userId) {
+  const negotiation = this.toJSON();
+  const own = this.getParticipant(userId);
+  negotiation.priority = own?.priority || 'medium';
+  negotiation.tags = own?.tags ? [...own.tags] : [];
+  negotiation.participants = negotiation.participants.map(({ priority, tags, ...participant }) => participant);
+  negotiation.notes = (negotiation.notes || []).filter(note =>
+    !note.private || (note.user?._id || note.user).toString() === userId.toString()
+  );
+  return negotiation;
+};
+
+// Update last activity on message add. Read receipts and edits also modify messages,
+// but only a new message restarts the inactivity clock.
 negotiationSchema.pre('save', function(next) {
-  if (this.isModified('messages')) {
+  if (this.messages.some(message => message.isNew)) {
     this.lastActivity = new Date();
   }
   next();
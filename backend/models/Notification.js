@@ -0,0 +1,69 @@
+const mongoose = require('mongoose');
+
+const notificationSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  type: {
+    type: String,
+    required: true,
+    enum: ['deal', 'message', 'shipment', 'payment', 'system', 'security']
+  },
+  title: {
+    type: String,
+    required: true
+  },
+  message: {
+    type: String,
+    required: true
+  },
+  read: {
+    type: Boolean,
+    default: false
+  },
+  readAt: Date,
+  actionUrl: String,
+  priority: {
+    type: String,
+    enum: ['low', 'medium', 'high'],
+    default: 'medium'
+  },
+  metadata: {
+    contractId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Contract'
+    },
+    negotiationId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Negotiation'
+    },
+    shipmentId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Shipment'
+    },
+    paymentId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Payment'
+    },
+    listingId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'WasteListing'
+    },
+    invoiceId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Invoice'
+    },
+    amount: Number,
+    dueDate: Date
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+notificationSchema.index({ user: 1, read: 1, createdAt: -1 });
+notificationSchema.index({ user: 1, type: 1, createdAt: -1 });
+
+module.exports = mongoose.model('Notification', notificationSchema);
@@ -19,6 +19,20 @@ const paymentSchema = new mongoose.Schema({
     ref: 'User',
     required: true
   },
+  // Which part of the contract value this payment covers; advance terms split it in two
+  installment: {
+    type: String,
+    enum: ['full', 'advance', 'balance'],
+    default: 'full'
+  },
+  // Cash on delivery is paid to the seller directly and recorded by them, bypassing escrow
+  settlement: {
+    type: String,
+    enum: ['escrow', 'cod'],
+    default: 'escrow'
+  },
+  // Set on invoices raised at delivery: the delivery date plus the net-N days, if any
+  dueDate: Date,
   amount: {
     total: {
       type: Number,
@@ -47,13 +61,13 @@ const paymentSchema = new mongoose.Schema({
   },
   paymentMethod: {
     type: String,
-    enum: ['razorpay','upi', 'netbanking', 'card', 'wallet'],
+    enum: ['razorpay','upi', 'netbanking', 'card', 'wallet', 'cash', 'cheque'],
     default: 'razorpay'
   },
   gatewayDetails: {
     provider: {
       type: String,
-      enum: ['razorpay', 'stripe', 'payu'],
+      enum: ['razorpay', 'stripe', 'payu', 'fake', 'offline'],
       required: true
     },
     transactionId: String,
@@ -97,20 +111,29 @@ const paymentSchema = new mongoose.Schema({
       type: Boolean,
       default: false
     },
+    status: {
+      type: String,
+      enum: ['none', 'requested', 'processing', 'rejected', 'processed'],
+      default: 'none'
+    },
     requestedAt: Date,
     requestedBy: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User'
     },
     reason: String,
+    requestedAmount: Number,
     approved: Boolean,
     approvedAt: Date,
     approvedBy: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User'
     },
+    rejectionReason: String,
     refundAmount: Number,
-    refundTransactionId: String
+    // Latest gateway refund id; every id recorded so far is kept so a redelivered event is recognised
+    refundTransactionId: String,
+    refundTransactionIds: [String]
   },
   dispute: {
     raised: {
@@ -160,14 +183,18 @@ paymentSchema.index({ contract: 1 });
 paymentSchema.index({ buyer: 1, status: 1 });
 paymentSchema.index({ seller: 1, status: 1 });
 paymentSchema.index({ 'gatewayDetails.transactionId': 1 });
+paymentSchema.index({ 'gatewayDetails.gatewayOrderId': 1 });
 paymentSchema.index({ status: 1, createdAt: -1 });
+paymentSchema.index({ status: 1, dueDate: 1 });
+paymentSchema.index({ 'refund.status': 1, 'refund.requestedAt': -1 });
 
 // Virtual for checking if payment can be released
 paymentSchema.virtual('canRelease').get(function() {
   return this.status === 'held_in_escrow' &&
          this.escrow.releaseConditions.deliveryConfirmed &&
          this.escrow.releaseConditions.qualityApproved &&
-         this.escrow.releaseConditions.disputeResolved;
+         this.escrow.releaseConditions.disputeResolved &&
+         !['requested', 'processing'].includes(this.refund.status);
 });
 
 // Method to add timeline entry
@@ -0,0 +1,74 @@
+const mongoose = require('mongoose');
+
+const savedSearchSchema = new mongoose.Schema({
+  user: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  // Same parameters accepted by GET /api/waste-listings
+  filters: {
+    category: String,
+    city: String,
+    state: String,
+    urgency: {
+      type: String,
+      enum: ['low', 'medium', 'high']
+    },
+    search: String,
+    minPrice: Number,
+    maxPrice: Number,
+    minQty: Number,
+    maxQty: Number,
+    qtyUnit: {
+      type: String,
+      enum: ['kg', 'tonnes', 'liters', 'pieces', 'm3']
+    },
+    hazardous: Boolean,
+    frequency: {
+      type: String,
+      enum: ['daily', 'weekly', 'monthly', 'one-time']
+    },
+    certifications: String,
+    sellerVerified: Boolean,
+    near: String,
+    radiusKm: Number
+  },
+  alerts: {
+    enabled: {
+      type: Boolean,
+      default: true
+    },
+    frequency: {
+      type: String,
+      enum: ['instant', 'daily'],
+      default: 'instant'
+    }
+  },
+  // Matching listings waiting for the next daily digest
+  pendingListings: [{
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'WasteListing'
+  }],
+  matchCount: {
+    type: Number,
+    default: 0
+  },
+  lastMatchedAt: Date,
+  lastDigestAt: Date
+}, {
+  timestamps: true
+});
+
+// Indexes for better query performance
+savedSearchSchema.index({ user: 1, createdAt: -1 });
+savedSearchSchema.index({ 'alerts.enabled': 1, 'filters.category': 1 });
+savedSearchSchema.index({ 'alerts.frequency': 1, 'pendingListings.0': 1 });
+
+module.exports = mongoose.model('SavedSearch', savedSearchSchema);
@@ -69,6 +69,12 @@ const userSchema = new mongoose.Schema({
     match: /^[6-9]\d{9}$/
   },
   avatar: String,
+  // Wallet that signs contracts for this user; bound on first signature
+  blockchainAddress: {
+    type: String,
+    unique: true,
+    sparse: true
+  },
   isActive: {
     type: Boolean,
     default: true
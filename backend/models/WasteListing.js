@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const { resolveCoordinates, toGeoPoint } = require('../utils/GeoService');
 
 const wasteListingSchema = new mongoose.Schema({
   seller: {
@@ -71,6 +72,11 @@ const wasteListingSchema = new mongoose.Schema({
     coordinates: {
       latitude: Number,
       longitude: Number
+    },
+    // GeoJSON point derived from coordinates, pincode or city on save
+    point: {
+      type: { type: String, enum: ['Point'] },
+      coordinates: { type: [Number], default: undefined }
     }
   },
   urgency: {
@@ -142,6 +148,7 @@ wasteListingSchema.index({ category: 1, status: 1 });
 wasteListingSchema.index({ 'location.city': 1, 'location.state': 1 });
 wasteListingSchema.index({ urgency: 1, createdAt: -1 });
 wasteListingSchema.index({ featured: 1, createdAt: -1 });
+wasteListingSchema.index({ 'location.point': '2dsphere' });
 
 // Text index for search functionality
 wasteListingSchema.index({
@@ -156,6 +163,15 @@ wasteListingSchema.virtual('inquiryCount').get(function() {
   return this.inquiries.length;
 });
 
+// Keep the GeoJSON point in sync with the listing location
+wasteListingSchema.pre('save', function(next) {
+  if (this.isModified('location') || !this.location.point?.coordinates) {
+    const coordinates = resolveCoordinates(this.location);
+    this.location.point = coordinates ? toGeoPoint(coordinates) : undefined;
+  }
+  next();
+});
+
 // Auto-expire listings after 30 days if no expiry date set
 wasteListingSchema.pre('save', function(next) {
   if (!this.expiryDate && this.isNew) {
@@ -1,10 +1,14 @@
 const express = require('express');
-const { query, validationResult } = require('express-validator');
+const { body, query, validationResult } = require('express-validator');
 const User = require('../models/User');
 const WasteListing = require('../models/WasteListing');
 const MaterialRequest = require('../models/MaterialRequest');
 const Contract = require('../models/Contract');
 const Shipment = require('../models/Shipment');
+const Job = require('../models/Job');
+const FeeRule = require('../models/FeeRule');
+const { runJob } = require('../jobs');
+const { DEFAULT_TIERS } = require('../utils/FeeScheduleService');
 const { auth, authorize } = require('../middleware/auth');
 
 const router = express.Router();
@@ -39,7 +43,7 @@ router.get('/dashboard', [auth, authorize('admin')], async (req, res) => {
     );
     
     const platformRevenue = completedContractsData.reduce(
-      (sum, contract) => sum + (contract.platformFee?.amount || contract.terms.totalValue * 0.025),
+      (sum, contract) => sum + (contract.platformFee?.amount || 0),
       0
     );
     
@@ -178,7 +182,7 @@ router.get('/transactions', [auth, authorize('admin')], async (req, res) => {
     let totalRevenue = 0;
 
     const transactions = contracts.map(contract => {
-      const commission = contract.platformFee?.amount || (contract.terms.totalValue * 0.025);
+      const commission = contract.platformFee?.amount || 0;
       totalRevenue += commission;
 
       return {
@@ -302,4 +306,231 @@ router.get('/analytics', [auth, authorize('admin')], async (req, res) => {
   }
 });
 
-module.exports = router;
\ No newline at end of file
+// @route   GET /api/admin/jobs
+// @desc    Get scheduled job status
+// @access  Private (Admin only)
+router.get('/jobs', [auth, authorize('admin')], async (req, res) => {
+  try {
+    const jobs = await Job.find().sort({ name: 1 });
+
+    res.json({
+      success: true,
+      data: { jobs }
+    });
+  } catch (error) {
+    console.error('Get admin jobs error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching jobs'
+    });
+  }
+});
+
+// @route   POST /api/admin/jobs/:name/run
+// @desc    Run a scheduled job immediately
+// @access  Private (Admin only)
+router.post('/jobs/:name/run', [auth, authorize('admin')], async (req, res) => {
+  try {
+    const result = await runJob(req.params.name, { force: true });
+
+    if (result === null) {
+      return res.status(409).json({
+        success: false,
+        message: 'Job is disabled or already running'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Job completed successfully',
+      data: { result }
+    });
+  } catch (error) {
+    console.error('Run admin job error:', error);
+    res.status(error.message.startsWith('Unknown job') ? 404 : 500).json({
+      success: false,
+      message: error.message.startsWith('Unknown job') ? 'Job not found' : 'Server error while running job'
+    });
+  }
+});
+
+const feeRuleValidation = [
+  body('name').trim().isLength({ min: 2, max: 100 }).withMessage('Name must be between 2 and 100 characters'),
+  body('scope').optional().isIn(['default', 'category', 'seller']).withMessage('Invalid scope'),
+  body('category').if(body('scope').equals('category')).trim().notEmpty().withMessage('Category is required for a category rule'),
+  body('seller').if(body('scope').equals('seller')).isMongoId().withMessage('A valid seller is required for a seller rule'),
+  body('isPromotion').optional().isBoolean().withMessage('isPromotion must be true or false'),
+  body('validFrom').optional({ nullable: true }).isISO8601().withMessage('Invalid start date'),
+  body('validUntil').optional({ nullable: true }).isISO8601().withMessage('Invalid end date'),
+  body('tiers').isArray({ min: 1 }).withMessage('At least one tier is required'),
+  body('tiers.*.above').isFloat({ min: 0 }).withMessage('Tier thresholds must be zero or more'),
+  body('tiers.*.percentage').isFloat({ min: 0, max: 100 }).withMessage('Tier percentages must be between 0 and 100'),
+  body('minimumFee').optional({ nullable: true }).isFloat({ min: 0 }).withMessage('Minimum fee must be zero or more'),
+  body('maximumFee').optional({ nullable: true }).isFloat({ min: 0 }).withMessage('Maximum fee must be zero or more'),
+  body('isActive').optional().isBoolean().withMessage('isActive must be true or false')
+];
+
+// Fields an admin may set on a fee rule; the ones that don't apply to the scope are cleared
+const pickFeeRuleFields = (input) => {
+  const scope = input.scope || 'default';
+  return {
+    name: input.name,
+    scope,
+    category: scope === 'category' ? input.category : undefined,
+    seller: scope === 'seller' ? input.seller : undefined,
+    isPromotion: Boolean(input.isPromotion),
+    validFrom: input.validFrom || undefined,
+    validUntil: input.validUntil || undefined,
+    tiers: input.tiers.map(tier => ({ above: Number(tier.above), percentage: Number(tier.percentage) })),
+    minimumFee: input.minimumFee ?? undefined,
+    maximumFee: input.maximumFee ?? undefined,
+    isActive: input.isActive ?? true
+  };
+};
+
+// Send a 400 when a rule's dates or fee limits contradict each other; returns whether the rule is usable
+const checkFeeRule = (fields, res) => {
+  if (fields.validFrom && fields.validUntil && new Date(fields.validUntil) <= new Date(fields.validFrom)) {
+    res.status(400).json({ success: false, message: 'The end date must be after the start date' });
+    return false;
+  }
+  if (fields.minimumFee != null && fields.maximumFee != null && Number(fields.maximumFee) < Number(fields.minimumFee)) {
+    res.status(400).json({ success: false, message: 'The maximum fee cannot be below the minimum fee' });
+    return false;
+  }
+  if (fields.isPromotion && !fields.validUntil) {
+    res.status(400).json({ success: false, message: 'A promotion needs an end date' });
+    return false;
+  }
+  return true;
+};
+
+// @route   GET /api/admin/fee-rules
+// @desc    Get the platform fee schedule
+// @access  Private (Admin only)
+router.get('/fee-rules', [auth, authorize('admin')], async (req, res) => {
+  try {
+    const rules = await FeeRule.find()
+      .populate('seller', 'name company.name')
+      .sort({ isActive: -1, scope: 1, createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: { rules, defaultTiers: DEFAULT_TIERS }
+    });
+  } catch (error) {
+    console.error('Get fee rules error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching fee rules'
+    });
+  }
+});
+
+// @route   POST /api/admin/fee-rules
+// @desc    Add a fee rule
+// @access  Private (Admin only)
+router.post('/fee-rules', [auth, authorize('admin'), ...feeRuleValidation], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const fields = pickFeeRuleFields(req.body);
+    if (!checkFeeRule(fields, res)) return;
+
+    const rule = await FeeRule.create({ ...fields, createdBy: req.user._id, updatedBy: req.user._id });
+
+    res.status(201).json({
+      success: true,
+      message: 'Fee rule created',
+      data: { rule }
+    });
+  } catch (error) {
+    console.error('Create fee rule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while creating fee rule'
+    });
+  }
+});
+
+// @route   PUT /api/admin/fee-rules/:id
+// @desc    Update a fee rule. Contracts already created keep the fee they were given.
+// @access  Private (Admin only)
+router.put('/fee-rules/:id', [auth, authorize('admin'), ...feeRuleValidation], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const rule = await FeeRule.findById(req.params.id);
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Fee rule not found'
+      });
+    }
+
+    const fields = pickFeeRuleFields(req.body);
+    if (!checkFeeRule(fields, res)) return;
+
+    rule.set({ ...fields, updatedBy: req.user._id });
+    await rule.save();
+
+    res.json({
+      success: true,
+      message: 'Fee rule updated',
+      data: { rule }
+    });
+  } catch (error) {
+    console.error('Update fee rule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while updating fee rule'
+    });
+  }
+});
+
+// @route   DELETE /api/admin/fee-rules/:id
+// @desc    Deactivate a fee rule; it stays on record for the contracts it priced
+// @access  Private (Admin only)
+router.delete('/fee-rules/:id', [auth, authorize('admin')], async (req, res) => {
+  try {
+    const rule = await FeeRule.findById(req.params.id);
+    if (!rule) {
+      return res.status(404).json({
+        success: false,
+        message: 'Fee rule not found'
+      });
+    }
+
+    rule.isActive = false;
+    rule.updatedBy = req.user._id;
+    await rule.save();
+
+    res.json({
+      success: true,
+      message: 'Fee rule deactivated',
+      data: { rule }
+    });
+  } catch (error) {
+    console.error('Deactivate fee rule error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while deactivating fee rule'
+    });
+  }
+});
+
+module.exports = router;
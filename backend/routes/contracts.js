@@ -5,7 +5,18 @@ const Contract = require('../models/Contract');
 const Negotiation = require('../models/Negotiation');
 const { auth } = require('../middleware/auth');
 const deployContract = require('../blockchain/DeployWasteContract');
+const signContractOnChain = require('../blockchain/SignWasteContract');
 const User = require('../models/User');
+const WasteListing = require('../models/WasteListing');
+const MaterialRequest = require('../models/MaterialRequest');
+const { notifyUsers } = require('../utils/NotificationService');
+const { getContractFee } = require('../utils/FeeScheduleService');
+const { getScheduleStatus } = require('../utils/BillingService');
+const { buildDefaultMilestones, completeMilestone, getShipmentBlocker } = require('../utils/MilestoneService');
+const Shipment = require('../models/Shipment');
+const { hashTerms, sha256, renderContractPdf } = require('../utils/ContractDocumentService');
+const { getSigningRequest, recoverSigners, getSignatureStatus } = require('../utils/ContractSignatureService');
+const { uploadFile } = require('../middleware/upload');
 const abiJson = require('../blockchain/WasteContractAbi.json');
 const { ethers } = require('ethers');
 
@@ -66,7 +77,8 @@ router.get('/:id', auth, async (req, res) => {
       .populate('parties.seller.user', 'name company.name company.address phone')
       .populate('parties.buyer.user', 'name company.name company.address phone')
       .populate('relatedNegotiation', 'title')
-      .populate('relatedListing', 'title wasteType');
+      .populate('relatedListing', 'title wasteType')
+      .populate('payment', 'paymentId status amount refund timeline');
 
     if (!contract) return res.status(404).json({ success: false, message: 'Contract not found' });
 
@@ -77,43 +89,326 @@ router.get('/:id', auth, async (req, res) => {
       return res.status(403).json({ success: false, message: 'Not authorized to view this contract' });
     }
 
-    const contractInstance = new ethers.Contract(contract.blockchain.contractAddress, abiJson.abi, wallet);
-    const sellerSigned = await contractInstance.sellerSigned();
-    const buyerSigned = await contractInstance.buyerSigned();
-    const isFullySigned = await contractInstance.isFullySigned();
+    if (contract.blockchain?.contractAddress) {
+      const contractInstance = new ethers.Contract(contract.blockchain.contractAddress, abiJson.abi, wallet);
+      const sellerSigned = await contractInstance.sellerSigned();
+      const buyerSigned = await contractInstance.buyerSigned();
+      const isFullySigned = await contractInstance.isFullySigned();
 
-    console.log("Seller Signed:", sellerSigned);
-    console.log("Buyer Signed:", buyerSigned);
-    console.log("Is Fully Signed?", isFullySigned);
+      console.log("Seller Signed:", sellerSigned);
+      console.log("Buyer Signed:", buyerSigned);
+      console.log("Is Fully Signed?", isFullySigned);
+    }
 
-    res.json({ success: true, data: { contract } });
+    res.json({
+      success: true,
+      data: { contract, signatureStatus: getSignatureStatus(contract), paymentSchedule: await getScheduleStatus(contract) }
+    });
   } catch (error) {
     console.error('Get contract error:', error);
     res.status(500).json({ success: false, message: 'Server error while fetching contract' });
   }
 });
 
+// GET /api/contracts/:id/signing-request - EIP-712 typed data for the current user to sign
+router.get('/:id/signing-request', auth, async (req, res) => {
+  try {
+    const contract = await Contract.findById(req.params.id);
+    if (!contract) return res.status(404).json({ success: false, message: 'Contract not found' });
+
+    const role = getPartyRole(contract, req.user._id);
+    if (!role) return res.status(403).json({ success: false, message: 'Not authorized' });
+
+    res.json({
+      success: true,
+      data: { role, signingRequest: getSigningRequest(contract, role), walletAddress: req.user.blockchainAddress || null }
+    });
+  } catch (error) {
+    console.error('Get signing request error:', error);
+    res.status(500).json({ success: false, message: 'Server error' });
+  }
+});
+
+// GET /api/contracts/:id/pdf - Download the canonical contract PDF and record its hash
+router.get('/:id/pdf', auth, async (req, res) => {
+  try {
+    const contract = await Contract.findById(req.params.id)
+      .populate('parties.seller.user', 'name company.name')
+      .populate('parties.buyer.user', 'name company.name');
+
+    if (!contract) return res.status(404).json({ success: false, message: 'Contract not found' });
+    if (!isContractParty(contract, req.user._id) && req.user.type !== 'admin') {
+      return res.status(403).json({ success: false, message: 'Not authorized to view this contract' });
+    }
+
+    const { pdf, sha256: hash } = renderContractPdf(contract);
+    if (!contract.pdfVersions.some(version => version.sha256 === hash)) {
+      contract.pdfVersions.push({ sha256: hash });
+      contract.auditTrail.push({ action: 'Contract PDF generated', performedBy: req.user._id, details: { sha256: hash } });
+      await contract.save();
+    }
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${contract.contractNumber}.pdf"`,
+      'X-Content-SHA256': hash
+    });
+    res.send(pdf);
+  } catch (error) {
+    console.error('Contract PDF error:', error);
+    res.status(500).json({ success: false, message: 'Server error while generating contract PDF' });
+  }
+});
+
+// POST /api/contracts/:id/verify - Check an uploaded PDF against the recorded hashes and the on-chain terms
+router.post('/:id/verify', [auth, uploadFile], async (req, res) => {
+  try {
+    if (!req.file) return res.status(400).json({ success: false, message: 'Upload the contract PDF to verify' });
+
+    const contract = await Contract.findById(req.params.id);
+    if (!contract) return res.status(404).json({ success: false, message: 'Contract not found' });
+    if (!isContractParty(contract, req.user._id) && req.user.type !== 'admin') {
+      return res.status(403).json({ success: false, message: 'Not authorized to verify this contract' });
+    }
+
+    const hash = sha256(req.file.buffer);
+    const versionIndex = contract.pdfVersions.findIndex(version => version.sha256 === hash);
+    const version = contract.pdfVersions[versionIndex];
+
+    // The terms in the database must still hash to the value anchored at deployment
+    let termsMatchChain = null;
+    if (contract.blockchain?.contractAddress) {
+      try {
+        const contractInstance = new ethers.Contract(contract.blockchain.contractAddress, abiJson.abi, provider);
+        termsMatchChain = (await contractInstance.termsHash()) === `0x${hashTerms(contract)}`;
+      } catch (error) {
+        console.error('On-chain terms lookup failed:', error.message);
+      }
+    }
+
+    res.json({
+      success: true,
+      data: {
+        sha256: hash,
+        matchesRecordedPdf: Boolean(version),
+        isLatestVersion: Boolean(version) && versionIndex === contract.pdfVersions.length - 1,
+        generatedAt: version?.generatedAt,
+        termsMatchChain,
+        contractAddress: contract.blockchain?.contractAddress
+      }
+    });
+  } catch (error) {
+    console.error('Verify contract PDF error:', error);
+    res.status(500).json({ success: false, message: 'Server error while verifying contract PDF' });
+  }
+});
+
+// GET /api/contracts/draft/:negotiationId - Derive a contract draft from accepted negotiation terms
+router.get('/draft/:negotiationId', auth, async (req, res) => {
+  try {
+    const negotiation = await Negotiation.findById(req.params.negotiationId);
+    if (!negotiation) return res.status(404).json({ success: false, message: 'Negotiation not found' });
+
+    const isParticipant = negotiation.participants.some(p => p.user.toString() === req.user._id.toString());
+    if (!isParticipant) return res.status(403).json({ success: false, message: 'Not authorized' });
+
+    if (!hasAgreedTerms(negotiation)) {
+      return res.status(400).json({ success: false, message: 'An offer must be accepted before drafting a contract' });
+    }
+
+    const draft = await buildContractDraft(negotiation);
+
+    res.json({
+      success: true,
+      data: {
+        draft,
+        agreedTerms: negotiation.agreedTerms,
+        termChangeRequest: negotiation.termChangeRequest
+      }
+    });
+  } catch (error) {
+    console.error('Get contract draft error:', error);
+    res.status(500).json({ success: false, message: 'Server error while drafting contract' });
+  }
+});
+
+// POST /api/contracts/draft/:negotiationId/term-changes - Propose a change to the accepted terms
+router.post('/draft/:negotiationId/term-changes', [
+  auth,
+  body('price').optional().isFloat({ min: 0 }).withMessage('Price must be positive'),
+  body('quantity').optional().isFloat({ min: 0 }).withMessage('Quantity must be positive'),
+  body('deliveryDate').optional().isISO8601().withMessage('Invalid delivery date'),
+  body('paymentTerms').optional().isIn(['advance', 'cod', 'net-15', 'net-30', 'net-45']).withMessage('Invalid payment terms'),
+  body('reason').optional().isString()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ success: false, errors: errors.array() });
+
+    const negotiation = await Negotiation.findById(req.params.negotiationId);
+    if (!negotiation) return res.status(404).json({ success: false, message: 'Negotiation not found' });
+
+    const isParticipant = negotiation.participants.some(p => p.user.toString() === req.user._id.toString());
+    if (!isParticipant) return res.status(403).json({ success: false, message: 'Not authorized' });
+
+    if (!hasAgreedTerms(negotiation)) {
+      return res.status(400).json({ success: false, message: 'An offer must be accepted before changing its terms' });
+    }
+    if (negotiation.contract) {
+      return res.status(400).json({ success: false, message: 'A contract has already been created for this negotiation' });
+    }
+
+    const changes = {};
+    ['price', 'quantity', 'deliveryDate', 'paymentTerms'].forEach(field => {
+      if (req.body[field] !== undefined) changes[field] = req.body[field];
+    });
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json({ success: false, message: 'No term changes provided' });
+    }
+
+    negotiation.termChangeRequest = {
+      changes,
+      reason: req.body.reason,
+      requestedBy: req.user._id,
+      requestedAt: new Date(),
+      approvedBy: [req.user._id],
+      status: 'pending'
+    };
+    negotiation.messages.push({
+      sender: req.user._id,
+      content: `${req.user.name} proposed a change to the agreed terms${req.body.reason ? `: ${req.body.reason}` : '.'}`,
+      type: 'system'
+    });
+    await negotiation.save();
+
+    const counterparty = negotiation.participants.find(p => p.user.toString() !== req.user._id.toString());
+    await notifyUsers(counterparty?.user, {
+      type: 'deal',
+      title: 'Term Change Requested',
+      message: `${req.user.name} wants to change the agreed terms in "${negotiation.title}". Your approval is required.`,
+      priority: 'high',
+      actionUrl: '/negotiations',
+      metadata: { negotiationId: negotiation._id }
+    });
+
+    res.status(201).json({ success: true, message: 'Term change proposed', data: { termChangeRequest: negotiation.termChangeRequest } });
+  } catch (error) {
+    console.error('Propose term change error:', error);
+    res.status(500).json({ success: false, message: 'Server error while proposing term change' });
+  }
+});
+
+// POST /api/contracts/draft/:negotiationId/term-changes/:decision - Approve or reject a proposed term change
+router.post('/draft/:negotiationId/term-changes/:decision', auth, async (req, res) => {
+  try {
+    const { decision } = req.params;
+    if (!['approve', 'reject'].includes(decision)) {
+      return res.status(400).json({ success: false, message: 'Decision must be approve or reject' });
+    }
+
+    const negotiation = await Negotiation.findById(req.params.negotiationId);
+    if (!negotiation) return res.status(404).json({ success: false, message: 'Negotiation not found' });
+
+    const isParticipant = negotiation.participants.some(p => p.user.toString() === req.user._id.toString());
+    if (!isParticipant) return res.status(403).json({ success: false, message: 'Not authorized' });
+
+    const changeRequest = negotiation.termChangeRequest;
+    if (!changeRequest || changeRequest.status !== 'pending') {
+      return res.status(400).json({ success: false, message: 'No pending term change' });
+    }
+    if (changeRequest.approvedBy.some(id => id.toString() === req.user._id.toString())) {
+      return res.status(400).json({ success: false, message: 'You have already approved this change' });
+    }
+
+    if (decision === 'reject') {
+      changeRequest.status = 'rejected';
+      changeRequest.resolvedAt = new Date();
+      negotiation.messages.push({ sender: req.user._id, content: `${req.user.name} rejected the proposed term change.`, type: 'system' });
+    } else {
+      changeRequest.approvedBy.push(req.user._id);
+      const allApproved = negotiation.participants.every(p =>
+        changeRequest.approvedBy.some(id => id.toString() === p.user.toString())
+      );
+
+      if (allApproved) {
+        const { changes } = changeRequest;
+        if (changes.price != null) negotiation.agreedTerms.price = changes.price;
+        if (changes.quantity != null) negotiation.agreedTerms.quantity = changes.quantity;
+        if (changes.deliveryDate) negotiation.agreedTerms.deliveryDate = changes.deliveryDate;
+        if (changes.paymentTerms) negotiation.agreedTerms.paymentTerms = changes.paymentTerms;
+        negotiation.dealValue = negotiation.agreedTerms.price * negotiation.agreedTerms.quantity;
+
+        changeRequest.status = 'approved';
+        changeRequest.resolvedAt = new Date();
+        negotiation.messages.push({ sender: req.user._id, content: 'Both parties approved the term change. Agreed terms have been updated.', type: 'system' });
+      }
+    }
+    await negotiation.save();
+
+    await notifyUsers(changeRequest.requestedBy, {
+      type: 'deal',
+      title: decision === 'approve' ? 'Term Change Approved' : 'Term Change Rejected',
+      message: `${req.user.name} ${decision === 'approve' ? 'approved' : 'rejected'} your proposed term change in "${negotiation.title}".`,
+      priority: 'medium',
+      actionUrl: '/negotiations',
+      metadata: { negotiationId: negotiation._id }
+    });
+
+    res.json({
+      success: true,
+      message: `Term change ${decision === 'approve' ? 'approved' : 'rejected'}`,
+      data: { termChangeRequest: changeRequest, agreedTerms: negotiation.agreedTerms }
+    });
+  } catch (error) {
+    console.error('Resolve term change error:', error);
+    res.status(500).json({ success: false, message: 'Server error while resolving term change' });
+  }
+});
+
 // POST /api/contracts - Create new contract from negotiation
 router.post('/', [
   auth,
   body('negotiationId').isMongoId().withMessage('Invalid negotiation ID'),
-  body('terms').isObject().withMessage('Contract terms are required'),
-  body('terms.materialType').notEmpty().withMessage('Material type is required'),
-  body('terms.quantity.value').isFloat({ min: 0 }).withMessage('Quantity must be positive'),
-  body('terms.price.value').isFloat({ min: 0 }).withMessage('Price must be positive'),
-  body('terms.deliveryDate').isISO8601().withMessage('Valid delivery date is required'),
-  body('terms.paymentTerms').isIn(['advance', 'cod', 'net-15', 'net-30', 'net-45']).withMessage('Invalid payment terms')
+  body('terms').optional().isObject().withMessage('Contract terms must be an object'),
+  body('terms.quantity.value').optional().isFloat({ min: 0 }).withMessage('Quantity must be positive'),
+  body('terms.quantity.unit').optional().isIn(['kg', 'tonnes', 'liters', 'pieces', 'm3']).withMessage('Invalid quantity unit'),
+  body('terms.price.value').optional().isFloat({ min: 0 }).withMessage('Price must be positive'),
+  body('terms.deliveryDate').optional().isISO8601().withMessage('Valid delivery date is required'),
+  body('terms.paymentTerms').optional().isIn(['advance', 'cod', 'net-15', 'net-30', 'net-45']).withMessage('Invalid payment terms')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
     if (!errors.isEmpty()) return res.status(400).json({ success: false, errors: errors.array() });
 
-    const negotiation = await Negotiation.findById(req.body.negotiationId).populate('participants.user', 'name company.name blockchainAddress');
+    const negotiation = await Negotiation.findById(req.body.negotiationId).populate('participants.user', 'name company.name company.address blockchainAddress');
     if (!negotiation) return res.status(404).json({ success: false, message: 'Negotiation not found' });
 
     const isParticipant = negotiation.participants.some(p => p.user._id.toString() === req.user._id.toString());
     if (!isParticipant) return res.status(403).json({ success: false, message: 'Not authorized' });
 
+    if (!hasAgreedTerms(negotiation)) {
+      return res.status(400).json({ success: false, message: 'An offer must be accepted before creating a contract' });
+    }
+    if (negotiation.contract) {
+      return res.status(400).json({ success: false, message: 'A contract has already been created for this negotiation' });
+    }
+
+    const draft = await buildContractDraft(negotiation);
+    const terms = mergeContractTerms(draft, req.body.terms || {});
+
+    const drift = getTermDrift(draft, terms);
+    if (drift.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: `Contract terms differ from the accepted offer (${drift.join(', ')}). Both parties must approve a term change first.`,
+        data: { drift, draft }
+      });
+    }
+
+    if (!terms.deliveryDate || !terms.paymentTerms) {
+      return res.status(400).json({ success: false, message: 'Delivery date and payment terms are required' });
+    }
+
     const seller = negotiation.participants.find(p => p.role === 'seller');
     const buyer = negotiation.participants.find(p => p.role === 'buyer');
 
@@ -133,25 +428,28 @@ router.post('/', [
 
     const contract = new Contract({
       contractNumber: newContractNumber,
-      title: `Contract for ${req.body.terms.materialType}`,
+      title: `Contract for ${terms.materialType}`,
       parties: {
         seller: { user: seller.user._id, company: seller.user.company.name },
         buyer: { user: buyer.user._id, company: buyer.user.company.name }
       },
       relatedNegotiation: negotiation._id,
       relatedListing: negotiation.relatedListing,
-      terms: req.body.terms,
+      terms,
+      milestones: buildDefaultMilestones(terms),
       status: 'pending'
     });
+    // The platform fee is fixed from the schedule in force today, whatever changes before payment
+    await getContractFee(contract);
+    contract.auditTrail.push({
+      action: 'Contract drafted from accepted negotiation terms',
+      performedBy: req.user._id,
+      details: { agreedTerms: negotiation.agreedTerms }
+    });
     await contract.save();
 
-    const deployed = await deployContract(JSON.stringify(req.body.terms));
-    contract.blockchain = {
-      deployed: true,
-      contractAddress: deployed.address,
-      transactionHash: deployed.transactionHash,
-      deployedAt: new Date().toISOString()
-    };
+    // Anchor the terms hash now if both parties have linked wallets; otherwise it happens once both have signed
+    await syncContractOnChain(contract);
     await contract.save();
 
     negotiation.status = 'completed';
@@ -168,10 +466,10 @@ router.post('/', [
   }
 });
 
-// POST /api/contracts/:id/sign - Sign a contract (updates both DB and blockchain)
+// POST /api/contracts/:id/sign - Sign a contract with a wallet signature over its terms (updates both DB and blockchain)
 router.post('/:id/sign', [
   auth,
-  body('signature').notEmpty().withMessage('Digital signature is required')
+  body('signature').matches(/^0x[0-9a-fA-F]{130}$/).withMessage('A wallet signature is required')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -180,44 +478,79 @@ router.post('/:id/sign', [
     const contract = await Contract.findById(req.params.id);
     if (!contract) return res.status(404).json({ success: false, message: 'Contract not found' });
 
-    const isSeller = contract.parties.seller.user.toString() === req.user._id.toString();
-    const isBuyer = contract.parties.buyer.user.toString() === req.user._id.toString();
-    if (!isSeller && !isBuyer) return res.status(403).json({ success: false, message: 'Not authorized' });
+    const role = getPartyRole(contract, req.user._id);
+    if (!role) return res.status(403).json({ success: false, message: 'Not authorized' });
 
-    const signatureData = { signedAt: new Date(), signature: req.body.signature, ipAddress: req.ip };
-    if (isSeller) contract.parties.seller = { ...contract.parties.seller, ...signatureData };
-    if (isBuyer) contract.parties.buyer = { ...contract.parties.buyer, ...signatureData };
-
-    if (contract.blockchain?.contractAddress) {
-      const contractInstance = new ethers.Contract(contract.blockchain.contractAddress, abiJson.abi, wallet);
-      if (isSeller) {
-        const tx = await contractInstance.signAsSeller();
-        await tx.wait();
-      }
-      if (isBuyer) {
-        const tx = await contractInstance.signAsBuyer();
-        await tx.wait();
+    if (!['draft', 'pending'].includes(contract.status)) {
+      return res.status(400).json({ success: false, message: 'Contract is not awaiting signatures' });
+    }
+    if (contract.parties[role].signedAt) return res.status(400).json({ success: false, message: 'You have already signed this contract' });
+
+    // The signature must cover the terms as they stand now. A request fetched just before the contract
+    // was deployed lacks its address, so the registered wallet may match under the older domain.
+    const candidates = recoverSigners(contract, role, req.body.signature);
+    if (candidates.length === 0) return res.status(400).json({ success: false, message: 'Signature does not match this contract' });
+
+    let signerAddress = candidates[0];
+    if (req.user.blockchainAddress) {
+      signerAddress = candidates.find(address => address.toLowerCase() === req.user.blockchainAddress.toLowerCase());
+      if (!signerAddress) {
+        return res.status(400).json({ success: false, message: `Please sign with your registered wallet ${req.user.blockchainAddress}` });
       }
+    } else {
+      const walletOwner = await User.findOne({ blockchainAddress: signerAddress, _id: { $ne: req.user._id } });
+      if (walletOwner) return res.status(400).json({ success: false, message: 'This wallet is registered to another account' });
+      await User.updateOne({ _id: req.user._id }, { blockchainAddress: signerAddress });
+    }
 
-      const fullySigned = await contractInstance.isFullySigned();
-      console.log("fullySigned: ", fullySigned);
-      contract.status = fullySigned ? 'signed' : 'pending';
-      if (fullySigned) {
-        contract.auditTrail.push({
-          action: 'Contract fully signed on blockchain',
-          performedBy: req.user._id,
-          details: { blockAddress: contract.blockchain.contractAddress }
-        });
-      }
+    Object.assign(contract.parties[role], {
+      signedAt: new Date(),
+      signature: req.body.signature,
+      signerAddress,
+      termsHash: hashTerms(contract),
+      ipAddress: req.ip
+    });
+
+    const fullySigned = await syncContractOnChain(contract);
+    contract.status = fullySigned ? 'signed' : 'pending';
+    if (fullySigned) {
+      contract.auditTrail.push({
+        action: 'Contract fully signed on blockchain',
+        performedBy: req.user._id,
+        details: { blockAddress: contract.blockchain.contractAddress }
+      });
     }
 
     contract.auditTrail.push({
       action: 'Contract signed',
       performedBy: req.user._id,
-      details: { role: isSeller ? 'seller' : 'buyer' }
+      details: { role, signerAddress }
     });
 
     await contract.save();
+
+    const counterparty = role === 'seller' ? contract.parties.buyer.user : contract.parties.seller.user;
+    if (contract.status === 'signed') {
+      await fulfilRelatedRequest(contract);
+      await notifyUsers([contract.parties.seller.user, contract.parties.buyer.user], {
+        type: 'deal',
+        title: 'Contract Fully Signed',
+        message: `Contract ${contract.contractNumber} for ${contract.terms.materialType} has been signed by both parties.`,
+        priority: 'high',
+        actionUrl: `/contracts/${contract._id}`,
+        metadata: { contractId: contract._id, amount: contract.terms.totalValue }
+      });
+    } else {
+      await notifyUsers(counterparty, {
+        type: 'deal',
+        title: 'Contract Signed',
+        message: `${req.user.name} signed contract ${contract.contractNumber}. Your signature is pending.`,
+        priority: 'high',
+        actionUrl: `/contracts/${contract._id}`,
+        metadata: { contractId: contract._id, amount: contract.terms.totalValue }
+      });
+    }
+
     res.json({ success: true, message: 'Contract signed successfully', data: { contract } });
   } catch (error) {
     console.error('Sign contract error:', error);
@@ -225,4 +558,292 @@ router.post('/:id/sign', [
   }
 });
 
+// POST /api/contracts/:id/milestones - Add a milestone to a contract
+router.post('/:id/milestones', [
+  auth,
+  body('title').trim().isLength({ min: 3, max: 100 }).withMessage('Title must be between 3 and 100 characters'),
+  body('description').optional().trim().isLength({ max: 500 }),
+  body('dueDate').isISO8601().withMessage('Valid due date is required'),
+  body('type').optional().isIn(['advance-payment', 'pickup', 'delivery', 'inspection', 'payment', 'custom']).withMessage('Invalid milestone type')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ success: false, errors: errors.array() });
+
+    const contract = await Contract.findById(req.params.id);
+    if (!contract) return res.status(404).json({ success: false, message: 'Contract not found' });
+    if (!isContractParty(contract, req.user._id)) return res.status(403).json({ success: false, message: 'Not authorized' });
+    if (['completed', 'cancelled'].includes(contract.status)) {
+      return res.status(400).json({ success: false, message: `Cannot add milestones to a ${contract.status} contract` });
+    }
+
+    const { title, description, dueDate, type } = req.body;
+    contract.milestones.push({ title, description, dueDate, type });
+    contract.milestones.sort((a, b) => a.dueDate - b.dueDate);
+    contract.auditTrail.push({ action: 'Milestone added', performedBy: req.user._id, details: { title, dueDate } });
+    await contract.save();
+
+    res.status(201).json({ success: true, message: 'Milestone added', data: { milestones: contract.milestones } });
+  } catch (error) {
+    console.error('Add milestone error:', error);
+    res.status(500).json({ success: false, message: 'Server error while adding milestone' });
+  }
+});
+
+// POST /api/contracts/:id/milestones/defaults - Generate default milestones for a contract without any
+router.post('/:id/milestones/defaults', auth, async (req, res) => {
+  try {
+    const contract = await Contract.findById(req.params.id);
+    if (!contract) return res.status(404).json({ success: false, message: 'Contract not found' });
+    if (!isContractParty(contract, req.user._id)) return res.status(403).json({ success: false, message: 'Not authorized' });
+    if (contract.milestones.length > 0) {
+      return res.status(400).json({ success: false, message: 'Contract already has milestones' });
+    }
+
+    contract.milestones = buildDefaultMilestones(contract.terms, contract.createdAt);
+    contract.auditTrail.push({ action: 'Default milestones generated', performedBy: req.user._id });
+    await contract.save();
+
+    res.status(201).json({ success: true, message: 'Default milestones generated', data: { milestones: contract.milestones } });
+  } catch (error) {
+    console.error('Generate milestones error:', error);
+    res.status(500).json({ success: false, message: 'Server error while generating milestones' });
+  }
+});
+
+// PUT /api/contracts/:id/milestones/:milestoneId - Edit a pending or overdue milestone
+router.put('/:id/milestones/:milestoneId', [
+  auth,
+  body('title').optional().trim().isLength({ min: 3, max: 100 }).withMessage('Title must be between 3 and 100 characters'),
+  body('description').optional().trim().isLength({ max: 500 }),
+  body('dueDate').optional().isISO8601().withMessage('Valid due date is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) return res.status(400).json({ success: false, errors: errors.array() });
+
+    const contract = await Contract.findById(req.params.id);
+    if (!contract) return res.status(404).json({ success: false, message: 'Contract not found' });
+    if (!isContractParty(contract, req.user._id)) return res.status(403).json({ success: false, message: 'Not authorized' });
+
+    const milestone = contract.milestones.id(req.params.milestoneId);
+    if (!milestone) return res.status(404).json({ success: false, message: 'Milestone not found' });
+    if (milestone.status === 'completed') return res.status(400).json({ success: false, message: 'Completed milestones cannot be edited' });
+
+    const changes = {};
+    ['title', 'description', 'dueDate'].forEach(field => {
+      if (req.body[field] !== undefined) {
+        milestone[field] = req.body[field];
+        changes[field] = req.body[field];
+      }
+    });
+    // A rescheduled milestone is no longer overdue
+    if (changes.dueDate && milestone.status === 'overdue' && milestone.dueDate > new Date()) {
+      milestone.status = 'pending';
+    }
+
+    contract.milestones.sort((a, b) => a.dueDate - b.dueDate);
+    contract.auditTrail.push({ action: 'Milestone updated', performedBy: req.user._id, details: { milestoneId: milestone._id, changes } });
+    await contract.save();
+
+    res.json({ success: true, message: 'Milestone updated', data: { milestones: contract.milestones } });
+  } catch (error) {
+    console.error('Update milestone error:', error);
+    res.status(500).json({ success: false, message: 'Server error while updating milestone' });
+  }
+});
+
+// POST /api/contracts/:id/milestones/:milestoneId/complete - Mark a milestone as completed
+router.post('/:id/milestones/:milestoneId/complete', auth, async (req, res) => {
+  try {
+    const contract = await Contract.findById(req.params.id);
+    if (!contract) return res.status(404).json({ success: false, message: 'Contract not found' });
+    if (!isContractParty(contract, req.user._id)) return res.status(403).json({ success: false, message: 'Not authorized' });
+
+    const milestone = contract.milestones.id(req.params.milestoneId);
+    if (!milestone) return res.status(404).json({ success: false, message: 'Milestone not found' });
+    if (milestone.status === 'completed') return res.status(400).json({ success: false, message: 'Milestone is already completed' });
+
+    // Pickup and delivery milestones follow the shipment when one exists
+    const shipment = ['pickup', 'delivery'].includes(milestone.type)
+      ? await Shipment.findOne({ contract: contract._id }).sort({ createdAt: -1 })
+      : null;
+    const blocker = getShipmentBlocker(milestone, shipment);
+    if (blocker) return res.status(400).json({ success: false, message: blocker });
+
+    completeMilestone(contract, milestone, req.user._id, shipment);
+    await contract.save();
+
+    const counterparty = contract.parties.seller.user.toString() === req.user._id.toString()
+      ? contract.parties.buyer.user
+      : contract.parties.seller.user;
+    await notifyUsers(counterparty, {
+      type: 'deal',
+      title: 'Milestone Completed',
+      message: `${req.user.name} completed "${milestone.title}" on contract ${contract.contractNumber}.`,
+      actionUrl: `/contracts/${contract._id}`,
+      metadata: { contractId: contract._id, shipmentId: shipment?._id }
+    });
+
+    res.json({ success: true, message: 'Milestone completed', data: { milestones: contract.milestones } });
+  } catch (error) {
+    console.error('Complete milestone error:', error);
+    res.status(500).json({ success: false, message: 'Server error while completing milestone' });
+  }
+});
+
+// Helper to deploy the contract once both parties' wallets are known, then relay signatures not yet on-chain
+async function syncContractOnChain(contract) {
+  if (!contract.blockchain?.contractAddress) {
+    const [sellerAddress, buyerAddress] = await Promise.all(['seller', 'buyer'].map(async role => {
+      const party = contract.parties[role];
+      if (party.signerAddress) return party.signerAddress;
+      const user = await User.findById(party.user._id || party.user).select('blockchainAddress');
+      return user?.blockchainAddress;
+    }));
+    if (!sellerAddress || !buyerAddress) return false;
+
+    const deployed = await deployContract({
+      sellerAddress,
+      buyerAddress,
+      contractId: contract._id.toString(),
+      termsHash: `0x${hashTerms(contract)}`
+    });
+    contract.blockchain = {
+      deployed: true,
+      contractAddress: deployed.address,
+      transactionHash: deployed.transactionHash,
+      deployedAt: new Date().toISOString()
+    };
+  }
+
+  const { contractAddress } = contract.blockchain;
+  const contractInstance = new ethers.Contract(contractAddress, abiJson.abi, provider);
+  for (const role of ['seller', 'buyer']) {
+    const { signature } = contract.parties[role];
+    if (signature && !(await contractInstance[`${role}Signed`]())) {
+      await signContractOnChain(contractAddress, role, signature);
+    }
+  }
+
+  return contractInstance.isFullySigned();
+}
+
+// Helper to get which side of a contract a user is on
+function getPartyRole(contract, userId) {
+  if (contract.parties.seller.user.toString() === userId.toString()) return 'seller';
+  if (contract.parties.buyer.user.toString() === userId.toString()) return 'buyer';
+  return null;
+}
+
+function isContractParty(contract, userId) {
+  return [contract.parties.seller.user, contract.parties.buyer.user]
+    .some(party => (party._id || party).toString() === userId.toString());
+}
+
+// Helper to check whether a negotiation has an accepted offer
+function hasAgreedTerms(negotiation) {
+  return negotiation.agreedTerms?.price != null && negotiation.agreedTerms?.quantity != null;
+}
+
+// Helper to derive contract terms from the agreed terms, listing and material request
+async function buildContractDraft(negotiation) {
+  const agreed = negotiation.agreedTerms;
+  const listing = negotiation.relatedListing ? await WasteListing.findById(negotiation.relatedListing) : null;
+  const request = negotiation.relatedRequest ? await MaterialRequest.findById(negotiation.relatedRequest) : null;
+
+  const buyerParticipant = negotiation.participants.find(p => p.role === 'buyer');
+  const buyerId = buyerParticipant.user._id || buyerParticipant.user;
+  const buyer = await User.findById(buyerId).select('company.address');
+  const buyerAddress = buyer?.company?.address;
+
+  const quantity = {
+    value: agreed.quantity,
+    unit: listing?.quantity.unit || request?.quantity.unit || 'kg'
+  };
+  const price = {
+    value: agreed.price,
+    currency: listing?.price.currency || request?.budget?.currency || 'INR'
+  };
+
+  return {
+    materialType: listing?.wasteType || request?.materialType || negotiation.title,
+    quantity,
+    price,
+    totalValue: calculateTotalValue(quantity.value, price.value),
+    deliveryDate: agreed.deliveryDate,
+    deliveryLocation: {
+      address: buyerAddress?.street,
+      city: buyerAddress?.city || request?.location?.preferredCities?.[0],
+      state: buyerAddress?.state || request?.location?.state,
+      pincode: buyerAddress?.pincode
+    },
+    paymentTerms: agreed.paymentTerms,
+    qualitySpecs: agreed.qualitySpecs || (request ? `${request.qualityGrade}${request.specifications?.purity ? `, purity ${request.specifications.purity}` : ''}` : listing?.specifications?.purity),
+    packagingRequirements: request?.deliveryRequirements?.packaging || request?.specifications?.packaging || listing?.specifications?.packaging
+  };
+}
+
+// Helper to overlay client-supplied terms on the draft; totalValue is always computed server-side
+function mergeContractTerms(draft, clientTerms) {
+  const quantity = {
+    value: clientTerms.quantity?.value ?? draft.quantity.value,
+    unit: clientTerms.quantity?.unit || draft.quantity.unit
+  };
+  const price = {
+    value: clientTerms.price?.value ?? draft.price.value,
+    currency: draft.price.currency
+  };
+
+  return {
+    materialType: clientTerms.materialType || draft.materialType,
+    quantity,
+    price,
+    totalValue: calculateTotalValue(quantity.value, price.value),
+    deliveryDate: clientTerms.deliveryDate || draft.deliveryDate,
+    deliveryLocation: { ...draft.deliveryLocation, ...clientTerms.deliveryLocation },
+    paymentTerms: clientTerms.paymentTerms || draft.paymentTerms,
+    qualitySpecs: clientTerms.qualitySpecs || draft.qualitySpecs,
+    packagingRequirements: clientTerms.packagingRequirements || draft.packagingRequirements,
+    inspectionRights: clientTerms.inspectionRights,
+    penalties: clientTerms.penalties
+  };
+}
+
+// Helper to list the commercial terms that differ from the accepted offer
+function getTermDrift(draft, terms) {
+  const drift = [];
+  const toDay = date => new Date(date).toISOString().slice(0, 10);
+
+  if (Number(terms.price.value) !== Number(draft.price.value)) drift.push('price');
+  if (Number(terms.quantity.value) !== Number(draft.quantity.value)) drift.push('quantity');
+  if (terms.quantity.unit !== draft.quantity.unit) drift.push('unit');
+  if (draft.deliveryDate && terms.deliveryDate && toDay(terms.deliveryDate) !== toDay(draft.deliveryDate)) drift.push('deliveryDate');
+  if (draft.paymentTerms && terms.paymentTerms !== draft.paymentTerms) drift.push('paymentTerms');
+
+  return drift;
+}
+
+function calculateTotalValue(quantity, price) {
+  return Math.round(quantity * price * 100) / 100;
+}
+
+// A material request is fulfilled once a contract negotiated from it is fully signed
+async function fulfilRelatedRequest(contract) {
+  const negotiation = await Negotiation.findById(contract.relatedNegotiation).select('relatedRequest');
+  if (!negotiation?.relatedRequest) return;
+
+  await MaterialRequest.updateOne(
+    { _id: negotiation.relatedRequest, status: 'active' },
+    {
+      $set: {
+        status: 'fulfilled',
+        'responses.$[response].status': 'accepted',
+        'responses.$[response].statusUpdatedAt': new Date()
+      }
+    },
+    { arrayFilters: [{ 'response.negotiation': negotiation._id }] }
+  );
+}
+
 module.exports = router;
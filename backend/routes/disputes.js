@@ -0,0 +1,383 @@
+const express = require('express');
+const { body, query, validationResult } = require('express-validator');
+const Dispute = require('../models/Dispute');
+const Contract = require('../models/Contract');
+const Payment = require('../models/Payment');
+const Shipment = require('../models/Shipment');
+const User = require('../models/User');
+const { auth, authorize } = require('../middleware/auth');
+const { notifyUsers } = require('../utils/NotificationService');
+const { syncDisputeHold } = require('../utils/EscrowService');
+
+const router = express.Router();
+
+const evidenceValidators = (field) => [
+  body(field).optional().isArray({ max: 10 }).withMessage('Up to 10 evidence attachments are allowed'),
+  body(`${field}.*.name`).trim().notEmpty().withMessage('Evidence name is required'),
+  body(`${field}.*.url`).isURL().withMessage('Evidence URL must be valid'),
+  body(`${field}.*.type`).optional().isIn(['image', 'document', 'video', 'other'])
+];
+
+const disputePopulate = [
+  { path: 'contract', select: 'contractNumber title' },
+  { path: 'raisedBy', select: 'name company.name' },
+  { path: 'against', select: 'name company.name' },
+  { path: 'responses.user', select: 'name company.name type' },
+  { path: 'resolvedBy', select: 'name' }
+];
+
+// Attach the uploader to each evidence item supplied in a request body
+const buildEvidence = (items = [], userId) =>
+  items.map(({ name, url, type }) => ({ name, url, type, uploadedBy: userId }));
+
+const isDisputeParty = (dispute, userId) =>
+  [dispute.raisedBy, dispute.against].some(party => (party._id || party).toString() === userId.toString());
+
+// @route   GET /api/disputes
+// @desc    Get disputes for the current user (all disputes for admins)
+// @access  Private
+router.get('/', [
+  auth,
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100'),
+  query('status').optional().isIn(['open', 'investigating', 'escalated', 'resolved', 'unresolved']),
+  query('subject').optional().isIn(['contract', 'payment', 'shipment']),
+  query('contract').optional().isMongoId()
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const page = parseInt(req.query.page) || 1;
+    const limit = parseInt(req.query.limit) || 20;
+    const skip = (page - 1) * limit;
+
+    const filter = {};
+    if (req.user.type !== 'admin') {
+      filter.$or = [{ raisedBy: req.user._id }, { against: req.user._id }];
+    }
+    if (req.query.status === 'unresolved') filter.status = { $ne: 'resolved' };
+    else if (req.query.status) filter.status = req.query.status;
+    if (req.query.subject) filter['subject.type'] = req.query.subject;
+    if (req.query.contract) filter.contract = req.query.contract;
+
+    const disputes = await Dispute.find(filter)
+      .populate(disputePopulate)
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    const total = await Dispute.countDocuments(filter);
+
+    res.json({
+      success: true,
+      data: {
+        disputes,
+        pagination: {
+          current: page,
+          pages: Math.ceil(total / limit),
+          total,
+          hasNext: page < Math.ceil(total / limit),
+          hasPrev: page > 1
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get disputes error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching disputes'
+    });
+  }
+});
+
+// @route   GET /api/disputes/:id
+// @desc    Get single dispute
+// @access  Private (Parties and admins)
+router.get('/:id', auth, async (req, res) => {
+  try {
+    const dispute = await Dispute.findById(req.params.id).populate(disputePopulate);
+    if (!dispute) {
+      return res.status(404).json({ success: false, message: 'Dispute not found' });
+    }
+
+    if (!isDisputeParty(dispute, req.user._id) && req.user.type !== 'admin') {
+      return res.status(403).json({ success: false, message: 'Not authorized to view this dispute' });
+    }
+
+    res.json({ success: true, data: { dispute } });
+  } catch (error) {
+    console.error('Get dispute error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching dispute'
+    });
+  }
+});
+
+// @route   POST /api/disputes
+// @desc    Raise a dispute on a contract, its payment or its shipment
+// @access  Private (Contract parties only)
+router.post('/', [
+  auth,
+  body('contractId').isMongoId().withMessage('Valid contract ID is required'),
+  body('subject').isIn(['contract', 'payment', 'shipment']).withMessage('Invalid dispute subject'),
+  body('category').isIn(['quality', 'quantity', 'delay', 'damage', 'lost', 'payment', 'documentation', 'breach', 'other'])
+    .withMessage('Invalid dispute category'),
+  body('reason').trim().isLength({ min: 5, max: 200 }).withMessage('Reason must be between 5 and 200 characters'),
+  body('description').trim().isLength({ min: 20, max: 5000 }).withMessage('Description must be between 20 and 5000 characters'),
+  ...evidenceValidators('evidence')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { contractId, subject, category, reason, description, evidence } = req.body;
+
+    const contract = await Contract.findById(contractId);
+    if (!contract) {
+      return res.status(404).json({ success: false, message: 'Contract not found' });
+    }
+
+    const sellerId = contract.parties.seller.user.toString();
+    const buyerId = contract.parties.buyer.user.toString();
+    const userId = req.user._id.toString();
+
+    if (userId !== sellerId && userId !== buyerId) {
+      return res.status(403).json({ success: false, message: 'Only contract parties can raise a dispute' });
+    }
+
+    const disputeSubject = { type: subject };
+    if (subject === 'payment') {
+      const payment = await Payment.findOne({ contract: contract._id }).sort({ createdAt: -1 });
+      if (!payment) {
+        return res.status(400).json({ success: false, message: 'No payment exists for this contract' });
+      }
+      disputeSubject.payment = payment._id;
+    } else if (subject === 'shipment') {
+      const shipment = await Shipment.findOne({ contract: contract._id }).sort({ createdAt: -1 });
+      if (!shipment) {
+        return res.status(400).json({ success: false, message: 'No shipment exists for this contract' });
+      }
+      disputeSubject.shipment = shipment._id;
+    }
+
+    const existingDispute = await Dispute.findOne({
+      contract: contract._id,
+      'subject.type': subject,
+      status: { $ne: 'resolved' }
+    });
+    if (existingDispute) {
+      return res.status(400).json({
+        success: false,
+        message: `An unresolved ${subject} dispute already exists for this contract`,
+        data: { disputeId: existingDispute._id }
+      });
+    }
+
+    const dispute = new Dispute({
+      contract: contract._id,
+      subject: disputeSubject,
+      category,
+      reason,
+      description,
+      raisedBy: req.user._id,
+      against: userId === sellerId ? buyerId : sellerId,
+      evidence: buildEvidence(evidence, req.user._id),
+      statusHistory: [{ status: 'open', note: 'Dispute raised', changedBy: req.user._id }]
+    });
+    await dispute.save();
+
+    contract.auditTrail.push({
+      action: 'Dispute raised',
+      performedBy: req.user._id,
+      details: { disputeId: dispute._id, disputeNumber: dispute.disputeNumber, subject, category }
+    });
+    await contract.save();
+
+    await syncDisputeHold(contract._id, dispute, req.user._id);
+
+    const admins = await User.find({ type: 'admin', isActive: true }).select('_id');
+    await notifyUsers([dispute.against, ...admins.map(admin => admin._id)], {
+      type: 'deal',
+      title: 'Dispute Raised',
+      message: `${req.user.name} raised a ${subject} dispute on contract ${contract.contractNumber}: ${reason}`,
+      priority: 'high',
+      actionUrl: `/contracts/${contract._id}`,
+      metadata: { contractId: contract._id, paymentId: disputeSubject.payment, shipmentId: disputeSubject.shipment }
+    });
+
+    await dispute.populate(disputePopulate);
+
+    res.status(201).json({
+      success: true,
+      message: 'Dispute raised successfully',
+      data: { dispute }
+    });
+  } catch (error) {
+    console.error('Create dispute error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while raising dispute'
+    });
+  }
+});
+
+// @route   POST /api/disputes/:id/responses
+// @desc    Respond to a dispute with a message and optional evidence
+// @access  Private (Parties and admins)
+router.post('/:id/responses', [
+  auth,
+  body('message').trim().isLength({ min: 1, max: 5000 }).withMessage('Message must be between 1 and 5000 characters'),
+  ...evidenceValidators('evidence')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const dispute = await Dispute.findById(req.params.id).populate('contract', 'contractNumber');
+    if (!dispute) {
+      return res.status(404).json({ success: false, message: 'Dispute not found' });
+    }
+
+    const isAdmin = req.user.type === 'admin';
+    if (!isDisputeParty(dispute, req.user._id) && !isAdmin) {
+      return res.status(403).json({ success: false, message: 'Not authorized to respond to this dispute' });
+    }
+
+    if (dispute.status === 'resolved') {
+      return res.status(400).json({ success: false, message: 'Cannot respond to a resolved dispute' });
+    }
+
+    dispute.responses.push({
+      user: req.user._id,
+      message: req.body.message,
+      evidence: buildEvidence(req.body.evidence, req.user._id)
+    });
+    await dispute.save();
+
+    const recipients = [dispute.raisedBy, dispute.against]
+      .filter(party => party.toString() !== req.user._id.toString());
+    await notifyUsers(recipients, {
+      type: 'deal',
+      title: 'Dispute Response',
+      message: `${req.user.name} responded to dispute ${dispute.disputeNumber} on contract ${dispute.contract.contractNumber}.`,
+      actionUrl: `/contracts/${dispute.contract._id}`,
+      metadata: { contractId: dispute.contract._id }
+    });
+
+    await dispute.populate(disputePopulate);
+
+    res.json({
+      success: true,
+      message: 'Response added successfully',
+      data: { dispute }
+    });
+  } catch (error) {
+    console.error('Respond to dispute error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while responding to dispute'
+    });
+  }
+});
+
+// @route   PUT /api/disputes/:id/status
+// @desc    Move a dispute through investigation, escalation and resolution
+// @access  Private (Admin only)
+router.put('/:id/status', [
+  auth,
+  authorize('admin'),
+  body('status').isIn(['investigating', 'escalated', 'resolved']).withMessage('Invalid dispute status'),
+  body('note').optional().trim().isLength({ max: 1000 }),
+  body('resolution').if(body('status').equals('resolved'))
+    .trim().isLength({ min: 10, max: 5000 }).withMessage('A written resolution of at least 10 characters is required')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const dispute = await Dispute.findById(req.params.id).populate('contract', 'contractNumber');
+    if (!dispute) {
+      return res.status(404).json({ success: false, message: 'Dispute not found' });
+    }
+
+    if (dispute.status === 'resolved') {
+      return res.status(400).json({ success: false, message: 'Dispute is already resolved' });
+    }
+
+    const { status, note, resolution } = req.body;
+
+    dispute.status = status;
+    dispute.statusHistory.push({ status, note: note || resolution, changedBy: req.user._id });
+    if (status === 'resolved') {
+      dispute.resolution = resolution;
+      dispute.resolvedBy = req.user._id;
+      dispute.resolvedAt = new Date();
+    }
+    await dispute.save();
+
+    await Contract.updateOne({ _id: dispute.contract._id }, {
+      $push: {
+        auditTrail: {
+          action: `Dispute ${status}`,
+          performedBy: req.user._id,
+          details: { disputeId: dispute._id, disputeNumber: dispute.disputeNumber, resolution }
+        }
+      }
+    });
+
+    await syncDisputeHold(dispute.contract._id, dispute, req.user._id);
+
+    await notifyUsers([dispute.raisedBy, dispute.against], {
+      type: 'deal',
+      title: status === 'resolved' ? 'Dispute Resolved' : 'Dispute Updated',
+      message: status === 'resolved'
+        ? `Dispute ${dispute.disputeNumber} has been resolved: ${resolution}`
+        : `Dispute ${dispute.disputeNumber} is now ${status}.`,
+      priority: status === 'resolved' ? 'high' : 'medium',
+      actionUrl: `/contracts/${dispute.contract._id}`,
+      metadata: { contractId: dispute.contract._id }
+    });
+
+    await dispute.populate(disputePopulate);
+
+    res.json({
+      success: true,
+      message: `Dispute marked as ${status}`,
+      data: { dispute }
+    });
+  } catch (error) {
+    console.error('Update dispute status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while updating dispute'
+    });
+  }
+});
+
+module.exports = router;
@@ -0,0 +1,183 @@
+const express = require('express');
+const { body, query, validationResult } = require('express-validator');
+const Invoice = require('../models/Invoice');
+const Payment = require('../models/Payment');
+const { auth, authorize } = require('../middleware/auth');
+const { issueInvoice, issuePlatformFeeInvoice, issueCreditNote, renderInvoicePdf, toEInvoiceJson } = require('../utils/InvoiceService');
+
+const router = express.Router();
+
+// Invoice numbers contain slashes, so downloads use dashes in the file name
+const fileName = (invoice, extension) => `${invoice.invoiceNumber.replace(/\//g, '-')}.${extension}`;
+
+// Load an invoice the current user is a party to (admins see all), or send the error response
+const findVisibleInvoice = async (req, res) => {
+  const invoice = await Invoice.findById(req.params.id).populate('originalInvoice', 'invoiceNumber issuedAt');
+  if (!invoice) {
+    res.status(404).json({ success: false, message: 'Invoice not found' });
+    return null;
+  }
+
+  // Platform fee invoices have no buyer
+  const isParty = [invoice.seller, invoice.buyer].some(userId => userId?.toString() === req.user._id.toString());
+  if (!isParty && req.user.type !== 'admin') {
+    res.status(403).json({ success: false, message: 'Not authorized to view this invoice' });
+    return null;
+  }
+
+  return invoice;
+};
+
+// @route   GET /api/invoices
+// @desc    List the user's invoices, credit notes and platform fee invoices, optionally for one contract
+// @access  Private
+router.get('/', [
+  auth,
+  query('contractId').optional().isMongoId().withMessage('Invalid contract ID'),
+  query('type').optional().isIn(['invoice', 'credit_note', 'platform_fee']).withMessage('Invalid document type')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, message: 'Validation failed', errors: errors.array() });
+    }
+
+    const page = parseInt(req.query.page) || 1;
+    const limit = parseInt(req.query.limit) || 20;
+    const skip = (page - 1) * limit;
+
+    const filter = req.user.type === 'admin' ? {} : { $or: [{ seller: req.user._id }, { buyer: req.user._id }] };
+    if (req.query.contractId) filter.contract = req.query.contractId;
+    if (req.query.type) filter.type = req.query.type;
+
+    const invoices = await Invoice.find(filter)
+      .select('invoiceNumber type issuedAt contract payment originalInvoice supplier.name recipient.name supplyType totals currency')
+      .populate('contract', 'contractNumber')
+      .populate('originalInvoice', 'invoiceNumber')
+      .sort({ issuedAt: -1 })
+      .skip(skip)
+      .limit(limit);
+
+    const total = await Invoice.countDocuments(filter);
+
+    res.json({
+      success: true,
+      data: {
+        invoices,
+        pagination: {
+          current: page,
+          pages: Math.ceil(total / limit),
+          total,
+          hasNext: page < Math.ceil(total / limit),
+          hasPrev: page > 1
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get invoices error:', error);
+    res.status(500).json({ success: false, message: 'Server error while fetching invoices' });
+  }
+});
+
+// @route   GET /api/invoices/:id
+// @desc    Get an invoice or credit note
+// @access  Private (Parties or admin)
+router.get('/:id', auth, async (req, res) => {
+  try {
+    const invoice = await findVisibleInvoice(req, res);
+    if (!invoice) return;
+
+    res.json({ success: true, data: { invoice } });
+  } catch (error) {
+    console.error('Get invoice error:', error);
+    res.status(500).json({ success: false, message: 'Server error while fetching invoice' });
+  }
+});
+
+// @route   GET /api/invoices/:id/pdf
+// @desc    Download an invoice or credit note as a PDF
+// @access  Private (Parties or admin)
+router.get('/:id/pdf', auth, async (req, res) => {
+  try {
+    const invoice = await findVisibleInvoice(req, res);
+    if (!invoice) return;
+
+    res.set({
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${fileName(invoice, 'pdf')}"`
+    });
+    res.send(renderInvoicePdf(invoice));
+  } catch (error) {
+    console.error('Invoice PDF error:', error);
+    res.status(500).json({ success: false, message: 'Server error while generating invoice PDF' });
+  }
+});
+
+// @route   GET /api/invoices/:id/einvoice
+// @desc    Download an invoice or credit note as GST e-invoice JSON
+// @access  Private (Parties or admin)
+router.get('/:id/einvoice', auth, async (req, res) => {
+  try {
+    const invoice = await findVisibleInvoice(req, res);
+    if (!invoice) return;
+
+    res.set('Content-Disposition', `attachment; filename="${fileName(invoice, 'json')}"`);
+    res.json(toEInvoiceJson(invoice));
+  } catch (error) {
+    console.error('E-invoice JSON error:', error);
+    res.status(500).json({ success: false, message: 'Server error while generating e-invoice' });
+  }
+});
+
+// @route   POST /api/invoices/payments/:paymentId
+// @desc    Issue a payment's missing invoices if invoicing failed when it was received or released
+// @access  Private (Admin only)
+router.post('/payments/:paymentId', [auth, authorize('admin')], async (req, res) => {
+  try {
+    const payment = await Payment.findById(req.params.paymentId);
+    if (!payment) return res.status(404).json({ success: false, message: 'Payment not found' });
+
+    if (!['held_in_escrow', 'released_to_seller', 'refunded'].includes(payment.status)) {
+      return res.status(400).json({ success: false, message: 'Only payments received from the buyer are invoiced' });
+    }
+
+    const invoice = await issueInvoice(payment, req.user._id);
+    // The platform fee is only invoiced once the seller has been paid
+    const platformFeeInvoice = payment.status === 'released_to_seller'
+      ? await issuePlatformFeeInvoice(payment, req.user._id)
+      : null;
+    res.status(201).json({ success: true, message: 'Invoice issued', data: { invoice, platformFeeInvoice } });
+  } catch (error) {
+    console.error('Issue invoice error:', error);
+    res.status(500).json({ success: false, message: 'Server error while issuing invoice' });
+  }
+});
+
+// @route   POST /api/invoices/:id/credit-note
+// @desc    Issue a credit note against an invoice, e.g. for an adjustment settled outside the platform
+// @access  Private (Admin only)
+router.post('/:id/credit-note', [
+  auth,
+  authorize('admin'),
+  body('amount').isFloat({ min: 0.01 }).withMessage('Credit amount must be a positive number'),
+  body('reason').trim().isLength({ min: 5, max: 500 }).withMessage('Reason must be between 5 and 500 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, message: 'Validation failed', errors: errors.array() });
+    }
+
+    const invoice = await Invoice.findById(req.params.id);
+    if (!invoice) return res.status(404).json({ success: false, message: 'Invoice not found' });
+
+    const creditNote = await issueCreditNote(invoice, parseFloat(req.body.amount), req.body.reason, req.user._id);
+    res.status(201).json({ success: true, message: 'Credit note issued', data: { creditNote } });
+  } catch (error) {
+    console.error('Issue credit note error:', error);
+    if (error.statusCode === 400) return res.status(400).json({ success: false, message: error.message });
+    res.status(500).json({ success: false, message: 'Server error while issuing credit note' });
+  }
+});
+
+module.exports = router;
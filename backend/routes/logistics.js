@@ -3,6 +3,9 @@ const { body, validationResult } = require('express-validator');
 const Shipment = require('../models/Shipment');
 const Contract = require('../models/Contract');
 const { auth, authorize } = require('../middleware/auth');
+const { notifyUsers } = require('../utils/NotificationService');
+const { syncShipmentMilestones } = require('../utils/MilestoneService');
+const { raiseDeliveryInvoices } = require('../utils/BillingService');
 
 const router = express.Router();
 
@@ -231,6 +234,20 @@ router.put('/shipments/:id/status', [
     }
 
     await shipment.save();
+    await syncShipmentMilestones(shipment, req.user._id);
+    await raiseDeliveryInvoices(shipment, req.user._id);
+
+    const recipients = [shipment.seller, shipment.buyer]
+      .filter(userId => userId.toString() !== req.user._id.toString());
+
+    await notifyUsers(recipients, {
+      type: 'shipment',
+      title: 'Shipment Update',
+      message: `Shipment ${shipment.shipmentNumber} is now ${req.body.status.replace(/-/g, ' ')}.`,
+      priority: ['delivered', 'cancelled', 'returned'].includes(req.body.status) ? 'high' : 'medium',
+      actionUrl: '/logistics',
+      metadata: { contractId: shipment.contract, shipmentId: shipment._id }
+    });
 
     res.json({
       success: true,
@@ -2,7 +2,12 @@ const express = require('express');
 const { body, query, validationResult } = require('express-validator');
 const MaterialRequest = require('../models/MaterialRequest');
 const WasteListing = require('../models/WasteListing');
+const Negotiation = require('../models/Negotiation');
+const User = require('../models/User');
 const { auth, authorize, verifyCompany } = require('../middleware/auth');
+const { matchRequest, markMatchesContacted } = require('../utils/MatchingService');
+const { notifyUsers } = require('../utils/NotificationService');
+const { recordOffer } = require('../utils/NegotiationService');
 
 const router = express.Router();
 
@@ -86,7 +91,8 @@ router.get('/:id', auth, async (req, res) => {
   try {
     const request = await MaterialRequest.findById(req.params.id)
       .populate('buyer', 'name company.name company.verified company.address phone')
-      .populate('responses.seller', 'name company.name company.verified')
+      .populate('responses.seller', 'name company.name company.verified stats.rating stats.totalDeals')
+      .populate('responses.listing', 'title wasteType quantity price location specifications certifications frequency')
       .populate('matches.listing', 'title wasteType quantity price location');
 
     if (!request) {
@@ -104,6 +110,13 @@ router.get('/:id', auth, async (req, res) => {
       });
     }
 
+    // Sellers only see their own response, never competing quotes
+    if (req.user.type === 'seller') {
+      request.responses = request.responses.filter(
+        response => response.seller?._id.toString() === req.user._id.toString()
+      );
+    }
+
     res.json({
       success: true,
       data: {
@@ -159,7 +172,7 @@ router.post('/', [
     await materialRequest.save();
 
     // Find potential matches
-    await findMatches(materialRequest);
+    await matchRequest(materialRequest);
 
     await materialRequest.populate('buyer', 'name company.name company.verified');
 
@@ -225,9 +238,10 @@ router.put('/:id', [
 
     await request.save();
 
-    // Re-find matches if material type or requirements changed
-    if (req.body.materialType || req.body.category || req.body.quantity || req.body.budget) {
-      await findMatches(request);
+    // Re-score matches if material type or requirements changed
+    if (req.body.materialType || req.body.category || req.body.quantity || req.body.budget || req.body.location ||
+        req.body.qualityGrade || req.body.specifications || req.body.frequency) {
+      await matchRequest(request);
     }
 
     await request.populate('buyer', 'name company.name company.verified');
@@ -360,6 +374,13 @@ router.post('/:id/respond', [
 
     await request.save();
 
+    await notifyUsers(request.buyer, {
+      type: 'deal',
+      title: 'New Response to Your Request',
+      message: `${req.user.company?.name || req.user.name} responded to "${request.title}"${req.body.quotedPrice ? ` with a quote of ₹${Number(req.body.quotedPrice).toLocaleString('en-IN')}` : ''}.`,
+      actionUrl: `/material-requests/${request._id}`
+    });
+
     res.json({
       success: true,
       message: 'Response sent successfully'
@@ -373,130 +394,195 @@ router.post('/:id/respond', [
   }
 });
 
-// Helper function to find matches for a material request
-async function findMatches(request) {
+// @route   PUT /api/material-requests/:id/responses/:responseId
+// @desc    Shortlist, decline or reset a seller's response
+// @access  Private (Owner only)
+router.put('/:id/responses/:responseId', [
+  auth,
+  authorize('buyer'),
+  body('status').isIn(['pending', 'shortlisted', 'declined']).withMessage('Status must be pending, shortlisted or declined'),
+  body('reason').optional().trim().isLength({ max: 500 }).withMessage('Reason must be at most 500 characters')
+], async (req, res) => {
   try {
-    // Build search criteria
-    const searchCriteria = {
-      status: 'active',
-      category: getCategoryMapping(request.category),
-      'quantity.value': { $gte: request.quantity.value * 0.5 }, // At least 50% of required quantity
-      'price.value': { $lte: request.budget.max * 1.2 } // Within 120% of budget
-    };
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
 
-    // Add location filter if specified
-    if (request.location.preferredCities && request.location.preferredCities.length > 0) {
-      searchCriteria['location.city'] = { $in: request.location.preferredCities };
+    const { request, response, error } = await findOwnResponse(req);
+    if (error) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
     }
 
-    const potentialMatches = await WasteListing.find(searchCriteria)
-      .populate('seller', 'name company.name company.verified')
-      .limit(10);
-
-    // Calculate match scores and add to request
-    const matches = potentialMatches.map(listing => {
-      const matchScore = calculateMatchScore(request, listing);
-      const reasons = getMatchReasons(request, listing);
-      
-      return {
-        listing: listing._id,
-        matchScore,
-        reasons
-      };
-    });
+    if (['negotiating', 'accepted'].includes(response.status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'A negotiation has already been started from this response'
+      });
+    }
 
-    // Sort by match score and update request
-    matches.sort((a, b) => b.matchScore - a.matchScore);
-    request.matches = matches;
-    
+    response.status = req.body.status;
+    response.statusUpdatedAt = new Date();
+    response.declineReason = req.body.status === 'declined' ? req.body.reason : undefined;
     await request.save();
+
+    if (req.body.status !== 'pending') {
+      const declined = req.body.status === 'declined';
+      await notifyUsers(response.seller, {
+        type: 'deal',
+        title: declined ? 'Response Declined' : 'Response Shortlisted',
+        message: declined
+          ? `Your response to "${request.title}" was declined${req.body.reason ? `: ${req.body.reason}` : '.'}`
+          : `Your response to "${request.title}" was shortlisted by the buyer.`,
+        priority: declined ? 'low' : 'medium',
+        actionUrl: `/material-requests/${request._id}`
+      });
+    }
+
+    res.json({
+      success: true,
+      message: `Response ${req.body.status === 'pending' ? 'reset' : req.body.status}`,
+      data: {
+        response
+      }
+    });
   } catch (error) {
-    console.error('Find matches error:', error);
+    console.error('Update response status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while updating response'
+    });
   }
-}
+});
 
-// Helper function to map material categories to waste categories
-function getCategoryMapping(materialCategory) {
-  const mapping = {
-    'Plastic Materials': 'Plastic Waste',
-    'Metal Materials': 'Metal Scrap',
-    'Paper Materials': 'Paper Waste',
-    'Textile Materials': 'Textile Waste',
-    'Chemical Materials': 'Chemical Waste',
-    'Electronic Materials': 'Electronic Waste',
-    'Rubber Materials': 'Rubber Waste',
-    'Glass Materials': 'Glass Waste',
-    'Wood Materials': 'Wood Waste',
-    'Organic Materials': 'Organic Waste'
-  };
-  
-  return mapping[materialCategory] || materialCategory;
-}
+// @route   POST /api/material-requests/:id/responses/:responseId/negotiate
+// @desc    Start a negotiation from a seller's response, opening with the quoted price
+// @access  Private (Owner only)
+router.post('/:id/responses/:responseId/negotiate', auth, authorize('buyer'), async (req, res) => {
+  try {
+    const { request, response, error } = await findOwnResponse(req);
+    if (error) {
+      return res.status(error.status).json({
+        success: false,
+        message: error.message
+      });
+    }
 
-// Helper function to calculate match score
-function calculateMatchScore(request, listing) {
-  let score = 0;
-  
-  // Category match (40 points)
-  if (getCategoryMapping(request.category) === listing.category) {
-    score += 40;
-  }
-  
-  // Quantity match (20 points)
-  const quantityRatio = Math.min(listing.quantity.value / request.quantity.value, 1);
-  score += quantityRatio * 20;
-  
-  // Price match (20 points)
-  if (listing.price.value <= request.budget.max) {
-    const priceScore = (request.budget.max - listing.price.value) / request.budget.max;
-    score += priceScore * 20;
-  }
-  
-  // Location match (10 points)
-  if (request.location.preferredCities && 
-      request.location.preferredCities.includes(listing.location.city)) {
-    score += 10;
-  }
-  
-  // Urgency match (5 points)
-  if (request.urgency === listing.urgency) {
-    score += 5;
-  }
-  
-  // Frequency match (5 points)
-  if (request.frequency === listing.frequency) {
-    score += 5;
-  }
-  
-  return Math.round(score);
-}
+    if (request.status !== 'active') {
+      return res.status(400).json({
+        success: false,
+        message: 'Cannot negotiate on an inactive request'
+      });
+    }
 
-// Helper function to get match reasons
-function getMatchReasons(request, listing) {
-  const reasons = [];
-  
-  if (getCategoryMapping(request.category) === listing.category) {
-    reasons.push('Category match');
-  }
-  
-  if (listing.quantity.value >= request.quantity.value) {
-    reasons.push('Sufficient quantity available');
+    if (response.status === 'declined') {
+      return res.status(400).json({
+        success: false,
+        message: 'This response was declined. Reset it before starting a negotiation.'
+      });
+    }
+
+    // Return the negotiation already started from this response rather than opening a second one
+    if (response.negotiation) {
+      const existing = await Negotiation.findOne({ _id: response.negotiation, status: { $in: ['active', 'pending'] } });
+      if (existing) {
+        return res.json({
+          success: true,
+          message: 'Negotiation already exists for this response',
+          data: { negotiation: existing.toJSONFor(req.user._id) }
+        });
+      }
+    }
+
+    const seller = await User.findById(response.seller).select('name company.name');
+    if (!seller) {
+      return res.status(404).json({
+        success: false,
+        message: 'Seller not found'
+      });
+    }
+
+    const negotiation = new Negotiation({
+      title: `${request.title} - ${seller.company?.name || seller.name}`,
+      participants: [
+        { user: req.user._id, role: 'buyer' },
+        { user: seller._id, role: 'seller' }
+      ],
+      relatedRequest: request._id,
+      relatedListing: response.listing,
+      status: 'active'
+    });
+
+    // The seller's quote is the opening offer, so the buyer can accept or counter it straight away
+    if (response.quotedPrice != null) {
+      recordOffer(negotiation, seller._id, {
+        price: response.quotedPrice,
+        quantity: request.quantity.value
+      }, `Quoted ₹${response.quotedPrice.toLocaleString('en-IN')} for ${request.quantity.value} ${request.quantity.unit}: ${response.message}`);
+    }
+
+    await negotiation.save();
+
+    response.status = 'negotiating';
+    response.statusUpdatedAt = new Date();
+    response.negotiation = negotiation._id;
+    await request.save();
+
+    if (response.listing) {
+      await markMatchesContacted({ requestIds: [request._id], listingIds: [response.listing] });
+    }
+
+    await notifyUsers(seller._id, {
+      type: 'deal',
+      title: 'Negotiation Started',
+      message: `${req.user.company?.name || req.user.name} started a negotiation on your response to "${request.title}".`,
+      priority: 'high',
+      actionUrl: '/negotiations',
+      metadata: { negotiationId: negotiation._id, amount: response.quotedPrice }
+    });
+
+    await negotiation.populate('participants.user', 'name company.name');
+
+    res.status(201).json({
+      success: true,
+      message: 'Negotiation created successfully',
+      data: { negotiation }
+    });
+  } catch (error) {
+    console.error('Negotiate response error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while starting negotiation'
+    });
   }
-  
-  if (listing.price.value <= request.budget.max) {
-    reasons.push('Within budget');
+});
+
+// Helper function to load a response on one of the current buyer's requests
+async function findOwnResponse(req) {
+  const request = await MaterialRequest.findById(req.params.id);
+
+  if (!request) {
+    return { error: { status: 404, message: 'Material request not found' } };
   }
-  
-  if (request.location.preferredCities && 
-      request.location.preferredCities.includes(listing.location.city)) {
-    reasons.push('Preferred location');
+
+  if (request.buyer.toString() !== req.user._id.toString()) {
+    return { error: { status: 403, message: 'Not authorized to manage responses to this request' } };
   }
-  
-  if (request.urgency === listing.urgency) {
-    reasons.push('Matching urgency');
+
+  const response = request.responses.id(req.params.responseId);
+
+  if (!response) {
+    return { error: { status: 404, message: 'Response not found' } };
   }
-  
-  return reasons;
+
+  return { request, response };
 }
 
-module.exports = router;
\ No newline at end of file
+module.exports = router;
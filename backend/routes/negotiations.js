@@ -3,10 +3,25 @@ const { body, validationResult } = require('express-validator');
 const Negotiation = require('../models/Negotiation');
 const WasteListing = require('../models/WasteListing');
 const MaterialRequest = require('../models/MaterialRequest');
+const User = require('../models/User');
 const { auth, authorize } = require('../middleware/auth');
+const { notifyUsers } = require('../utils/NotificationService');
+const { markMatchesContacted } = require('../utils/MatchingService');
+const { recordOffer, addSystemMessage, markMessagesRead } = require('../utils/NegotiationService');
+const { subscribe, publishToNegotiation } = require('../utils/RealtimeService');
+const { saveFiles, removeFiles } = require('../utils/StorageService');
+const { uploadFiles } = require('../middleware/upload');
 
 const router = express.Router();
 
+// How long after sending a message its sender may still edit it
+const MESSAGE_EDIT_WINDOW = 15 * 60 * 1000;
+
+// Message types that carry free text a sender may correct; offers and system messages are a record
+const EDITABLE_MESSAGE_TYPES = ['text', 'file', 'price-discussion', 'terms-discussion'];
+
+const MAX_TAGS = 10;
+
 // @route   GET /api/negotiations
 // @desc    Get user's negotiations
 // @access  Private
@@ -16,8 +31,16 @@ router.get('/', auth, async (req, res) => {
     const limit = parseInt(req.query.limit) || 10;
     const skip = (page - 1) * limit;
 
+    // Priority and tags are the user's own labels, kept on their participant entry
+    const ownEntry = { user: req.user._id };
+    if (req.query.priority) {
+      // Entries from before labels were per participant have no priority and count as medium
+      ownEntry.priority = req.query.priority === 'medium' ? { $in: ['medium', null] } : req.query.priority;
+    }
+    if (req.query.tag) ownEntry.tags = normalizeTag(req.query.tag);
+
     const filter = {
-      'participants.user': req.user._id
+      participants: { $elemMatch: ownEntry }
     };
 
     if (req.query.status) filter.status = req.query.status;
@@ -35,7 +58,10 @@ router.get('/', auth, async (req, res) => {
     res.json({
       success: true,
       data: {
-        negotiations,
+        negotiations: negotiations.map(negotiation => ({
+          ...negotiation.toJSONFor(req.user._id),
+          unreadCount: negotiation.getUnreadCount(req.user._id)
+        })),
         pagination: {
           current: page,
           pages: Math.ceil(total / limit),
@@ -54,6 +80,52 @@ router.get('/', auth, async (req, res) => {
   }
 });
 
+// @route   GET /api/negotiations/tags
+// @desc    Get the tags used across the user's negotiations, for filtering
+// @access  Private
+router.get('/tags', auth, async (req, res) => {
+  try {
+    // Only the user's own tags; the other party's labels are private to them
+    const [result] = await Negotiation.aggregate([
+      { $match: { 'participants.user': req.user._id } },
+      { $unwind: '$participants' },
+      { $match: { 'participants.user': req.user._id } },
+      { $unwind: '$participants.tags' },
+      { $group: { _id: null, tags: { $addToSet: '$participants.tags' } } }
+    ]);
+    const tags = result?.tags || [];
+
+    res.json({
+      success: true,
+      data: { tags: tags.sort() }
+    });
+  } catch (error) {
+    console.error('Get negotiation tags error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching tags'
+    });
+  }
+});
+
+// @route   GET /api/negotiations/stream?token=
+// @desc    Server-Sent Events stream of new messages, offer and status changes, typing and read receipts
+//          across the user's negotiations. EventSource cannot send headers, so the JWT comes as a query parameter.
+// @access  Private
+router.get('/stream', tokenFromQuery, auth, (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  res.write('retry: 5000\n\n');
+
+  const unsubscribe = subscribe(req.user._id, res);
+  req.on('close', unsubscribe);
+});
+
 // @route   GET /api/negotiations/:id
 // @desc    Get single negotiation
 // @access  Private
@@ -63,7 +135,8 @@ router.get('/:id', auth, async (req, res) => {
       .populate('participants.user', 'name company.name avatar')
       .populate('relatedListing', 'title wasteType quantity price location')
       .populate('relatedRequest', 'title materialType quantity budget location')
-      .populate('messages.sender', 'name avatar');
+      .populate('messages.sender', 'name avatar')
+      .populate('notes.user', 'name');
 
     if (!negotiation) {
       return res.status(404).json({
@@ -85,22 +158,15 @@ router.get('/:id', auth, async (req, res) => {
     }
 
     // Mark messages as read
-    negotiation.messages.forEach(message => {
-      if (message.sender._id.toString() !== req.user._id.toString()) {
-        const readEntry = message.readBy.find(
-          read => read.user.toString() === req.user._id.toString()
-        );
-        if (!readEntry) {
-          message.readBy.push({ user: req.user._id });
-        }
-      }
-    });
-
-    await negotiation.save();
+    const readMessages = markMessagesRead(negotiation, req.user._id);
+    if (readMessages.length > 0) {
+      await negotiation.save();
+      publishReadReceipt(negotiation, req.user, readMessages);
+    }
 
     res.json({
       success: true,
-      data: { negotiation }
+      data: { negotiation: negotiation.toJSONFor(req.user._id) }
     });
   } catch (error) {
     console.error('Get negotiation error:', error);
@@ -119,7 +185,9 @@ router.post('/', [
   body('title').trim().isLength({ min: 5 }).withMessage('Title must be at least 5 characters'),
   body('counterpartyId').isMongoId().withMessage('Invalid counterparty ID'),
   body('type').isIn(['listing', 'request']).withMessage('Type must be listing or request'),
-  body('relatedId').isMongoId().withMessage('Invalid related ID')
+  body('relatedId').isMongoId().withMessage('Invalid related ID'),
+  body('listingId').optional().isMongoId().withMessage('Invalid listing ID'),
+  body('requestId').optional().isMongoId().withMessage('Invalid request ID')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -131,18 +199,97 @@ router.post('/', [
       });
     }
 
-    const { title, counterpartyId, type, relatedId } = req.body;
+    const { title, counterpartyId, type, relatedId, listingId, requestId } = req.body;
+
+    // Buyers open negotiations on listings, sellers on material requests
+    const role = type === 'listing' ? 'buyer' : 'seller';
+    const counterpartyRole = type === 'listing' ? 'seller' : 'buyer';
+
+    if (req.user.type !== role) {
+      return res.status(403).json({
+        success: false,
+        message: `Only ${role}s can start a negotiation on a ${type}`
+      });
+    }
+
+    if (counterpartyId === req.user._id.toString()) {
+      return res.status(400).json({
+        success: false,
+        message: 'You cannot negotiate with yourself'
+      });
+    }
+
+    const counterparty = await User.findById(counterpartyId).select('type isActive');
+    if (!counterparty || counterparty.isActive === false) {
+      return res.status(404).json({
+        success: false,
+        message: 'Counterparty not found'
+      });
+    }
+    if (counterparty.type !== counterpartyRole) {
+      return res.status(400).json({
+        success: false,
+        message: `Counterparty must be a ${counterpartyRole}`
+      });
+    }
+
+    // The related listing or request must be active and belong to the counterparty
+    const related = type === 'listing'
+      ? await WasteListing.findById(relatedId).select('seller status')
+      : await MaterialRequest.findById(relatedId).select('buyer status');
+    if (!related) {
+      return res.status(404).json({
+        success: false,
+        message: type === 'listing' ? 'Listing not found' : 'Material request not found'
+      });
+    }
+    if (related.status !== 'active') {
+      return res.status(400).json({
+        success: false,
+        message: `Cannot negotiate on an inactive ${type === 'listing' ? 'listing' : 'request'}`
+      });
+    }
+    const owner = type === 'listing' ? related.seller : related.buyer;
+    if (owner.toString() !== counterpartyId) {
+      return res.status(400).json({
+        success: false,
+        message: `The ${type === 'listing' ? 'listing' : 'request'} does not belong to this counterparty`
+      });
+    }
+
+    // One open negotiation per listing/buyer or request/seller pair; return it instead of opening another
+    const existing = await Negotiation.findOne({
+      [type === 'listing' ? 'relatedListing' : 'relatedRequest']: relatedId,
+      status: { $in: ['active', 'pending'] },
+      participants: { $elemMatch: { user: req.user._id, role } }
+    }).populate('participants.user', 'name company.name');
+    if (existing) {
+      return res.json({
+        success: true,
+        message: 'Negotiation already exists',
+        data: { negotiation: existing.toJSONFor(req.user._id), existing: true }
+      });
+    }
+
+    // A negotiation started from a match links both sides; the linked item must be the initiator's own
+    if (type === 'request' && listingId &&
+        !await WasteListing.exists({ _id: listingId, seller: req.user._id })) {
+      return res.status(400).json({
+        success: false,
+        message: 'Listing not found among your listings'
+      });
+    }
+    if (type === 'listing' && requestId &&
+        !await MaterialRequest.exists({ _id: requestId, buyer: req.user._id })) {
+      return res.status(400).json({
+        success: false,
+        message: 'Material request not found among your requests'
+      });
+    }
 
-    // Determine roles based on type
     const participants = [
-      {
-        user: req.user._id,
-        role: type === 'listing' ? 'buyer' : 'seller'
-      },
-      {
-        user: counterpartyId,
-        role: type === 'listing' ? 'seller' : 'buyer'
-      }
+      { user: req.user._id, role },
+      { user: counterpartyId, role: counterpartyRole }
     ];
 
     const negotiationData = {
@@ -153,19 +300,34 @@ router.post('/', [
 
     if (type === 'listing') {
       negotiationData.relatedListing = relatedId;
+      negotiationData.relatedRequest = requestId;
     } else {
       negotiationData.relatedRequest = relatedId;
+      negotiationData.relatedListing = listingId;
     }
 
     const negotiation = new Negotiation(negotiationData);
     await negotiation.save();
 
+    // Flag the matches this negotiation covers; without an explicit link, any of the initiator's own items count
+    if (type === 'listing') {
+      await markMatchesContacted({
+        requestIds: requestId ? [requestId] : await MaterialRequest.find({ buyer: req.user._id, status: 'active' }).distinct('_id'),
+        listingIds: [relatedId]
+      });
+    } else {
+      await markMatchesContacted({
+        requestIds: [relatedId],
+        listingIds: listingId ? [listingId] : await WasteListing.find({ seller: req.user._id }).distinct('_id')
+      });
+    }
+
     await negotiation.populate('participants.user', 'name company.name');
 
     res.status(201).json({
       success: true,
       message: 'Negotiation created successfully',
-      data: { negotiation }
+      data: { negotiation: negotiation.toJSONFor(req.user._id) }
     });
   } catch (error) {
     console.error('Create negotiation error:', error);
@@ -182,7 +344,7 @@ router.post('/', [
 router.post('/:id/messages', [
   auth,
   body('content').trim().isLength({ min: 1 }).withMessage('Message content is required'),
-  body('type').optional().isIn(['text', 'file', 'offer', 'price-discussion', 'terms-discussion']).withMessage('Invalid message type')
+  body('type').optional().isIn(['text', 'offer', 'price-discussion', 'terms-discussion']).withMessage('Invalid message type')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -218,19 +380,41 @@ router.post('/:id/messages', [
     const message = {
       sender: req.user._id,
       content: req.body.content,
-      type: req.body.type || 'text',
-      attachments: req.body.attachments || [],
-      offer: req.body.offer
+      type: req.body.type || 'text'
     };
 
-    negotiation.messages.push(message);
+    // Offers sent as chat messages still go through the offer lifecycle
+    if (message.type === 'offer' && req.body.offer) {
+      if (negotiation.currentOffer?.status === 'pending') {
+        return res.status(400).json({
+          success: false,
+          message: 'There is already a pending offer. Accept, reject or counter it first.'
+        });
+      }
+      recordOffer(negotiation, req.user._id, req.body.offer, req.body.content);
+    } else {
+      negotiation.messages.push(message);
+    }
     negotiation.lastActivity = new Date();
 
     await negotiation.save();
 
+    await negotiation.populate('messages.sender', 'name avatar');
+    const sent = negotiation.messages[negotiation.messages.length - 1];
+    if (sent.offer?.offerId) publishOfferUpdate(negotiation);
+    else publishToNegotiation(negotiation, 'message', { message: sent });
+
+    await notifyCounterparty(negotiation, req.user, {
+      type: 'message',
+      title: message.type === 'offer' ? 'New Offer' : 'New Message',
+      message: `${req.user.name} sent you a message in "${negotiation.title}".`,
+      priority: message.type === 'offer' ? 'high' : 'medium'
+    });
+
     res.json({
       success: true,
-      message: 'Message sent successfully'
+      message: 'Message sent successfully',
+      data: { message: sent }
     });
   } catch (error) {
     console.error('Send message error:', error);
@@ -241,12 +425,12 @@ router.post('/:id/messages', [
   }
 });
 
-// @route   PUT /api/negotiations/:id/status
-// @desc    Update negotiation status
-// @access  Private
-router.put('/:id/status', [
+// @route   PATCH /api/negotiations/:id/messages/:messageId
+// @desc    Edit a message shortly after sending it; the previous text is kept in its edit history
+// @access  Private (Sender only)
+router.patch('/:id/messages/:messageId', [
   auth,
-  body('status').isIn(['active', 'pending', 'completed', 'cancelled']).withMessage('Invalid status')
+  body('content').trim().isLength({ min: 1 }).withMessage('Message content is required')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -267,7 +451,94 @@ router.put('/:id/status', [
       });
     }
 
-    // Check if user is participant
+    const message = negotiation.messages.id(req.params.messageId);
+
+    if (!message) {
+      return res.status(404).json({
+        success: false,
+        message: 'Message not found'
+      });
+    }
+
+    if (message.sender?.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only edit your own messages'
+      });
+    }
+
+    if (!EDITABLE_MESSAGE_TYPES.includes(message.type)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Offers and system messages cannot be edited'
+      });
+    }
+
+    if (Date.now() - message.createdAt.getTime() > MESSAGE_EDIT_WINDOW) {
+      return res.status(400).json({
+        success: false,
+        message: `Messages can only be edited within ${MESSAGE_EDIT_WINDOW / 60000} minutes of sending`
+      });
+    }
+
+    if (req.body.content === message.content) {
+      return res.status(400).json({
+        success: false,
+        message: 'Message is unchanged'
+      });
+    }
+
+    const editedAt = new Date();
+    message.editHistory.push({ content: message.content, editedAt });
+    message.content = req.body.content;
+    message.edited = true;
+    message.editedAt = editedAt;
+
+    await negotiation.save();
+
+    await negotiation.populate('messages.sender', 'name avatar');
+    const edited = negotiation.messages.id(req.params.messageId);
+    publishToNegotiation(negotiation, 'message-edited', { message: edited });
+
+    res.json({
+      success: true,
+      message: 'Message edited successfully',
+      data: { message: edited }
+    });
+  } catch (error) {
+    console.error('Edit message error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while editing message'
+    });
+  }
+});
+
+// @route   POST /api/negotiations/:id/attachments
+// @desc    Upload files and share them as a file message
+// @access  Private
+router.post('/:id/attachments', [
+  auth,
+  uploadFiles,
+  body('content').optional().trim()
+], async (req, res) => {
+  try {
+    if (!req.files || req.files.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Choose at least one file to upload'
+      });
+    }
+
+    const negotiation = await Negotiation.findById(req.params.id);
+
+    if (!negotiation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Negotiation not found'
+      });
+    }
+
     const isParticipant = negotiation.participants.some(
       p => p.user.toString() === req.user._id.toString()
     );
@@ -275,27 +546,749 @@ router.put('/:id/status', [
     if (!isParticipant) {
       return res.status(403).json({
         success: false,
-        message: 'Not authorized to update this negotiation'
+        message: 'Not authorized to send messages in this negotiation'
       });
     }
 
-    negotiation.status = req.body.status;
+    const attachments = await saveFiles(req.files, `negotiations/${negotiation._id}`);
+
+    negotiation.messages.push({
+      sender: req.user._id,
+      content: req.body.content || `Shared ${attachments.map(file => file.name).join(', ')}`,
+      type: 'file',
+      attachments
+    });
     negotiation.lastActivity = new Date();
 
+    try {
+      await negotiation.save();
+    } catch (error) {
+      await removeFiles(attachments);
+      throw error;
+    }
+
+    await negotiation.populate('messages.sender', 'name avatar');
+    const sent = negotiation.messages[negotiation.messages.length - 1];
+    publishToNegotiation(negotiation, 'message', { message: sent });
+
+    await notifyCounterparty(negotiation, req.user, {
+      type: 'message',
+      title: 'New Files',
+      message: `${req.user.name} shared ${attachments.length === 1 ? 'a file' : `${attachments.length} files`} in "${negotiation.title}".`,
+      priority: 'medium'
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Files uploaded successfully',
+      data: { message: sent }
+    });
+  } catch (error) {
+    console.error('Upload attachments error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while uploading files'
+    });
+  }
+});
+
+const offerValidators = [
+  body('price').isFloat({ min: 0 }).withMessage('Price must be a positive number'),
+  body('quantity').isFloat({ min: 0 }).withMessage('Quantity must be a positive number'),
+  body('deliveryDate').optional().isISO8601().withMessage('Invalid delivery date'),
+  body('terms').optional().isString(),
+  body('paymentTerms').optional().isIn(['advance', 'cod', 'net-15', 'net-30', 'net-45']).withMessage('Invalid payment terms'),
+  body('qualitySpecs').optional().isString(),
+  body('logistics').optional().isString(),
+  body('message').optional().isString()
+];
+
+// @route   POST /api/negotiations/:id/offers
+// @desc    Make a new offer
+// @access  Private
+router.post('/:id/offers', [auth, ...offerValidators], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const negotiation = await Negotiation.findById(req.params.id);
+
+    if (!negotiation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Negotiation not found'
+      });
+    }
+
+    const isParticipant = negotiation.participants.some(
+      p => p.user.toString() === req.user._id.toString()
+    );
+
+    if (!isParticipant) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to make offers in this negotiation'
+      });
+    }
+
+    if (negotiation.status !== 'active') {
+      return res.status(400).json({
+        success: false,
+        message: 'Offers can only be made in active negotiations'
+      });
+    }
+
+    if (negotiation.currentOffer?.status === 'pending') {
+      return res.status(400).json({
+        success: false,
+        message: 'There is already a pending offer. Accept, reject or counter it first.'
+      });
+    }
+
+    const offer = recordOffer(negotiation, req.user._id, req.body, req.body.message);
+    await negotiation.save();
+
+    await notifyCounterparty(negotiation, req.user, {
+      type: 'deal',
+      title: 'New Offer',
+      message: `${req.user.name} made an offer of ₹${offer.price.toLocaleString('en-IN')} in "${negotiation.title}".`,
+      priority: 'high'
+    });
+
+    await populateNegotiation(negotiation);
+    publishOfferUpdate(negotiation);
+
+    res.status(201).json({
+      success: true,
+      message: 'Offer made successfully',
+      data: { negotiation: negotiation.toJSONFor(req.user._id), offer }
+    });
+  } catch (error) {
+    console.error('Make offer error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while making offer'
+    });
+  }
+});
+
+// @route   POST /api/negotiations/:id/offers/:offerId/accept
+// @desc    Accept the current offer
+// @access  Private
+router.post('/:id/offers/:offerId/accept', auth, async (req, res) => {
+  try {
+    const { negotiation, offer, error } = await findRespondableOffer(req);
+    if (error) return res.status(error.status).json({ success: false, message: error.message });
+
+    offer.status = 'accepted';
+    offer.respondedBy = req.user._id;
+    offer.respondedAt = new Date();
+    negotiation.currentOffer.status = 'accepted';
+
+    negotiation.agreedTerms = {
+      price: offer.price,
+      quantity: offer.quantity,
+      deliveryDate: offer.deliveryDate,
+      paymentTerms: offer.paymentTerms,
+      qualitySpecs: offer.qualitySpecs || offer.terms,
+      logistics: offer.logistics
+    };
+    negotiation.dealValue = offer.price * offer.quantity;
+    negotiation.status = 'pending';
+
+    addSystemMessage(negotiation, req.user._id, `${req.user.name} accepted the offer of ₹${offer.price.toLocaleString('en-IN')}.`);
     await negotiation.save();
 
+    await notifyCounterparty(negotiation, req.user, {
+      type: 'deal',
+      title: 'Offer Accepted',
+      message: `${req.user.name} accepted your offer in "${negotiation.title}". You can now create the contract.`,
+      priority: 'high'
+    });
+
+    await populateNegotiation(negotiation);
+    publishOfferUpdate(negotiation);
+
     res.json({
       success: true,
-      message: 'Negotiation status updated successfully',
-      data: { negotiation }
+      message: 'Offer accepted successfully',
+      data: { negotiation: negotiation.toJSONFor(req.user._id), offer }
     });
   } catch (error) {
-    console.error('Update negotiation status error:', error);
+    console.error('Accept offer error:', error);
     res.status(500).json({
       success: false,
-      message: 'Server error while updating negotiation status'
+      message: 'Server error while accepting offer'
     });
   }
 });
 
+// @route   POST /api/negotiations/:id/offers/:offerId/reject
+// @desc    Reject the current offer
+// @access  Private
+router.post('/:id/offers/:offerId/reject', [
+  auth,
+  body('reason').optional().isString()
+], async (req, res) => {
+  try {
+    const { negotiation, offer, error } = await findRespondableOffer(req);
+    if (error) return res.status(error.status).json({ success: false, message: error.message });
+
+    offer.status = 'rejected';
+    offer.respondedBy = req.user._id;
+    offer.respondedAt = new Date();
+    negotiation.currentOffer.status = 'rejected';
+
+    const reason = req.body.reason ? `: ${req.body.reason}` : '.';
+    addSystemMessage(negotiation, req.user._id, `${req.user.name} rejected the offer${reason}`);
+    await negotiation.save();
+
+    await notifyCounterparty(negotiation, req.user, {
+      type: 'deal',
+      title: 'Offer Rejected',
+      message: `${req.user.name} rejected your offer in "${negotiation.title}".`,
+      priority: 'medium'
+    });
+
+    await populateNegotiation(negotiation);
+    publishOfferUpdate(negotiation);
+
+    res.json({
+      success: true,
+      message: 'Offer rejected',
+      data: { negotiation: negotiation.toJSONFor(req.user._id), offer }
+    });
+  } catch (error) {
+    console.error('Reject offer error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while rejecting offer'
+    });
+  }
+});
+
+// @route   POST /api/negotiations/:id/offers/:offerId/counter
+// @desc    Counter the current offer with new terms
+// @access  Private
+router.post('/:id/offers/:offerId/counter', [auth, ...offerValidators], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { negotiation, offer, error } = await findRespondableOffer(req);
+    if (error) return res.status(error.status).json({ success: false, message: error.message });
+
+    offer.status = 'countered';
+    offer.respondedBy = req.user._id;
+    offer.respondedAt = new Date();
+
+    const counter = recordOffer(negotiation, req.user._id, req.body, req.body.message, offer._id);
+    await negotiation.save();
+
+    await notifyCounterparty(negotiation, req.user, {
+      type: 'deal',
+      title: 'Counter Offer',
+      message: `${req.user.name} countered with ₹${counter.price.toLocaleString('en-IN')} in "${negotiation.title}".`,
+      priority: 'high'
+    });
+
+    await populateNegotiation(negotiation);
+    publishOfferUpdate(negotiation);
+
+    res.status(201).json({
+      success: true,
+      message: 'Counter offer made successfully',
+      data: { negotiation: negotiation.toJSONFor(req.user._id), offer: counter }
+    });
+  } catch (error) {
+    console.error('Counter offer error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while countering offer'
+    });
+  }
+});
+
+// @route   POST /api/negotiations/:id/read
+// @desc    Mark all messages in a negotiation as read by the current user
+// @access  Private
+router.post('/:id/read', auth, async (req, res) => {
+  try {
+    const negotiation = await Negotiation.findById(req.params.id);
+
+    if (!negotiation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Negotiation not found'
+      });
+    }
+
+    const isParticipant = negotiation.participants.some(
+      p => p.user.toString() === req.user._id.toString()
+    );
+
+    if (!isParticipant) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to view this negotiation'
+      });
+    }
+
+    const readMessages = markMessagesRead(negotiation, req.user._id);
+    if (readMessages.length > 0) {
+      await negotiation.save();
+      publishReadReceipt(negotiation, req.user, readMessages);
+    }
+
+    res.json({
+      success: true,
+      data: { messageIds: readMessages }
+    });
+  } catch (error) {
+    console.error('Mark negotiation read error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while marking messages as read'
+    });
+  }
+});
+
+// @route   POST /api/negotiations/:id/typing
+// @desc    Tell the other participants the current user started or stopped typing
+// @access  Private
+router.post('/:id/typing', [
+  auth,
+  body('typing').isBoolean().withMessage('typing must be true or false')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const negotiation = await Negotiation.findById(req.params.id).select('participants');
+
+    if (!negotiation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Negotiation not found'
+      });
+    }
+
+    const isParticipant = negotiation.participants.some(
+      p => p.user.toString() === req.user._id.toString()
+    );
+
+    if (!isParticipant) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to send messages in this negotiation'
+      });
+    }
+
+    publishToNegotiation(negotiation, 'typing', {
+      user: { _id: req.user._id, name: req.user.name },
+      typing: req.body.typing
+    }, req.user._id);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Typing indicator error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while sending typing indicator'
+    });
+  }
+});
+
+// @route   POST /api/negotiations/:id/notes
+// @desc    Add a note; private notes are only visible to their author
+// @access  Private
+router.post('/:id/notes', [
+  auth,
+  body('content').trim().isLength({ min: 1, max: 2000 }).withMessage('Note must be between 1 and 2000 characters'),
+  body('private').optional().isBoolean().withMessage('private must be true or false')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { negotiation, error } = await findParticipantNegotiation(req);
+    if (error) return res.status(error.status).json({ success: false, message: error.message });
+
+    negotiation.notes.push({
+      user: req.user._id,
+      content: req.body.content,
+      private: req.body.private !== false
+    });
+    await negotiation.save();
+
+    const note = negotiation.notes[negotiation.notes.length - 1];
+
+    res.status(201).json({
+      success: true,
+      message: 'Note added successfully',
+      data: { note: { ...note.toJSON(), user: { _id: req.user._id, name: req.user.name } } }
+    });
+  } catch (error) {
+    console.error('Add note error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while adding note'
+    });
+  }
+});
+
+// @route   PUT /api/negotiations/:id/notes/:noteId
+// @desc    Edit a note or change whether it is shared
+// @access  Private (Author only)
+router.put('/:id/notes/:noteId', [
+  auth,
+  body('content').optional().trim().isLength({ min: 1, max: 2000 }).withMessage('Note must be between 1 and 2000 characters'),
+  body('private').optional().isBoolean().withMessage('private must be true or false')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { negotiation, note, error } = await findOwnNote(req);
+    if (error) return res.status(error.status).json({ success: false, message: error.message });
+
+    if (req.body.content !== undefined) note.content = req.body.content;
+    if (req.body.private !== undefined) note.private = req.body.private;
+    note.updatedAt = new Date();
+    await negotiation.save();
+
+    res.json({
+      success: true,
+      message: 'Note updated successfully',
+      data: { note: { ...note.toJSON(), user: { _id: req.user._id, name: req.user.name } } }
+    });
+  } catch (error) {
+    console.error('Update note error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while updating note'
+    });
+  }
+});
+
+// @route   DELETE /api/negotiations/:id/notes/:noteId
+// @desc    Delete a note
+// @access  Private (Author only)
+router.delete('/:id/notes/:noteId', auth, async (req, res) => {
+  try {
+    const { negotiation, note, error } = await findOwnNote(req);
+    if (error) return res.status(error.status).json({ success: false, message: error.message });
+
+    note.deleteOne();
+    await negotiation.save();
+
+    res.json({
+      success: true,
+      message: 'Note deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete note error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while deleting note'
+    });
+  }
+});
+
+// @route   PUT /api/negotiations/:id/tags
+// @desc    Replace the user's own tags on a negotiation
+// @access  Private
+router.put('/:id/tags', [
+  auth,
+  body('tags').isArray({ max: MAX_TAGS }).withMessage(`Tags must be a list of at most ${MAX_TAGS}`),
+  body('tags.*').isString().trim().isLength({ min: 1, max: 30 }).withMessage('Each tag must be between 1 and 30 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { negotiation, error } = await findParticipantNegotiation(req);
+    if (error) return res.status(error.status).json({ success: false, message: error.message });
+
+    const participant = negotiation.getParticipant(req.user._id);
+    participant.tags = [...new Set(req.body.tags.map(normalizeTag))];
+    await negotiation.save();
+
+    res.json({
+      success: true,
+      message: 'Tags updated successfully',
+      data: { tags: participant.tags }
+    });
+  } catch (error) {
+    console.error('Update tags error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while updating tags'
+    });
+  }
+});
+
+// @route   PUT /api/negotiations/:id/priority
+// @desc    Set the user's own priority for a negotiation
+// @access  Private
+router.put('/:id/priority', [
+  auth,
+  body('priority').isIn(['low', 'medium', 'high']).withMessage('Invalid priority')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const { negotiation, error } = await findParticipantNegotiation(req);
+    if (error) return res.status(error.status).json({ success: false, message: error.message });
+
+    const participant = negotiation.getParticipant(req.user._id);
+    participant.priority = req.body.priority;
+    await negotiation.save();
+
+    res.json({
+      success: true,
+      message: 'Priority updated successfully',
+      data: { priority: participant.priority }
+    });
+  } catch (error) {
+    console.error('Update priority error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while updating priority'
+    });
+  }
+});
+
+// @route   PUT /api/negotiations/:id/status
+// @desc    Update negotiation status
+// @access  Private
+router.put('/:id/status', [
+  auth,
+  body('status').isIn(['active', 'pending', 'completed', 'cancelled']).withMessage('Invalid status')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const negotiation = await Negotiation.findById(req.params.id);
+
+    if (!negotiation) {
+      return res.status(404).json({
+        success: false,
+        message: 'Negotiation not found'
+      });
+    }
+
+    // Check if user is participant
+    const isParticipant = negotiation.participants.some(
+      p => p.user.toString() === req.user._id.toString()
+    );
+
+    if (!isParticipant) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to update this negotiation'
+      });
+    }
+
+    negotiation.status = req.body.status;
+    negotiation.lastActivity = new Date();
+
+    await negotiation.save();
+
+    publishToNegotiation(negotiation, 'status', { status: negotiation.status, lastActivity: negotiation.lastActivity });
+
+    res.json({
+      success: true,
+      message: 'Negotiation status updated successfully',
+      data: { negotiation: negotiation.toJSONFor(req.user._id) }
+    });
+  } catch (error) {
+    console.error('Update negotiation status error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while updating negotiation status'
+    });
+  }
+});
+
+// Helper function to load an offer the current user is allowed to respond to
+async function findRespondableOffer(req) {
+  const negotiation = await Negotiation.findById(req.params.id);
+
+  if (!negotiation) {
+    return { error: { status: 404, message: 'Negotiation not found' } };
+  }
+
+  const isParticipant = negotiation.participants.some(
+    p => p.user.toString() === req.user._id.toString()
+  );
+
+  if (!isParticipant) {
+    return { error: { status: 403, message: 'Not authorized to respond to offers in this negotiation' } };
+  }
+
+  const offer = negotiation.offers.id(req.params.offerId);
+
+  if (!offer) {
+    return { error: { status: 404, message: 'Offer not found' } };
+  }
+
+  if (negotiation.status !== 'active') {
+    return { error: { status: 400, message: 'Negotiation is not active' } };
+  }
+
+  if (offer.status !== 'pending' || negotiation.currentOffer?.offerId?.toString() !== offer._id.toString()) {
+    return { error: { status: 400, message: 'Only the current pending offer can be responded to' } };
+  }
+
+  if (offer.offeredBy.toString() === req.user._id.toString()) {
+    return { error: { status: 400, message: 'You cannot respond to your own offer' } };
+  }
+
+  return { negotiation, offer };
+}
+
+// Helper function to load a negotiation the current user takes part in
+async function findParticipantNegotiation(req) {
+  const negotiation = await Negotiation.findById(req.params.id);
+
+  if (!negotiation) {
+    return { error: { status: 404, message: 'Negotiation not found' } };
+  }
+
+  const isParticipant = negotiation.participants.some(
+    p => p.user.toString() === req.user._id.toString()
+  );
+
+  if (!isParticipant) {
+    return { error: { status: 403, message: 'Not authorized to update this negotiation' } };
+  }
+
+  return { negotiation };
+}
+
+// Helper function to load a note written by the current user
+async function findOwnNote(req) {
+  const { negotiation, error } = await findParticipantNegotiation(req);
+  if (error) return { error };
+
+  const note = negotiation.notes.id(req.params.noteId);
+
+  if (!note || note.user.toString() !== req.user._id.toString()) {
+    return { error: { status: 404, message: 'Note not found' } };
+  }
+
+  return { negotiation, note };
+}
+
+// Helper function to store tags in one form so filtering matches regardless of case or spacing
+function normalizeTag(tag) {
+  return String(tag).trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+// Helper function to notify everyone in the negotiation except the actor
+async function notifyCounterparty(negotiation, actor, data) {
+  const recipients = negotiation.participants
+    .map(p => p.user)
+    .filter(userId => userId.toString() !== actor._id.toString());
+
+  await notifyUsers(recipients, {
+    ...data,
+    actionUrl: '/negotiations',
+    metadata: { negotiationId: negotiation._id, amount: negotiation.currentOffer?.price }
+  });
+}
+
+// Helper function to push the newest message of an offer action and the resulting offer state to participants
+function publishOfferUpdate(negotiation) {
+  publishToNegotiation(negotiation, 'message', {
+    message: negotiation.messages[negotiation.messages.length - 1]
+  });
+  publishToNegotiation(negotiation, 'offer', {
+    status: negotiation.status,
+    currentOffer: negotiation.currentOffer,
+    offers: negotiation.offers,
+    agreedTerms: negotiation.agreedTerms,
+    dealValue: negotiation.dealValue
+  });
+}
+
+// Helper function to tell the other participants which messages a user has just read
+function publishReadReceipt(negotiation, reader, messageIds) {
+  publishToNegotiation(negotiation, 'read', {
+    userId: reader._id,
+    messageIds,
+    readAt: new Date()
+  }, reader._id);
+}
+
+// Helper function to accept the JWT as ?token= on routes EventSource connects to
+function tokenFromQuery(req, res, next) {
+  if (!req.header('Authorization') && typeof req.query.token === 'string') {
+    req.headers.authorization = `Bearer ${req.query.token}`;
+  }
+  next();
+}
+
+// Helper function to populate a negotiation the same way GET /:id does
+async function populateNegotiation(negotiation) {
+  await negotiation.populate([
+    { path: 'participants.user', select: 'name company.name avatar' },
+    { path: 'relatedListing', select: 'title wasteType quantity price location' },
+    { path: 'relatedRequest', select: 'title materialType quantity budget location' },
+    { path: 'messages.sender', select: 'name avatar' },
+    { path: 'notes.user', select: 'name' }
+  ]);
+}
+
 module.exports = router;
\ No newline at end of file
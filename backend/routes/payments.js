@@ -1,21 +1,144 @@
 const express = require('express');
-const { body, validationResult } = require('express-validator');
+const { body, query, validationResult } = require('express-validator');
 const Payment = require('../models/Payment');
 const Contract = require('../models/Contract');
 const Shipment = require('../models/Shipment');
+const User = require('../models/User');
+const WasteListing = require('../models/WasteListing');
+const WebhookEvent = require('../models/WebhookEvent');
 const { auth, authorize } = require('../middleware/auth');
-const razorpay = require('../utils/RazorpayInstance');
+const { getGateway, getEnabledProviders } = require('../utils/gateways');
+const { notifyUsers } = require('../utils/NotificationService');
+const { getRefundableAmount, holdPaymentInEscrow, markPaymentFailed, releasePaymentToSeller, refundPayment } = require('../utils/EscrowService');
+const { verifyWebhookSignature, handleRazorpayEvent } = require('../utils/RazorpayWebhookService');
+const { transitionPayment } = require('../utils/PaymentStateMachine');
+const { OPEN_STATUSES, getPaymentSchedule, getInstallmentFee, buildInstallmentPayment, getPayableInstallment, recordCodSettlement, summarizeReceivables } = require('../utils/BillingService');
+const { calculatePlatformFee, getContractFee } = require('../utils/FeeScheduleService');
 const crypto = require('crypto');
 
 const router = express.Router();
 
+// @route   GET /api/payments/gateways
+// @desc    List the payment providers buyers can choose from
+// @access  Private
+router.get('/gateways', auth, (req, res) => {
+  const providers = getEnabledProviders();
+  res.json({ success: true, data: { providers, defaultProvider: providers[0] } });
+});
+
+// @route   GET /api/payments/receivables
+// @desc    Open invoices owed to the user (as seller) and by the user (as buyer), with overdue totals
+// @access  Private
+router.get('/receivables', auth, async (req, res) => {
+  try {
+    const payments = await Payment.find({
+      $or: [
+        { buyer: req.user._id },
+        { seller: req.user._id }
+      ],
+      status: { $in: OPEN_STATUSES },
+      dueDate: { $ne: null }
+    })
+      .populate('buyer', 'name company.name')
+      .populate('seller', 'name company.name')
+      .populate('contract', 'contractNumber terms.materialType terms.paymentTerms')
+      .sort({ dueDate: 1 });
+
+    res.json({ success: true, data: summarizeReceivables(payments, req.user._id) });
+  } catch (error) {
+    console.error('Get receivables error:', error);
+    res.status(500).json({ success: false, message: 'Server error while fetching receivables' });
+  }
+});
+
+// @route   GET /api/payments/fee-preview
+// @desc    Platform fee on a contract and each of its installments, or on a prospective deal for a listing
+// @access  Private
+router.get('/fee-preview', [
+  auth,
+  query('contractId').optional().isMongoId().withMessage('Invalid contract ID'),
+  query('listingId').optional().isMongoId().withMessage('Invalid listing ID'),
+  query('totalValue').if(query('contractId').not().exists()).isFloat({ min: 0 }).withMessage('Deal value is required without a contract')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    if (!req.query.contractId) {
+      const listing = req.query.listingId && await WasteListing.findById(req.query.listingId).select('category seller');
+      if (req.query.listingId && !listing) {
+        return res.status(404).json({ success: false, message: 'Listing not found' });
+      }
+
+      const fee = await calculatePlatformFee({
+        totalValue: parseFloat(req.query.totalValue),
+        category: listing?.category,
+        seller: listing?.seller
+      });
+      return res.json({ success: true, data: { fee } });
+    }
+
+    const contract = await Contract.findById(req.query.contractId);
+    if (!contract) {
+      return res.status(404).json({
+        success: false,
+        message: 'Contract not found'
+      });
+    }
+
+    const isParty = [contract.parties.buyer.user, contract.parties.seller.user]
+      .some(userId => userId.toString() === req.user._id.toString());
+    if (!isParty && req.user.type !== 'admin') {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to view this contract'
+      });
+    }
+
+    const fee = await getContractFee(contract);
+    const installments = [];
+    for (const item of getPaymentSchedule(contract.terms)) {
+      const platformFee = await getInstallmentFee(contract, item);
+      installments.push({
+        installment: item.installment,
+        dueOn: item.dueOn,
+        amount: item.amount,
+        platformFee,
+        sellerAmount: item.amount - platformFee
+      });
+    }
+
+    res.json({
+      success: true,
+      data: {
+        fee: {
+          percentage: fee.percentage,
+          amount: fee.amount,
+          ruleName: fee.ruleName
+        },
+        installments
+      }
+    });
+  } catch (error) {
+    console.error('Fee preview error:', error);
+    res.status(500).json({ success: false, message: 'Server error while previewing fee' });
+  }
+});
+
 // @route   POST /api/payments/create-order
-// @desc    Create Razorpay order and save payment record
+// @desc    Create a gateway order for whatever the payment terms make due now
 // @access  Private (Buyer only)
 router.post('/create-order', [
   auth,
   authorize('buyer'),
-  body('contractId').isMongoId().withMessage('Invalid contract ID')
+  body('contractId').isMongoId().withMessage('Invalid contract ID'),
+  body('provider').optional().custom(value => getEnabledProviders().includes(value)).withMessage('Payment provider is not available')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -42,78 +165,62 @@ router.post('/create-order', [
       });
     }
 
-    if (contract.status !== 'signed') {
+    // An unpaid or failed payment can be retried, with the same or another provider;
+    // otherwise the payment terms decide whether anything is due yet
+    const payable = await getPayableInstallment(contract);
+    if (payable.reason) {
       return res.status(400).json({
         success: false,
-        message: 'Contract must be signed before payment'
+        message: payable.reason
       });
     }
 
-    const existingPayment = await Payment.findOne({ contract: contract._id });
-    if (existingPayment) {
-      return res.status(400).json({
-        success: false,
-        message: 'Payment already initiated for this contract'
-      });
+    const provider = req.body.provider || getEnabledProviders()[0];
+    if (!provider) {
+      return res.status(503).json({ success: false, message: 'No payment provider is configured' });
     }
 
-    const totalAmount = contract.terms.totalValue;
-    const platformFeePercentage = totalAmount > 100000 ? 0.025 : (totalAmount > 10000 ? 0.025 : 0.05);
-    const platformFee = Math.round(totalAmount * platformFeePercentage);
-    const sellerAmount = totalAmount - platformFee;
-
-    // ✨ Create Razorpay Order
-    const razorpayOrder = await razorpay.orders.create({
-      amount: totalAmount * 100, // Convert to paise
-      currency: 'INR',
-      receipt: contract._id.toString().slice(-10) // < 40 chars
-    });
-
-    // 💗 Create Payment entry (without paymentMethod or paymentId)
-    const payment = new Payment({
-      contract: contract._id,
-      buyer: contract.parties.buyer.user,
-      seller: contract.parties.seller.user,
-      amount: {
-        total: totalAmount,
-        sellerAmount,
-        platformFee
-      },
-      gatewayDetails: {
-        provider: 'razorpay',
-        gatewayOrderId: razorpayOrder.id
-      },
+    // 💗 Create or reuse the Payment entry so its id can travel through the gateway
+    const existingPayment = payable.payment;
+    const hadOrder = Boolean(existingPayment?.gatewayDetails.gatewayOrderId);
+    const payment = existingPayment || await buildInstallmentPayment(contract, payable.item, {
+      provider,
       metadata: {
         ipAddress: req.ip,
         userAgent: req.get('User-Agent')
       }
     });
 
+    // ✨ Create the gateway order
+    const description = payment.installment === 'full'
+      ? `Payment for ${contract.terms.materialType}`
+      : `${payment.installment === 'advance' ? 'Advance' : 'Balance'} payment for ${contract.terms.materialType}`;
+    const order = await getGateway(provider).createOrder({
+      amount: payment.amount.total,
+      currency: payment.amount.currency,
+      receipt: contract._id.toString(),
+      description,
+      customer: { name: req.user.name, email: req.user.email },
+      paymentId: payment._id,
+      contractId: contract._id
+    });
+
+    payment.gatewayDetails = { provider, gatewayOrderId: order.orderId };
+    if (existingPayment) transitionPayment(payment, 'pending');
     await payment.save();
 
     contract.payment = payment._id;
     contract.paymentStatus = 'pending';
     await contract.save();
 
-    await payment.addTimelineEntry('pending', 'Payment order created', req.user._id);
+    await payment.addTimelineEntry('pending', hadOrder ? `Payment order recreated with ${provider}` : 'Payment order created', req.user._id);
 
     res.status(201).json({
       success: true,
       message: 'Payment order created successfully',
       data: {
         payment,
-        gatewayResponse: {
-          orderId: razorpayOrder.id,
-          amount: razorpayOrder.amount,
-          currency: razorpayOrder.currency,
-          key: process.env.RAZORPAY_KEY_ID,
-          name: 'WasteEx',
-          description: `Payment for ${contract.terms.materialType}`,
-          prefill: {
-            name: req.user.name,
-            email: req.user.email
-          }
-        }
+        gatewayResponse: { provider, description, ...order.checkout }
       }
     });
 
@@ -127,13 +234,11 @@ router.post('/create-order', [
 });
 
 // @route   POST /api/payments/verify
-// @desc    Verify Razorpay payment signature
+// @desc    Verify a completed checkout with the payment's gateway
 // @access  Private
 router.post('/verify', [
   auth,
-  body('paymentId').notEmpty().withMessage('Payment ID is required'),
-  body('gatewayPaymentId').notEmpty().withMessage('Gateway payment ID is required'),
-  body('signature').notEmpty().withMessage('Signature is required')
+  body('paymentId').isMongoId().withMessage('Payment ID is required')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -141,36 +246,24 @@ router.post('/verify', [
       return res.status(400).json({ success: false, message: 'Validation failed', errors: errors.array() });
     }
 
-    const { paymentId, gatewayPaymentId, signature } = req.body;
-    const payment = await Payment.findById(paymentId);
+    const payment = await Payment.findById(req.body.paymentId);
     if (!payment) return res.status(404).json({ success: false, message: 'Payment not found' });
-
-    const expectedSignature = crypto
-      .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET)
-      .update(`${payment.gatewayDetails.gatewayOrderId}|${gatewayPaymentId}`)
-      .digest('hex');
-
-    if (expectedSignature !== signature) {
-      payment.status = 'failed';
-      await payment.addTimelineEntry('failed', 'Payment verification failed', req.user._id);
-      await payment.save();
-      return res.status(400).json({ success: false, message: 'Invalid signature' });
+    if (payment.buyer.toString() !== req.user._id.toString()) {
+      return res.status(403).json({ success: false, message: 'Not authorized to verify this payment' });
+    }
+    // Cash on delivery never goes through a gateway; the seller records it with /settle-cod
+    if (payment.settlement === 'cod') {
+      return res.status(400).json({ success: false, message: 'Cash on delivery payments are settled by the seller, not verified online' });
     }
 
-    payment.gatewayDetails.gatewayPaymentId = gatewayPaymentId;
-    payment.gatewayDetails.signature = signature;
-    payment.paymentMethod = 'razorpay';
-    payment.status = 'held_in_escrow';
-    payment.escrow.heldAt = new Date();
-    payment.escrow.autoReleaseDate = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-
-    await payment.save();
-    await payment.addTimelineEntry('held_in_escrow', 'Payment verified and held in escrow', req.user._id);
+    const result = await getGateway(payment.gatewayDetails.provider).verify(payment, req.body);
+    if (!result.verified) {
+      await markPaymentFailed(payment, result.reason || 'Payment verification failed', req.user._id);
+      return res.status(400).json({ success: false, message: result.reason || 'Invalid signature' });
+    }
 
-    const contract = await Contract.findById(payment.contract);
-    contract.status = 'executed';
-    contract.paymentStatus = 'held_in_escrow';
-    await contract.save();
+    // The webhook may already have moved the payment into escrow; that's fine
+    await holdPaymentInEscrow(payment, result, req.user._id);
 
     res.json({
       success: true,
@@ -179,10 +272,136 @@ router.post('/verify', [
     });
   } catch (error) {
     console.error('Verify payment error:', error);
+    if (error.statusCode === 409) return res.status(409).json({ success: false, message: error.message });
     res.status(500).json({ success: false, message: 'Server error during verification' });
   }
 });
 
+// @route   POST /api/payments/payu/return
+// @desc    PayU success/failure return URL: verify the posted result and send the buyer back to the contract
+// @access  Public (verified by PayU's response hash)
+router.post('/payu/return', async (req, res) => {
+  const frontendUrl = (process.env.FRONTEND_URL || 'https://wasteex.vercel.app').replace(/\/$/, '');
+
+  try {
+    const payment = await Payment.findOne({ 'gatewayDetails.provider': 'payu', 'gatewayDetails.gatewayOrderId': req.body.txnid });
+    if (!payment) return res.redirect(`${frontendUrl}/contracts`);
+
+    const result = await getGateway('payu').verify(payment, req.body);
+    if (result.verified) {
+      await holdPaymentInEscrow(payment, result, payment.buyer);
+    } else {
+      await markPaymentFailed(payment, result.reason || 'Payment verification failed', payment.buyer);
+    }
+
+    res.redirect(`${frontendUrl}/contracts/${payment.contract}?paymentStatus=${result.verified ? 'success' : 'failed'}`);
+  } catch (error) {
+    console.error('PayU return error:', error);
+    res.redirect(`${frontendUrl}/contracts`);
+  }
+});
+
+// @route   POST /api/payments/:id/reconcile
+// @desc    Ask the gateway for the payment's status and catch up if a confirmation was missed
+// @access  Private (Buyer or admin)
+router.post('/:id/reconcile', auth, async (req, res) => {
+  try {
+    const payment = await Payment.findById(req.params.id);
+    if (!payment) return res.status(404).json({ success: false, message: 'Payment not found' });
+    if (payment.buyer.toString() !== req.user._id.toString() && req.user.type !== 'admin') {
+      return res.status(403).json({ success: false, message: 'Not authorized' });
+    }
+
+    if (!payment.gatewayDetails.gatewayOrderId) {
+      return res.status(400).json({ success: false, message: 'No checkout has been started for this payment' });
+    }
+
+    const gatewayStatus = await getGateway(payment.gatewayDetails.provider).fetchStatus(payment);
+    if (gatewayStatus.status === 'captured') {
+      await holdPaymentInEscrow(payment, gatewayStatus, req.user._id, 'Payment confirmed with the gateway and held in escrow');
+    } else if (gatewayStatus.status === 'failed') {
+      await markPaymentFailed(payment, 'Payment failed at the gateway', req.user._id);
+    }
+
+    res.json({ success: true, data: { payment, gatewayStatus: gatewayStatus.status } });
+  } catch (error) {
+    console.error('Reconcile payment error:', error);
+    if (error.statusCode === 409) return res.status(409).json({ success: false, message: error.message });
+    res.status(500).json({ success: false, message: 'Server error while reconciling payment' });
+  }
+});
+
+// @route   POST /api/payments/:id/settle-cod
+// @desc    Record a cash-on-delivery payment the seller has received
+// @access  Private (Seller or admin)
+router.post('/:id/settle-cod', [
+  auth,
+  authorize('seller', 'admin'),
+  body('method').isIn(['cash', 'cheque', 'upi', 'netbanking']).withMessage('Invalid payment method'),
+  body('reference').optional().trim().isLength({ max: 100 }).withMessage('Reference must be at most 100 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ success: false, message: 'Validation failed', errors: errors.array() });
+    }
+
+    const payment = await Payment.findById(req.params.id);
+    if (!payment) return res.status(404).json({ success: false, message: 'Payment not found' });
+    if (payment.seller.toString() !== req.user._id.toString() && req.user.type !== 'admin') {
+      return res.status(403).json({ success: false, message: 'Only the seller can record this payment' });
+    }
+
+    await recordCodSettlement(payment, { method: req.body.method, reference: req.body.reference }, req.user._id);
+
+    res.json({ success: true, message: 'Cash on delivery recorded', data: { payment } });
+  } catch (error) {
+    console.error('Settle COD payment error:', error);
+    if (error.statusCode === 409) return res.status(409).json({ success: false, message: error.message });
+    res.status(500).json({ success: false, message: 'Server error while recording payment' });
+  }
+});
+
+// @route   POST /api/payments/webhooks/razorpay
+// @desc    Receive Razorpay webhook events (payment.captured, payment.failed, refund.processed)
+// @access  Public (verified by X-Razorpay-Signature)
+router.post('/webhooks/razorpay', async (req, res) => {
+  if (!verifyWebhookSignature(req.rawBody, req.get('X-Razorpay-Signature'))) {
+    return res.status(400).json({ success: false, message: 'Invalid webhook signature' });
+  }
+
+  const { event, payload } = req.body;
+  // Razorpay sends the same event id on every redelivery; fall back to the body hash if it's missing
+  const eventId = req.get('X-Razorpay-Event-Id') || crypto.createHash('sha256').update(req.rawBody).digest('hex');
+
+  let webhookEvent;
+  try {
+    webhookEvent = await WebhookEvent.create({ provider: 'razorpay', eventId, event });
+  } catch (error) {
+    if (error.code === 11000) {
+      return res.json({ success: true, message: 'Event already received' });
+    }
+    console.error('Record webhook event error:', error);
+    return res.status(500).json({ success: false, message: 'Server error while recording webhook' });
+  }
+
+  try {
+    const { payment, status, result } = await handleRazorpayEvent(event, payload);
+
+    webhookEvent.status = status;
+    webhookEvent.payment = payment?._id;
+    webhookEvent.result = result;
+    await webhookEvent.save();
+
+    res.json({ success: true, message: `Event ${status}`, data: { result } });
+  } catch (error) {
+    // Forget the event so Razorpay's retry gets processed
+    await WebhookEvent.deleteOne({ _id: webhookEvent._id });
+    console.error('Razorpay webhook error:', error);
+    res.status(500).json({ success: false, message: 'Server error while processing webhook' });
+  }
+});
+
 
 // @route   POST /api/payments/:id/confirm-delivery
 // @desc    Confirm delivery to release payment
@@ -278,6 +497,20 @@ router.post('/:id/release', auth, async (req, res) => {
       });
     }
 
+    if (payment.escrow.releaseConditions.disputeResolved === false) {
+      return res.status(400).json({
+        success: false,
+        message: 'Payment cannot be released while a dispute is unresolved'
+      });
+    }
+
+    if (['requested', 'processing'].includes(payment.refund.status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Payment cannot be released while a refund request is pending'
+      });
+    }
+
     await releasePaymentToSeller(payment, req.user._id);
 
     res.json({
@@ -294,6 +527,190 @@ router.post('/:id/release', auth, async (req, res) => {
   }
 });
 
+// @route   POST /api/payments/:id/refund-request
+// @desc    Request a refund for an escrowed payment
+// @access  Private (Buyer only)
+router.post('/:id/refund-request', [
+  auth,
+  authorize('buyer'),
+  body('reason').trim().isLength({ min: 10, max: 1000 }).withMessage('Reason must be between 10 and 1000 characters'),
+  body('amount').optional().isFloat({ min: 1 }).withMessage('Refund amount must be a positive number')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const payment = await Payment.findById(req.params.id).populate('contract', 'contractNumber');
+    if (!payment) {
+      return res.status(404).json({ success: false, message: 'Payment not found' });
+    }
+
+    if (payment.buyer.toString() !== req.user._id.toString()) {
+      return res.status(403).json({ success: false, message: 'Only the buyer can request a refund' });
+    }
+
+    if (payment.status !== 'held_in_escrow') {
+      return res.status(400).json({ success: false, message: 'Only payments held in escrow can be refunded' });
+    }
+
+    if (['requested', 'processing'].includes(payment.refund.status)) {
+      return res.status(400).json({ success: false, message: 'A refund request is already pending for this payment' });
+    }
+
+    const refundable = getRefundableAmount(payment);
+    const requestedAmount = req.body.amount ? parseFloat(req.body.amount) : refundable;
+    if (requestedAmount > refundable) {
+      return res.status(400).json({ success: false, message: 'Refund amount cannot exceed the amount still in escrow' });
+    }
+
+    payment.refund.requested = true;
+    payment.refund.status = 'requested';
+    payment.refund.requestedAt = new Date();
+    payment.refund.requestedBy = req.user._id;
+    payment.refund.reason = req.body.reason;
+    payment.refund.requestedAmount = requestedAmount;
+    payment.refund.approved = undefined;
+    payment.refund.rejectionReason = undefined;
+
+    await payment.save();
+    await payment.addTimelineEntry('refund_requested',
+      `Refund of ₹${requestedAmount.toLocaleString('en-IN')} requested: ${req.body.reason}`, req.user._id);
+
+    const admins = await User.find({ type: 'admin', isActive: true }).select('_id');
+    await notifyUsers([payment.seller, ...admins.map(admin => admin._id)], {
+      type: 'payment',
+      title: 'Refund Requested',
+      message: `The buyer requested a refund of ₹${requestedAmount.toLocaleString('en-IN')} for contract ${payment.contract.contractNumber}.`,
+      priority: 'high',
+      actionUrl: `/contracts/${payment.contract._id}`,
+      metadata: { contractId: payment.contract._id, paymentId: payment._id, amount: requestedAmount }
+    });
+
+    res.json({
+      success: true,
+      message: 'Refund request submitted successfully',
+      data: { payment }
+    });
+  } catch (error) {
+    console.error('Request refund error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while requesting refund'
+    });
+  }
+});
+
+// @route   POST /api/payments/:id/refund/approve
+// @desc    Approve a refund request and issue a full or partial refund
+// @access  Private (Admin only)
+router.post('/:id/refund/approve', [
+  auth,
+  authorize('admin'),
+  body('amount').optional().isFloat({ min: 1 }).withMessage('Refund amount must be a positive number')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const payment = await Payment.findById(req.params.id);
+    if (!payment) {
+      return res.status(404).json({ success: false, message: 'Payment not found' });
+    }
+
+    if (payment.refund.status !== 'requested' || payment.status !== 'held_in_escrow') {
+      return res.status(400).json({ success: false, message: 'No pending refund request for this payment' });
+    }
+
+    const amount = req.body.amount ? parseFloat(req.body.amount) : payment.refund.requestedAmount;
+    if (amount > getRefundableAmount(payment)) {
+      return res.status(400).json({ success: false, message: 'Refund amount cannot exceed the amount still in escrow' });
+    }
+
+    await refundPayment(payment, amount, req.user._id);
+
+    res.json({
+      success: true,
+      message: 'Refund processed successfully',
+      data: { payment }
+    });
+  } catch (error) {
+    console.error('Approve refund error:', error);
+    if (error.statusCode === 409) return res.status(409).json({ success: false, message: error.message });
+    res.status(500).json({
+      success: false,
+      message: 'Server error while processing refund'
+    });
+  }
+});
+
+// @route   POST /api/payments/:id/refund/reject
+// @desc    Reject a refund request
+// @access  Private (Admin only)
+router.post('/:id/refund/reject', [
+  auth,
+  authorize('admin'),
+  body('reason').trim().isLength({ min: 5, max: 1000 }).withMessage('Rejection reason must be between 5 and 1000 characters')
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const payment = await Payment.findById(req.params.id).populate('contract', 'contractNumber');
+    if (!payment) {
+      return res.status(404).json({ success: false, message: 'Payment not found' });
+    }
+
+    if (payment.refund.status !== 'requested') {
+      return res.status(400).json({ success: false, message: 'No pending refund request for this payment' });
+    }
+
+    payment.refund.status = 'rejected';
+    payment.refund.approved = false;
+    payment.refund.rejectionReason = req.body.reason;
+
+    await payment.save();
+    await payment.addTimelineEntry('refund_rejected', `Refund request rejected: ${req.body.reason}`, req.user._id);
+
+    await notifyUsers(payment.buyer, {
+      type: 'payment',
+      title: 'Refund Request Rejected',
+      message: `Your refund request for contract ${payment.contract.contractNumber} was rejected: ${req.body.reason}`,
+      actionUrl: `/contracts/${payment.contract._id}`,
+      metadata: { contractId: payment.contract._id, paymentId: payment._id }
+    });
+
+    res.json({
+      success: true,
+      message: 'Refund request rejected',
+      data: { payment }
+    });
+  } catch (error) {
+    console.error('Reject refund error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while rejecting refund'
+    });
+  }
+});
+
 // @route   GET /api/payments
 // @desc    Get user's payments
 // @access  Private
@@ -344,21 +761,4 @@ router.get('/', auth, async (req, res) => {
   }
 });
 
-// Helper function to release payment to seller
-async function releasePaymentToSeller(payment, performedBy) {
-  payment.status = 'released_to_seller';
-  payment.escrow.releasedAt = new Date();
-  
-  await payment.save();
-  await payment.addTimelineEntry('released_to_seller', 'Payment released to seller', performedBy);
-
-  // Update contract status
-  const contract = await Contract.findById(payment.contract);
-  contract.status = 'completed';
-  await contract.save();
-
-  // In real implementation, initiate actual transfer to seller's account
-  console.log(`Payment of ₹${payment.amount.sellerAmount} released to seller`);
-}
-
 module.exports = router;
\ No newline at end of file
@@ -0,0 +1,226 @@
+const express = require('express');
+const { body, validationResult } = require('express-validator');
+const SavedSearch = require('../models/SavedSearch');
+const { auth, authorize } = require('../middleware/auth');
+const { UNITS } = require('../utils/QuantityUnits');
+const { parseNear } = require('../utils/GeoService');
+
+const router = express.Router();
+
+const MAX_SAVED_SEARCHES = 20;
+
+const FILTER_FIELDS = [
+  'category', 'city', 'state', 'urgency', 'search', 'minPrice', 'maxPrice', 'minQty', 'maxQty',
+  'qtyUnit', 'hazardous', 'frequency', 'certifications', 'sellerVerified', 'near', 'radiusKm'
+];
+
+// Mirrors the query validation of GET /api/waste-listings
+const filterValidators = [
+  body('filters').optional().isObject().withMessage('Filters must be an object'),
+  body('filters.category').optional().isString(),
+  body('filters.city').optional().isString(),
+  body('filters.state').optional().isString(),
+  body('filters.urgency').optional().isIn(['low', 'medium', 'high']),
+  body('filters.search').optional().isString(),
+  body('filters.minPrice').optional().isFloat({ min: 0 }).withMessage('Minimum price must be a positive number'),
+  body('filters.maxPrice').optional().isFloat({ min: 0 }).withMessage('Maximum price must be a positive number'),
+  body('filters.minQty').optional().isFloat({ min: 0 }).withMessage('Minimum quantity must be a positive number'),
+  body('filters.maxQty').optional().isFloat({ min: 0 }).withMessage('Maximum quantity must be a positive number'),
+  body('filters.qtyUnit').optional().isIn(Object.keys(UNITS)).withMessage('Invalid quantity unit'),
+  body('filters.hazardous').optional().isBoolean(),
+  body('filters.frequency').optional().isIn(['daily', 'weekly', 'monthly', 'one-time']),
+  body('filters.certifications').optional().isString(),
+  body('filters.sellerVerified').optional().isBoolean(),
+  body('filters.near').optional().custom(value => parseNear(value) !== null)
+    .withMessage('near must be "lat,lng" or a known pincode'),
+  body('filters.radiusKm').optional().isFloat({ min: 1, max: 2000 }).withMessage('Radius must be between 1 and 2000 km')
+];
+
+const alertValidators = [
+  body('alerts.enabled').optional().isBoolean(),
+  body('alerts.frequency').optional().isIn(['instant', 'daily']).withMessage('Alert frequency must be instant or daily')
+];
+
+// Keep only known, non-empty filter values
+const pickFilters = (filters = {}) => FILTER_FIELDS.reduce((picked, field) => {
+  if (filters[field] !== undefined && filters[field] !== null && filters[field] !== '') {
+    picked[field] = filters[field];
+  }
+  return picked;
+}, {});
+
+// @route   GET /api/saved-searches
+// @desc    Get the current user's saved searches
+// @access  Private (Buyers only)
+router.get('/', auth, authorize('buyer'), async (req, res) => {
+  try {
+    const savedSearches = await SavedSearch.find({ user: req.user._id })
+      .select('-pendingListings')
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: {
+        savedSearches
+      }
+    });
+  } catch (error) {
+    console.error('Get saved searches error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching saved searches'
+    });
+  }
+});
+
+// @route   POST /api/saved-searches
+// @desc    Save a listing search
+// @access  Private (Buyers only)
+router.post('/', [
+  auth,
+  authorize('buyer'),
+  body('name').trim().isLength({ min: 1, max: 100 }).withMessage('Name must be between 1 and 100 characters'),
+  ...filterValidators,
+  ...alertValidators
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const filters = pickFilters(req.body.filters);
+    if (Object.keys(filters).length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Choose at least one filter before saving a search'
+      });
+    }
+
+    const count = await SavedSearch.countDocuments({ user: req.user._id });
+    if (count >= MAX_SAVED_SEARCHES) {
+      return res.status(400).json({
+        success: false,
+        message: `You can save up to ${MAX_SAVED_SEARCHES} searches`
+      });
+    }
+
+    const savedSearch = await SavedSearch.create({
+      user: req.user._id,
+      name: req.body.name,
+      filters,
+      alerts: req.body.alerts
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Search saved successfully',
+      data: {
+        savedSearch
+      }
+    });
+  } catch (error) {
+    console.error('Create saved search error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while saving search'
+    });
+  }
+});
+
+// @route   PUT /api/saved-searches/:id
+// @desc    Rename a saved search or change its filters and alerts
+// @access  Private (Owner only)
+router.put('/:id', [
+  auth,
+  authorize('buyer'),
+  body('name').optional().trim().isLength({ min: 1, max: 100 }).withMessage('Name must be between 1 and 100 characters'),
+  ...filterValidators,
+  ...alertValidators
+], async (req, res) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        message: 'Validation failed',
+        errors: errors.array()
+      });
+    }
+
+    const savedSearch = await SavedSearch.findOne({ _id: req.params.id, user: req.user._id });
+    if (!savedSearch) {
+      return res.status(404).json({
+        success: false,
+        message: 'Saved search not found'
+      });
+    }
+
+    if (req.body.name !== undefined) savedSearch.name = req.body.name;
+    if (req.body.filters !== undefined) {
+      const filters = pickFilters(req.body.filters);
+      if (Object.keys(filters).length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'A saved search needs at least one filter'
+        });
+      }
+      savedSearch.filters = filters;
+    }
+    if (req.body.alerts?.enabled !== undefined) savedSearch.alerts.enabled = req.body.alerts.enabled;
+    if (req.body.alerts?.frequency !== undefined) savedSearch.alerts.frequency = req.body.alerts.frequency;
+
+    // Listings queued for a digest are dropped once alerts stop being daily
+    if (!savedSearch.alerts.enabled || savedSearch.alerts.frequency !== 'daily') {
+      savedSearch.pendingListings = [];
+    }
+
+    await savedSearch.save();
+
+    res.json({
+      success: true,
+      message: 'Saved search updated successfully',
+      data: {
+        savedSearch
+      }
+    });
+  } catch (error) {
+    console.error('Update saved search error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while updating saved search'
+    });
+  }
+});
+
+// @route   DELETE /api/saved-searches/:id
+// @desc    Delete a saved search
+// @access  Private (Owner only)
+router.delete('/:id', auth, authorize('buyer'), async (req, res) => {
+  try {
+    const savedSearch = await SavedSearch.findOneAndDelete({ _id: req.params.id, user: req.user._id });
+    if (!savedSearch) {
+      return res.status(404).json({
+        success: false,
+        message: 'Saved search not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Saved search deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete saved search error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while deleting saved search'
+    });
+  }
+});
+
+module.exports = router;
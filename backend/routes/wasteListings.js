@@ -1,10 +1,28 @@
 const express = require('express');
 const { body, query, validationResult } = require('express-validator');
 const WasteListing = require('../models/WasteListing');
+const MaterialRequest = require('../models/MaterialRequest');
+const User = require('../models/User');
 const { auth, authorize, verifyCompany } = require('../middleware/auth');
+const { UNITS, toBaseQuantity, getCompatibleUnits, baseQuantityExpression } = require('../utils/QuantityUnits');
+const { DEFAULT_RADIUS_KM, parseNear, toGeoPoint } = require('../utils/GeoService');
+const { alertSavedSearches } = require('../utils/SavedSearchService');
+const { matchListing } = require('../utils/MatchingService');
 
 const router = express.Router();
 
+// Sort keys accepted by GET /api/waste-listings; _id keeps pagination stable between equal values
+const SORT_OPTIONS = {
+  featured: { featured: -1, createdAt: -1, _id: -1 },
+  newest: { createdAt: -1, _id: -1 },
+  oldest: { createdAt: 1, _id: 1 },
+  'price-high': { 'price.value': -1, _id: -1 },
+  'price-low': { 'price.value': 1, _id: 1 },
+  'quantity-high': { baseQuantity: -1, _id: -1 },
+  'quantity-low': { baseQuantity: 1, _id: 1 },
+  distance: { distanceKm: 1, _id: 1 }
+};
+
 // @route   GET /api/waste-listings
 // @desc    Get all waste listings with filters
 // @access  Public
@@ -16,7 +34,20 @@ router.get('/', [
   query('state').optional().isString(),
   query('urgency').optional().isIn(['low', 'medium', 'high']),
   query('status').optional().isIn(['active', 'inactive', 'sold', 'expired']),
-  query('search').optional().isString()
+  query('search').optional().isString(),
+  query('sort').optional().isIn(Object.keys(SORT_OPTIONS)).withMessage('Invalid sort option'),
+  query('minPrice').optional().isFloat({ min: 0 }).withMessage('Minimum price must be a positive number'),
+  query('maxPrice').optional().isFloat({ min: 0 }).withMessage('Maximum price must be a positive number'),
+  query('minQty').optional().isFloat({ min: 0 }).withMessage('Minimum quantity must be a positive number'),
+  query('maxQty').optional().isFloat({ min: 0 }).withMessage('Maximum quantity must be a positive number'),
+  query('qtyUnit').optional().isIn(Object.keys(UNITS)).withMessage('Invalid quantity unit'),
+  query('hazardous').optional().isBoolean(),
+  query('frequency').optional().isIn(['daily', 'weekly', 'monthly', 'one-time']),
+  query('certifications').optional().isString(),
+  query('sellerVerified').optional().isBoolean(),
+  query('near').optional().custom(value => parseNear(value) !== null)
+    .withMessage('near must be "lat,lng" or a known pincode'),
+  query('radiusKm').optional().isFloat({ min: 1, max: 2000 }).withMessage('Radius must be between 1 and 2000 km')
 ], async (req, res) => {
   try {
     const errors = validationResult(req);
@@ -42,19 +73,94 @@ router.get('/', [
     if (req.query.status) filter.status = req.query.status;
     else filter.status = 'active'; // Default to active listings
 
-    // Text search
-    if (req.query.search) {
-      filter.$text = { $search: req.query.search };
+    if (req.query.frequency) filter.frequency = req.query.frequency;
+    if (req.query.hazardous) filter.hazardous = req.query.hazardous === 'true';
+
+    if (req.query.minPrice || req.query.maxPrice) {
+      filter['price.value'] = {};
+      if (req.query.minPrice) filter['price.value'].$gte = parseFloat(req.query.minPrice);
+      if (req.query.maxPrice) filter['price.value'].$lte = parseFloat(req.query.maxPrice);
+    }
+
+    // Certifications are comma-separated; a listing must hold all of them
+    if (req.query.certifications) {
+      const certifications = req.query.certifications.split(',').map(c => c.trim()).filter(Boolean);
+      if (certifications.length > 0) {
+        filter.certifications = { $all: certifications.map(c => new RegExp(`^${escapeRegExp(c)}$`, 'i')) };
+      }
+    }
+
+    if (req.query.sellerVerified) {
+      const verifiedSellers = await User.find({ 'company.verified': true }).distinct('_id');
+      filter.seller = req.query.sellerVerified === 'true' ? { $in: verifiedSellers } : { $nin: verifiedSellers };
+    }
+
+    // Quantity ranges are given in qtyUnit (kg by default) and only match listings of a compatible unit
+    const qtyUnit = req.query.qtyUnit || 'kg';
+    const quantityFilter = {};
+    if (req.query.minQty) quantityFilter.$gte = toBaseQuantity(parseFloat(req.query.minQty), qtyUnit);
+    if (req.query.maxQty) quantityFilter.$lte = toBaseQuantity(parseFloat(req.query.maxQty), qtyUnit);
+    if (req.query.qtyUnit || Object.keys(quantityFilter).length > 0) {
+      filter['quantity.unit'] = { $in: getCompatibleUnits(qtyUnit) };
+    }
+
+    const near = req.query.near ? parseNear(req.query.near) : null;
+    if (req.query.sort === 'distance' && !near) {
+      return res.status(400).json({
+        success: false,
+        message: 'Sorting by distance requires a near location'
+      });
     }
 
+    // Free-text search matches listings where any term appears in the title, waste type, description or tags,
+    // with or without a radius, the same way saved-search alerts match new listings
+    const searchTerms = (req.query.search || '').split(/\s+/).filter(Boolean);
+    if (searchTerms.length > 0) {
+      filter.$or = searchTerms.flatMap(term => {
+        const pattern = new RegExp(escapeRegExp(term), 'i');
+        return [{ title: pattern }, { wasteType: pattern }, { description: pattern }, { tags: pattern }];
+      });
+    }
+
+    // Radius searches start from $geoNear, which must be the first stage and adds each listing's distance in km
+    const firstStage = near
+      ? {
+        $geoNear: {
+          near: toGeoPoint(near),
+          key: 'location.point',
+          distanceField: 'distanceKm',
+          distanceMultiplier: 0.001,
+          maxDistance: (parseFloat(req.query.radiusKm) || DEFAULT_RADIUS_KM) * 1000,
+          query: filter,
+          spherical: true
+        }
+      }
+      : { $match: filter };
+
     // Execute query
-    const listings = await WasteListing.find(filter)
-      .populate('seller', 'name company.name company.verified')
-      .sort({ featured: -1, createdAt: -1 })
-      .skip(skip)
-      .limit(limit);
+    const [result] = await WasteListing.aggregate([
+      firstStage,
+      { $addFields: { baseQuantity: baseQuantityExpression('quantity') } },
+      ...(Object.keys(quantityFilter).length > 0 ? [{ $match: { baseQuantity: quantityFilter } }] : []),
+      {
+        $facet: {
+          listings: [
+            { $sort: SORT_OPTIONS[req.query.sort || (near ? 'distance' : 'featured')] },
+            { $skip: skip },
+            { $limit: limit },
+            { $unset: 'baseQuantity' },
+            ...(near ? [{ $set: { distanceKm: { $round: ['$distanceKm', 1] } } }] : [])
+          ],
+          total: [{ $count: 'count' }]
+        }
+      }
+    ]);
 
-    const total = await WasteListing.countDocuments(filter);
+    const listings = await WasteListing.populate(result.listings, {
+      path: 'seller',
+      select: 'name company.name company.verified'
+    });
+    const total = result.total[0]?.count || 0;
 
     res.json({
       success: true,
@@ -270,6 +376,10 @@ router.post('/', [
 
     await listing.populate('seller', 'name company.name company.verified');
 
+    // Alert buyers and score open requests in the background so matching never delays the seller
+    alertSavedSearches(listing, req.user);
+    matchListing(listing);
+
     res.status(201).json({
       success: true,
       message: 'Listing created successfully',
@@ -398,6 +508,12 @@ router.put('/:id', [
     await listing.save();
     await listing.populate('seller', 'name company.name company.verified');
 
+    // Re-score open requests when anything they are matched on changed
+    const matchFields = ['category', 'quantity', 'price', 'location', 'specifications', 'frequency', 'status'];
+    if (matchFields.some(field => req.body[field] !== undefined)) {
+      matchListing(listing);
+    }
+
     res.json({
       success: true,
       message: 'Listing updated successfully',
@@ -466,6 +582,62 @@ router.delete('/:id', auth, authorize('seller'), async (req, res) => {
   }
 });
 
+// @route   GET /api/waste-listings/:id/matches
+// @desc    Get open material requests matched to a listing ("buyers who want this")
+// @access  Private (Owner only)
+router.get('/:id/matches', auth, authorize('seller'), async (req, res) => {
+  try {
+    const listing = await WasteListing.findById(req.params.id).select('seller');
+
+    if (!listing) {
+      return res.status(404).json({
+        success: false,
+        message: 'Listing not found'
+      });
+    }
+
+    // Check ownership
+    if (listing.seller.toString() !== req.user._id.toString()) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to view matches for this listing'
+      });
+    }
+
+    const requests = await MaterialRequest.find({ status: 'active', 'matches.listing': listing._id })
+      .select('title materialType quantity budget qualityGrade frequency urgency location.preferredCities buyer matches')
+      .populate('buyer', 'name company.name company.verified');
+
+    const matches = requests
+      .map(request => {
+        const match = request.matches.find(m => m.listing.toString() === listing._id.toString());
+        const summary = request.toObject();
+        delete summary.matches;
+        return {
+          request: summary,
+          matchScore: match.matchScore,
+          reasons: match.reasons,
+          contacted: match.contacted,
+          contactedAt: match.contactedAt
+        };
+      })
+      .sort((a, b) => b.matchScore - a.matchScore);
+
+    res.json({
+      success: true,
+      data: {
+        matches
+      }
+    });
+  } catch (error) {
+    console.error('Get listing matches error:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Server error while fetching listing matches'
+    });
+  }
+});
+
 // @route   POST /api/waste-listings/:id/inquire
 // @desc    Send inquiry about a listing
 // @access  Private (Buyers only)
@@ -575,4 +747,8 @@ router.get('/my/listings', auth, authorize('seller'), async (req, res) => {
   }
 });
 
+function escapeRegExp(value) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
 module.exports = router;
\ No newline at end of file
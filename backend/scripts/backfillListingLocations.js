@@ -0,0 +1,45 @@
+// scripts/backfillListingLocations.js
+// Fill in the GeoJSON point on listings saved before radius search existed, so they show up in
+// near= searches. The point is resolved the way the listing pre-save hook does it: from the
+// listing's coordinates, then its pincode, then its city. Listings that cannot be located are reported.
+//
+// Usage:
+//   npm run backfill:locations            Save the points
+//   npm run backfill:locations -- --dry   Only print them
+//
+// Connects with MONGODB_URI from backend/.env.
+const path = require('path');
+const mongoose = require('mongoose');
+require('dotenv').config({ path: path.resolve(__dirname, '../.env') });
+
+const WasteListing = require('../models/WasteListing');
+const { resolveCoordinates, toGeoPoint } = require('../utils/GeoService');
+
+const run = async () => {
+  const dryRun = process.argv.includes('--dry');
+  await mongoose.connect(process.env.MONGODB_URI);
+
+  const listings = await WasteListing.find({ 'location.point.coordinates': null }).select('title location').lean();
+  let located = 0;
+  for (const listing of listings) {
+    const coordinates = resolveCoordinates(listing.location);
+    if (!coordinates) {
+      console.log(`${listing._id} "${listing.title}": no coordinates, pincode or known city`);
+      continue;
+    }
+
+    console.log(`${listing._id} "${listing.title}": ${coordinates.latitude}, ${coordinates.longitude}`);
+    located++;
+    // Skip validation and hooks: older listings may not satisfy rules added since they were created
+    if (!dryRun) await WasteListing.updateOne({ _id: listing._id }, { $set: { 'location.point': toGeoPoint(coordinates) } });
+  }
+
+  console.log(`${dryRun ? 'Located' : 'Updated'} ${located} of ${listings.length} listing(s)`);
+};
+
+run()
+  .catch((error) => {
+    console.error('Backfill failed:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,36 @@
+// scripts/backfillPlatformFees.js
+// Fix the platform fee on contracts created before the fee schedule existed, pricing each one
+// under the rules in force when it was created. Contracts that already have a fee are left alone.
+//
+// Usage:
+//   npm run backfill:fees            Save the fees
+//   npm run backfill:fees -- --dry   Only print them
+//
+// Connects with MONGODB_URI from backend/.env.
+const path = require('path');
+const mongoose = require('mongoose');
+require('dotenv').config({ path: path.resolve(__dirname, '../.env') });
+
+const Contract = require('../models/Contract');
+const { getContractFee } = require('../utils/FeeScheduleService');
+
+const run = async () => {
+  const dryRun = process.argv.includes('--dry');
+  await mongoose.connect(process.env.MONGODB_URI);
+
+  const contracts = await Contract.find({ 'platformFee.amount': null });
+  for (const contract of contracts) {
+    const fee = await getContractFee(contract);
+    console.log(`${contract.contractNumber}: ₹${fee.amount} (${fee.percentage}%, ${fee.ruleName})`);
+    if (!dryRun) await contract.save();
+  }
+
+  console.log(`${dryRun ? 'Priced' : 'Updated'} ${contracts.length} contract(s)`);
+};
+
+run()
+  .catch((error) => {
+    console.error('Backfill failed:', error.message);
+    process.exitCode = 1;
+  })
+  .finally(() => mongoose.disconnect());
@@ -0,0 +1,114 @@
+// scripts/simulateRazorpayWebhook.js
+// Send signed Razorpay webhook events to a local server, so payment flows can be tested offline.
+//
+// Usage:
+//   npm run simulate:webhook -- payment.captured --order order_ABC [--payment pay_ABC] [--method upi]
+//   npm run simulate:webhook -- payment.failed --order order_ABC [--reason "Card declined"]
+//   npm run simulate:webhook -- refund.processed --payment pay_ABC --amount 1500
+//
+// Options:
+//   --event-id <id>   Reuse an event id (Razorpay keeps it across redeliveries)
+//   --repeat <n>      Send the same event n times to check idempotency
+//   --url <url>       Webhook URL (default http://localhost:$PORT/api/payments/webhooks/razorpay)
+//
+// Signs with RAZORPAY_WEBHOOK_SECRET from backend/.env, like Razorpay does.
+const crypto = require('crypto');
+const path = require('path');
+const axios = require('axios');
+require('dotenv').config({ path: path.resolve(__dirname, '../.env') });
+
+const EVENTS = ['payment.captured', 'payment.failed', 'refund.processed'];
+
+const parseArgs = (argv) => {
+  const [event, ...rest] = argv;
+  const options = {};
+  for (let i = 0; i < rest.length; i += 2) {
+    options[rest[i].replace(/^--/, '')] = rest[i + 1];
+  }
+  return { event, options };
+};
+
+const randomId = (prefix) => `${prefix}_${crypto.randomBytes(7).toString('hex')}`;
+
+const paymentEntity = (options, status) => ({
+  id: options.payment || randomId('pay'),
+  entity: 'payment',
+  amount: Math.round(Number(options.amount || 0) * 100),
+  currency: 'INR',
+  status,
+  order_id: options.order,
+  method: options.method || 'upi',
+  captured: status === 'captured',
+  error_description: status === 'failed' ? (options.reason || 'Payment was declined by the bank') : null
+});
+
+const buildEvent = (event, options) => {
+  const body = {
+    entity: 'event',
+    account_id: 'acc_simulated',
+    event,
+    created_at: Math.floor(Date.now() / 1000)
+  };
+
+  if (event === 'refund.processed') {
+    body.contains = ['refund', 'payment'];
+    body.payload = {
+      refund: {
+        entity: {
+          id: options.refund || randomId('rfnd'),
+          entity: 'refund',
+          amount: Math.round(Number(options.amount) * 100),
+          currency: 'INR',
+          payment_id: options.payment,
+          status: 'processed'
+        }
+      },
+      payment: { entity: paymentEntity(options, 'refunded') }
+    };
+  } else {
+    body.contains = ['payment'];
+    body.payload = { payment: { entity: paymentEntity(options, event === 'payment.captured' ? 'captured' : 'failed') } };
+  }
+
+  return body;
+};
+
+const main = async () => {
+  const { event, options } = parseArgs(process.argv.slice(2));
+
+  if (!EVENTS.includes(event)) {
+    throw new Error(`First argument must be one of: ${EVENTS.join(', ')}`);
+  }
+  if (event !== 'refund.processed' && !options.order) {
+    throw new Error(`${event} needs --order <gateway order id>`);
+  }
+  if (event === 'refund.processed' && (!options.payment || !options.amount)) {
+    throw new Error('refund.processed needs --payment <gateway payment id> and --amount <rupees>');
+  }
+
+  const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+  if (!secret) throw new Error('RAZORPAY_WEBHOOK_SECRET is not set');
+
+  const url = options.url || `http://localhost:${process.env.PORT || 5000}/api/payments/webhooks/razorpay`;
+  const eventId = options['event-id'] || randomId('evt');
+  const raw = JSON.stringify(buildEvent(event, options));
+  const signature = crypto.createHmac('sha256', secret).update(raw).digest('hex');
+
+  const repeat = parseInt(options.repeat) || 1;
+  for (let attempt = 1; attempt <= repeat; attempt++) {
+    const response = await axios.post(url, raw, {
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Razorpay-Signature': signature,
+        'X-Razorpay-Event-Id': eventId
+      },
+      validateStatus: () => true
+    });
+    console.log(`[${attempt}/${repeat}] ${event} ${eventId} -> ${response.status}`, JSON.stringify(response.data));
+  }
+};
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
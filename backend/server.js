@@ -1,4 +1,5 @@
 const express = require('express');
+const path = require('path');
 const mongoose = require('mongoose');
 const cors = require('cors');
 const helmet = require('helmet');
@@ -17,6 +18,13 @@ const contractRoutes = require('./routes/contracts');
 const logisticsRoutes = require('./routes/logistics');
 const paymentRoutes = require('./routes/payments');
 const adminRoutes = require('./routes/admin');
+const notificationRoutes = require('./routes/notifications');
+const disputeRoutes = require('./routes/disputes');
+const savedSearchRoutes = require('./routes/savedSearches');
+const invoiceRoutes = require('./routes/invoices');
+
+// Import background jobs
+const { startScheduler } = require('./jobs');
 
 // Import middleware
 const errorHandler = require('./middleware/errorHandler');
@@ -39,7 +47,8 @@ app.use('/api/', limiter);
 // CORS configuration
 app.use(cors({
   origin: 'https://wasteex.vercel.app',
-  credentials: true
+  credentials: true,
+  exposedHeaders: ['X-Content-SHA256']
 }));
 
 // const allowedOrigins = ['http://localhost:5173', 'http://localhost:3000'];
@@ -58,7 +67,13 @@ app.use(cors({
 
 
 // Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
+// Webhook signatures are computed over the exact bytes received, so keep them for those routes
+app.use(express.json({
+  limit: '10mb',
+  verify: (req, res, buf) => {
+    if (req.originalUrl.startsWith('/api/payments/webhooks/')) req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Logging
@@ -76,6 +91,11 @@ if (process.env.NODE_ENV !== 'production') {
     });
 
     console.log(`✅ MongoDB connected: ${conn.connection.host}`);
+
+    // Start scheduled jobs (escrow auto-release, overdue milestones, expiry)
+    if (process.env.DISABLE_JOBS !== 'true') {
+      startScheduler().catch(err => console.error('❌ Job scheduler failed to start:', err.message));
+    }
   } catch (err) {
     console.error('❌ MongoDB connection failed:', err.message);
     process.exit(1); // Exit if DB connection fails
@@ -91,6 +111,11 @@ app.get('/health', (req, res) => {
   });
 });
 
+// Files uploaded with the local storage driver
+app.use('/uploads', express.static(path.join(__dirname, 'uploads'), {
+  setHeaders: (res) => res.set('Cross-Origin-Resource-Policy', 'cross-origin')
+}));
+
 // API routes
 app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
@@ -101,6 +126,10 @@ app.use('/api/contracts', contractRoutes);
 app.use('/api/logistics', logisticsRoutes);
 app.use('/api/payments', paymentRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/notifications', notificationRoutes);
+app.use('/api/disputes', disputeRoutes);
+app.use('/api/saved-searches', savedSearchRoutes);
+app.use('/api/invoices', invoiceRoutes);
 
 // Error handling middleware
 app.use(notFound);
@@ -0,0 +1,17 @@
+// tests/helpers/mockQuery.js
+// Stand-in for a Mongoose query: chain methods return the query itself and awaiting it resolves to `result`.
+const CHAIN_METHODS = ['populate', 'select', 'sort', 'skip', 'limit', 'lean', 'session'];
+
+const mockQuery = (result) => {
+  const query = {
+    then: (resolve, reject) => Promise.resolve(result).then(resolve, reject),
+    catch: (reject) => Promise.resolve(result).catch(reject),
+    exec: () => Promise.resolve(result)
+  };
+  CHAIN_METHODS.forEach(method => {
+    query[method] = jest.fn(() => query);
+  });
+  return query;
+};
+
+module.exports = { mockQuery };
@@ -0,0 +1,83 @@
+const mongoose = require('mongoose');
+const Negotiation = require('../../models/Negotiation');
+
+jest.mock('../../utils/NotificationService', () => ({ notifyUsers: jest.fn() }));
+jest.mock('../../utils/RealtimeService', () => ({ publishToNegotiation: jest.fn() }));
+
+const { notifyUsers } = require('../../utils/NotificationService');
+const { publishToNegotiation } = require('../../utils/RealtimeService');
+const handleNegotiationInactivity = require('../../jobs/negotiationInactivity');
+
+const DAY = 24 * 60 * 60 * 1000;
+const buyerId = new mongoose.Types.ObjectId();
+const sellerId = new mongoose.Types.ObjectId();
+
+// A stored negotiation last active the given number of days ago, with the buyer's offer awaiting the seller
+const loadNegotiation = (quietDays, overrides = {}) => {
+  const lastActivity = new Date(Date.now() - quietDays * DAY);
+  const offerId = new mongoose.Types.ObjectId();
+  const negotiation = Negotiation.hydrate({
+    _id: new mongoose.Types.ObjectId(),
+    title: 'HDPE regrind',
+    participants: [{ user: sellerId, role: 'seller' }, { user: buyerId, role: 'buyer' }],
+    messages: [{ _id: new mongoose.Types.ObjectId(), sender: buyerId, content: 'Offer: ₹18,000/t', type: 'offer', readBy: [], createdAt: lastActivity }],
+    offers: [{ _id: offerId, price: 18000, quantity: 10, offeredBy: buyerId, status: 'pending' }],
+    currentOffer: { offerId, price: 18000, quantity: 10, offeredBy: buyerId, status: 'pending' },
+    status: 'active',
+    lastActivity,
+    ...overrides
+  });
+  jest.spyOn(negotiation, 'save').mockResolvedValue(negotiation);
+  return negotiation;
+};
+
+// The job looks up expiring threads first, then threads due a reminder
+const stubQueries = (stale, quiet) => {
+  jest.spyOn(Negotiation, 'find').mockResolvedValueOnce(stale).mockResolvedValueOnce(quiet);
+  jest.spyOn(Negotiation, 'updateOne').mockResolvedValue({});
+};
+
+describe('handleNegotiationInactivity', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    notifyUsers.mockReset();
+    publishToNegotiation.mockReset();
+  });
+
+  it('expires a quiet negotiation with a system message from the platform', async () => {
+    const negotiation = loadNegotiation(20);
+    stubQueries([negotiation], []);
+
+    await expect(handleNegotiationInactivity()).resolves.toEqual({ expired: 1, reminded: 0 });
+
+    const notice = negotiation.messages[negotiation.messages.length - 1];
+    expect(negotiation.status).toBe('expired');
+    expect(notice).toMatchObject({ type: 'system', content: 'This negotiation expired after 14 days without activity.' });
+    expect(notice.sender).toBeUndefined();
+    await expect(negotiation.validate()).resolves.toBeUndefined();
+    expect(publishToNegotiation).toHaveBeenCalledWith(negotiation, 'message', { message: notice });
+    expect(notifyUsers).toHaveBeenCalledWith([sellerId, buyerId], expect.objectContaining({ title: 'Negotiation Expired' }));
+  });
+
+  it('reminds the party who owes a reply, without counting it as activity', async () => {
+    const negotiation = loadNegotiation(4);
+    stubQueries([], [negotiation]);
+
+    await expect(handleNegotiationInactivity()).resolves.toEqual({ expired: 0, reminded: 1 });
+
+    expect(notifyUsers).toHaveBeenCalledWith([sellerId.toString()], expect.objectContaining({ title: 'Reply Needed' }));
+    expect(Negotiation.updateOne).toHaveBeenCalledWith({ _id: negotiation._id }, { reminderSentAt: expect.any(Date) });
+    expect(negotiation.save).not.toHaveBeenCalled();
+  });
+
+  it('keeps going when one negotiation fails', async () => {
+    const failing = loadNegotiation(20);
+    failing.save.mockRejectedValue(new Error('write conflict'));
+    const negotiation = loadNegotiation(20);
+    stubQueries([failing, negotiation], []);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(handleNegotiationInactivity()).resolves.toEqual({ expired: 1, reminded: 0 });
+    expect(negotiation.status).toBe('expired');
+  });
+});
@@ -0,0 +1,81 @@
+const mongoose = require('mongoose');
+const Contract = require('../../models/Contract');
+
+// Run the schema's pre-save middleware without a database connection
+const runPreSave = (doc) => new Promise((resolve, reject) => {
+  Contract.schema.s.hooks.execPre('save', doc, [], error => (error ? reject(error) : resolve()));
+});
+
+const signature = `0x${'ab'.repeat(65)}`;
+const signed = (signerAddress) => ({ signedAt: new Date('2026-10-01'), signature, signerAddress, termsHash: 'f'.repeat(64) });
+
+// A stored contract the seller has signed and the buyer has not
+const loadContract = (overrides = {}) => Contract.hydrate({
+  _id: new mongoose.Types.ObjectId(),
+  contractNumber: 'WE-2026-000001',
+  title: 'Contract for HDPE regrind',
+  parties: {
+    seller: { user: new mongoose.Types.ObjectId(), ...signed('0x00000000000000000000000000000000000000a1') },
+    buyer: { user: new mongoose.Types.ObjectId() }
+  },
+  relatedNegotiation: new mongoose.Types.ObjectId(),
+  terms: {
+    materialType: 'HDPE regrind',
+    quantity: { value: 10, unit: 'tonnes' },
+    price: { value: 20000, currency: 'INR', per: 'tonnes' },
+    totalValue: 200000,
+    deliveryDate: new Date('2026-11-30'),
+    paymentTerms: 'net-30'
+  },
+  status: 'pending',
+  auditTrail: [],
+  ...overrides
+});
+
+describe('Contract signatures', () => {
+  it('are voided when the terms change after signing', async () => {
+    const contract = loadContract();
+
+    contract.terms.totalValue = 180000;
+    await runPreSave(contract);
+
+    expect(contract.parties.seller.signedAt).toBeUndefined();
+    expect(contract.parties.seller.signature).toBeUndefined();
+    expect(contract.parties.seller.signerAddress).toBeUndefined();
+    expect(contract.parties.seller.termsHash).toBeUndefined();
+    expect(contract.auditTrail.map(entry => entry.action)).toEqual(['Signatures invalidated']);
+  });
+
+  it('move a fully signed contract back to pending when the terms change', async () => {
+    const contract = loadContract({ status: 'signed' });
+    contract.parties.buyer.set(signed('0x00000000000000000000000000000000000000b2'));
+
+    contract.terms.deliveryDate = new Date('2026-12-15');
+    await runPreSave(contract);
+
+    expect(contract.status).toBe('pending');
+    expect(contract.parties.buyer.signedAt).toBeUndefined();
+  });
+
+  it('are kept when something other than the terms changes', async () => {
+    const contract = loadContract();
+
+    contract.title = 'HDPE regrind, Q4';
+    await runPreSave(contract);
+
+    expect(contract.parties.seller.signedAt).toEqual(new Date('2026-10-01'));
+    expect(contract.parties.seller.signature).toBe(signature);
+    expect(contract.auditTrail).toHaveLength(0);
+  });
+
+  it('are not touched when the terms change before anyone has signed', async () => {
+    const contract = loadContract({
+      parties: { seller: { user: new mongoose.Types.ObjectId() }, buyer: { user: new mongoose.Types.ObjectId() } }
+    });
+
+    contract.terms.totalValue = 180000;
+    await runPreSave(contract);
+
+    expect(contract.auditTrail).toHaveLength(0);
+  });
+});
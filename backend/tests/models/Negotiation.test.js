@@ -0,0 +1,81 @@
+const mongoose = require('mongoose');
+const Negotiation = require('../../models/Negotiation');
+const { markMessagesRead } = require('../../utils/NegotiationService');
+
+// Run the schema's pre-save middleware without a database connection
+const runPreSave = (doc) => new Promise((resolve, reject) => {
+  Negotiation.schema.s.hooks.execPre('save', doc, [], error => (error ? reject(error) : resolve()));
+});
+
+const buyerId = new mongoose.Types.ObjectId();
+const sellerId = new mongoose.Types.ObjectId();
+const quietSince = new Date('2026-10-01T00:00:00Z');
+
+// A stored negotiation whose last message, from the seller, is still unread by the buyer
+const loadNegotiation = () => Negotiation.hydrate({
+  _id: new mongoose.Types.ObjectId(),
+  title: 'HDPE regrind',
+  participants: [{ user: sellerId, role: 'seller' }, { user: buyerId, role: 'buyer' }],
+  messages: [{ _id: new mongoose.Types.ObjectId(), sender: sellerId, content: 'Can you confirm the quantity?', readBy: [] }],
+  status: 'active',
+  lastActivity: quietSince
+});
+
+describe('Negotiation lastActivity', () => {
+  it('is not moved by reading messages', async () => {
+    const negotiation = loadNegotiation();
+
+    expect(markMessagesRead(negotiation, buyerId)).toHaveLength(1);
+    await runPreSave(negotiation);
+
+    expect(negotiation.lastActivity).toEqual(quietSince);
+  });
+
+  it('is moved by a new message', async () => {
+    const negotiation = loadNegotiation();
+
+    negotiation.messages.push({ sender: buyerId, content: 'Confirmed, 10 tonnes.' });
+    await runPreSave(negotiation);
+
+    expect(negotiation.lastActivity.getTime()).toBeGreaterThan(quietSince.getTime());
+  });
+});
+
+describe('Negotiation labels', () => {
+  it('are kept per participant and only shown to their owner', () => {
+    const negotiation = loadNegotiation();
+    negotiation.getParticipant(sellerId).tags = ['priority-buyer'];
+    negotiation.getParticipant(sellerId).priority = 'high';
+    negotiation.getParticipant(buyerId).tags = ['backup-supplier'];
+
+    const forBuyer = negotiation.toJSONFor(buyerId);
+    const forSeller = negotiation.toJSONFor(sellerId);
+
+    expect(forBuyer).toMatchObject({ tags: ['backup-supplier'], priority: 'medium' });
+    expect(forSeller).toMatchObject({ tags: ['priority-buyer'], priority: 'high' });
+    forBuyer.participants.forEach(participant => {
+      expect(participant).not.toHaveProperty('tags');
+      expect(participant).not.toHaveProperty('priority');
+    });
+  });
+});
+
+describe('Negotiation system messages', () => {
+  it('need no sender', async () => {
+    const negotiation = loadNegotiation();
+
+    negotiation.messages.push({ content: 'This negotiation expired after 14 days without activity.', type: 'system' });
+
+    await expect(negotiation.validate()).resolves.toBeUndefined();
+    expect(negotiation.getUnreadCount(buyerId)).toBe(2);
+    expect(markMessagesRead(negotiation, sellerId)).toEqual([negotiation.messages[1]._id]);
+  });
+
+  it('are the only messages without a sender', async () => {
+    const negotiation = loadNegotiation();
+
+    negotiation.messages.push({ content: 'Anyone there?' });
+
+    await expect(negotiation.validate()).rejects.toThrow(/sender/);
+  });
+});
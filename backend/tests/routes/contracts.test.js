@@ -0,0 +1,265 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const request = require('supertest');
+const { ethers } = require('ethers');
+const Contract = require('../../models/Contract');
+const Payment = require('../../models/Payment');
+const User = require('../../models/User');
+const { getSigningRequest } = require('../../utils/ContractSignatureService');
+const { sha256 } = require('../../utils/ContractDocumentService');
+const { notifyUsers } = require('../../utils/NotificationService');
+const deployContract = require('../../blockchain/DeployWasteContract');
+const { mockQuery } = require('../helpers/mockQuery');
+
+let mockUser;
+jest.mock('../../middleware/auth', () => ({
+  auth: (req, res, next) => {
+    req.user = mockUser;
+    next();
+  },
+  authorize: () => (req, res, next) => next()
+}));
+jest.mock('../../utils/NotificationService', () => ({ notifyUsers: jest.fn() }));
+jest.mock('../../blockchain/DeployWasteContract', () => jest.fn());
+jest.mock('../../blockchain/SignWasteContract', () => jest.fn());
+
+const contractRoutes = require('../../routes/contracts');
+
+const app = express();
+app.use(express.json());
+app.use('/api/contracts', contractRoutes);
+
+const sellerId = new mongoose.Types.ObjectId();
+const buyerId = new mongoose.Types.ObjectId();
+
+const buildContract = (paymentTerms) => new Contract({
+  contractNumber: 'C-2026-AB-CD-1001',
+  title: 'Contract for HDPE regrind',
+  parties: {
+    seller: { user: sellerId, company: 'Acme Recyclers' },
+    buyer: { user: buyerId, company: 'Polymer Works' }
+  },
+  relatedNegotiation: new mongoose.Types.ObjectId(),
+  terms: {
+    materialType: 'HDPE regrind',
+    quantity: { value: 10, unit: 'tonnes' },
+    price: { value: 20000, currency: 'INR', per: 'tonnes' },
+    totalValue: 200000,
+    deliveryDate: new Date('2026-11-30'),
+    paymentTerms
+  },
+  status: 'signed'
+});
+
+describe('GET /api/contracts/:id', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('returns the contract with its signature status and payment schedule', async () => {
+    const contract = buildContract('advance');
+    jest.spyOn(Contract, 'findById').mockReturnValue(mockQuery(contract));
+    jest.spyOn(Payment, 'find').mockReturnValue(mockQuery([]));
+    mockUser = { _id: buyerId, type: 'buyer' };
+
+    const res = await request(app).get(`/api/contracts/${contract._id}`);
+
+    expect(res.status).toBe(200);
+    expect(res.body.success).toBe(true);
+    expect(res.body.data.signatureStatus.seller.signed).toBe(false);
+    expect(res.body.data.paymentSchedule.map(item => [item.installment, item.amount, item.dueOn])).toEqual([
+      ['advance', 60000, 'signing'],
+      ['balance', 140000, 'delivery']
+    ]);
+  });
+
+  it('refuses users who are not a party to the contract', async () => {
+    const contract = buildContract('net-30');
+    jest.spyOn(Contract, 'findById').mockReturnValue(mockQuery(contract));
+    mockUser = { _id: new mongoose.Types.ObjectId(), type: 'buyer' };
+
+    const res = await request(app).get(`/api/contracts/${contract._id}`);
+
+    expect(res.status).toBe(403);
+  });
+
+  it('returns 404 for an unknown contract', async () => {
+    jest.spyOn(Contract, 'findById').mockReturnValue(mockQuery(null));
+    mockUser = { _id: buyerId, type: 'buyer' };
+
+    const res = await request(app).get(`/api/contracts/${new mongoose.Types.ObjectId()}`);
+
+    expect(res.status).toBe(404);
+  });
+});
+
+describe('contract PDFs', () => {
+  let contract;
+
+  const download = () => request(app).get(`/api/contracts/${contract._id}/pdf`).buffer(true).parse((res, done) => {
+    const chunks = [];
+    res.on('data', chunk => chunks.push(chunk));
+    res.on('end', () => done(null, Buffer.concat(chunks)));
+  });
+  const verify = (pdf) => request(app).post(`/api/contracts/${contract._id}/verify`)
+    .attach('file', pdf, { filename: 'contract.pdf', contentType: 'application/pdf' });
+
+  beforeEach(() => {
+    contract = buildContract('net-30');
+    jest.spyOn(Contract, 'findById').mockReturnValue(mockQuery(contract));
+    jest.spyOn(contract, 'save').mockResolvedValue(contract);
+    mockUser = { _id: buyerId, type: 'buyer' };
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('records the hash of each version of the PDF once', async () => {
+    const res = await download();
+
+    expect(res.status).toBe(200);
+    expect(res.headers['content-type']).toBe('application/pdf');
+    expect(res.headers['x-content-sha256']).toBe(sha256(res.body));
+    expect(contract.pdfVersions.map(version => version.sha256)).toEqual([sha256(res.body)]);
+    expect(contract.auditTrail.map(entry => entry.action)).toEqual(['Contract PDF generated']);
+
+    await download();
+
+    expect(contract.pdfVersions).toHaveLength(1);
+    expect(contract.save).toHaveBeenCalledTimes(1);
+  });
+
+  it('recognises a downloaded PDF, and whether a newer version has been issued since', async () => {
+    const { body: unsigned } = await download();
+    contract.parties.seller.signedAt = new Date('2026-10-02T09:30:00Z');
+    contract.parties.seller.signature = '0xsigned';
+    const { body: signed } = await download();
+
+    const latest = await verify(signed);
+    const superseded = await verify(unsigned);
+
+    expect(latest.body.data).toMatchObject({ matchesRecordedPdf: true, isLatestVersion: true, termsMatchChain: null });
+    expect(superseded.body.data).toMatchObject({ matchesRecordedPdf: true, isLatestVersion: false });
+  });
+
+  it('does not recognise a PDF that was altered', async () => {
+    const { body: pdf } = await download();
+
+    const res = await verify(Buffer.from(pdf.toString('latin1').replace('200000.00', '100000.00'), 'latin1'));
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ matchesRecordedPdf: false, isLatestVersion: false });
+  });
+
+  it('only gives the PDF to the contract parties', async () => {
+    mockUser = { _id: new mongoose.Types.ObjectId(), type: 'buyer' };
+
+    const res = await download();
+
+    expect(res.status).toBe(403);
+  });
+});
+
+describe('POST /api/contracts/:id/sign', () => {
+  const wallet = ethers.Wallet.createRandom();
+
+  let contract;
+  beforeEach(() => {
+    contract = buildContract('net-30');
+    contract.status = 'pending';
+    jest.spyOn(Contract, 'findById').mockResolvedValue(contract);
+    jest.spyOn(Contract.prototype, 'save').mockImplementation(function() { return Promise.resolve(this); });
+    // The buyer has no wallet yet, so the contract can't be deployed
+    jest.spyOn(User, 'findById').mockReturnValue(mockQuery({ blockchainAddress: undefined }));
+    jest.spyOn(User, 'findOne').mockResolvedValue(null);
+    jest.spyOn(User, 'updateOne').mockResolvedValue({});
+    mockUser = { _id: sellerId, type: 'seller', name: 'Asha', blockchainAddress: wallet.address };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    notifyUsers.mockReset();
+  });
+
+  const sign = (target = contract, role = 'seller', signer = wallet) => {
+    const { domain, types, message } = getSigningRequest(target, role);
+    return signer.signTypedData(domain, types, message);
+  };
+
+  it('records a signature over the current terms and tells the other party', async () => {
+    const signature = await sign();
+
+    const res = await request(app).post(`/api/contracts/${contract._id}/sign`).send({ signature });
+
+    expect(res.status).toBe(200);
+    expect(contract.parties.seller).toMatchObject({ signature, signerAddress: wallet.address });
+    expect(contract.parties.seller.signedAt).toBeInstanceOf(Date);
+    expect(contract.status).toBe('pending');
+    expect(deployContract).not.toHaveBeenCalled();
+    expect(notifyUsers).toHaveBeenCalledWith(buyerId, expect.objectContaining({ title: 'Contract Signed' }));
+  });
+
+  it('registers the signing wallet for a user who has none', async () => {
+    mockUser.blockchainAddress = undefined;
+
+    const res = await request(app).post(`/api/contracts/${contract._id}/sign`).send({ signature: await sign() });
+
+    expect(res.status).toBe(200);
+    expect(User.updateOne).toHaveBeenCalledWith({ _id: sellerId }, { blockchainAddress: wallet.address });
+  });
+
+  it('refuses a wallet that belongs to another account', async () => {
+    mockUser.blockchainAddress = undefined;
+    User.findOne.mockResolvedValue({ _id: buyerId });
+
+    const res = await request(app).post(`/api/contracts/${contract._id}/sign`).send({ signature: await sign() });
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe('This wallet is registered to another account');
+    expect(User.updateOne).not.toHaveBeenCalled();
+  });
+
+  it('refuses a signature from a wallet other than the registered one', async () => {
+    const res = await request(app).post(`/api/contracts/${contract._id}/sign`)
+      .send({ signature: await sign(contract, 'seller', ethers.Wallet.createRandom()) });
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe(`Please sign with your registered wallet ${wallet.address}`);
+    expect(contract.save).not.toHaveBeenCalled();
+  });
+
+  it('refuses a signature over other terms', async () => {
+    const amended = buildContract('net-30');
+    amended._id = contract._id;
+    amended.terms.totalValue = 180000;
+
+    const res = await request(app).post(`/api/contracts/${contract._id}/sign`).send({ signature: await sign(amended) });
+
+    expect(res.status).toBe(400);
+    expect(contract.parties.seller.signedAt).toBeUndefined();
+  });
+
+  it('refuses a signature made for another chain', async () => {
+    process.env.CHAIN_ID = '1';
+    const signature = await sign();
+    delete process.env.CHAIN_ID;
+
+    const res = await request(app).post(`/api/contracts/${contract._id}/sign`).send({ signature });
+
+    expect(res.status).toBe(400);
+  });
+
+  it('refuses a party who has already signed', async () => {
+    contract.parties.seller.signedAt = new Date();
+
+    const res = await request(app).post(`/api/contracts/${contract._id}/sign`).send({ signature: await sign() });
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe('You have already signed this contract');
+  });
+
+  it('refuses users who are not a party to the contract', async () => {
+    mockUser = { _id: new mongoose.Types.ObjectId(), type: 'buyer', blockchainAddress: wallet.address };
+
+    const res = await request(app).post(`/api/contracts/${contract._id}/sign`).send({ signature: await sign() });
+
+    expect(res.status).toBe(403);
+  });
+});
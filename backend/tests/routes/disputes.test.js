@@ -0,0 +1,152 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const request = require('supertest');
+const Contract = require('../../models/Contract');
+const Dispute = require('../../models/Dispute');
+const User = require('../../models/User');
+const { mockQuery } = require('../helpers/mockQuery');
+
+let mockUser;
+jest.mock('../../middleware/auth', () => ({
+  auth: (req, res, next) => {
+    req.user = mockUser;
+    next();
+  },
+  authorize: (...roles) => (req, res, next) => (
+    roles.includes(req.user.type) ? next() : res.status(403).json({ success: false })
+  )
+}));
+jest.mock('../../utils/NotificationService', () => ({ notifyUsers: jest.fn() }));
+jest.mock('../../utils/EscrowService', () => ({ syncDisputeHold: jest.fn() }));
+
+const { syncDisputeHold } = require('../../utils/EscrowService');
+const disputeRoutes = require('../../routes/disputes');
+
+const app = express();
+app.use(express.json());
+app.use('/api/disputes', disputeRoutes);
+
+const sellerId = new mongoose.Types.ObjectId();
+const buyerId = new mongoose.Types.ObjectId();
+
+const buildContract = () => ({
+  _id: new mongoose.Types.ObjectId(),
+  contractNumber: 'WE-2026-000001',
+  parties: { seller: { user: sellerId }, buyer: { user: buyerId } },
+  auditTrail: [],
+  save: jest.fn()
+});
+
+const dispute = {
+  subject: 'contract',
+  category: 'quality',
+  reason: 'Moisture above spec',
+  description: 'The delivered regrind tested at 4% moisture against the agreed 1%.'
+};
+
+describe('POST /api/disputes', () => {
+  let contract;
+
+  beforeEach(() => {
+    contract = buildContract();
+    jest.spyOn(Contract, 'findById').mockResolvedValue(contract);
+    jest.spyOn(Dispute, 'findOne').mockResolvedValue(null);
+    jest.spyOn(Dispute.prototype, 'save').mockImplementation(function() { return Promise.resolve(this); });
+    jest.spyOn(Dispute.prototype, 'populate').mockImplementation(function() { return Promise.resolve(this); });
+    jest.spyOn(User, 'find').mockReturnValue(mockQuery([]));
+    mockUser = { _id: buyerId, type: 'buyer', name: 'Ravi' };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    syncDisputeHold.mockReset();
+  });
+
+  it('raises the dispute against the other party and holds the contract\'s escrow', async () => {
+    const res = await request(app).post('/api/disputes').send({ contractId: contract._id, ...dispute });
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.dispute).toMatchObject({ raisedBy: buyerId.toString(), against: sellerId.toString(), status: 'open' });
+    expect(syncDisputeHold).toHaveBeenCalledWith(contract._id, expect.objectContaining({ status: 'open' }), buyerId);
+    expect(contract.auditTrail.map(entry => entry.action)).toEqual(['Dispute raised']);
+  });
+
+  it('refuses a second unresolved dispute on the same subject', async () => {
+    Dispute.findOne.mockResolvedValue({ _id: new mongoose.Types.ObjectId() });
+
+    const res = await request(app).post('/api/disputes').send({ contractId: contract._id, ...dispute });
+
+    expect(res.status).toBe(400);
+    expect(Dispute.findOne).toHaveBeenCalledWith({ contract: contract._id, 'subject.type': 'contract', status: { $ne: 'resolved' } });
+    expect(syncDisputeHold).not.toHaveBeenCalled();
+  });
+
+  it('only lets the contract parties raise a dispute', async () => {
+    mockUser = { _id: new mongoose.Types.ObjectId(), type: 'buyer', name: 'Outsider' };
+
+    const res = await request(app).post('/api/disputes').send({ contractId: contract._id, ...dispute });
+
+    expect(res.status).toBe(403);
+    expect(syncDisputeHold).not.toHaveBeenCalled();
+  });
+});
+
+describe('PUT /api/disputes/:id/status', () => {
+  let stored;
+
+  beforeEach(() => {
+    stored = new Dispute({
+      contract: new mongoose.Types.ObjectId(),
+      subject: { type: 'contract' },
+      category: 'quality',
+      reason: dispute.reason,
+      description: dispute.description,
+      raisedBy: buyerId,
+      against: sellerId
+    });
+    jest.spyOn(Dispute, 'findById').mockReturnValue(mockQuery(stored));
+    jest.spyOn(Dispute.prototype, 'save').mockImplementation(function() { return Promise.resolve(this); });
+    jest.spyOn(Dispute.prototype, 'populate').mockImplementation(function() { return Promise.resolve(this); });
+    jest.spyOn(Contract, 'updateOne').mockResolvedValue({});
+    mockUser = { _id: new mongoose.Types.ObjectId(), type: 'admin', name: 'Admin' };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    syncDisputeHold.mockReset();
+  });
+
+  it('resolves the dispute and re-syncs the escrow hold', async () => {
+    const res = await request(app).put(`/api/disputes/${stored._id}/status`)
+      .send({ status: 'resolved', resolution: 'Seller issues a 5% credit note' });
+
+    expect(res.status).toBe(200);
+    expect(stored.status).toBe('resolved');
+    expect(stored.resolvedAt).toBeInstanceOf(Date);
+    expect(syncDisputeHold).toHaveBeenCalledWith(stored.contract, stored, mockUser._id);
+  });
+
+  it('requires a written resolution', async () => {
+    const res = await request(app).put(`/api/disputes/${stored._id}/status`).send({ status: 'resolved' });
+
+    expect(res.status).toBe(400);
+    expect(syncDisputeHold).not.toHaveBeenCalled();
+  });
+
+  it('does not reopen a resolved dispute', async () => {
+    stored.status = 'resolved';
+
+    const res = await request(app).put(`/api/disputes/${stored._id}/status`).send({ status: 'investigating' });
+
+    expect(res.status).toBe(400);
+    expect(syncDisputeHold).not.toHaveBeenCalled();
+  });
+
+  it('is for admins only', async () => {
+    mockUser = { _id: buyerId, type: 'buyer' };
+
+    const res = await request(app).put(`/api/disputes/${stored._id}/status`).send({ status: 'investigating' });
+
+    expect(res.status).toBe(403);
+  });
+});
@@ -0,0 +1,162 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const request = require('supertest');
+const MaterialRequest = require('../../models/MaterialRequest');
+const Negotiation = require('../../models/Negotiation');
+const User = require('../../models/User');
+const { mockQuery } = require('../helpers/mockQuery');
+
+let mockUser;
+jest.mock('../../middleware/auth', () => ({
+  auth: (req, res, next) => {
+    req.user = mockUser;
+    next();
+  },
+  authorize: (...roles) => (req, res, next) => (
+    roles.includes(req.user.type) ? next() : res.status(403).json({ success: false })
+  ),
+  verifyCompany: (req, res, next) => next()
+}));
+jest.mock('../../utils/NotificationService', () => ({ notifyUsers: jest.fn() }));
+jest.mock('../../utils/MatchingService', () => ({
+  matchRequest: jest.fn(),
+  markMatchesContacted: jest.fn()
+}));
+
+const { notifyUsers } = require('../../utils/NotificationService');
+const { markMatchesContacted } = require('../../utils/MatchingService');
+const materialRequestRoutes = require('../../routes/materialRequests');
+
+const app = express();
+app.use(express.json());
+app.use('/api/material-requests', materialRequestRoutes);
+
+const buyerId = new mongoose.Types.ObjectId();
+const sellerId = new mongoose.Types.ObjectId();
+const listingId = new mongoose.Types.ObjectId();
+
+// A stored request with one quoted response from a seller
+const loadRequest = (response = {}) => {
+  const materialRequest = MaterialRequest.hydrate({
+    _id: new mongoose.Types.ObjectId(),
+    buyer: buyerId,
+    title: 'HDPE regrind for pipes',
+    status: 'active',
+    quantity: { value: 10, unit: 'tonnes' },
+    responses: [{
+      _id: new mongoose.Types.ObjectId(),
+      seller: sellerId,
+      listing: listingId,
+      message: 'Washed, 96% purity',
+      quotedPrice: 18000,
+      status: 'pending',
+      ...response
+    }]
+  });
+  jest.spyOn(materialRequest, 'save').mockResolvedValue(materialRequest);
+  return materialRequest;
+};
+
+const responsePath = (materialRequest, suffix = '') =>
+  `/api/material-requests/${materialRequest._id}/responses/${materialRequest.responses[0]._id}${suffix}`;
+
+describe('PUT /api/material-requests/:id/responses/:responseId', () => {
+  beforeEach(() => {
+    mockUser = { _id: buyerId, type: 'buyer', name: 'Ravi' };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    notifyUsers.mockReset();
+  });
+
+  it('declines a response with a reason and tells the seller', async () => {
+    const materialRequest = loadRequest();
+    jest.spyOn(MaterialRequest, 'findById').mockResolvedValue(materialRequest);
+
+    const res = await request(app).put(responsePath(materialRequest)).send({ status: 'declined', reason: 'Price too high' });
+
+    expect(res.status).toBe(200);
+    expect(materialRequest.responses[0]).toMatchObject({ status: 'declined', declineReason: 'Price too high' });
+    expect(notifyUsers).toHaveBeenCalledWith(sellerId, expect.objectContaining({ title: 'Response Declined' }));
+  });
+
+  it('leaves a response alone once a negotiation has started from it', async () => {
+    const materialRequest = loadRequest({ status: 'negotiating' });
+    jest.spyOn(MaterialRequest, 'findById').mockResolvedValue(materialRequest);
+
+    const res = await request(app).put(responsePath(materialRequest)).send({ status: 'shortlisted' });
+
+    expect(res.status).toBe(400);
+    expect(materialRequest.save).not.toHaveBeenCalled();
+  });
+
+  it('only lets the request owner manage its responses', async () => {
+    const materialRequest = loadRequest();
+    jest.spyOn(MaterialRequest, 'findById').mockResolvedValue(materialRequest);
+    mockUser = { _id: new mongoose.Types.ObjectId(), type: 'buyer' };
+
+    const res = await request(app).put(responsePath(materialRequest)).send({ status: 'shortlisted' });
+
+    expect(res.status).toBe(403);
+  });
+});
+
+describe('POST /api/material-requests/:id/responses/:responseId/negotiate', () => {
+  beforeEach(() => {
+    mockUser = { _id: buyerId, type: 'buyer', name: 'Ravi' };
+    jest.spyOn(User, 'findById').mockReturnValue(mockQuery({ _id: sellerId, name: 'Asha', company: { name: 'Acme Recyclers' } }));
+    jest.spyOn(Negotiation.prototype, 'save').mockImplementation(function() { return Promise.resolve(this); });
+    jest.spyOn(Negotiation.prototype, 'populate').mockImplementation(function() { return Promise.resolve(this); });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    notifyUsers.mockReset();
+    markMatchesContacted.mockReset();
+  });
+
+  it('opens a negotiation with the seller\'s quote as the first offer', async () => {
+    const materialRequest = loadRequest();
+    jest.spyOn(MaterialRequest, 'findById').mockResolvedValue(materialRequest);
+
+    const res = await request(app).post(responsePath(materialRequest, '/negotiate'));
+
+    expect(res.status).toBe(201);
+    const { negotiation } = res.body.data;
+    expect(negotiation.title).toBe('HDPE regrind for pipes - Acme Recyclers');
+    expect(negotiation.currentOffer).toMatchObject({ price: 18000, quantity: 10, offeredBy: sellerId.toString(), status: 'pending' });
+    expect(materialRequest.responses[0]).toMatchObject({ status: 'negotiating' });
+    expect(materialRequest.responses[0].negotiation.toString()).toBe(negotiation._id);
+    expect(markMatchesContacted).toHaveBeenCalledWith({ requestIds: [materialRequest._id], listingIds: [listingId] });
+    expect(notifyUsers).toHaveBeenCalledWith(sellerId, expect.objectContaining({ title: 'Negotiation Started' }));
+  });
+
+  it('returns the open negotiation instead of starting a second one', async () => {
+    const existing = Negotiation.hydrate({
+      _id: new mongoose.Types.ObjectId(),
+      title: 'HDPE regrind for pipes - Acme Recyclers',
+      participants: [{ user: buyerId, role: 'buyer' }, { user: sellerId, role: 'seller' }],
+      status: 'active'
+    });
+    const materialRequest = loadRequest({ status: 'negotiating', negotiation: existing._id });
+    jest.spyOn(MaterialRequest, 'findById').mockResolvedValue(materialRequest);
+    jest.spyOn(Negotiation, 'findOne').mockResolvedValue(existing);
+
+    const res = await request(app).post(responsePath(materialRequest, '/negotiate'));
+
+    expect(res.status).toBe(200);
+    expect(res.body.data.negotiation._id).toBe(existing._id.toString());
+    expect(Negotiation.prototype.save).not.toHaveBeenCalled();
+  });
+
+  it('refuses a declined response', async () => {
+    const materialRequest = loadRequest({ status: 'declined' });
+    jest.spyOn(MaterialRequest, 'findById').mockResolvedValue(materialRequest);
+
+    const res = await request(app).post(responsePath(materialRequest, '/negotiate'));
+
+    expect(res.status).toBe(400);
+    expect(Negotiation.prototype.save).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,375 @@
+const express = require('express');
+const mongoose = require('mongoose');
+const request = require('supertest');
+const Negotiation = require('../../models/Negotiation');
+const WasteListing = require('../../models/WasteListing');
+const MaterialRequest = require('../../models/MaterialRequest');
+const User = require('../../models/User');
+const { mockQuery } = require('../helpers/mockQuery');
+
+let mockUser;
+jest.mock('../../middleware/auth', () => ({
+  auth: (req, res, next) => {
+    req.user = mockUser;
+    next();
+  },
+  authorize: (...roles) => (req, res, next) => (
+    roles.includes(req.user.type) ? next() : res.status(403).json({ success: false })
+  )
+}));
+jest.mock('../../utils/NotificationService', () => ({ notifyUsers: jest.fn() }));
+jest.mock('../../utils/MatchingService', () => ({ markMatchesContacted: jest.fn() }));
+jest.mock('../../utils/RealtimeService', () => ({ subscribe: jest.fn(), publishToNegotiation: jest.fn() }));
+jest.mock('../../utils/StorageService', () => ({ saveFiles: jest.fn(), removeFiles: jest.fn() }));
+
+const { notifyUsers } = require('../../utils/NotificationService');
+const { publishToNegotiation } = require('../../utils/RealtimeService');
+const { saveFiles, removeFiles } = require('../../utils/StorageService');
+const negotiationRoutes = require('../../routes/negotiations');
+const errorHandler = require('../../middleware/errorHandler');
+
+const app = express();
+app.use(express.json());
+app.use('/api/negotiations', negotiationRoutes);
+app.use(errorHandler);
+
+const buyerId = new mongoose.Types.ObjectId();
+const sellerId = new mongoose.Types.ObjectId();
+const listingId = new mongoose.Types.ObjectId();
+
+describe('POST /api/negotiations', () => {
+  let listing, seller;
+
+  const open = (fields = {}) => request(app).post('/api/negotiations').send({
+    title: 'HDPE regrind, 10 tonnes',
+    counterpartyId: sellerId.toString(),
+    type: 'listing',
+    relatedId: listingId.toString(),
+    ...fields
+  });
+
+  beforeEach(() => {
+    mockUser = { _id: buyerId, type: 'buyer' };
+    seller = { _id: sellerId, type: 'seller', isActive: true };
+    listing = { _id: listingId, seller: sellerId, status: 'active' };
+    jest.spyOn(User, 'findById').mockImplementation(() => mockQuery(seller));
+    jest.spyOn(WasteListing, 'findById').mockImplementation(() => mockQuery(listing));
+    jest.spyOn(WasteListing, 'exists').mockResolvedValue(null);
+    jest.spyOn(MaterialRequest, 'exists').mockResolvedValue(null);
+    jest.spyOn(MaterialRequest, 'find').mockReturnValue({ distinct: jest.fn().mockResolvedValue([]) });
+    jest.spyOn(Negotiation, 'findOne').mockReturnValue(mockQuery(null));
+    jest.spyOn(Negotiation.prototype, 'save').mockImplementation(function() {
+      return Promise.resolve(this);
+    });
+    jest.spyOn(Negotiation.prototype, 'populate').mockImplementation(function() {
+      return Promise.resolve(this);
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('opens a negotiation between the buyer and the listing\'s seller', async () => {
+    const res = await open();
+
+    expect(res.status).toBe(201);
+    expect(res.body.data.negotiation.participants).toEqual([
+      expect.objectContaining({ user: buyerId.toString(), role: 'buyer' }),
+      expect.objectContaining({ user: sellerId.toString(), role: 'seller' })
+    ]);
+    expect(res.body.data.negotiation.relatedListing).toBe(listingId.toString());
+  });
+
+  it('only lets buyers negotiate on listings', async () => {
+    mockUser = { _id: new mongoose.Types.ObjectId(), type: 'seller' };
+
+    const res = await open();
+
+    expect(res.status).toBe(403);
+  });
+
+  it('refuses a negotiation with yourself', async () => {
+    const res = await open({ counterpartyId: buyerId.toString() });
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe('You cannot negotiate with yourself');
+  });
+
+  it('requires the counterparty to hold the opposite role', async () => {
+    seller.type = 'buyer';
+
+    const res = await open();
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe('Counterparty must be a seller');
+  });
+
+  it('requires an active listing owned by the counterparty', async () => {
+    listing.status = 'sold';
+    expect((await open()).body.message).toBe('Cannot negotiate on an inactive listing');
+
+    listing.status = 'active';
+    listing.seller = new mongoose.Types.ObjectId();
+    expect((await open()).body.message).toBe('The listing does not belong to this counterparty');
+  });
+
+  it('returns the open negotiation instead of starting a duplicate', async () => {
+    const existing = new Negotiation({
+      title: 'HDPE regrind, 10 tonnes',
+      participants: [{ user: buyerId, role: 'buyer' }, { user: sellerId, role: 'seller' }],
+      relatedListing: listingId
+    });
+    Negotiation.findOne.mockReturnValue(mockQuery(existing));
+
+    const res = await open();
+
+    expect(res.status).toBe(200);
+    expect(res.body.data).toMatchObject({ existing: true, negotiation: { _id: existing._id.toString() } });
+    expect(Negotiation.prototype.save).not.toHaveBeenCalled();
+  });
+
+  it('only links a material request the buyer owns', async () => {
+    const res = await open({ requestId: new mongoose.Types.ObjectId().toString() });
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe('Material request not found among your requests');
+  });
+});
+
+describe('negotiation labels', () => {
+  let negotiation;
+
+  beforeEach(() => {
+    mockUser = { _id: buyerId, type: 'buyer' };
+    negotiation = new Negotiation({
+      title: 'HDPE regrind, 10 tonnes',
+      participants: [{ user: buyerId, role: 'buyer' }, { user: sellerId, role: 'seller', tags: ['key-account'], priority: 'high' }]
+    });
+    jest.spyOn(Negotiation, 'findById').mockResolvedValue(negotiation);
+    jest.spyOn(negotiation, 'save').mockResolvedValue(negotiation);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('sets only the user\'s own tags', async () => {
+    const res = await request(app).put(`/api/negotiations/${negotiation._id}/tags`).send({ tags: ['Follow Up', 'follow up'] });
+
+    expect(res.body.data.tags).toEqual(['follow up']);
+    expect([...negotiation.getParticipant(buyerId).tags]).toEqual(['follow up']);
+    expect([...negotiation.getParticipant(sellerId).tags]).toEqual(['key-account']);
+  });
+
+  it('sets only the user\'s own priority', async () => {
+    await request(app).put(`/api/negotiations/${negotiation._id}/priority`).send({ priority: 'low' });
+
+    expect(negotiation.getParticipant(buyerId).priority).toBe('low');
+    expect(negotiation.getParticipant(sellerId).priority).toBe('high');
+  });
+
+  it('filters the list by the user\'s own labels', async () => {
+    jest.spyOn(Negotiation, 'find').mockReturnValue(mockQuery([]));
+    jest.spyOn(Negotiation, 'countDocuments').mockResolvedValue(0);
+
+    await request(app).get('/api/negotiations?tag=key-account&priority=high');
+
+    expect(Negotiation.find).toHaveBeenCalledWith({
+      participants: { $elemMatch: { user: buyerId, priority: 'high', tags: 'key-account' } }
+    });
+  });
+});
+
+describe('POST /api/negotiations/:id/read', () => {
+  let negotiation;
+
+  beforeEach(() => {
+    mockUser = { _id: buyerId, type: 'buyer' };
+    negotiation = Negotiation.hydrate({
+      _id: new mongoose.Types.ObjectId(),
+      title: 'HDPE regrind',
+      participants: [{ user: sellerId, role: 'seller' }, { user: buyerId, role: 'buyer' }],
+      messages: [
+        { _id: new mongoose.Types.ObjectId(), sender: sellerId, content: 'Can you confirm the quantity?', readBy: [] },
+        { _id: new mongoose.Types.ObjectId(), sender: buyerId, content: '10 tonnes', readBy: [] }
+      ],
+      status: 'active'
+    });
+    jest.spyOn(Negotiation, 'findById').mockResolvedValue(negotiation);
+    jest.spyOn(negotiation, 'save').mockResolvedValue(negotiation);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    publishToNegotiation.mockReset();
+  });
+
+  it('marks the other party\'s messages read and tells them', async () => {
+    const res = await request(app).post(`/api/negotiations/${negotiation._id}/read`);
+
+    const messageIds = [negotiation.messages[0]._id.toString()];
+    expect(res.status).toBe(200);
+    expect(res.body.data.messageIds).toEqual(messageIds);
+    expect(negotiation.getUnreadCount(buyerId)).toBe(0);
+    expect(publishToNegotiation).toHaveBeenCalledWith(
+      negotiation, 'read', expect.objectContaining({ userId: buyerId, messageIds: [negotiation.messages[0]._id] }), buyerId
+    );
+  });
+
+  it('sends nothing when there is nothing new to read', async () => {
+    await request(app).post(`/api/negotiations/${negotiation._id}/read`);
+    publishToNegotiation.mockReset();
+
+    const res = await request(app).post(`/api/negotiations/${negotiation._id}/read`);
+
+    expect(res.body.data.messageIds).toEqual([]);
+    expect(publishToNegotiation).not.toHaveBeenCalled();
+  });
+
+  it('is for participants only', async () => {
+    mockUser = { _id: new mongoose.Types.ObjectId(), type: 'buyer' };
+
+    const res = await request(app).post(`/api/negotiations/${negotiation._id}/read`);
+
+    expect(res.status).toBe(403);
+  });
+});
+
+describe('PATCH /api/negotiations/:id/messages/:messageId', () => {
+  let negotiation;
+
+  const sentMinutesAgo = (minutes, fields = {}) => ({
+    _id: new mongoose.Types.ObjectId(),
+    sender: buyerId,
+    content: '10 tonnes a month',
+    type: 'text',
+    createdAt: new Date(Date.now() - minutes * 60 * 1000),
+    ...fields
+  });
+
+  const loadNegotiation = (message) => {
+    negotiation = Negotiation.hydrate({
+      _id: new mongoose.Types.ObjectId(),
+      title: 'HDPE regrind',
+      participants: [{ user: buyerId, role: 'buyer' }, { user: sellerId, role: 'seller' }],
+      messages: [message],
+      status: 'active'
+    });
+    jest.spyOn(Negotiation, 'findById').mockResolvedValue(negotiation);
+    jest.spyOn(negotiation, 'save').mockResolvedValue(negotiation);
+    jest.spyOn(negotiation, 'populate').mockResolvedValue(negotiation);
+    return negotiation.messages[0];
+  };
+
+  const edit = (message, content) => request(app)
+    .patch(`/api/negotiations/${negotiation._id}/messages/${message._id}`)
+    .send({ content });
+
+  beforeEach(() => {
+    mockUser = { _id: buyerId, type: 'buyer' };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    publishToNegotiation.mockReset();
+  });
+
+  it('edits a recent message and keeps the previous text in its history', async () => {
+    const message = loadNegotiation(sentMinutesAgo(5));
+
+    const res = await edit(message, '12 tonnes a month');
+
+    expect(res.status).toBe(200);
+    expect(message).toMatchObject({ content: '12 tonnes a month', edited: true });
+    expect(message.editHistory.map(entry => entry.content)).toEqual(['10 tonnes a month']);
+    expect(publishToNegotiation).toHaveBeenCalledWith(negotiation, 'message-edited', { message });
+  });
+
+  it('refuses edits once the edit window has passed', async () => {
+    const message = loadNegotiation(sentMinutesAgo(16));
+
+    const res = await edit(message, '12 tonnes a month');
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe('Messages can only be edited within 15 minutes of sending');
+    expect(negotiation.save).not.toHaveBeenCalled();
+  });
+
+  it('keeps offers as sent', async () => {
+    const message = loadNegotiation(sentMinutesAgo(1, { type: 'offer' }));
+
+    const res = await edit(message, 'Offer withdrawn');
+
+    expect(res.status).toBe(400);
+    expect(message.content).toBe('10 tonnes a month');
+  });
+
+  it('only lets the sender edit a message', async () => {
+    const message = loadNegotiation(sentMinutesAgo(1));
+    mockUser = { _id: sellerId, type: 'seller' };
+
+    const res = await edit(message, 'Make it 20 tonnes');
+
+    expect(res.status).toBe(403);
+    expect(negotiation.save).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/negotiations/:id/attachments', () => {
+  let negotiation;
+  const stored = [{ name: 'lab-report.pdf', url: 'http://localhost:5000/uploads/negotiations/lab-report.pdf', publicId: 'negotiations/lab-report.pdf', type: 'application/pdf', size: 9 }];
+
+  const upload = (name, type) => request(app)
+    .post(`/api/negotiations/${negotiation._id}/attachments`)
+    .attach('files', Buffer.from('%PDF-1.4\n'), { filename: name, contentType: type });
+
+  beforeEach(() => {
+    mockUser = { _id: sellerId, type: 'seller', name: 'Asha' };
+    negotiation = Negotiation.hydrate({
+      _id: new mongoose.Types.ObjectId(),
+      title: 'HDPE regrind',
+      participants: [{ user: buyerId, role: 'buyer' }, { user: sellerId, role: 'seller' }],
+      messages: [],
+      status: 'active'
+    });
+    jest.spyOn(Negotiation, 'findById').mockResolvedValue(negotiation);
+    jest.spyOn(negotiation, 'save').mockResolvedValue(negotiation);
+    jest.spyOn(negotiation, 'populate').mockResolvedValue(negotiation);
+    saveFiles.mockResolvedValue(stored);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    saveFiles.mockReset();
+    removeFiles.mockReset();
+    notifyUsers.mockReset();
+    publishToNegotiation.mockReset();
+  });
+
+  it('stores the files and shares them as a file message', async () => {
+    const res = await upload('lab-report.pdf', 'application/pdf');
+
+    expect(res.status).toBe(201);
+    expect(saveFiles).toHaveBeenCalledWith([expect.objectContaining({ originalname: 'lab-report.pdf' })], `negotiations/${negotiation._id}`);
+    expect(negotiation.messages[0]).toMatchObject({ type: 'file', content: 'Shared lab-report.pdf' });
+    expect(negotiation.messages[0].attachments[0]).toMatchObject(stored[0]);
+    expect(notifyUsers).toHaveBeenCalledWith([buyerId], expect.objectContaining({ title: 'New Files' }));
+  });
+
+  it('removes the stored files again when the message cannot be saved', async () => {
+    negotiation.save.mockRejectedValue(new Error('connection lost'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const res = await upload('lab-report.pdf', 'application/pdf');
+
+    expect(res.status).toBe(500);
+    expect(removeFiles).toHaveBeenCalledWith(stored);
+  });
+
+  it('rejects file types traders do not exchange', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const res = await upload('setup.exe', 'application/x-msdownload');
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe('File type not allowed: setup.exe');
+    expect(saveFiles).not.toHaveBeenCalled();
+  });
+});
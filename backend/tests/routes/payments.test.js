@@ -0,0 +1,236 @@
+const crypto = require('crypto');
+const express = require('express');
+const mongoose = require('mongoose');
+const request = require('supertest');
+const Payment = require('../../models/Payment');
+const WebhookEvent = require('../../models/WebhookEvent');
+const { mockQuery } = require('../helpers/mockQuery');
+
+let mockUser;
+jest.mock('../../middleware/auth', () => ({
+  auth: (req, res, next) => {
+    req.user = mockUser;
+    next();
+  },
+  authorize: (...roles) => (req, res, next) => (
+    roles.includes(req.user.type) ? next() : res.status(403).json({ success: false })
+  )
+}));
+jest.mock('../../utils/EscrowService', () => ({
+  ...jest.requireActual('../../utils/EscrowService'),
+  releasePaymentToSeller: jest.fn(),
+  holdPaymentInEscrow: jest.fn(),
+  refundPayment: jest.fn()
+}));
+
+const { releasePaymentToSeller, holdPaymentInEscrow, refundPayment } = require('../../utils/EscrowService');
+const paymentRoutes = require('../../routes/payments');
+
+const app = express();
+app.use(express.json({
+  verify: (req, res, buf) => {
+    if (req.originalUrl.startsWith('/api/payments/webhooks/')) req.rawBody = buf;
+  }
+}));
+app.use('/api/payments', paymentRoutes);
+
+const buildEscrowedPayment = () => new Payment({
+  contract: new mongoose.Types.ObjectId(),
+  buyer: new mongoose.Types.ObjectId(),
+  seller: new mongoose.Types.ObjectId(),
+  status: 'held_in_escrow',
+  amount: { total: 50000, sellerAmount: 47500, platformFee: 2500 },
+  gatewayDetails: { provider: 'razorpay' },
+  escrow: { autoReleaseDate: new Date(Date.now() - 60 * 1000) }
+});
+
+describe('POST /api/payments/:id/release', () => {
+  beforeEach(() => {
+    mockUser = { _id: new mongoose.Types.ObjectId(), type: 'seller' };
+    releasePaymentToSeller.mockReset();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('releases a payment whose auto-release date has passed', async () => {
+    const payment = buildEscrowedPayment();
+    jest.spyOn(Payment, 'findById').mockReturnValue(mockQuery(payment));
+
+    const res = await request(app).post(`/api/payments/${payment._id}/release`);
+
+    expect(res.status).toBe(200);
+    expect(releasePaymentToSeller).toHaveBeenCalledWith(payment, mockUser._id);
+  });
+
+  it('does not release a payment the buyer has asked to have refunded', async () => {
+    const payment = buildEscrowedPayment();
+    payment.refund.status = 'requested';
+    jest.spyOn(Payment, 'findById').mockReturnValue(mockQuery(payment));
+
+    const res = await request(app).post(`/api/payments/${payment._id}/release`);
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toMatch(/refund request/);
+    expect(releasePaymentToSeller).not.toHaveBeenCalled();
+  });
+
+  it('does not release a payment during an unresolved dispute', async () => {
+    const payment = buildEscrowedPayment();
+    payment.escrow.releaseConditions.disputeResolved = false;
+    jest.spyOn(Payment, 'findById').mockReturnValue(mockQuery(payment));
+
+    const res = await request(app).post(`/api/payments/${payment._id}/release`);
+
+    expect(res.status).toBe(400);
+    expect(releasePaymentToSeller).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/payments/:id/refund/approve', () => {
+  beforeEach(() => {
+    mockUser = { _id: new mongoose.Types.ObjectId(), type: 'admin' };
+    refundPayment.mockReset();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('reports a payment that can no longer be refunded as a conflict', async () => {
+    const payment = buildEscrowedPayment();
+    payment.refund.status = 'requested';
+    payment.refund.requestedAmount = 1000;
+    jest.spyOn(Payment, 'findById').mockResolvedValue(payment);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    refundPayment.mockRejectedValue(Object.assign(new Error('Payment cannot be refunded from released_to_seller'), { statusCode: 409 }));
+
+    const res = await request(app).post(`/api/payments/${payment._id}/refund/approve`).send({});
+
+    expect(res.status).toBe(409);
+    expect(res.body.message).toBe('Payment cannot be refunded from released_to_seller');
+  });
+});
+
+describe('POST /api/payments/verify', () => {
+  let payment;
+
+  beforeEach(() => {
+    payment = buildEscrowedPayment();
+    payment.status = 'pending';
+    mockUser = { _id: payment.buyer, type: 'buyer' };
+    jest.spyOn(Payment, 'findById').mockResolvedValue(payment);
+    holdPaymentInEscrow.mockReset();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('holds a payment the gateway confirms in escrow', async () => {
+    payment.gatewayDetails = { provider: 'fake', gatewayOrderId: 'order_fake_1' };
+
+    const res = await request(app).post('/api/payments/verify').send({ paymentId: payment._id });
+
+    expect(res.status).toBe(200);
+    expect(holdPaymentInEscrow).toHaveBeenCalledWith(payment, expect.objectContaining({ verified: true }), payment.buyer);
+  });
+
+  it('refuses cash on delivery payments, which have no gateway', async () => {
+    payment.settlement = 'cod';
+    payment.gatewayDetails = { provider: 'offline' };
+
+    const res = await request(app).post('/api/payments/verify').send({ paymentId: payment._id });
+
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe('Cash on delivery payments are settled by the seller, not verified online');
+    expect(holdPaymentInEscrow).not.toHaveBeenCalled();
+  });
+});
+
+describe('POST /api/payments/webhooks/razorpay', () => {
+  let payment, received;
+
+  const capturedEvent = () => JSON.stringify({
+    event: 'payment.captured',
+    payload: { payment: { entity: { id: 'pay_1', order_id: 'order_1', method: 'upi' } } }
+  });
+
+  const deliver = (body, eventId = 'evt_1') => request(app)
+    .post('/api/payments/webhooks/razorpay')
+    .set('Content-Type', 'application/json')
+    .set('X-Razorpay-Event-Id', eventId)
+    .set('X-Razorpay-Signature', crypto.createHmac('sha256', process.env.RAZORPAY_WEBHOOK_SECRET).update(body).digest('hex'))
+    .send(body);
+
+  beforeEach(() => {
+    payment = new Payment({
+      contract: new mongoose.Types.ObjectId(),
+      buyer: new mongoose.Types.ObjectId(),
+      seller: new mongoose.Types.ObjectId(),
+      status: 'pending',
+      amount: { total: 50000, sellerAmount: 47500, platformFee: 2500 },
+      gatewayDetails: { provider: 'razorpay', gatewayOrderId: 'order_1' }
+    });
+    holdPaymentInEscrow.mockReset().mockResolvedValue(true);
+    jest.spyOn(Payment, 'findOne').mockResolvedValue(payment);
+
+    // Stand in for the unique (provider, eventId) index
+    received = new Map();
+    jest.spyOn(WebhookEvent, 'create').mockImplementation(async (fields) => {
+      if (received.has(fields.eventId)) throw Object.assign(new Error('E11000 duplicate key'), { code: 11000 });
+      const webhookEvent = new WebhookEvent(fields);
+      jest.spyOn(webhookEvent, 'save').mockResolvedValue(webhookEvent);
+      received.set(fields.eventId, webhookEvent);
+      return webhookEvent;
+    });
+    jest.spyOn(WebhookEvent, 'deleteOne').mockImplementation(async ({ _id }) => {
+      const [eventId] = [...received].find(([, webhookEvent]) => webhookEvent._id.equals(_id)) || [];
+      return { deletedCount: Number(received.delete(eventId)) };
+    });
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('processes an event and records the outcome', async () => {
+    const res = await deliver(capturedEvent());
+
+    expect(res.status).toBe(200);
+    expect(holdPaymentInEscrow).toHaveBeenCalledTimes(1);
+    expect(received.get('evt_1')).toMatchObject({ status: 'processed', result: 'held_in_escrow', payment: payment._id });
+  });
+
+  it('processes a redelivered event only once', async () => {
+    await deliver(capturedEvent());
+    const res = await deliver(capturedEvent());
+
+    expect(res.status).toBe(200);
+    expect(res.body.message).toBe('Event already received');
+    expect(holdPaymentInEscrow).toHaveBeenCalledTimes(1);
+  });
+
+  it('processes events with different ids separately', async () => {
+    holdPaymentInEscrow.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    await deliver(capturedEvent(), 'evt_1');
+    await deliver(capturedEvent(), 'evt_2');
+
+    expect(holdPaymentInEscrow).toHaveBeenCalledTimes(2);
+    expect(received.get('evt_2')).toMatchObject({ status: 'ignored', result: 'Already in escrow' });
+  });
+
+  it('forgets an event that failed so the retry is processed', async () => {
+    holdPaymentInEscrow.mockRejectedValueOnce(new Error('Database unavailable'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect((await deliver(capturedEvent())).status).toBe(500);
+    expect((await deliver(capturedEvent())).status).toBe(200);
+    expect(holdPaymentInEscrow).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects an event with a bad signature before recording it', async () => {
+    const res = await request(app)
+      .post('/api/payments/webhooks/razorpay')
+      .set('Content-Type', 'application/json')
+      .set('X-Razorpay-Signature', 'forged')
+      .send(capturedEvent());
+
+    expect(res.status).toBe(400);
+    expect(WebhookEvent.create).not.toHaveBeenCalled();
+  });
+});
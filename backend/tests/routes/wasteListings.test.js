@@ -0,0 +1,126 @@
+const express = require('express');
+const request = require('supertest');
+const WasteListing = require('../../models/WasteListing');
+
+const wasteListingRoutes = require('../../routes/wasteListings');
+
+const app = express();
+app.use(express.json());
+app.use('/api/waste-listings', wasteListingRoutes);
+
+// The aggregation pipeline the listing search ran
+const pipeline = () => WasteListing.aggregate.mock.calls[0][0];
+
+describe('GET /api/waste-listings filters and sorting', () => {
+  beforeEach(() => {
+    jest.spyOn(WasteListing, 'aggregate').mockResolvedValue([{ listings: [], total: [] }]);
+    jest.spyOn(WasteListing, 'populate').mockResolvedValue([]);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('compares quantities in base units and only against compatible units', async () => {
+    const res = await request(app).get('/api/waste-listings?minQty=2&maxQty=5&qtyUnit=tonnes');
+
+    expect(res.status).toBe(200);
+    expect(pipeline()[0].$match['quantity.unit']).toEqual({ $in: ['kg', 'tonnes'] });
+    expect(pipeline()).toContainEqual({ $match: { baseQuantity: { $gte: 2000, $lte: 5000 } } });
+  });
+
+  it('filters on a price range', async () => {
+    await request(app).get('/api/waste-listings?minPrice=100&maxPrice=500');
+
+    expect(pipeline()[0].$match['price.value']).toEqual({ $gte: 100, $lte: 500 });
+  });
+
+  it('sorts by the requested key with a stable tie-breaker', async () => {
+    await request(app).get('/api/waste-listings?sort=price-low');
+
+    const { $facet } = pipeline().find(stage => stage.$facet);
+    expect($facet.listings[0]).toEqual({ $sort: { 'price.value': 1, _id: 1 } });
+  });
+
+  it('rejects an unknown sort key', async () => {
+    const res = await request(app).get('/api/waste-listings?sort=cheapest');
+
+    expect(res.status).toBe(400);
+    expect(WasteListing.aggregate).not.toHaveBeenCalled();
+  });
+});
+
+// The filter the search handed to MongoDB, from $geoNear for radius searches or $match otherwise
+const searchFilter = () => {
+  const [firstStage] = WasteListing.aggregate.mock.calls[0][0];
+  return firstStage.$geoNear ? firstStage.$geoNear.query : firstStage.$match;
+};
+
+// Evaluate a filter's $or of case-insensitive regexes against a listing, as MongoDB would
+const matchesSearch = (listing, filter) => filter.$or.some(condition => {
+  const [[field, pattern]] = Object.entries(condition);
+  const values = [].concat(listing[field] || []);
+  return values.some(value => pattern.test(value));
+});
+
+describe('GET /api/waste-listings search', () => {
+  const listing = { title: 'HDPE regrind', wasteType: 'Plastic', description: 'Washed and dried', tags: ['recycled'] };
+
+  beforeEach(() => {
+    jest.spyOn(WasteListing, 'aggregate').mockResolvedValue([{ listings: [], total: [] }]);
+    jest.spyOn(WasteListing, 'populate').mockResolvedValue([]);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it.each([
+    ['without a location', ''],
+    ['within a radius', '&near=19.07,72.87']
+  ])('matches any search term %s', async (label, near) => {
+    const res = await request(app).get(`/api/waste-listings?search=copper%20regrind${near}`);
+
+    expect(res.status).toBe(200);
+    const filter = searchFilter();
+    expect(filter.$text).toBeUndefined();
+    expect(matchesSearch(listing, filter)).toBe(true);
+    expect(matchesSearch({ ...listing, title: 'PET flakes' }, filter)).toBe(false);
+  });
+
+  it('treats search terms as text, not patterns', async () => {
+    await request(app).get('/api/waste-listings?search=(HDPE');
+
+    expect(matchesSearch(listing, searchFilter())).toBe(false);
+    expect(matchesSearch({ ...listing, title: '(HDPE) regrind' }, searchFilter())).toBe(true);
+  });
+});
+
+describe('GET /api/waste-listings near', () => {
+  beforeEach(() => {
+    jest.spyOn(WasteListing, 'aggregate').mockResolvedValue([{ listings: [], total: [] }]);
+    jest.spyOn(WasteListing, 'populate').mockResolvedValue([]);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('searches within the radius of a pincode, nearest first', async () => {
+    const res = await request(app).get('/api/waste-listings?near=400001&radiusKm=25');
+
+    expect(res.status).toBe(200);
+    expect(pipeline()[0].$geoNear).toMatchObject({
+      near: { type: 'Point', coordinates: [72.8777, 19.076] },
+      maxDistance: 25000
+    });
+    expect(pipeline().find(stage => stage.$facet).$facet.listings[0].$sort).toHaveProperty('distanceKm', 1);
+  });
+
+  it('needs a location to sort by distance', async () => {
+    const res = await request(app).get('/api/waste-listings?sort=distance');
+
+    expect(res.status).toBe(400);
+  });
+
+  it('rejects a location it cannot place', async () => {
+    const res = await request(app).get('/api/waste-listings?near=Atlantis');
+
+    expect(res.status).toBe(400);
+    expect(WasteListing.aggregate).not.toHaveBeenCalled();
+  });
+});
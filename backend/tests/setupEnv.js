@@ -0,0 +1,9 @@
+// tests/setupEnv.js
+// Placeholder credentials so modules that build SDK clients at load time can be required in tests.
+// Nothing here reaches a real service: tests stub the database and gateway calls.
+process.env.NODE_ENV = 'test';
+process.env.JWT_SECRET = process.env.JWT_SECRET || 'test-secret';
+process.env.PRIVATE_KEY = `0x${'1'.repeat(64)}`;
+process.env.RAZORPAY_KEY_ID = 'rzp_test_key';
+process.env.RAZORPAY_KEY_SECRET = 'rzp_test_secret';
+process.env.RAZORPAY_WEBHOOK_SECRET = 'whsec_test';
@@ -0,0 +1,115 @@
+const mongoose = require('mongoose');
+const Contract = require('../../models/Contract');
+const Payment = require('../../models/Payment');
+const { mockQuery } = require('../helpers/mockQuery');
+
+jest.mock('../../utils/NotificationService', () => ({ notifyUsers: jest.fn() }));
+jest.mock('../../utils/FeeScheduleService', () => ({
+  getContractFee: jest.fn().mockResolvedValue({ amount: 5000 })
+}));
+
+const { getPaymentSchedule, raiseDeliveryInvoices } = require('../../utils/BillingService');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('getPaymentSchedule', () => {
+  it('splits advance terms into an advance at signing and the balance on delivery', () => {
+    expect(getPaymentSchedule({ paymentTerms: 'advance', totalValue: 200000 })).toEqual([
+      { installment: 'advance', amount: 60000, dueOn: 'signing', netDays: 0, settlement: 'escrow' },
+      { installment: 'balance', amount: 140000, dueOn: 'delivery', netDays: 0, settlement: 'escrow' }
+    ]);
+  });
+
+  it('rounds the advance and leaves the balance to make up the total', () => {
+    const [advance, balance] = getPaymentSchedule({ paymentTerms: 'advance', totalValue: 1001 });
+
+    expect(advance.amount).toBe(300);
+    expect(balance.amount).toBe(701);
+  });
+
+  it('collects cash on delivery from the buyer outside escrow', () => {
+    expect(getPaymentSchedule({ paymentTerms: 'cod', totalValue: 50000 })).toEqual([
+      { installment: 'full', amount: 50000, dueOn: 'delivery', netDays: 0, settlement: 'cod' }
+    ]);
+  });
+
+  it.each([
+    ['net-15', 15],
+    ['net-30', 30],
+    ['net-45', 45]
+  ])('invoices %s terms in full on delivery, due %i days later', (paymentTerms, netDays) => {
+    expect(getPaymentSchedule({ paymentTerms, totalValue: 50000 })).toEqual([
+      { installment: 'full', amount: 50000, dueOn: 'delivery', netDays, settlement: 'escrow' }
+    ]);
+  });
+});
+
+describe('raiseDeliveryInvoices', () => {
+  const deliveredOn = new Date('2026-10-05T10:00:00Z');
+  let contract, saved;
+
+  const buildContract = (paymentTerms) => ({
+    _id: new mongoose.Types.ObjectId(),
+    contractNumber: 'C-2026-AR-PW-1001',
+    status: 'executed',
+    terms: { paymentTerms, totalValue: 200000 },
+    parties: { buyer: { user: new mongoose.Types.ObjectId() }, seller: { user: new mongoose.Types.ObjectId() } },
+    milestones: [],
+    auditTrail: [],
+    save: jest.fn()
+  });
+
+  const shipment = { _id: new mongoose.Types.ObjectId(), status: 'delivered', delivery: { actualDate: deliveredOn } };
+
+  const deliver = (paymentTerms, existingPayments = []) => {
+    contract = buildContract(paymentTerms);
+    shipment.contract = contract._id;
+    jest.spyOn(Contract, 'findById').mockResolvedValue(contract);
+    jest.spyOn(Payment, 'find').mockReturnValue(mockQuery(existingPayments));
+    return raiseDeliveryInvoices(shipment);
+  };
+
+  beforeEach(() => {
+    saved = [];
+    jest.spyOn(Payment.prototype, 'save').mockImplementation(function() {
+      saved.push(this);
+      return Promise.resolve(this);
+    });
+    jest.spyOn(Payment.prototype, 'addTimelineEntry').mockResolvedValue();
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('invoices net-N terms due N days after the actual delivery', async () => {
+    const [payment] = await deliver('net-30');
+
+    expect(payment.dueDate).toEqual(new Date(deliveredOn.getTime() + 30 * DAY_MS));
+    expect(payment.amount).toMatchObject({ total: 200000, sellerAmount: 195000, platformFee: 5000 });
+    expect(contract.payment).toEqual(payment._id);
+  });
+
+  it('invoices the balance of advance terms with its share of the fee', async () => {
+    const advance = { installment: 'advance', status: 'released_to_seller' };
+
+    const payments = await deliver('advance', [advance]);
+
+    expect(payments).toHaveLength(1);
+    expect(payments[0]).toMatchObject({ installment: 'balance', settlement: 'escrow' });
+    expect(payments[0].amount).toMatchObject({ total: 140000, platformFee: 3500 });
+  });
+
+  it('raises a cash-on-delivery payment the seller collects', async () => {
+    const [payment] = await deliver('cod');
+
+    expect(payment).toMatchObject({ installment: 'full', settlement: 'cod' });
+    expect(payment.gatewayDetails.provider).toBe('offline');
+    expect(payment.dueDate).toEqual(deliveredOn);
+  });
+
+  it('does not invoice an installment twice', async () => {
+    const payments = await deliver('net-30', [{ installment: 'full', status: 'pending' }]);
+
+    expect(payments).toEqual([]);
+    expect(saved).toHaveLength(0);
+  });
+});
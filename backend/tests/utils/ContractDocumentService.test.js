@@ -0,0 +1,95 @@
+const mongoose = require('mongoose');
+const Contract = require('../../models/Contract');
+const User = require('../../models/User');
+const { getCanonicalTerms, hashTerms, sha256, renderContractPdf } = require('../../utils/ContractDocumentService');
+
+const sellerId = new mongoose.Types.ObjectId();
+const buyerId = new mongoose.Types.ObjectId();
+
+// A contract as the PDF route loads it, with both party users populated
+const buildContract = (overrides = {}) => new Contract({
+  contractNumber: 'C-2026-AB-CD-1001',
+  title: 'Contract for HDPE regrind',
+  parties: {
+    seller: { user: User.hydrate({ _id: sellerId, name: 'Asha', company: { name: 'Acme Recyclers' } }) },
+    buyer: { user: User.hydrate({ _id: buyerId, name: 'Ravi', company: { name: 'Polymer Works' } }) }
+  },
+  relatedNegotiation: new mongoose.Types.ObjectId(),
+  terms: {
+    materialType: 'HDPE regrind',
+    quantity: { value: 10, unit: 'tonnes' },
+    price: { value: 20000, currency: 'INR', per: 'tonnes' },
+    totalValue: 200000,
+    deliveryDate: new Date('2026-11-30'),
+    deliveryLocation: { city: 'Pune', state: 'Maharashtra' },
+    paymentTerms: 'net-30'
+  },
+  createdAt: new Date('2026-10-01'),
+  ...overrides
+});
+
+describe('getCanonicalTerms', () => {
+  it('sorts keys, writes ISO dates and leaves out ids and empty values', () => {
+    const canonical = getCanonicalTerms({
+      terms: {
+        quantity: { unit: 'tonnes', value: 10, _id: 'q1' },
+        deliveryDate: new Date('2026-11-30'),
+        qualitySpecs: '',
+        penalties: {},
+        materialType: 'HDPE regrind'
+      }
+    });
+
+    expect(canonical).toBe('{"deliveryDate":"2026-11-30T00:00:00.000Z","materialType":"HDPE regrind","quantity":{"unit":"tonnes","value":10}}');
+  });
+});
+
+describe('hashTerms', () => {
+  it('hashes a stored contract and the same terms written in another order alike', () => {
+    const contract = buildContract();
+    const { materialType, quantity, price, totalValue, deliveryDate, deliveryLocation, paymentTerms } = contract.toObject().terms;
+
+    const reordered = { terms: { paymentTerms, totalValue, price, quantity, materialType, deliveryLocation, deliveryDate } };
+
+    expect(hashTerms(contract)).toMatch(/^[0-9a-f]{64}$/);
+    expect(hashTerms(reordered)).toBe(hashTerms(contract));
+  });
+
+  it('changes when the terms do', () => {
+    const contract = buildContract();
+    const before = hashTerms(contract);
+
+    contract.terms.quantity.value = 12;
+
+    expect(hashTerms(contract)).not.toBe(before);
+  });
+});
+
+describe('renderContractPdf', () => {
+  it('renders the agreement and returns the hash of the file', () => {
+    const { pdf, sha256: hash } = renderContractPdf(buildContract());
+    const source = pdf.toString('latin1');
+
+    expect(hash).toBe(sha256(pdf));
+    expect(source).toContain('(Company: Acme Recyclers) Tj');
+    expect(source).toContain('(Representative: Ravi) Tj');
+    expect(source).toContain('(Total Value: INR 200000.00) Tj');
+    expect(source).toContain('(Delivery Location: Pune, Maharashtra) Tj');
+    expect(source).toContain('(Seller: not yet signed) Tj');
+  });
+
+  it('gives the same file until the agreement or its signatures change', () => {
+    const contract = buildContract();
+    const { sha256: first } = renderContractPdf(contract);
+
+    contract.status = 'active';
+    contract.paymentStatus = 'held_in_escrow';
+    expect(renderContractPdf(contract).sha256).toBe(first);
+
+    contract.parties.seller.signedAt = new Date('2026-10-02T09:30:00Z');
+    contract.parties.seller.signature = '0xsigned';
+    const signed = renderContractPdf(contract);
+    expect(signed.sha256).not.toBe(first);
+    expect(signed.pdf.toString('latin1')).toContain('(Seller: signed 2026-10-02 09:30:00 UTC) Tj');
+  });
+});
@@ -0,0 +1,126 @@
+const { ethers } = require('ethers');
+const {
+  getSigningRequest,
+  recoverSigners,
+  verifyPartySignature,
+  getSignatureStatus
+} = require('../../utils/ContractSignatureService');
+
+const wallet = ethers.Wallet.createRandom();
+const otherDeployment = ethers.Wallet.createRandom().address;
+
+const terms = { materialType: 'HDPE regrind', quantity: { value: 10, unit: 'tonnes' }, totalValue: 118000 };
+
+// A contract as the routes load it; only the id and terms are signed
+const buildContract = (overrides = {}) => ({
+  _id: '66f1c0ffee00000000000001',
+  terms,
+  parties: { seller: {}, buyer: {} },
+  ...overrides
+});
+
+const sign = (contract, role) => {
+  const { domain, types, message } = getSigningRequest(contract, role);
+  return wallet.signTypedData(domain, types, message);
+};
+
+// Store a party's signature the way the sign route does
+const signedBy = async (contract, role) => {
+  contract.parties[role] = { signedAt: new Date(), signature: await sign(contract, role), signerAddress: wallet.address };
+  return contract;
+};
+
+describe('ContractSignatureService', () => {
+  afterEach(() => {
+    delete process.env.CHAIN_ID;
+  });
+
+  describe('getSigningRequest', () => {
+    it('binds the signature to the chain, and to the deployment once there is one', () => {
+      process.env.CHAIN_ID = '31337';
+      const contractAddress = ethers.Wallet.createRandom().address;
+
+      expect(getSigningRequest(buildContract(), 'seller').domain).toEqual({ name: 'WasteEx', version: '1', chainId: 31337 });
+      expect(getSigningRequest(buildContract({ blockchain: { contractAddress } }), 'seller').domain)
+        .toEqual({ name: 'WasteEx', version: '1', chainId: 31337, verifyingContract: contractAddress });
+    });
+
+    it('commits to the role and the current terms', () => {
+      const { message } = getSigningRequest(buildContract(), 'buyer');
+      const amended = getSigningRequest(buildContract({ terms: { ...terms, totalValue: 99000 } }), 'buyer').message;
+
+      expect(message).toMatchObject({ contractId: '66f1c0ffee00000000000001', role: 'buyer' });
+      expect(message.termsHash).toMatch(/^0x[0-9a-f]{64}$/);
+      expect(amended.termsHash).not.toBe(message.termsHash);
+    });
+  });
+
+  describe('recoverSigners', () => {
+    it('recovers the wallet that signed the request', async () => {
+      const contract = buildContract();
+
+      expect(recoverSigners(contract, 'seller', await sign(contract, 'seller'))).toEqual([wallet.address]);
+    });
+
+    it('returns nothing for a malformed signature', () => {
+      expect(recoverSigners(buildContract(), 'seller', '0x1234')).toEqual([]);
+    });
+  });
+
+  describe('verifyPartySignature', () => {
+    it('accepts a stored signature over the current terms', async () => {
+      const contract = await signedBy(buildContract(), 'seller');
+
+      expect(verifyPartySignature(contract, 'seller')).toBe(true);
+      expect(verifyPartySignature(contract, 'buyer')).toBe(false);
+    });
+
+    it('rejects the signature once the terms change', async () => {
+      const contract = await signedBy(buildContract(), 'seller');
+      contract.terms = { ...terms, totalValue: 99000 };
+
+      expect(verifyPartySignature(contract, 'seller')).toBe(false);
+    });
+
+    it('rejects a signature made for the other role', async () => {
+      const contract = buildContract();
+      contract.parties.buyer = { signedAt: new Date(), signature: await sign(contract, 'seller'), signerAddress: wallet.address };
+
+      expect(verifyPartySignature(contract, 'buyer')).toBe(false);
+    });
+
+    it('rejects a signature made for another chain', async () => {
+      process.env.CHAIN_ID = '1';
+      const contract = await signedBy(buildContract(), 'seller');
+      process.env.CHAIN_ID = '11155111';
+
+      expect(verifyPartySignature(contract, 'seller')).toBe(false);
+    });
+
+    it('keeps accepting a signature made before the contract was deployed', async () => {
+      const contract = await signedBy(buildContract(), 'seller');
+      contract.blockchain = { contractAddress: ethers.Wallet.createRandom().address };
+
+      expect(verifyPartySignature(contract, 'seller')).toBe(true);
+    });
+
+    it('rejects a signature made for another deployment', async () => {
+      const contract = await signedBy(buildContract({ blockchain: { contractAddress: otherDeployment } }), 'seller');
+      contract.blockchain = { contractAddress: ethers.Wallet.createRandom().address };
+
+      expect(verifyPartySignature(contract, 'seller')).toBe(false);
+    });
+  });
+
+  describe('getSignatureStatus', () => {
+    it('reports each party as signed and re-verified against the terms', async () => {
+      const contract = await signedBy(buildContract(), 'seller');
+      contract.parties.buyer = { signedAt: new Date(), signature: contract.parties.seller.signature, signerAddress: wallet.address };
+
+      const status = getSignatureStatus(contract);
+
+      expect(status.seller).toEqual({ signed: true, valid: true, signerAddress: wallet.address });
+      expect(status.buyer).toEqual({ signed: true, valid: false, signerAddress: wallet.address });
+    });
+  });
+});
@@ -0,0 +1,201 @@
+const mongoose = require('mongoose');
+const Contract = require('../../models/Contract');
+const Payment = require('../../models/Payment');
+const Dispute = require('../../models/Dispute');
+const { mockQuery } = require('../helpers/mockQuery');
+
+jest.mock('../../utils/NotificationService', () => ({ notifyUsers: jest.fn() }));
+jest.mock('../../utils/gateways', () => ({ getGateway: jest.fn() }));
+jest.mock('../../utils/InvoiceService', () => ({
+  issueInvoice: jest.fn(),
+  issuePlatformFeeInvoice: jest.fn(),
+  creditRefund: jest.fn(),
+  getContractCategory: jest.fn()
+}));
+
+const { getGateway } = require('../../utils/gateways');
+const { getRefundableAmount, recordRefund, refundPayment, syncDisputeHold } = require('../../utils/EscrowService');
+
+const buildPayment = () => {
+  const payment = new Payment({
+    contract: new mongoose.Types.ObjectId(),
+    buyer: new mongoose.Types.ObjectId(),
+    seller: new mongoose.Types.ObjectId(),
+    status: 'held_in_escrow',
+    amount: { total: 100000, sellerAmount: 97500, platformFee: 2500 },
+    gatewayDetails: { provider: 'razorpay' }
+  });
+  jest.spyOn(payment, 'save').mockResolvedValue(payment);
+  return payment;
+};
+
+describe('recordRefund', () => {
+  let contract;
+
+  beforeEach(() => {
+    contract = { _id: new mongoose.Types.ObjectId(), contractNumber: 'C-1', status: 'executed', paymentStatus: 'held_in_escrow', auditTrail: [], save: jest.fn() };
+    jest.spyOn(Contract, 'findById').mockReturnValue(mockQuery(contract));
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('keeps the remainder of a partial refund in escrow with the fee scaled down', async () => {
+    const payment = buildPayment();
+
+    await recordRefund(payment, 40000, 'rfnd_1');
+
+    expect(payment.status).toBe('held_in_escrow');
+    expect(payment.refund.refundAmount).toBe(40000);
+    expect(payment.amount.platformFee).toBe(1500);
+    expect(payment.amount.sellerAmount).toBe(58500);
+    expect(getRefundableAmount(payment)).toBe(60000);
+    expect(contract.status).toBe('executed');
+    expect(contract.paymentStatus).toBe('held_in_escrow');
+  });
+
+  it('refunds the payment once what is left has been returned', async () => {
+    const payment = buildPayment();
+
+    await recordRefund(payment, 40000, 'rfnd_1');
+    await recordRefund(payment, 60000, 'rfnd_2');
+
+    expect(payment.status).toBe('refunded');
+    expect(payment.refund.refundAmount).toBe(100000);
+    expect(contract.status).toBe('cancelled');
+    expect(contract.paymentStatus).toBe('refunded');
+  });
+
+  it('refuses refunds once the payment has been released', async () => {
+    const payment = buildPayment();
+    payment.status = 'released_to_seller';
+
+    await expect(recordRefund(payment, 1000, 'rfnd_1')).rejects.toMatchObject({ statusCode: 409 });
+    expect(payment.save).not.toHaveBeenCalled();
+  });
+
+  it('records each gateway refund once, even when an earlier one is reported late', async () => {
+    const payment = buildPayment();
+
+    await recordRefund(payment, 20000, 'rfnd_1');
+    await recordRefund(payment, 30000, 'rfnd_2');
+
+    await expect(recordRefund(payment, 20000, 'rfnd_1')).resolves.toBe(false);
+    await expect(recordRefund(payment, 30000, 'rfnd_2')).resolves.toBe(false);
+    expect(payment.refund.refundTransactionIds).toEqual(['rfnd_1', 'rfnd_2']);
+    expect(payment.refund.refundAmount).toBe(50000);
+    expect(payment.status).toBe('held_in_escrow');
+  });
+});
+
+describe('refundPayment', () => {
+  let contract;
+
+  beforeEach(() => {
+    contract = { _id: new mongoose.Types.ObjectId(), contractNumber: 'C-1', status: 'executed', auditTrail: [], save: jest.fn() };
+    jest.spyOn(Contract, 'findById').mockReturnValue(mockQuery(contract));
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('marks the refund in flight before calling the gateway', async () => {
+    const payment = buildPayment();
+    payment.refund.status = 'requested';
+    const refund = jest.fn(async () => {
+      expect(payment.refund.status).toBe('processing');
+      expect(payment.save).toHaveBeenCalledTimes(1);
+      return { refundId: 'rfnd_1' };
+    });
+    getGateway.mockReturnValue({ refund });
+
+    await refundPayment(payment, 100000, new mongoose.Types.ObjectId());
+
+    expect(refund).toHaveBeenCalledTimes(1);
+    expect(payment.refund.status).toBe('processed');
+    expect(payment.refund.refundTransactionIds).toEqual(['rfnd_1']);
+  });
+
+  it('puts the request back when the gateway refuses the refund', async () => {
+    const payment = buildPayment();
+    payment.refund.status = 'requested';
+    getGateway.mockReturnValue({ refund: jest.fn().mockRejectedValue(new Error('Gateway down')) });
+
+    await expect(refundPayment(payment, 1000)).rejects.toThrow('Gateway down');
+    expect(payment.refund.status).toBe('requested');
+    expect(payment.status).toBe('held_in_escrow');
+  });
+});
+
+describe('syncDisputeHold', () => {
+  const raisedBy = new mongoose.Types.ObjectId();
+  const dispute = (status) => ({ disputeNumber: 'DSP-2026-000001', raisedBy, reason: 'Moisture above spec', status });
+
+  // An installment cleared for release apart from the dispute
+  const buildReleasable = () => {
+    const payment = buildPayment();
+    Object.assign(payment.escrow.releaseConditions, { deliveryConfirmed: true, qualityApproved: true, disputeResolved: true });
+    return payment;
+  };
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('holds every unreleased installment of the contract while a dispute is open', async () => {
+    const payments = [buildReleasable(), buildReleasable()];
+    jest.spyOn(Payment, 'find').mockResolvedValue(payments);
+    jest.spyOn(Dispute, 'exists').mockResolvedValue({ _id: new mongoose.Types.ObjectId() });
+
+    await syncDisputeHold(payments[0].contract, dispute('open'));
+
+    expect(Payment.find).toHaveBeenCalledWith(expect.objectContaining({
+      status: { $in: ['pending', 'paid_to_platform', 'held_in_escrow'] }
+    }));
+    payments.forEach(payment => {
+      expect(payment.canRelease).toBe(false);
+      expect(payment.dispute).toMatchObject({ raised: true, status: 'open', reason: 'Moisture above spec' });
+      expect(payment.timeline.map(entry => entry.status)).toEqual(['dispute_hold']);
+    });
+  });
+
+  it('reports an escalated dispute to the payment as under investigation', async () => {
+    const payment = buildReleasable();
+    jest.spyOn(Payment, 'find').mockResolvedValue([payment]);
+    jest.spyOn(Dispute, 'exists').mockResolvedValue({ _id: new mongoose.Types.ObjectId() });
+
+    await syncDisputeHold(payment.contract, dispute('escalated'));
+
+    expect(payment.dispute.status).toBe('investigating');
+  });
+
+  it('keeps the hold while another dispute on the contract is unresolved', async () => {
+    const payment = buildReleasable();
+    payment.escrow.releaseConditions.disputeResolved = false;
+    jest.spyOn(Payment, 'find').mockResolvedValue([payment]);
+    jest.spyOn(Dispute, 'exists').mockResolvedValue({ _id: new mongoose.Types.ObjectId() });
+
+    await syncDisputeHold(payment.contract, dispute('resolved'));
+
+    expect(Dispute.exists).toHaveBeenCalledWith({ contract: payment.contract, status: { $ne: 'resolved' } });
+    expect(payment.canRelease).toBe(false);
+    expect(payment.timeline).toHaveLength(0);
+  });
+
+  it('frees the installments once every dispute is resolved', async () => {
+    const payment = buildReleasable();
+    payment.escrow.releaseConditions.disputeResolved = false;
+    jest.spyOn(Payment, 'find').mockResolvedValue([payment]);
+    jest.spyOn(Dispute, 'exists').mockResolvedValue(null);
+
+    await syncDisputeHold(payment.contract, { ...dispute('resolved'), resolution: 'Seller issues a 5% credit', resolvedAt: new Date() });
+
+    expect(payment.canRelease).toBe(true);
+    expect(payment.dispute).toMatchObject({ raised: false, status: 'resolved', resolution: 'Seller issues a 5% credit' });
+    expect(payment.timeline.map(entry => entry.status)).toEqual(['dispute_cleared']);
+  });
+
+  it('leaves the contract alone when it has nothing left to hold', async () => {
+    jest.spyOn(Payment, 'find').mockResolvedValue([]);
+    jest.spyOn(Dispute, 'exists');
+
+    await expect(syncDisputeHold(new mongoose.Types.ObjectId(), dispute('open'))).resolves.toEqual([]);
+    expect(Dispute.exists).not.toHaveBeenCalled();
+  });
+});
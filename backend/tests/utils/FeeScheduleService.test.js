@@ -0,0 +1,173 @@
+const mongoose = require('mongoose');
+const FeeRule = require('../../models/FeeRule');
+const { mockQuery } = require('../helpers/mockQuery');
+
+jest.mock('../../utils/InvoiceService', () => ({
+  getContractCategory: jest.fn().mockResolvedValue('Plastic Waste')
+}));
+
+const { calculatePlatformFee, getContractFee } = require('../../utils/FeeScheduleService');
+
+const sellerId = new mongoose.Types.ObjectId();
+
+const rule = (fields) => ({ _id: new mongoose.Types.ObjectId(), isPromotion: false, ...fields });
+
+const defaultRule = rule({ name: 'Default', scope: 'default', tiers: [{ above: 0, percentage: 4 }] });
+const categoryRule = rule({ name: 'Plastics', scope: 'category', category: 'Plastic Waste', tiers: [{ above: 0, percentage: 3 }] });
+const sellerRule = rule({ name: 'Key account', scope: 'seller', seller: sellerId, tiers: [{ above: 0, percentage: 2 }] });
+
+// FeeRule.find answers with the given rules, as if they were the ones in force
+const withRules = (...rules) => jest.spyOn(FeeRule, 'find').mockReturnValue(mockQuery(rules));
+
+describe('calculatePlatformFee', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  describe('standard schedule', () => {
+    it.each([
+      [8000, 5, 400],
+      [10000, 5, 500],
+      [20000, 2.5, 500],
+      [200000, 2.5, 5000]
+    ])('charges a %i deal %d%%', async (totalValue, percentage, amount) => {
+      withRules();
+
+      await expect(calculatePlatformFee({ totalValue })).resolves.toMatchObject({
+        percentage,
+        amount,
+        rule: null,
+        ruleName: 'Standard schedule',
+        isPromotion: false
+      });
+    });
+  });
+
+  describe('rule precedence', () => {
+    it('prefers a seller rule over category and default rules', async () => {
+      withRules(defaultRule, categoryRule, sellerRule);
+
+      const fee = await calculatePlatformFee({ totalValue: 100000, category: 'Plastic Waste', seller: sellerId });
+
+      expect(fee).toMatchObject({ rule: sellerRule._id, percentage: 2, amount: 2000 });
+    });
+
+    it('prefers a category rule over the default rule', async () => {
+      withRules(defaultRule, categoryRule);
+
+      const fee = await calculatePlatformFee({ totalValue: 100000, category: 'Plastic Waste', seller: sellerId });
+
+      expect(fee).toMatchObject({ rule: categoryRule._id, amount: 3000 });
+    });
+
+    it('only looks up rules for the deal\'s category and seller that are in force', async () => {
+      const at = new Date('2026-10-01T00:00:00Z');
+      withRules();
+
+      await calculatePlatformFee({ totalValue: 1000, category: 'Plastic Waste', seller: sellerId, at });
+
+      expect(FeeRule.find).toHaveBeenCalledWith({
+        isActive: true,
+        $and: [
+          { $or: [{ scope: 'default' }, { scope: 'category', category: 'Plastic Waste' }, { scope: 'seller', seller: sellerId }] },
+          { $or: [{ validFrom: null }, { validFrom: { $lte: at } }] },
+          { $or: [{ validUntil: null }, { validUntil: { $gt: at } }] }
+        ]
+      });
+    });
+  });
+
+  describe('tiers and limits', () => {
+    const tiered = rule({
+      name: 'Tiered',
+      scope: 'default',
+      tiers: [{ above: 100000, percentage: 2 }, { above: 0, percentage: 4 }, { above: 500000, percentage: 1 }]
+    });
+
+    it.each([
+      [50000, 4],
+      [100000, 4],
+      [100001, 2],
+      [600000, 1]
+    ])('charges a %i deal the percentage of the highest tier it is above', async (totalValue, percentage) => {
+      withRules(tiered);
+
+      await expect(calculatePlatformFee({ totalValue })).resolves.toMatchObject({ percentage });
+    });
+
+    it('keeps the fee within the rule\'s minimum and maximum', async () => {
+      withRules(rule({ ...defaultRule, minimumFee: 250, maximumFee: 5000 }));
+
+      await expect(calculatePlatformFee({ totalValue: 2000 })).resolves.toMatchObject({ amount: 250 });
+      await expect(calculatePlatformFee({ totalValue: 1000000 })).resolves.toMatchObject({ amount: 5000 });
+    });
+
+    it('never charges more than the deal is worth', async () => {
+      withRules(rule({ ...defaultRule, minimumFee: 500 }));
+
+      await expect(calculatePlatformFee({ totalValue: 300 })).resolves.toMatchObject({ amount: 300 });
+    });
+  });
+
+  describe('promotions', () => {
+    const promotion = rule({ name: 'Festive offer', scope: 'default', isPromotion: true, tiers: [{ above: 0, percentage: 1 }] });
+
+    it('applies a promotion that is cheaper than the regular fee', async () => {
+      withRules(categoryRule, promotion);
+
+      const fee = await calculatePlatformFee({ totalValue: 100000, category: 'Plastic Waste' });
+
+      expect(fee).toMatchObject({ rule: promotion._id, amount: 1000, isPromotion: true });
+    });
+
+    it('ignores a promotion that would raise the fee', async () => {
+      const costly = rule({ ...promotion, tiers: [{ above: 0, percentage: 3 }] });
+      withRules(sellerRule, costly);
+
+      const fee = await calculatePlatformFee({ totalValue: 100000, seller: sellerId });
+
+      expect(fee).toMatchObject({ rule: sellerRule._id, amount: 2000, isPromotion: false });
+    });
+
+    it('picks the cheapest of several promotions', async () => {
+      const cheapest = rule({ ...promotion, name: 'Launch offer', minimumFee: 0, tiers: [{ above: 0, percentage: 0.5 }] });
+      withRules(defaultRule, promotion, cheapest);
+
+      await expect(calculatePlatformFee({ totalValue: 100000 })).resolves.toMatchObject({ ruleName: 'Launch offer', amount: 500 });
+    });
+
+    it('keeps the standard schedule when the only promotion would cost more', async () => {
+      withRules(rule({ ...promotion, tiers: [{ above: 0, percentage: 10 }] }));
+
+      await expect(calculatePlatformFee({ totalValue: 100000 })).resolves.toMatchObject({ ruleName: 'Standard schedule', amount: 2500 });
+    });
+  });
+});
+
+describe('getContractFee', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  const buildContract = (platformFee) => ({
+    terms: { totalValue: 100000 },
+    parties: { seller: { user: sellerId } },
+    createdAt: new Date('2026-01-15T00:00:00Z'),
+    platformFee
+  });
+
+  it('returns the fee already fixed on the contract', async () => {
+    const find = withRules(sellerRule);
+    const fixed = { percentage: 5, amount: 5000, ruleName: 'Default' };
+
+    await expect(getContractFee(buildContract(fixed))).resolves.toBe(fixed);
+    expect(find).not.toHaveBeenCalled();
+  });
+
+  it('prices older contracts under the rules in force when they were created', async () => {
+    withRules(categoryRule);
+    const contract = buildContract();
+
+    const fee = await getContractFee(contract);
+
+    expect(fee).toEqual({ percentage: 3, amount: 3000, rule: categoryRule._id, ruleName: 'Plastics' });
+    expect(contract.platformFee).toBe(fee);
+    expect(FeeRule.find.mock.calls[0][0].$and[1]).toEqual({ $or: [{ validFrom: null }, { validFrom: { $lte: contract.createdAt } }] });
+  });
+});
@@ -0,0 +1,42 @@
+const { lookupPincode, lookupCity, resolveCoordinates, parseNear, toGeoPoint, distanceKm } = require('../../utils/GeoService');
+
+const mumbai = { latitude: 19.076, longitude: 72.8777 };
+
+describe('GeoService', () => {
+  it('looks pincodes up by their sorting district', () => {
+    expect(lookupPincode('400001')).toMatchObject({ city: 'Mumbai', ...mumbai });
+    expect(lookupPincode(' 400093 ')).toMatchObject({ city: 'Mumbai' });
+    expect(lookupPincode('4000')).toBeNull();
+  });
+
+  it('looks cities up by name or an older spelling', () => {
+    expect(lookupCity('bombay')).toMatchObject({ city: 'Mumbai' });
+    expect(lookupCity('BENGALURU')).toMatchObject({ state: 'Karnataka' });
+    expect(lookupCity('Atlantis')).toBeNull();
+  });
+
+  it('prefers explicit coordinates, then the pincode, then the city', () => {
+    expect(resolveCoordinates({ coordinates: { latitude: 0, longitude: 10 }, pincode: '400001' })).toEqual({ latitude: 0, longitude: 10 });
+    expect(resolveCoordinates({ pincode: '400001', city: 'Delhi' })).toEqual(mumbai);
+    expect(resolveCoordinates({ pincode: '999999', city: 'Bombay' })).toEqual(mumbai);
+    expect(resolveCoordinates({ city: 'Atlantis' })).toBeNull();
+  });
+
+  it('reads a near value as coordinates or a pincode', () => {
+    expect(parseNear('19.076,72.8777')).toEqual(mumbai);
+    expect(parseNear('400001')).toEqual(mumbai);
+    expect(parseNear('95,72')).toBeNull();
+    expect(parseNear('Mumbai')).toBeNull();
+  });
+
+  it('orders GeoJSON coordinates longitude first', () => {
+    expect(toGeoPoint(mumbai)).toEqual({ type: 'Point', coordinates: [72.8777, 19.076] });
+  });
+
+  it('measures great-circle distances in kilometres', () => {
+    const pune = { latitude: 18.5204, longitude: 73.8567 };
+
+    expect(distanceKm(mumbai, mumbai)).toBe(0);
+    expect(distanceKm(mumbai, pune)).toBeCloseTo(120, -1);
+  });
+});
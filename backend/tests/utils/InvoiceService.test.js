@@ -0,0 +1,223 @@
+const mongoose = require('mongoose');
+const Invoice = require('../../models/Invoice');
+const Contract = require('../../models/Contract');
+const User = require('../../models/User');
+const WasteListing = require('../../models/WasteListing');
+const Payment = require('../../models/Payment');
+const { mockQuery } = require('../helpers/mockQuery');
+
+jest.mock('../../utils/NotificationService', () => ({ notifyUsers: jest.fn() }));
+
+const {
+  getFinancialYear,
+  getStateCode,
+  issueInvoice,
+  issuePlatformFeeInvoice,
+  issueCreditNote,
+  creditRefund,
+  toEInvoiceJson
+} = require('../../utils/InvoiceService');
+
+const sellerId = new mongoose.Types.ObjectId();
+const buyerId = new mongoose.Types.ObjectId();
+
+const buildUser = (_id, name, state, gstin) => ({
+  _id,
+  name,
+  company: { name, gstin, address: { street: '1 Industrial Area', city: 'City', state, pincode: '400001' } }
+});
+
+const buildContract = () => ({
+  _id: new mongoose.Types.ObjectId(),
+  contractNumber: 'C-2026-AR-PW-1001',
+  relatedListing: new mongoose.Types.ObjectId(),
+  terms: {
+    materialType: 'HDPE regrind',
+    quantity: { value: 10, unit: 'tonnes' },
+    totalValue: 118000
+  },
+  auditTrail: [],
+  save: jest.fn()
+});
+
+const buildPayment = (contract, amount = { total: 118000, sellerAmount: 115050, platformFee: 2950 }) => new Payment({
+  contract: contract._id,
+  buyer: buyerId,
+  seller: sellerId,
+  status: 'held_in_escrow',
+  amount,
+  gatewayDetails: { provider: 'razorpay' }
+});
+
+// Mock the database around one invoicing call; returns the documents saved
+const setup = ({ sellerState = 'Maharashtra', buyerState = 'Maharashtra', existing = null, lastSequence = null } = {}) => {
+  const contract = buildContract();
+  const users = {
+    [sellerId]: buildUser(sellerId, 'Acme Recyclers', sellerState, '27AAACA1234A1Z5'),
+    [buyerId]: buildUser(buyerId, 'Polymer Works', buyerState, '29AAACP1234A1Z5')
+  };
+  const saved = [];
+
+  jest.spyOn(Contract, 'findById').mockReturnValue(mockQuery(contract));
+  jest.spyOn(Contract, 'updateOne').mockResolvedValue({});
+  jest.spyOn(User, 'findById').mockImplementation(id => mockQuery(users[id]));
+  jest.spyOn(WasteListing, 'findById').mockReturnValue(mockQuery({ category: 'Plastic Waste' }));
+  jest.spyOn(Invoice, 'findOne').mockImplementation(filter => mockQuery(
+    filter.payment ? existing : (lastSequence ? { sequence: lastSequence } : null)
+  ));
+  jest.spyOn(Invoice, 'find').mockReturnValue(mockQuery([]));
+  jest.spyOn(Invoice.prototype, 'save').mockImplementation(function() {
+    saved.push(this);
+    return Promise.resolve(this);
+  });
+
+  return { contract, saved };
+};
+
+describe('InvoiceService', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+    delete process.env.PLATFORM_ADDRESS_STATE;
+  });
+
+  describe('getFinancialYear', () => {
+    it('starts the year on 1 April in India', () => {
+      expect(getFinancialYear(new Date('2027-03-31T18:00:00Z'))).toBe('2026-27');
+      expect(getFinancialYear(new Date('2027-03-31T18:31:00Z'))).toBe('2027-28');
+    });
+  });
+
+  describe('getStateCode', () => {
+    it('reads the state from the address, then the GSTIN', () => {
+      expect(getStateCode({ address: { state: 'Tamil Nadu' } })).toBe('33');
+      expect(getStateCode({ gstin: '24AAACA1234A1Z5', address: {} })).toBe('24');
+      expect(getStateCode({})).toBeNull();
+    });
+  });
+
+  describe('issueInvoice', () => {
+    it('splits GST into CGST and SGST within a state', async () => {
+      const { contract, saved } = setup();
+
+      const invoice = await issueInvoice(buildPayment(contract));
+
+      expect(saved).toHaveLength(1);
+      expect(invoice.invoiceNumber).toMatch(/^INV\/\d{4}\/000001$/);
+      expect(invoice.supplyType).toBe('intra_state');
+      expect(invoice.lines).toHaveLength(1);
+      expect(invoice.lines[0]).toMatchObject({ hsnCode: '3915', gstRate: 18, quantity: 10, taxableValue: 100000, cgst: 9000, sgst: 9000, igst: 0, total: 118000 });
+      expect(invoice.totals).toMatchObject({ taxableValue: 100000, cgst: 9000, sgst: 9000, igst: 0, total: 118000 });
+    });
+
+    it('charges IGST across states', async () => {
+      const { contract } = setup({ buyerState: 'Karnataka' });
+
+      const invoice = await issueInvoice(buildPayment(contract));
+
+      expect(invoice.supplyType).toBe('inter_state');
+      expect(invoice.placeOfSupply).toBe('29');
+      expect(invoice.totals).toMatchObject({ cgst: 0, sgst: 0, igst: 18000, total: 118000 });
+    });
+
+    it('keeps tax halves adding up to the tax when it has an odd paisa', async () => {
+      const { contract } = setup();
+
+      const invoice = await issueInvoice(buildPayment(contract, { total: 1001, sellerAmount: 951, platformFee: 50 }));
+      const [line] = invoice.lines;
+
+      expect(line.taxableValue).toBe(848.31);
+      expect(line.cgst).toBe(76.35);
+      expect(line.sgst).toBe(76.34);
+      expect(Math.round((line.taxableValue + line.cgst + line.sgst) * 100) / 100).toBe(1001);
+    });
+
+    it('invoices an installment its share of the quantity', async () => {
+      const { contract } = setup();
+
+      const invoice = await issueInvoice(buildPayment(contract, { total: 35400, sellerAmount: 34515, platformFee: 885 }));
+
+      expect(invoice.lines[0].quantity).toBe(3);
+    });
+
+    it('continues the seller series and returns an existing invoice unchanged', async () => {
+      const first = setup({ lastSequence: 41 });
+      const invoice = await issueInvoice(buildPayment(first.contract));
+      expect(invoice.invoiceNumber).toMatch(/\/000042$/);
+      jest.restoreAllMocks();
+
+      const second = setup({ existing: invoice });
+      await expect(issueInvoice(buildPayment(second.contract))).resolves.toBe(invoice);
+      expect(second.saved).toHaveLength(0);
+    });
+  });
+
+  describe('issuePlatformFeeInvoice', () => {
+    it('invoices the fee from the platform to the seller', async () => {
+      process.env.PLATFORM_ADDRESS_STATE = 'Karnataka';
+      const { contract } = setup();
+
+      const invoice = await issuePlatformFeeInvoice(buildPayment(contract));
+
+      expect(invoice.type).toBe('platform_fee');
+      expect(invoice.invoiceNumber).toMatch(/^PF\//);
+      expect(invoice.buyer).toBeUndefined();
+      expect(invoice.recipient.name).toBe('Acme Recyclers');
+      expect(invoice.supplyType).toBe('inter_state');
+      expect(invoice.lines[0]).toMatchObject({ hsnCode: '998599', isService: true, total: 2950, taxableValue: 2500, igst: 450 });
+    });
+
+    it('numbers fee invoices in one platform-wide series', async () => {
+      setup();
+
+      await issuePlatformFeeInvoice(buildPayment(buildContract()));
+
+      expect(Invoice.findOne).toHaveBeenCalledWith({ type: 'platform_fee', financialYear: expect.any(String) });
+    });
+
+    it('skips payments without a fee', async () => {
+      const { contract, saved } = setup();
+
+      await expect(issuePlatformFeeInvoice(buildPayment(contract, { total: 1000, sellerAmount: 1000, platformFee: 0 }))).resolves.toBeNull();
+      expect(saved).toHaveLength(0);
+    });
+  });
+
+  describe('credit notes', () => {
+    it('credits a refund against the invoice issued when the payment was received', async () => {
+      const { contract } = setup();
+      const payment = buildPayment(contract);
+      const invoice = await issueInvoice(payment);
+      jest.restoreAllMocks();
+      setup({ existing: invoice });
+
+      const creditNote = await creditRefund(payment, 11800);
+
+      expect(creditNote.type).toBe('credit_note');
+      expect(creditNote.originalInvoice).toEqual(invoice._id);
+      expect(creditNote.totals).toMatchObject({ taxableValue: 10000, cgst: 900, sgst: 900, total: 11800 });
+      expect(creditNote.lines[0].quantity).toBe(1);
+    });
+
+    it('refuses to credit more than is left on the invoice', async () => {
+      const { contract } = setup();
+      const invoice = await issueInvoice(buildPayment(contract));
+      Invoice.find.mockReturnValue(mockQuery([{ totals: { total: 100000 } }]));
+
+      await expect(issueCreditNote(invoice, 20000, 'Short delivery')).rejects.toMatchObject({ statusCode: 400 });
+    });
+  });
+
+  describe('toEInvoiceJson', () => {
+    it('maps an invoice to the IRP schema', async () => {
+      const { contract } = setup({ buyerState: 'Karnataka' });
+      const invoice = await issueInvoice(buildPayment(contract));
+
+      const json = toEInvoiceJson(invoice);
+
+      expect(json.DocDtls.Typ).toBe('INV');
+      expect(json.BuyerDtls.Pos).toBe('29');
+      expect(json.ItemList[0]).toMatchObject({ HsnCd: '3915', Unit: 'MTS', IgstAmt: 18000, TotItemVal: 118000 });
+      expect(json.ValDtls.TotInvVal).toBe(118000);
+    });
+  });
+});
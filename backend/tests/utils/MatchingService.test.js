@@ -0,0 +1,143 @@
+const mongoose = require('mongoose');
+const WasteListing = require('../../models/WasteListing');
+const MaterialRequest = require('../../models/MaterialRequest');
+const { mockQuery } = require('../helpers/mockQuery');
+const {
+  getListingCategory,
+  getRequestCategory,
+  scoreMatch,
+  matchRequest,
+  matchListing
+} = require('../../utils/MatchingService');
+
+// Mumbai, with listings in Thane (about 20 km) and Pune (about 120 km)
+const mumbai = { type: 'Point', coordinates: [72.8777, 19.076] };
+const thane = { type: 'Point', coordinates: [72.9781, 19.2183] };
+const pune = { type: 'Point', coordinates: [73.8567, 18.5204] };
+
+const buildRequest = (overrides = {}) => ({
+  _id: new mongoose.Types.ObjectId(),
+  buyer: new mongoose.Types.ObjectId(),
+  category: 'Plastic Materials',
+  quantity: { value: 2, unit: 'tonnes' },
+  budget: { min: 15000, max: 20000 },
+  qualityGrade: 'Grade A',
+  frequency: 'monthly',
+  location: { city: 'Mumbai', point: mumbai, maxDistance: 50 },
+  matches: [],
+  save: jest.fn(),
+  ...overrides
+});
+
+const buildListing = (overrides = {}) => ({
+  _id: new mongoose.Types.ObjectId(),
+  seller: new mongoose.Types.ObjectId(),
+  status: 'active',
+  category: 'Plastic Waste',
+  quantity: { value: 2500, unit: 'kg' },
+  price: { value: 15000 },
+  specifications: { purity: '96%' },
+  frequency: 'monthly',
+  location: { city: 'Thane', point: thane },
+  ...overrides
+});
+
+describe('category mapping', () => {
+  it('maps request categories to the listing categories that supply them, both ways', () => {
+    expect(getListingCategory('Metal Materials')).toBe('Metal Scrap');
+    expect(getRequestCategory('Metal Scrap')).toBe('Metal Materials');
+    expect(getListingCategory('Other')).toBe('Other');
+  });
+});
+
+describe('scoreMatch', () => {
+  it('gives a listing that meets every requirement nearby close to full marks', () => {
+    const { score, reasons } = scoreMatch(buildRequest(), buildListing());
+
+    expect(score).toBeGreaterThanOrEqual(90);
+    expect(reasons).toEqual(expect.arrayContaining([
+      'Sufficient quantity available',
+      'Within budget',
+      'Meets Grade A purity',
+      'Matching frequency'
+    ]));
+  });
+
+  it('compares quantities across units', () => {
+    const { reasons } = scoreMatch(buildRequest(), buildListing({ quantity: { value: 1.5, unit: 'tonnes' } }));
+
+    expect(reasons).toContain('Covers 75% of required quantity');
+  });
+
+  it('scores down listings over budget, lower purity and further away', () => {
+    const best = scoreMatch(buildRequest(), buildListing()).score;
+
+    expect(scoreMatch(buildRequest(), buildListing({ price: { value: 22000 } })).score).toBeLessThan(best);
+    expect(scoreMatch(buildRequest(), buildListing({ specifications: { purity: '80 %' } })).score).toBeLessThan(best);
+    expect(scoreMatch(buildRequest(), buildListing({ location: { city: 'Pune', point: pune } })).score).toBeLessThan(best);
+  });
+
+  it('credits a preferred city when distances are unknown', () => {
+    const request = buildRequest({ location: { city: 'Mumbai', preferredCities: ['thane'] } });
+
+    expect(scoreMatch(request, buildListing({ location: { city: 'Thane' } })).reasons).toContain('Preferred location');
+  });
+});
+
+describe('matchRequest', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('keeps the best matches above the threshold, best first, and remembers who was contacted', async () => {
+    const good = buildListing();
+    const weaker = buildListing({ frequency: 'one-time', specifications: { purity: '70%' } });
+    const poor = buildListing({ quantity: { value: 100, unit: 'kg' }, price: { value: 23500 }, frequency: 'one-time', location: { city: 'Thane' } });
+    const request = buildRequest({
+      matches: [{ listing: weaker._id, matchScore: 50, contacted: true, contactedAt: new Date('2026-10-01') }]
+    });
+    jest.spyOn(WasteListing, 'find').mockReturnValue(mockQuery([weaker, good, poor]));
+    jest.spyOn(WasteListing, 'bulkWrite').mockResolvedValue({});
+
+    const matches = await matchRequest(request);
+
+    expect(matches.map(match => match.listing)).toEqual([good._id, weaker._id]);
+    expect(matches[1]).toMatchObject({ contacted: true, contactedAt: new Date('2026-10-01') });
+    expect(request.aiMatchScore).toBe(matches[0].matchScore);
+    expect(request.save).toHaveBeenCalled();
+    expect(WasteListing.find.mock.calls[0][0]).toMatchObject({
+      category: 'Plastic Waste',
+      seller: { $ne: request.buyer },
+      'quantity.unit': { $in: ['kg', 'tonnes'] },
+      'price.value': { $lte: 24000 }
+    });
+  });
+});
+
+describe('matchListing', () => {
+  beforeEach(() => {
+    jest.spyOn(WasteListing, 'updateOne').mockResolvedValue({});
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('adds a new listing to the requests it suits', async () => {
+    const listing = buildListing();
+    const request = buildRequest();
+    jest.spyOn(MaterialRequest, 'find').mockReturnValue(mockQuery([request]));
+
+    const matched = await matchListing(listing);
+
+    expect(matched).toHaveLength(1);
+    expect(request.matches.map(match => match.listing)).toEqual([listing._id]);
+    expect(WasteListing.updateOne).toHaveBeenCalledWith({ _id: listing._id }, { aiMatchScore: matched[0].score });
+  });
+
+  it('drops a listing from a request once it moves out of the area', async () => {
+    const listing = buildListing({ location: { city: 'Pune', point: pune } });
+    const request = buildRequest({ matches: [{ listing: listing._id, matchScore: 90, reasons: [] }] });
+    jest.spyOn(MaterialRequest, 'find').mockReturnValue(mockQuery([request]));
+
+    await expect(matchListing(listing)).resolves.toEqual([]);
+    expect(request.matches).toEqual([]);
+    expect(request.save).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,128 @@
+const mongoose = require('mongoose');
+const Contract = require('../../models/Contract');
+
+jest.mock('../../utils/NotificationService', () => ({ notifyUsers: jest.fn() }));
+
+const { notifyUsers } = require('../../utils/NotificationService');
+const {
+  buildDefaultMilestones,
+  completeMilestone,
+  getShipmentBlocker,
+  syncShipmentMilestones
+} = require('../../utils/MilestoneService');
+
+const startDate = new Date('2026-10-01T00:00:00Z');
+const deliveryDate = new Date('2026-10-20T00:00:00Z');
+const day = (date) => date.toISOString().slice(0, 10);
+
+describe('buildDefaultMilestones', () => {
+  it('schedules pickup, delivery, inspection and a net-N payment in due order', () => {
+    const milestones = buildDefaultMilestones({ paymentTerms: 'net-30', deliveryDate }, startDate);
+
+    expect(milestones.map(m => [m.type, day(m.dueDate)])).toEqual([
+      ['pickup', '2026-10-18'],
+      ['delivery', '2026-10-20'],
+      ['inspection', '2026-10-23'],
+      ['payment', '2026-11-19']
+    ]);
+    expect(milestones[3].title).toBe('Payment due (NET-30)');
+  });
+
+  it('takes cash on delivery payment on the delivery date', () => {
+    const milestones = buildDefaultMilestones({ paymentTerms: 'cod', deliveryDate }, startDate);
+
+    expect(milestones.find(m => m.type === 'payment')).toMatchObject({ title: 'Payment on delivery', dueDate: deliveryDate });
+  });
+
+  it('asks for an advance within three days, before pickup', () => {
+    const milestones = buildDefaultMilestones({ paymentTerms: 'advance', deliveryDate }, startDate);
+
+    expect(milestones[0]).toMatchObject({ type: 'advance-payment', dueDate: new Date('2026-10-04T00:00:00Z') });
+  });
+
+  it('never schedules pickup before the contract starts', () => {
+    const milestones = buildDefaultMilestones({ paymentTerms: 'advance', deliveryDate: new Date('2026-10-02T00:00:00Z') }, startDate);
+
+    expect(milestones.find(m => m.type === 'pickup').dueDate).toEqual(startDate);
+    expect(milestones.find(m => m.type === 'advance-payment').dueDate).toEqual(startDate);
+  });
+});
+
+describe('getShipmentBlocker', () => {
+  const shipment = (status) => ({ shipmentNumber: 'SH-1001', status });
+
+  it('blocks delivery until the shipment is delivered', () => {
+    expect(getShipmentBlocker({ type: 'delivery' }, shipment('in-transit')))
+      .toBe('Shipment SH-1001 is in transit; this milestone completes once it is delivered');
+    expect(getShipmentBlocker({ type: 'delivery' }, shipment('delivered'))).toBeNull();
+  });
+
+  it('lets pickup complete once the shipment has moved past it', () => {
+    expect(getShipmentBlocker({ type: 'pickup' }, shipment('out-for-delivery'))).toBeNull();
+  });
+
+  it('never lets a cancelled shipment complete a milestone', () => {
+    expect(getShipmentBlocker({ type: 'pickup' }, shipment('cancelled'))).not.toBeNull();
+  });
+
+  it('does not block milestones without a shipment status, or contracts without a shipment', () => {
+    expect(getShipmentBlocker({ type: 'inspection' }, shipment('created'))).toBeNull();
+    expect(getShipmentBlocker({ type: 'delivery' }, undefined)).toBeNull();
+  });
+});
+
+describe('syncShipmentMilestones', () => {
+  const sellerId = new mongoose.Types.ObjectId();
+  const buyerId = new mongoose.Types.ObjectId();
+
+  const loadContract = () => {
+    const contract = Contract.hydrate({
+      _id: new mongoose.Types.ObjectId(),
+      contractNumber: 'WE-2026-000001',
+      parties: { seller: { user: sellerId }, buyer: { user: buyerId } },
+      milestones: buildDefaultMilestones({ paymentTerms: 'net-30', deliveryDate }, startDate)
+        .map(milestone => ({ ...milestone, _id: new mongoose.Types.ObjectId(), status: 'pending' })),
+      auditTrail: []
+    });
+    jest.spyOn(contract, 'save').mockResolvedValue(contract);
+    return contract;
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    notifyUsers.mockReset();
+  });
+
+  it('completes the pickup and delivery milestones a delivered shipment has reached', async () => {
+    const contract = loadContract();
+    jest.spyOn(Contract, 'findById').mockResolvedValue(contract);
+    const shipment = { _id: new mongoose.Types.ObjectId(), shipmentNumber: 'SH-1001', contract: contract._id, status: 'delivered' };
+
+    const completed = await syncShipmentMilestones(shipment);
+
+    expect(completed.map(m => m.type)).toEqual(['pickup', 'delivery']);
+    expect(contract.milestones.filter(m => m.status === 'completed').map(m => m.shipment)).toEqual([shipment._id, shipment._id]);
+    expect(contract.auditTrail.map(entry => entry.action)).toEqual(['Milestone completed', 'Milestone completed']);
+    expect(notifyUsers).toHaveBeenCalledWith([sellerId, buyerId], expect.objectContaining({ title: 'Milestone Completed' }));
+  });
+
+  it('ignores shipment statuses that complete nothing', async () => {
+    jest.spyOn(Contract, 'findById');
+
+    await expect(syncShipmentMilestones({ status: 'in-transit' })).resolves.toEqual([]);
+    expect(Contract.findById).not.toHaveBeenCalled();
+  });
+
+  it('does not complete a milestone twice', async () => {
+    const contract = loadContract();
+    const pickup = contract.milestones.find(m => m.type === 'pickup');
+    completeMilestone(contract, pickup, sellerId);
+    jest.spyOn(Contract, 'findById').mockResolvedValue(contract);
+
+    const completed = await syncShipmentMilestones({ _id: new mongoose.Types.ObjectId(), contract: contract._id, status: 'picked-up' });
+
+    expect(completed).toEqual([]);
+    expect(pickup.completedBy).toEqual(sellerId);
+    expect(contract.save).not.toHaveBeenCalled();
+  });
+});
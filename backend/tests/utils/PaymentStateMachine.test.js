@@ -0,0 +1,61 @@
+const { PAYMENT_TRANSITIONS, canTransition, transitionPayment } = require('../../utils/PaymentStateMachine');
+
+describe('PaymentStateMachine', () => {
+  describe('canTransition', () => {
+    it.each([
+      ['pending', 'held_in_escrow'],
+      ['pending', 'failed'],
+      ['pending', 'released_to_seller'],
+      ['failed', 'pending'],
+      ['failed', 'held_in_escrow'],
+      ['paid_to_platform', 'held_in_escrow'],
+      ['held_in_escrow', 'released_to_seller'],
+      ['held_in_escrow', 'refunded']
+    ])('allows %s -> %s', (from, to) => {
+      expect(canTransition(from, to)).toBe(true);
+    });
+
+    it.each([
+      ['pending', 'refunded'],
+      ['failed', 'released_to_seller'],
+      ['held_in_escrow', 'pending'],
+      ['held_in_escrow', 'failed'],
+      ['released_to_seller', 'refunded'],
+      ['refunded', 'held_in_escrow'],
+      ['unknown', 'pending']
+    ])('refuses %s -> %s', (from, to) => {
+      expect(canTransition(from, to)).toBe(false);
+    });
+
+    it('treats released and refunded payments as final', () => {
+      expect(PAYMENT_TRANSITIONS.released_to_seller).toEqual([]);
+      expect(PAYMENT_TRANSITIONS.refunded).toEqual([]);
+    });
+  });
+
+  describe('transitionPayment', () => {
+    it('moves the payment to the new status', () => {
+      const payment = { status: 'pending' };
+
+      expect(transitionPayment(payment, 'held_in_escrow')).toBe(true);
+      expect(payment.status).toBe('held_in_escrow');
+    });
+
+    it('is a no-op when the payment already has the status', () => {
+      const payment = { status: 'held_in_escrow' };
+
+      expect(transitionPayment(payment, 'held_in_escrow')).toBe(false);
+      expect(payment.status).toBe('held_in_escrow');
+    });
+
+    it('throws a 409 and leaves the status alone for a disallowed transition', () => {
+      const payment = { status: 'released_to_seller' };
+
+      expect(() => transitionPayment(payment, 'refunded')).toThrow(expect.objectContaining({
+        statusCode: 409,
+        message: 'Payment cannot move from released_to_seller to refunded'
+      }));
+      expect(payment.status).toBe('released_to_seller');
+    });
+  });
+});
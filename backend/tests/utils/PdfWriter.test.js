@@ -0,0 +1,39 @@
+const { renderPdf } = require('../../utils/PdfWriter');
+
+const text = (pdf) => pdf.toString('latin1');
+const pageCount = (pdf) => Number(text(pdf).match(/\/Count (\d+)/)[1]);
+
+describe('renderPdf', () => {
+  it('writes a PDF whose cross-reference table points at each object', () => {
+    const pdf = renderPdf([{ text: 'WASTE MATERIAL SUPPLY AGREEMENT', size: 16, bold: true }, { text: 'Quantity: 10 tonnes' }]);
+    const source = text(pdf);
+
+    expect(source.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(source.endsWith('%%EOF\n')).toBe(true);
+    const offsets = [...source.matchAll(/^(\d{10}) 00000 n $/gm)].map(([, offset]) => Number(offset));
+    offsets.forEach((offset, index) => expect(source.slice(offset)).toMatch(new RegExp(`^${index + 1} 0 obj`)));
+    expect(Number(source.match(/startxref\n(\d+)/)[1])).toBe(source.indexOf('xref\n'));
+    expect(source).toContain('/F2 16 Tf 50 ');
+    expect(source).toContain('(Quantity: 10 tonnes) Tj');
+  });
+
+  it('renders the same blocks to the same bytes', () => {
+    const blocks = [{ text: 'Contract Number: C-2026-AB-CD-1001' }];
+
+    expect(renderPdf(blocks).equals(renderPdf(blocks))).toBe(true);
+  });
+
+  it('wraps long lines and starts a new page when one fills up', () => {
+    const long = renderPdf([{ text: 'regrind '.repeat(40) }]);
+    expect(text(long).match(/ Tj ET/g)).toHaveLength(4);
+
+    const lines = Array.from({ length: 60 }, (_, index) => ({ text: `Line ${index + 1}` }));
+    expect(pageCount(renderPdf(lines))).toBe(2);
+  });
+
+  it('escapes PDF string delimiters and replaces characters outside Latin-1', () => {
+    const source = text(renderPdf([{ text: 'Price (per tonne): ₹20,000 – “net”' }]));
+
+    expect(source).toContain('(Price \\(per tonne\\): Rs. 20,000 - "net") Tj');
+  });
+});
@@ -0,0 +1,15 @@
+const { toBaseQuantity, getCompatibleUnits } = require('../../utils/QuantityUnits');
+
+describe('QuantityUnits', () => {
+  it('converts quantities to the base unit of their dimension', () => {
+    expect(toBaseQuantity(2.5, 'tonnes')).toBe(2500);
+    expect(toBaseQuantity(3, 'm3')).toBe(3000);
+    expect(toBaseQuantity(40, 'pieces')).toBe(40);
+  });
+
+  it('only treats units of the same dimension as comparable', () => {
+    expect(getCompatibleUnits('tonnes')).toEqual(['kg', 'tonnes']);
+    expect(getCompatibleUnits('liters')).toEqual(['liters', 'm3']);
+    expect(getCompatibleUnits('pieces')).toEqual(['pieces']);
+  });
+});
@@ -0,0 +1,62 @@
+const mongoose = require('mongoose');
+const Payment = require('../../models/Payment');
+
+jest.mock('../../utils/EscrowService', () => ({
+  holdPaymentInEscrow: jest.fn(),
+  markPaymentFailed: jest.fn(),
+  recordRefund: jest.fn()
+}));
+
+const { recordRefund } = require('../../utils/EscrowService');
+const { handleRazorpayEvent } = require('../../utils/RazorpayWebhookService');
+
+const refundEvent = (id, amount) => ({ refund: { entity: { id, payment_id: 'pay_1', amount: amount * 100 } } });
+
+describe('handleRazorpayEvent refund.processed', () => {
+  let payment;
+
+  beforeEach(() => {
+    payment = new Payment({
+      contract: new mongoose.Types.ObjectId(),
+      buyer: new mongoose.Types.ObjectId(),
+      seller: new mongoose.Types.ObjectId(),
+      status: 'held_in_escrow',
+      amount: { total: 100000, sellerAmount: 97500, platformFee: 2500 },
+      gatewayDetails: { provider: 'razorpay', gatewayPaymentId: 'pay_1' }
+    });
+    jest.spyOn(Payment, 'findOne').mockResolvedValue(payment);
+    recordRefund.mockReset().mockResolvedValue(true);
+  });
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('records a refund started from the gateway dashboard', async () => {
+    const result = await handleRazorpayEvent('refund.processed', refundEvent('rfnd_1', 40000));
+
+    expect(recordRefund).toHaveBeenCalledWith(payment, 40000, 'rfnd_1');
+    expect(result).toMatchObject({ status: 'processed', result: 'refunded' });
+  });
+
+  it('ignores a refund that has already been recorded', async () => {
+    recordRefund.mockResolvedValue(false);
+
+    await expect(handleRazorpayEvent('refund.processed', refundEvent('rfnd_1', 40000)))
+      .resolves.toMatchObject({ status: 'ignored', result: 'Refund already recorded' });
+  });
+
+  it('leaves a refund the platform is issuing to be recorded by the platform', async () => {
+    payment.refund.status = 'processing';
+
+    const result = await handleRazorpayEvent('refund.processed', refundEvent('rfnd_1', 40000));
+
+    expect(result.status).toBe('ignored');
+    expect(recordRefund).not.toHaveBeenCalled();
+  });
+
+  it('ignores a refund event once the payment can no longer be refunded', async () => {
+    recordRefund.mockRejectedValue(Object.assign(new Error('Payment cannot be refunded from released_to_seller'), { statusCode: 409 }));
+
+    await expect(handleRazorpayEvent('refund.processed', refundEvent('rfnd_2', 1000)))
+      .resolves.toMatchObject({ status: 'ignored', result: 'Payment cannot be refunded from released_to_seller' });
+  });
+});
@@ -0,0 +1,51 @@
+const { subscribe, publish, publishToNegotiation } = require('../../utils/RealtimeService');
+
+// An open event stream that records what is written to it
+const openStream = () => ({ write: jest.fn(), flush: jest.fn() });
+const events = (stream) => stream.write.mock.calls.map(([chunk]) => chunk);
+
+describe('RealtimeService', () => {
+  const cleanups = [];
+  const connect = (userId) => {
+    const stream = openStream();
+    cleanups.push(subscribe(userId, stream));
+    return stream;
+  };
+
+  afterEach(() => cleanups.splice(0).forEach(unsubscribe => unsubscribe()));
+
+  it('sends an event to every open stream of each recipient', () => {
+    const laptop = connect('buyer');
+    const phone = connect('buyer');
+    const other = connect('seller');
+
+    publish(['buyer', 'nobody'], 'typing', { typing: true });
+
+    const chunk = 'event: typing\ndata: {"typing":true}\n\n';
+    expect(events(laptop)).toEqual([chunk]);
+    expect(events(phone)).toEqual([chunk]);
+    expect(laptop.flush).toHaveBeenCalled();
+    expect(other.write).not.toHaveBeenCalled();
+  });
+
+  it('stops sending to a stream once it is closed', () => {
+    const stream = openStream();
+    const unsubscribe = subscribe('buyer', stream);
+
+    unsubscribe();
+    publish(['buyer'], 'message', {});
+
+    expect(stream.write).not.toHaveBeenCalled();
+  });
+
+  it('sends negotiation events to the participants, leaving out whoever caused them', () => {
+    const buyer = connect('buyer');
+    const seller = connect('seller');
+    const negotiation = { _id: 'n1', participants: [{ user: { _id: 'buyer' } }, { user: 'seller' }] };
+
+    publishToNegotiation(negotiation, 'read', { messageIds: ['m1'] }, 'buyer');
+
+    expect(buyer.write).not.toHaveBeenCalled();
+    expect(events(seller)).toEqual(['event: read\ndata: {"negotiationId":"n1","messageIds":["m1"]}\n\n']);
+  });
+});
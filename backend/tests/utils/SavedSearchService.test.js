@@ -0,0 +1,137 @@
+const mongoose = require('mongoose');
+const SavedSearch = require('../../models/SavedSearch');
+
+jest.mock('../../utils/NotificationService', () => ({ notifyUsers: jest.fn() }));
+jest.mock('../../utils/EmailService', () => ({
+  sendEmail: jest.fn(),
+  getFrontendUrl: path => `https://wasteex.test${path}`
+}));
+
+const { notifyUsers } = require('../../utils/NotificationService');
+const { sendEmail } = require('../../utils/EmailService');
+const { listingMatchesFilters, alertSavedSearches } = require('../../utils/SavedSearchService');
+
+const listing = {
+  _id: new mongoose.Types.ObjectId(),
+  title: 'HDPE regrind',
+  category: 'plastic',
+  wasteType: 'Plastic',
+  description: 'Washed and dried',
+  tags: ['recycled'],
+  urgency: 'medium',
+  price: { value: 18000 },
+  quantity: { value: 2, unit: 'tonnes' },
+  certifications: ['ISO 14001'],
+  // Andheri, Mumbai
+  location: { city: 'Mumbai', state: 'Maharashtra', point: { type: 'Point', coordinates: [72.8697, 19.1136] } }
+};
+const seller = { _id: new mongoose.Types.ObjectId(), company: { verified: true } };
+
+describe('listingMatchesFilters', () => {
+  it('matches when every filter holds', () => {
+    expect(listingMatchesFilters(listing, {
+      category: 'plastic',
+      city: 'mumbai',
+      minPrice: 15000,
+      maxPrice: 20000,
+      minQty: 1500,
+      qtyUnit: 'kg',
+      certifications: 'iso 14001',
+      sellerVerified: true
+    }, seller)).toBe(true);
+  });
+
+  it.each([
+    ['category', { category: 'metal' }],
+    ['price', { maxPrice: 15000 }],
+    ['quantity', { minQty: 3, qtyUnit: 'tonnes' }],
+    ['quantity unit', { qtyUnit: 'liters' }],
+    ['certifications', { certifications: 'ISO 14001, ISO 9001' }],
+    ['seller verification', { sellerVerified: false }],
+    ['hazardous flag', { hazardous: true }]
+  ])('rejects a listing outside the %s filter', (label, filters) => {
+    expect(listingMatchesFilters(listing, filters, seller)).toBe(false);
+  });
+
+  it('matches any search term in the title, waste type, description or tags', () => {
+    expect(listingMatchesFilters(listing, { search: 'copper regrind' }, seller)).toBe(true);
+    expect(listingMatchesFilters(listing, { search: 'RECYCLED' }, seller)).toBe(true);
+    expect(listingMatchesFilters(listing, { search: 'copper brass' }, seller)).toBe(false);
+  });
+
+  it('matches listings within the radius of a location', () => {
+    expect(listingMatchesFilters(listing, { near: '400001', radiusKm: 25 }, seller)).toBe(true);
+    expect(listingMatchesFilters(listing, { near: '400001', radiusKm: 2 }, seller)).toBe(false);
+    expect(listingMatchesFilters({ ...listing, location: { city: 'Mumbai' } }, { near: '400001' }, seller)).toBe(false);
+  });
+});
+
+describe('alertSavedSearches', () => {
+  const buyer = (overrides = {}) => ({
+    _id: new mongoose.Types.ObjectId(),
+    name: 'Ravi',
+    email: 'ravi@example.com',
+    preferences: { notifications: { email: true } },
+    ...overrides
+  });
+  const search = (user, frequency, filters = { search: 'regrind' }) => ({
+    _id: new mongoose.Types.ObjectId(),
+    name: `${frequency} regrind`,
+    user,
+    filters,
+    alerts: { enabled: true, frequency }
+  });
+
+  const stubSearches = (searches) => {
+    jest.spyOn(SavedSearch, 'find').mockReturnValue({ populate: jest.fn().mockResolvedValue(searches) });
+    jest.spyOn(SavedSearch, 'updateMany').mockResolvedValue({});
+  };
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    notifyUsers.mockReset();
+    sendEmail.mockReset();
+  });
+
+  it('alerts instant searches straight away and queues daily ones for the digest', async () => {
+    const instantBuyer = buyer();
+    const dailySearch = search(buyer(), 'daily');
+    stubSearches([search(instantBuyer, 'instant'), dailySearch]);
+
+    const matches = await alertSavedSearches(listing, seller);
+
+    expect(matches).toHaveLength(2);
+    expect(notifyUsers).toHaveBeenCalledTimes(1);
+    expect(notifyUsers).toHaveBeenCalledWith(instantBuyer._id, expect.objectContaining({ title: 'New Listing Matches Your Search' }));
+    expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: 'ravi@example.com', subject: 'New listing: HDPE regrind' }));
+    expect(SavedSearch.updateMany).toHaveBeenCalledWith({ _id: { $in: [dailySearch._id] } }, { $addToSet: { pendingListings: listing._id } });
+  });
+
+  it('alerts a buyer once however many of their searches match', async () => {
+    const user = buyer();
+    stubSearches([search(user, 'instant'), search(user, 'instant', {})]);
+
+    await alertSavedSearches(listing, seller);
+
+    expect(notifyUsers).toHaveBeenCalledTimes(1);
+  });
+
+  it('skips email for buyers who turned it off, and inactive buyers entirely', async () => {
+    stubSearches([
+      search(buyer({ preferences: { notifications: { email: false } } }), 'instant'),
+      search(buyer({ isActive: false }), 'instant')
+    ]);
+
+    await alertSavedSearches(listing, seller);
+
+    expect(notifyUsers).toHaveBeenCalledTimes(1);
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('never breaks listing creation', async () => {
+    jest.spyOn(SavedSearch, 'find').mockImplementation(() => { throw new Error('connection lost'); });
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(alertSavedSearches(listing, seller)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,89 @@
+const path = require('path');
+
+jest.mock('fs/promises');
+
+const fs = require('fs/promises');
+const { UPLOAD_DIR, getStorage, saveFiles, removeFiles } = require('../../utils/StorageService');
+
+const file = (originalname, overrides = {}) => ({
+  originalname,
+  mimetype: 'application/pdf',
+  size: 9,
+  buffer: Buffer.from('%PDF-1.4\n'),
+  ...overrides
+});
+
+describe('getStorage', () => {
+  const env = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('uses Cloudinary once it is configured, and local disk otherwise', () => {
+    delete process.env.STORAGE_DRIVER;
+    delete process.env.CLOUDINARY_CLOUD_NAME;
+    expect(getStorage().name).toBe('local');
+
+    process.env.CLOUDINARY_CLOUD_NAME = 'wasteex';
+    expect(getStorage().name).toBe('cloudinary');
+  });
+
+  it('lets STORAGE_DRIVER choose the driver', () => {
+    process.env.CLOUDINARY_CLOUD_NAME = 'wasteex';
+    process.env.STORAGE_DRIVER = 'local';
+
+    expect(getStorage().name).toBe('local');
+  });
+});
+
+describe('saveFiles with the local driver', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.STORAGE_DRIVER;
+    delete process.env.CLOUDINARY_CLOUD_NAME;
+    process.env.API_PUBLIC_URL = 'https://api.wasteex.test/';
+    fs.mkdir.mockResolvedValue();
+    fs.writeFile.mockResolvedValue();
+    fs.rm.mockResolvedValue();
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+    jest.restoreAllMocks();
+    jest.resetAllMocks();
+  });
+
+  it('writes each file under the folder and describes it as an attachment', async () => {
+    const [saved] = await saveFiles([file('Lab report (final).pdf')], 'negotiations/n1');
+
+    expect(saved).toMatchObject({ name: 'Lab report (final).pdf', type: 'application/pdf', size: 9 });
+    expect(saved.publicId).toMatch(/^negotiations\/n1\/[0-9a-f]{16}-Lab_report_final_.pdf$/);
+    expect(saved.url).toBe(`https://api.wasteex.test/uploads/${saved.publicId}`);
+    expect(fs.mkdir).toHaveBeenCalledWith(path.join(UPLOAD_DIR, 'negotiations/n1'), { recursive: true });
+    expect(fs.writeFile).toHaveBeenCalledWith(path.join(UPLOAD_DIR, saved.publicId), expect.any(Buffer));
+  });
+
+  it('keeps stored names inside the upload folder', async () => {
+    const [saved] = await saveFiles([file('../../server.js')], 'negotiations/n1');
+
+    expect(saved.publicId).toMatch(/^negotiations\/n1\/[0-9a-f]{16}-server.js$/);
+  });
+
+  it('removes the files already written when a later one fails', async () => {
+    fs.writeFile.mockResolvedValueOnce().mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(saveFiles([file('spec.pdf'), file('photo.png')], 'negotiations/n1')).rejects.toThrow('disk full');
+    expect(fs.rm).toHaveBeenCalledTimes(1);
+    expect(fs.rm.mock.calls[0][0]).toMatch(/spec\.pdf$/);
+  });
+
+  it('logs rather than throws when a file cannot be removed', async () => {
+    fs.rm.mockRejectedValue(new Error('permission denied'));
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(removeFiles([{ publicId: 'negotiations/n1/spec.pdf' }])).resolves.toBeUndefined();
+    expect(console.error).toHaveBeenCalledWith('Remove file error:', expect.any(Error));
+  });
+});
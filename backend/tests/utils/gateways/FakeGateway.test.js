@@ -0,0 +1,76 @@
+const mongoose = require('mongoose');
+const Payment = require('../../../models/Payment');
+const FakeGateway = require('../../../utils/gateways/FakeGateway');
+
+// Load the adapter again, as a restarted server would
+const restartedGateway = () => {
+  let gateway;
+  jest.isolateModules(() => {
+    gateway = require('../../../utils/gateways/FakeGateway');
+  });
+  return gateway;
+};
+
+const startCheckout = async () => {
+  const { orderId } = await FakeGateway.createOrder({ amount: 50000, currency: 'INR' });
+  return new Payment({
+    contract: new mongoose.Types.ObjectId(),
+    buyer: new mongoose.Types.ObjectId(),
+    seller: new mongoose.Types.ObjectId(),
+    status: 'pending',
+    amount: { total: 50000, sellerAmount: 47500, platformFee: 2500 },
+    gatewayDetails: { provider: 'fake', gatewayOrderId: orderId }
+  });
+};
+
+describe('FakeGateway', () => {
+  it('verifies an order created before a restart', async () => {
+    const payment = await startCheckout();
+
+    const result = await restartedGateway().verify(payment, {});
+
+    expect(result).toMatchObject({ verified: true, method: 'upi' });
+    expect(result.gatewayPaymentId).toMatch(/^pay_fake_/);
+  });
+
+  it('simulates a failed payment', async () => {
+    const payment = await startCheckout();
+
+    await expect(FakeGateway.verify(payment, { outcome: 'failure' })).resolves.toEqual({ verified: false, reason: 'Simulated payment failure' });
+  });
+
+  it('does not verify orders it did not create', async () => {
+    const payment = await startCheckout();
+    payment.gatewayDetails.gatewayOrderId = 'order_Nx1';
+
+    await expect(FakeGateway.verify(payment, {})).resolves.toMatchObject({ verified: false, reason: 'Unknown order' });
+  });
+
+  it('reports the status recorded on the payment', async () => {
+    const payment = await startCheckout();
+    await expect(FakeGateway.fetchStatus(payment)).resolves.toMatchObject({ status: 'pending' });
+
+    payment.status = 'held_in_escrow';
+    payment.gatewayDetails.gatewayPaymentId = 'pay_fake_1';
+    await expect(restartedGateway().fetchStatus(payment)).resolves.toEqual({ status: 'captured', gatewayPaymentId: 'pay_fake_1' });
+
+    payment.status = 'refunded';
+    await expect(FakeGateway.fetchStatus(payment)).resolves.toMatchObject({ status: 'refunded' });
+  });
+
+  it('refunds a captured payment after a restart, up to what is left', async () => {
+    const payment = await startCheckout();
+    payment.status = 'held_in_escrow';
+    payment.refund.refundAmount = 20000;
+    const gateway = restartedGateway();
+
+    await expect(gateway.refund(payment, 30000)).resolves.toEqual({ refundId: expect.stringMatching(/^rfnd_fake_/) });
+    await expect(gateway.refund(payment, 30001)).rejects.toThrow('Refund exceeds the amount captured');
+  });
+
+  it('refuses to refund a payment that was not captured', async () => {
+    const payment = await startCheckout();
+
+    await expect(FakeGateway.refund(payment, 1000)).rejects.toThrow('Only captured orders can be refunded');
+  });
+});
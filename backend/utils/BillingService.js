@@ -0,0 +1,335 @@
+// utils/BillingService.js
+const Contract = require('../models/Contract');
+const Payment = require('../models/Payment');
+const { getEnabledProviders } = require('./gateways');
+const { getContractFee } = require('./FeeScheduleService');
+const { completeMilestone } = require('./MilestoneService');
+const { issueInvoice, issuePlatformFeeInvoice } = require('./InvoiceService');
+const { notifyUsers } = require('./NotificationService');
+const { transitionPayment } = require('./PaymentStateMachine');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Share of the contract value paid upfront on advance terms; the balance is invoiced on delivery
+const ADVANCE_PERCENT = Number(process.env.ADVANCE_PAYMENT_PERCENT) || 30;
+
+// Payment statuses that still expect money from the buyer
+const OPEN_STATUSES = ['pending', 'failed'];
+
+const INSTALLMENT_LABELS = {
+  full: 'Contract value',
+  advance: 'Advance payment',
+  balance: 'Balance payment'
+};
+
+// Milestone each installment completes once it is paid
+const INSTALLMENT_MILESTONES = {
+  full: 'payment',
+  advance: 'advance-payment',
+  balance: 'payment'
+};
+
+const addDays = (date, days) => new Date(new Date(date).getTime() + days * DAY_MS);
+
+const formatAmount = (amount) => `₹${amount.toLocaleString('en-IN')}`;
+
+/**
+ * Installments the buyer owes under the contract's payment terms.
+ * 'signing' installments can be paid once the contract is signed; 'delivery' installments are
+ * invoiced when the shipment is delivered and fall due netDays after the actual delivery date.
+ * @param {Object} terms - Contract terms with paymentTerms and totalValue.
+ * @returns {Array} [{ installment, amount, dueOn, netDays, settlement }]
+ */
+const getPaymentSchedule = (terms) => {
+  const total = terms.totalValue;
+
+  if (terms.paymentTerms === 'advance') {
+    const advance = Math.round(total * ADVANCE_PERCENT / 100);
+    return [
+      { installment: 'advance', amount: advance, dueOn: 'signing', netDays: 0, settlement: 'escrow' },
+      { installment: 'balance', amount: total - advance, dueOn: 'delivery', netDays: 0, settlement: 'escrow' }
+    ].filter(item => item.amount > 0);
+  }
+
+  if (terms.paymentTerms === 'cod') {
+    return [{ installment: 'full', amount: total, dueOn: 'delivery', netDays: 0, settlement: 'cod' }];
+  }
+
+  const netDays = terms.paymentTerms?.startsWith('net-') ? parseInt(terms.paymentTerms.split('-')[1]) : 0;
+  return [{ installment: 'full', amount: total, dueOn: 'delivery', netDays, settlement: 'escrow' }];
+};
+
+// A payment for the full contract value (including ones made before installments existed) covers every installment
+const findInstallmentPayment = (item, payments) =>
+  payments.find(payment => payment.installment === item.installment) ||
+  payments.find(payment => payment.installment === 'full');
+
+/**
+ * Platform fee charged on one installment: its share of the fee fixed on the contract.
+ * @param {Object} contract - Contract document.
+ * @param {Object} item - Installment from getPaymentSchedule.
+ * @returns {Promise<number>}
+ */
+const getInstallmentFee = async (contract, item) => {
+  const fee = await getContractFee(contract);
+  return Math.round(fee.amount * item.amount / contract.terms.totalValue);
+};
+
+/**
+ * Build an unsaved payment for one installment of a contract.
+ * @param {Object} contract - Contract document.
+ * @param {Object} item - Installment from getPaymentSchedule.
+ * @param {Object} [options] - { provider, dueDate, metadata }
+ * @returns {Promise<Object>} Payment document.
+ */
+const buildInstallmentPayment = async (contract, item, { provider, dueDate, metadata } = {}) => {
+  const platformFee = await getInstallmentFee(contract, item);
+
+  return new Payment({
+    contract: contract._id,
+    buyer: contract.parties.buyer.user,
+    seller: contract.parties.seller.user,
+    installment: item.installment,
+    settlement: item.settlement,
+    dueDate,
+    amount: {
+      total: item.amount,
+      sellerAmount: item.amount - platformFee,
+      platformFee
+    },
+    // Gateway invoices get the default provider until the buyer picks one at checkout
+    gatewayDetails: { provider: item.settlement === 'cod' ? 'offline' : (provider || getEnabledProviders()[0] || 'razorpay') },
+    metadata
+  });
+};
+
+/**
+ * Find what the buyer can pay online now: an open invoice, or the upfront installment of a signed contract.
+ * @param {Object} contract - Contract document.
+ * @returns {Object} { payment } to retry an existing payment, { item } for an installment not yet
+ *   invoiced, or { reason } when nothing can be paid online.
+ */
+const getPayableInstallment = async (contract) => {
+  const payments = await Payment.find({ contract: contract._id }).sort({ createdAt: 1 });
+
+  const open = payments.find(payment => OPEN_STATUSES.includes(payment.status));
+  if (open) {
+    return open.settlement === 'cod'
+      ? { reason: 'Cash on delivery is paid to the seller, who records it here once received' }
+      : { payment: open };
+  }
+
+  const item = getPaymentSchedule(contract.terms)
+    .find(entry => entry.dueOn === 'signing' && !findInstallmentPayment(entry, payments));
+  if (!item) return { reason: 'No payment is due on this contract yet' };
+  if (contract.status !== 'signed') return { reason: 'Contract must be signed before payment' };
+
+  return { item };
+};
+
+/**
+ * The contract's payment schedule with each installment's payment, for display.
+ * @param {Object} contract - Contract document.
+ * @returns {Array} [{ installment, label, amount, dueOn, netDays, settlement, dueDate, payment }]
+ */
+const getScheduleStatus = async (contract) => {
+  const payments = await Payment.find({ contract: contract._id })
+    .select('paymentId installment settlement status dueDate amount')
+    .sort({ createdAt: 1 });
+
+  return getPaymentSchedule(contract.terms).map(item => {
+    const payment = findInstallmentPayment(item, payments);
+    return {
+      ...item,
+      label: INSTALLMENT_LABELS[item.installment],
+      dueDate: payment?.dueDate,
+      payment: payment || null
+    };
+  });
+};
+
+/**
+ * Whether every installment of the contract has reached the seller.
+ * @param {Object} contract - Contract document.
+ * @returns {boolean}
+ */
+const isContractSettled = async (contract) => {
+  const released = await Payment.find({ contract: contract._id, status: 'released_to_seller' });
+  return getPaymentSchedule(contract.terms).every(item => findInstallmentPayment(item, released));
+};
+
+/**
+ * Complete the milestone a paid installment corresponds to, if it is still open. Does not save the contract.
+ * @param {Object} contract - Contract document.
+ * @param {Object} payment - Payment that was just paid.
+ * @param {string} [performedBy] - User whose action settled the payment.
+ */
+const completePaymentMilestone = (contract, payment, performedBy) => {
+  const milestone = contract.milestones.find(item =>
+    item.type === INSTALLMENT_MILESTONES[payment.installment] && item.status !== 'completed'
+  );
+  if (milestone) completeMilestone(contract, milestone, performedBy);
+};
+
+/**
+ * Invoice the installments that fall due on delivery once a shipment is delivered: the balance on
+ * advance terms, cash on delivery, or the net-N invoice due N days after the actual delivery date.
+ * Installments that already have a payment are skipped, so a repeated delivery update is harmless.
+ * @param {Object} shipment - Shipment that was just delivered.
+ * @param {string} [performedBy] - User who marked the shipment delivered.
+ * @returns {Array} The payments created.
+ */
+const raiseDeliveryInvoices = async (shipment, performedBy) => {
+  if (shipment.status !== 'delivered' || !shipment.delivery?.actualDate) return [];
+
+  const contract = await Contract.findById(shipment.contract);
+  if (!contract || contract.status === 'cancelled') return [];
+
+  const payments = await Payment.find({ contract: contract._id });
+  const due = getPaymentSchedule(contract.terms)
+    .filter(item => item.dueOn === 'delivery' && !findInstallmentPayment(item, payments));
+  if (due.length === 0) return [];
+
+  const invoices = [];
+  for (const item of due) {
+    const payment = await buildInstallmentPayment(contract, item, { dueDate: addDays(shipment.delivery.actualDate, item.netDays) });
+    await payment.save();
+    await payment.addTimelineEntry(
+      'pending',
+      `${INSTALLMENT_LABELS[item.installment]} of ${formatAmount(item.amount)} invoiced on delivery, due ${payment.dueDate.toDateString()}`,
+      performedBy
+    );
+    invoices.push(payment);
+  }
+
+  const invoice = invoices[invoices.length - 1];
+  contract.payment = invoice._id;
+  contract.paymentStatus = 'pending';
+
+  // Payment milestones follow the actual delivery date rather than the planned one
+  contract.milestones
+    .filter(milestone => milestone.type === 'payment' && milestone.status !== 'completed')
+    .forEach(milestone => {
+      milestone.dueDate = invoice.dueDate;
+      if (milestone.status === 'overdue' && invoice.dueDate > new Date()) milestone.status = 'pending';
+    });
+
+  contract.auditTrail.push({
+    action: 'Payment invoiced on delivery',
+    performedBy,
+    details: { shipmentId: shipment._id, payments: invoices.map(payment => payment._id), dueDate: invoice.dueDate }
+  });
+  await contract.save();
+
+  const isCod = invoice.settlement === 'cod';
+  await notifyUsers([contract.parties.buyer.user, contract.parties.seller.user], {
+    type: 'payment',
+    title: isCod ? 'Cash on Delivery Due' : 'Payment Invoiced',
+    message: isCod
+      ? `${formatAmount(invoice.amount.total)} for contract ${contract.contractNumber} is due to the seller on delivery.`
+      : `${formatAmount(invoice.amount.total)} for contract ${contract.contractNumber} is due by ${invoice.dueDate.toDateString()}.`,
+    priority: 'high',
+    actionUrl: `/contracts/${contract._id}`,
+    metadata: { contractId: contract._id, paymentId: invoice._id, amount: invoice.amount.total, dueDate: invoice.dueDate }
+  });
+
+  return invoices;
+};
+
+/**
+ * Record a cash-on-delivery payment the seller has received. The money never passes through
+ * the platform, so the payment goes straight to released_to_seller.
+ * @param {Object} payment - Pending COD payment.
+ * @param {Object} receipt - { method, reference }
+ * @param {string} performedBy - Seller (or admin) recording the receipt.
+ * @throws {Error} With statusCode 409 when the payment is not an open COD payment.
+ */
+const recordCodSettlement = async (payment, { method, reference }, performedBy) => {
+  if (payment.settlement !== 'cod') {
+    const error = new Error('Only cash-on-delivery payments are settled by the seller');
+    error.statusCode = 409;
+    throw error;
+  }
+
+  transitionPayment(payment, 'released_to_seller');
+  payment.paymentMethod = method;
+  if (reference) payment.gatewayDetails.transactionId = reference;
+  payment.escrow.releasedAt = new Date();
+
+  await payment.save();
+  await payment.addTimelineEntry(
+    'released_to_seller',
+    `Cash on delivery of ${formatAmount(payment.amount.total)} received by the seller${reference ? ` (ref ${reference})` : ''}`,
+    performedBy
+  );
+
+  const contract = await Contract.findById(payment.contract);
+  contract.paymentStatus = 'released_to_seller';
+  completePaymentMilestone(contract, payment, performedBy);
+  if (await isContractSettled(contract)) contract.status = 'completed';
+  contract.auditTrail.push({
+    action: 'Cash on delivery recorded',
+    performedBy,
+    details: { paymentId: payment._id, amount: payment.amount.total, method, reference }
+  });
+  await contract.save();
+
+  await notifyUsers(payment.buyer, {
+    type: 'payment',
+    title: 'Payment Received',
+    message: `The seller confirmed receiving ${formatAmount(payment.amount.total)} for contract ${contract.contractNumber}.`,
+    actionUrl: `/contracts/${contract._id}`,
+    metadata: { contractId: contract._id, paymentId: payment._id, amount: payment.amount.total }
+  });
+
+  // The settlement stands even if invoicing fails; an admin can issue the invoices afterwards
+  try {
+    await issueInvoice(payment, performedBy);
+    await issuePlatformFeeInvoice(payment, performedBy);
+  } catch (error) {
+    console.error(`Invoice for payment ${payment._id} failed:`, error);
+  }
+};
+
+/**
+ * Split a user's open invoices into money owed to them and money they owe, with overdue totals.
+ * @param {Array} payments - Open payments with a due date, where the user is buyer or seller.
+ * @param {string} userId - User the summary is for.
+ * @returns {Object} { receivables, payables, overdue: { receivable, payable } }
+ */
+const summarizeReceivables = (payments, userId) => {
+  const now = Date.now();
+  const items = payments.map(payment => ({
+    ...payment.toObject(),
+    daysOverdue: Math.max(0, Math.floor((now - payment.dueDate.getTime()) / DAY_MS)),
+    isOverdue: payment.dueDate.getTime() < now
+  }));
+
+  const isSeller = item => (item.seller._id || item.seller).toString() === userId.toString();
+  const receivables = items.filter(isSeller);
+  const payables = items.filter(item => !isSeller(item));
+  const totalOverdue = list => {
+    const overdue = list.filter(item => item.isOverdue);
+    return { count: overdue.length, amount: overdue.reduce((sum, item) => sum + item.amount.total, 0) };
+  };
+
+  return {
+    receivables,
+    payables,
+    overdue: { receivable: totalOverdue(receivables), payable: totalOverdue(payables) }
+  };
+};
+
+module.exports = {
+  OPEN_STATUSES,
+  getPaymentSchedule,
+  getInstallmentFee,
+  buildInstallmentPayment,
+  getPayableInstallment,
+  getScheduleStatus,
+  isContractSettled,
+  completePaymentMilestone,
+  raiseDeliveryInvoices,
+  recordCodSettlement,
+  summarizeReceivables
+};
@@ -0,0 +1,123 @@
+// utils/ContractDocumentService.js
+const crypto = require('crypto');
+const { renderPdf } = require('./PdfWriter');
+
+// Plain JSON with sorted keys, ISO dates and no empty values, so equal terms always serialise the same way
+const canonicalize = (value) => {
+  if (value instanceof Date) return value.toISOString();
+  if (value && typeof value.toHexString === 'function') return value.toHexString();
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (value && typeof value === 'object') {
+    return Object.keys(value).sort().reduce((result, key) => {
+      if (key === '_id') return result;
+      const item = canonicalize(value[key]);
+      const isEmpty = item === undefined || item === null || item === '' ||
+        (typeof item === 'object' && !Array.isArray(item) && Object.keys(item).length === 0);
+      if (!isEmpty) result[key] = item;
+      return result;
+    }, {});
+  }
+  return value;
+};
+
+/**
+ * Serialise contract terms canonically. This string is what gets anchored on-chain.
+ * @param {Object} contract - Contract document or a plain terms holder.
+ * @returns {string} Canonical JSON of contract.terms.
+ */
+const getCanonicalTerms = (contract) => {
+  const terms = typeof contract.toObject === 'function' ? contract.toObject().terms : contract.terms;
+  return JSON.stringify(canonicalize(terms));
+};
+
+/**
+ * SHA-256 of some bytes or text, hex encoded.
+ * @param {Buffer|string} data - Data to hash.
+ * @returns {string} Hex digest.
+ */
+const sha256 = (data) => crypto.createHash('sha256').update(data).digest('hex');
+
+/**
+ * SHA-256 of a contract's canonical terms.
+ * @param {Object} contract - Contract document.
+ * @returns {string} Hex digest.
+ */
+const hashTerms = (contract) => sha256(getCanonicalTerms(contract));
+
+// Locale-independent formatting, so the document renders the same on any server
+const formatDate = (date) => (date ? new Date(date).toISOString().slice(0, 10) : '-');
+const formatTimestamp = (date) => (date ? new Date(date).toISOString().replace('T', ' ').slice(0, 19) + ' UTC' : '-');
+const formatAmount = (value, currency = 'INR') => `${currency} ${Number(value || 0).toFixed(2)}`;
+
+const partyBlocks = (role, party) => [
+  { text: role, bold: true, spaceBefore: 6 },
+  { text: `Company: ${party.company || party.user?.company?.name || '-'}` },
+  { text: `Representative: ${party.user?.name || '-'}` }
+];
+
+const signatureBlocks = (role, party) => party.signedAt
+  ? [
+    { text: `${role}: signed ${formatTimestamp(party.signedAt)}`, bold: true, spaceBefore: 6 },
+    { text: `Signer wallet: ${party.signerAddress || '-'}`, size: 8 },
+    { text: `Signature: ${party.signature}`, size: 8 }
+  ]
+  : [{ text: `${role}: not yet signed`, spaceBefore: 6 }];
+
+/**
+ * Render the canonical PDF of a contract from its terms, parties and signatures.
+ * Nothing else (status, payment, view time) goes into the document, so its hash only
+ * changes when the agreement itself does.
+ * @param {Object} contract - Contract with parties.seller.user and parties.buyer.user populated with name and company.name.
+ * @returns {Object} { pdf: Buffer, sha256 }
+ */
+const renderContractPdf = (contract) => {
+  const { terms, parties } = contract;
+  const currency = terms.price.currency || 'INR';
+
+  const blocks = [
+    { text: 'WASTE MATERIAL SUPPLY AGREEMENT', size: 16, bold: true },
+    { text: contract.title, size: 12, spaceBefore: 4 },
+    { text: `Contract Number: ${contract.contractNumber}`, spaceBefore: 8 },
+    { text: `Created: ${formatDate(contract.createdAt)}` },
+
+    { text: 'PARTIES', size: 12, bold: true, spaceBefore: 16 },
+    ...partyBlocks('Seller', parties.seller),
+    ...partyBlocks('Buyer', parties.buyer),
+
+    { text: 'TERMS', size: 12, bold: true, spaceBefore: 16 },
+    { text: `Material: ${terms.materialType}`, spaceBefore: 4 },
+    { text: `Quantity: ${terms.quantity.value} ${terms.quantity.unit}` },
+    { text: `Price: ${formatAmount(terms.price.value, currency)} per ${terms.quantity.unit}` },
+    { text: `Total Value: ${formatAmount(terms.totalValue, currency)}` },
+    { text: `Delivery Date: ${formatDate(terms.deliveryDate)}` },
+    {
+      text: `Delivery Location: ${[
+        terms.deliveryLocation?.address,
+        terms.deliveryLocation?.city,
+        terms.deliveryLocation?.state,
+        terms.deliveryLocation?.pincode
+      ].filter(Boolean).join(', ') || '-'}`
+    },
+    { text: `Payment Terms: ${terms.paymentTerms}` },
+    { text: `Quality Specifications: ${terms.qualitySpecs || '-'}` },
+    { text: `Packaging: ${terms.packagingRequirements || '-'}` },
+    { text: `Inspection Rights: ${terms.inspectionRights || '-'}` },
+    { text: 'Penalties', bold: true, spaceBefore: 6 },
+    { text: `Late delivery: ${terms.penalties?.lateDelivery || '-'}` },
+    { text: `Quality issues: ${terms.penalties?.qualityIssues || '-'}` },
+    { text: `Cancellation: ${terms.penalties?.cancellation || '-'}` },
+
+    { text: 'SIGNATURES', size: 12, bold: true, spaceBefore: 16 },
+    ...signatureBlocks('Seller', parties.seller),
+    ...signatureBlocks('Buyer', parties.buyer),
+
+    { text: 'VERIFICATION', size: 12, bold: true, spaceBefore: 16 },
+    { text: `Terms SHA-256: ${hashTerms(contract)}`, size: 8, spaceBefore: 4 },
+    { text: `Blockchain contract: ${contract.blockchain?.contractAddress || 'not deployed'}`, size: 8 }
+  ];
+
+  const pdf = renderPdf(blocks);
+  return { pdf, sha256: sha256(pdf) };
+};
+
+module.exports = { getCanonicalTerms, hashTerms, sha256, renderContractPdf };
@@ -0,0 +1,98 @@
+// utils/ContractSignatureService.js
+const { ethers } = require('ethers');
+const { hashTerms } = require('./ContractDocumentService');
+
+// EIP-712 domain and type that parties sign with their wallet; WasteContract.sol rebuilds the same digest
+const SIGNING_DOMAIN = { name: 'WasteEx', version: '1' };
+const SIGNING_TYPES = {
+  ContractSignature: [
+    { name: 'contractId', type: 'string' },
+    { name: 'role', type: 'string' },
+    { name: 'termsHash', type: 'bytes32' }
+  ]
+};
+
+// Chain the contracts are deployed on (CHAIN_ID, Sepolia by default); signatures made for one chain don't verify on another
+const DEFAULT_CHAIN_ID = 11155111;
+
+/**
+ * Domains a party may have signed under, newest first. Once the contract is deployed the domain also
+ * names its address, so the signature can't be replayed on another deployment; a party who signed
+ * before deployment could not know the address, and that signature is bound to the chain only.
+ * @param {Object} contract - Contract document.
+ * @returns {Object[]} EIP-712 domains.
+ */
+const getSigningDomains = (contract) => {
+  const domain = { ...SIGNING_DOMAIN, chainId: Number(process.env.CHAIN_ID) || DEFAULT_CHAIN_ID };
+  const verifyingContract = contract.blockchain?.contractAddress;
+  return verifyingContract ? [{ ...domain, verifyingContract }, domain] : [domain];
+};
+
+/**
+ * Build the EIP-712 typed data a party signs. It commits to the canonical terms hash,
+ * so a signature stops verifying as soon as the terms change.
+ * @param {Object} contract - Contract document.
+ * @param {string} role - 'seller' or 'buyer'.
+ * @returns {Object} { domain, types, primaryType, message }
+ */
+const getSigningRequest = (contract, role) => ({
+  domain: getSigningDomains(contract)[0],
+  types: SIGNING_TYPES,
+  primaryType: 'ContractSignature',
+  message: {
+    contractId: contract._id.toString(),
+    role,
+    termsHash: `0x${hashTerms(contract)}`
+  }
+});
+
+/**
+ * Recover the addresses that could have produced a signature over the contract's signing request,
+ * one per signing domain, newest first.
+ * @param {Object} contract - Contract document.
+ * @param {string} role - 'seller' or 'buyer'.
+ * @param {string} signature - 65-byte hex signature.
+ * @returns {string[]} Checksummed signer addresses; empty if the signature is malformed.
+ */
+const recoverSigners = (contract, role, signature) => {
+  const { types, message } = getSigningRequest(contract, role);
+  try {
+    return getSigningDomains(contract).map(domain => ethers.verifyTypedData(domain, types, message, signature));
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Check a party's stored signature against the contract as it stands now.
+ * @param {Object} contract - Contract document.
+ * @param {string} role - 'seller' or 'buyer'.
+ * @returns {boolean} Whether the party signed and the signature still matches the terms.
+ */
+const verifyPartySignature = (contract, role) => {
+  const party = contract.parties[role];
+  if (!party.signedAt || !party.signature || !party.signerAddress) return false;
+
+  return recoverSigners(contract, role, party.signature)
+    .some(signer => signer.toLowerCase() === party.signerAddress.toLowerCase());
+};
+
+/**
+ * Signature status of both parties, re-verified against the current terms.
+ * @param {Object} contract - Contract document.
+ * @returns {Object} { termsHash, seller: { signed, valid, signerAddress }, buyer: {...} }
+ */
+const getSignatureStatus = (contract) => {
+  const status = { termsHash: hashTerms(contract) };
+  ['seller', 'buyer'].forEach(role => {
+    const party = contract.parties[role];
+    status[role] = {
+      signed: Boolean(party.signedAt),
+      valid: verifyPartySignature(contract, role),
+      signerAddress: party.signerAddress || null
+    };
+  });
+  return status;
+};
+
+module.exports = { getSigningDomains, getSigningRequest, recoverSigners, verifyPartySignature, getSignatureStatus };
@@ -0,0 +1,55 @@
+// utils/EmailService.js
+const nodemailer = require('nodemailer');
+
+let transporter = null;
+
+// Email is optional; without SMTP settings messages are skipped and only in-app notifications are sent
+const getTransporter = () => {
+  if (!process.env.SMTP_HOST) return null;
+
+  if (!transporter) {
+    transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined
+    });
+  }
+  return transporter;
+};
+
+/**
+ * Build an absolute link to a frontend page for use in emails.
+ * @param {string} path - Frontend path, e.g. '/listings/123'.
+ * @returns {string} Absolute URL.
+ */
+const getFrontendUrl = (path) =>
+  `${(process.env.FRONTEND_URL || 'https://wasteex.vercel.app').replace(/\/$/, '')}${path}`;
+
+/**
+ * Send an email.
+ * Failures are logged and swallowed so they never break the calling request or job.
+ * @param {Object} message - to, subject, text and optional html.
+ * @returns {Object|null} Delivery info, or null when email is not configured or sending failed.
+ */
+const sendEmail = async ({ to, subject, text, html }) => {
+  const mailer = getTransporter();
+  if (!mailer || !to) return null;
+
+  try {
+    return await mailer.sendMail({
+      from: process.env.EMAIL_FROM || 'WasteEx <no-reply@wasteex.in>',
+      to,
+      subject,
+      text,
+      html
+    });
+  } catch (error) {
+    console.error('Send email error:', error);
+    return null;
+  }
+};
+
+module.exports = { sendEmail, getFrontendUrl };
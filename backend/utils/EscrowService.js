@@ -0,0 +1,300 @@
+// utils/EscrowService.js
+const Contract = require('../models/Contract');
+const Payment = require('../models/Payment');
+const Dispute = require('../models/Dispute');
+const { getGateway } = require('./gateways');
+const { completePaymentMilestone, isContractSettled } = require('./BillingService');
+const { issueInvoice, issuePlatformFeeInvoice, creditRefund } = require('./InvoiceService');
+const { notifyUsers } = require('./NotificationService');
+const { canTransition, transitionPayment } = require('./PaymentStateMachine');
+
+const ESCROW_HOLD_DAYS = 7;
+
+// Gateway payment methods we record as-is; anything else (emi, paylater...) keeps the default
+const PAYMENT_METHODS = ['upi', 'netbanking', 'card', 'wallet'];
+
+/**
+ * Hold a captured payment in escrow and mark the contract executed.
+ * Safe to call again for a payment already in escrow: nothing changes and false is returned.
+ * @param {Object} payment - Payment document.
+ * @param {Object} capture - { gatewayPaymentId, signature, method } from the gateway.
+ * @param {string} [performedBy] - User who verified the payment; omitted for webhooks.
+ * @param {string} [description] - Timeline description.
+ * @returns {boolean} Whether the payment moved into escrow.
+ */
+const holdPaymentInEscrow = async (payment, { gatewayPaymentId, signature, method }, performedBy, description = 'Payment verified and held in escrow') => {
+  if (!transitionPayment(payment, 'held_in_escrow')) return false;
+
+  payment.gatewayDetails.gatewayPaymentId = gatewayPaymentId;
+  if (signature) payment.gatewayDetails.signature = signature;
+  if (PAYMENT_METHODS.includes(method)) payment.paymentMethod = method;
+  payment.escrow.heldAt = new Date();
+  payment.escrow.autoReleaseDate = new Date(Date.now() + ESCROW_HOLD_DAYS * 24 * 60 * 60 * 1000);
+
+  await payment.save();
+  await payment.addTimelineEntry('held_in_escrow', description, performedBy);
+
+  const contract = await Contract.findById(payment.contract);
+  contract.status = 'executed';
+  contract.paymentStatus = 'held_in_escrow';
+  completePaymentMilestone(contract, payment, performedBy);
+  await contract.save();
+
+  await notifyUsers([payment.buyer, payment.seller], {
+    type: 'payment',
+    title: 'Payment Held in Escrow',
+    message: `Payment of ₹${payment.amount.total.toLocaleString('en-IN')} for contract ${contract.contractNumber} is now held in escrow.`,
+    priority: 'high',
+    actionUrl: `/contracts/${contract._id}`,
+    metadata: { contractId: contract._id, paymentId: payment._id, amount: payment.amount.total }
+  });
+
+  // The seller's invoice goes out once the buyer has paid, so refunds from escrow are credited against it.
+  // The capture stands even if invoicing fails; an admin can issue the invoice afterwards.
+  try {
+    await issueInvoice(payment, performedBy);
+  } catch (error) {
+    console.error(`Invoice for payment ${payment._id} failed:`, error);
+  }
+
+  return true;
+};
+
+/**
+ * Mark a payment attempt as failed. Ignored once the payment has been captured,
+ * so a late failure event for an earlier attempt can't undo a successful one.
+ * @param {Object} payment - Payment document.
+ * @param {string} reason - Timeline description.
+ * @param {string} [performedBy] - User whose verification failed; omitted for webhooks.
+ * @returns {boolean} Whether the payment was marked failed.
+ */
+const markPaymentFailed = async (payment, reason, performedBy) => {
+  if (!canTransition(payment.status, 'failed')) return false;
+
+  transitionPayment(payment, 'failed');
+  await payment.save();
+  await payment.addTimelineEntry('failed', reason, performedBy);
+
+  await Contract.updateOne({ _id: payment.contract, payment: payment._id }, { paymentStatus: 'failed' });
+
+  await notifyUsers(payment.buyer, {
+    type: 'payment',
+    title: 'Payment Failed',
+    message: `Your payment of ₹${payment.amount.total.toLocaleString('en-IN')} did not go through. You can retry from the contract page.`,
+    priority: 'high',
+    actionUrl: `/contracts/${payment.contract}`,
+    metadata: { contractId: payment.contract, paymentId: payment._id, amount: payment.amount.total }
+  });
+
+  return true;
+};
+
+/**
+ * Release an escrowed payment to the seller, completing the contract once every installment is released.
+ * @param {Object} payment - Payment document held in escrow.
+ * @param {string} [performedBy] - User releasing the payment; omitted for scheduled releases.
+ * @param {string} [description] - Timeline description for the release.
+ */
+const releasePaymentToSeller = async (payment, performedBy, description = 'Payment released to seller') => {
+  transitionPayment(payment, 'released_to_seller');
+  payment.escrow.releasedAt = new Date();
+
+  await payment.save();
+  await payment.addTimelineEntry('released_to_seller', description, performedBy);
+
+  // An advance can be released while the balance is still invoiced, so only the last release completes the contract
+  const contract = await Contract.findById(payment.contract);
+  if (await isContractSettled(contract)) contract.status = 'completed';
+  if (contract.payment?.toString() === payment._id.toString()) contract.paymentStatus = 'released_to_seller';
+  contract.auditTrail.push({
+    action: description,
+    performedBy,
+    details: { paymentId: payment._id, amount: payment.amount.sellerAmount }
+  });
+  await contract.save();
+
+  await notifyUsers([payment.seller, payment.buyer], {
+    type: 'payment',
+    title: 'Payment Released',
+    message: `Payment of ₹${payment.amount.sellerAmount.toLocaleString('en-IN')} for contract ${contract.contractNumber} has been released to the seller.`,
+    priority: 'high',
+    actionUrl: `/contracts/${contract._id}`,
+    metadata: { contractId: contract._id, paymentId: payment._id, amount: payment.amount.sellerAmount }
+  });
+
+  // In real implementation, initiate actual transfer to seller's account
+  console.log(`Payment of ₹${payment.amount.sellerAmount} released to seller`);
+
+  // The seller's invoice normally exists from capture; the platform fee is invoiced now that it is final.
+  // The release stands even if invoicing fails; an admin can issue the invoices afterwards.
+  try {
+    await issueInvoice(payment, performedBy);
+    await issuePlatformFeeInvoice(payment, performedBy);
+  } catch (error) {
+    console.error(`Invoice for payment ${payment._id} failed:`, error);
+  }
+};
+
+/**
+ * Amount of a payment that has not been refunded yet.
+ * @param {Object} payment - Payment document.
+ * @returns {number}
+ */
+const getRefundableAmount = (payment) => payment.amount.total - (payment.refund?.refundAmount || 0);
+
+// Refunds come out of escrow; once released to the seller the money is no longer ours to return
+const assertRefundable = (payment) => {
+  if (!canTransition(payment.status, 'refunded')) {
+    const error = new Error(`Payment cannot be refunded from ${payment.status}`);
+    error.statusCode = 409;
+    throw error;
+  }
+};
+
+/**
+ * Refund an escrowed payment to the buyer through the payment gateway.
+ * A full refund cancels the contract; a partial refund leaves the rest in escrow for the seller.
+ * @param {Object} payment - Payment document held in escrow.
+ * @param {number} amount - Amount to refund in rupees.
+ * @param {string} performedBy - Admin approving the refund.
+ * @throws {Error} With statusCode 409 when the payment is not refundable.
+ */
+const refundPayment = async (payment, amount, performedBy) => {
+  assertRefundable(payment);
+
+  // Mark the refund in flight, so a refund.processed webhook for it arriving before it is recorded is ignored
+  const previousStatus = payment.refund.status;
+  payment.refund.status = 'processing';
+  await payment.save();
+
+  let refundId;
+  try {
+    ({ refundId } = await getGateway(payment.gatewayDetails.provider)
+      .refund(payment, amount, { reason: payment.refund.reason }));
+  } catch (error) {
+    payment.refund.status = previousStatus;
+    await payment.save();
+    throw error;
+  }
+
+  await recordRefund(payment, amount, refundId, performedBy);
+};
+
+/**
+ * Record a refund the gateway has issued, whether approved here or started from the gateway dashboard.
+ * Refunding what is left of the payment moves it to refunded. A partial refund keeps it in escrow,
+ * with the seller's share and the platform fee scaled down to the remainder.
+ * @param {Object} payment - Payment document held in escrow.
+ * @param {number} amount - Amount refunded in rupees.
+ * @param {string} refundTransactionId - Gateway refund id.
+ * @param {string} [performedBy] - Admin approving the refund; omitted for webhooks.
+ * @returns {boolean} Whether the refund was recorded; false when this refund id already was.
+ * @throws {Error} With statusCode 409 when the payment is not refundable.
+ */
+const recordRefund = async (payment, amount, refundTransactionId, performedBy) => {
+  if (payment.refund.refundTransactionIds.includes(refundTransactionId)) return false;
+  assertRefundable(payment);
+  const refundable = getRefundableAmount(payment);
+  const remainder = Math.max(refundable - amount, 0);
+  const isFullRefund = remainder === 0;
+
+  if (isFullRefund) {
+    transitionPayment(payment, 'refunded');
+  } else {
+    const platformFee = Math.round(payment.amount.platformFee * remainder / refundable);
+    payment.amount.platformFee = platformFee;
+    payment.amount.sellerAmount = remainder - platformFee;
+  }
+
+  payment.refund.status = 'processed';
+  payment.refund.approved = true;
+  payment.refund.approvedAt = new Date();
+  payment.refund.approvedBy = performedBy;
+  payment.refund.refundAmount = payment.amount.total - remainder;
+  payment.refund.refundTransactionId = refundTransactionId;
+  payment.refund.refundTransactionIds.push(refundTransactionId);
+
+  await payment.save();
+  await payment.addTimelineEntry(
+    'refunded',
+    isFullRefund
+      ? `Refund of ₹${amount.toLocaleString('en-IN')} issued to buyer`
+      : `Partial refund of ₹${amount.toLocaleString('en-IN')} issued to buyer; ₹${remainder.toLocaleString('en-IN')} remains in escrow for the seller`,
+    performedBy
+  );
+
+  const contract = await Contract.findById(payment.contract);
+  if (isFullRefund) {
+    contract.paymentStatus = 'refunded';
+    contract.status = 'cancelled';
+  }
+  contract.auditTrail.push({
+    action: isFullRefund ? 'Payment fully refunded' : 'Payment partially refunded',
+    performedBy,
+    details: { paymentId: payment._id, amount, refundTransactionId }
+  });
+  await contract.save();
+
+  await notifyUsers([payment.buyer, payment.seller], {
+    type: 'payment',
+    title: 'Refund Processed',
+    message: `A refund of ₹${amount.toLocaleString('en-IN')} for contract ${contract.contractNumber} has been issued to the buyer.`,
+    priority: 'high',
+    actionUrl: `/contracts/${contract._id}`,
+    metadata: { contractId: contract._id, paymentId: payment._id, amount }
+  });
+
+  // Only payments already invoiced need a credit note; the refund itself has gone through either way
+  try {
+    await creditRefund(payment, amount, performedBy);
+  } catch (error) {
+    console.error(`Credit note for payment ${payment._id} failed:`, error);
+  }
+
+  return true;
+};
+
+/**
+ * Hold or free the escrowed payments of a contract based on its unresolved disputes.
+ * While any dispute is unresolved no installment of the contract can be released.
+ * @param {string} contractId - Contract whose payments should be synced.
+ * @param {Object} dispute - Dispute that triggered the sync.
+ * @param {string} performedBy - User whose action triggered the sync.
+ * @returns {Array} The payments synced.
+ */
+const syncDisputeHold = async (contractId, dispute, performedBy) => {
+  const payments = await Payment.find({
+    contract: contractId,
+    status: { $in: ['pending', 'paid_to_platform', 'held_in_escrow'] }
+  });
+  if (payments.length === 0) return [];
+
+  const hasOpenDispute = Boolean(await Dispute.exists({ contract: contractId, status: { $ne: 'resolved' } }));
+
+  for (const payment of payments) {
+    const wasHeld = payment.escrow.releaseConditions.disputeResolved === false;
+
+    payment.escrow.releaseConditions.disputeResolved = !hasOpenDispute;
+    payment.dispute.raised = hasOpenDispute;
+    payment.dispute.raisedBy = dispute.raisedBy;
+    payment.dispute.reason = dispute.reason;
+    payment.dispute.status = dispute.status === 'escalated' ? 'investigating' : dispute.status;
+    payment.dispute.resolution = dispute.resolution;
+    payment.dispute.resolvedAt = dispute.resolvedAt;
+
+    await payment.save();
+    if (hasOpenDispute !== wasHeld) {
+      await payment.addTimelineEntry(
+        hasOpenDispute ? 'dispute_hold' : 'dispute_cleared',
+        hasOpenDispute
+          ? `Escrow held while dispute ${dispute.disputeNumber} is unresolved`
+          : 'All disputes resolved; escrow release unblocked',
+        performedBy
+      );
+    }
+  }
+
+  return payments;
+};
+
+module.exports = { getRefundableAmount, holdPaymentInEscrow, markPaymentFailed, releasePaymentToSeller, refundPayment, recordRefund, syncDisputeHold };
@@ -0,0 +1,114 @@
+// utils/FeeScheduleService.js
+const FeeRule = require('../models/FeeRule');
+const { getContractCategory } = require('./InvoiceService');
+
+// Schedule used until an admin sets up a default rule: 5% up to ₹10,000, 2.5% above
+const DEFAULT_TIERS = [
+  { above: 0, percentage: 5 },
+  { above: 10000, percentage: 2.5 }
+];
+
+// The most specific regular rule wins
+const SCOPE_RANK = { seller: 3, category: 2, default: 1 };
+
+/**
+ * Percentage for a deal value: the highest tier the value is above, or the lowest tier.
+ * @param {Array} tiers - [{ above, percentage }]
+ * @param {number} totalValue - Deal value in rupees.
+ * @returns {number}
+ */
+const getTierPercentage = (tiers, totalValue) => {
+  const sorted = [...tiers].sort((a, b) => a.above - b.above);
+  const tier = sorted.filter(entry => totalValue > entry.above).pop() || sorted[0];
+  return tier.percentage;
+};
+
+// Fee a rule charges on a deal, kept within the rule's minimum and maximum
+const applyRule = (rule, totalValue) => {
+  const percentage = getTierPercentage(rule.tiers, totalValue);
+  let amount = Math.round(totalValue * percentage / 100);
+  if (rule.minimumFee != null) amount = Math.max(amount, rule.minimumFee);
+  if (rule.maximumFee != null) amount = Math.min(amount, rule.maximumFee);
+
+  return {
+    percentage,
+    amount: Math.min(amount, totalValue),
+    rule: rule._id || null,
+    ruleName: rule.name,
+    isPromotion: Boolean(rule.isPromotion)
+  };
+};
+
+/**
+ * Active rules that apply to a deal at a point in time.
+ * @param {Object} criteria - { category, seller, at }
+ * @returns {Promise<Array>} FeeRule documents.
+ */
+const findApplicableRules = ({ category, seller, at }) => {
+  const scopes = [{ scope: 'default' }];
+  if (category) scopes.push({ scope: 'category', category });
+  if (seller) scopes.push({ scope: 'seller', seller });
+
+  return FeeRule.find({
+    isActive: true,
+    $and: [
+      { $or: scopes },
+      { $or: [{ validFrom: null }, { validFrom: { $lte: at } }] },
+      { $or: [{ validUntil: null }, { validUntil: { $gt: at } }] }
+    ]
+  }).sort({ updatedAt: -1 });
+};
+
+/**
+ * Platform fee for a deal under the schedule in force at the given time.
+ * The most specific regular rule sets the fee; a running promotion applies when it is cheaper.
+ * @param {Object} deal - { totalValue, category, seller, at }
+ * @returns {Promise<Object>} { percentage, amount, rule, ruleName, isPromotion }
+ */
+const calculatePlatformFee = async ({ totalValue, category, seller, at = new Date() }) => {
+  const rules = await findApplicableRules({ category, seller, at });
+
+  const regular = rules
+    .filter(rule => !rule.isPromotion)
+    .sort((a, b) => SCOPE_RANK[b.scope] - SCOPE_RANK[a.scope])[0];
+  let fee = applyRule(regular || { name: 'Standard schedule', tiers: DEFAULT_TIERS }, totalValue);
+
+  for (const promotion of rules.filter(rule => rule.isPromotion)) {
+    const promotional = applyRule(promotion, totalValue);
+    if (promotional.amount < fee.amount) fee = promotional;
+  }
+
+  return fee;
+};
+
+/**
+ * The platform fee fixed on a contract. Contracts created before the schedule existed are
+ * priced under the rules in force when they were created; the result is set on the contract
+ * but not saved.
+ * @param {Object} contract - Contract document.
+ * @returns {Promise<Object>} { percentage, amount, rule, ruleName }
+ */
+const getContractFee = async (contract) => {
+  if (typeof contract.platformFee?.amount === 'number') return contract.platformFee;
+
+  const fee = await calculatePlatformFee({
+    totalValue: contract.terms.totalValue,
+    category: await getContractCategory(contract),
+    seller: contract.parties.seller.user,
+    at: contract.createdAt
+  });
+
+  contract.platformFee = {
+    percentage: fee.percentage,
+    amount: fee.amount,
+    rule: fee.rule,
+    ruleName: fee.ruleName
+  };
+  return contract.platformFee;
+};
+
+module.exports = {
+  DEFAULT_TIERS,
+  calculatePlatformFee,
+  getContractFee
+};
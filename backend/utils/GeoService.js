@@ -0,0 +1,118 @@
+// utils/GeoService.js
+const pincodePrefixes = require('../data/pincodePrefixes.json');
+
+const EARTH_RADIUS_KM = 6371;
+
+// Radius used by `near` searches that do not give one
+const DEFAULT_RADIUS_KM = 50;
+
+// Older or common spellings mapped to the city names used in the dataset
+const CITY_ALIASES = {
+  delhi: 'new delhi',
+  bangalore: 'bengaluru',
+  gurgaon: 'gurugram',
+  bombay: 'mumbai',
+  madras: 'chennai',
+  calcutta: 'kolkata',
+  baroda: 'vadodara',
+  mysore: 'mysuru',
+  mangalore: 'mangaluru',
+  hubli: 'hubballi',
+  allahabad: 'prayagraj',
+  trivandrum: 'thiruvananthapuram',
+  cochin: 'kochi',
+  vizag: 'visakhapatnam'
+};
+
+const citiesByName = Object.values(pincodePrefixes).reduce((cities, entry) => {
+  cities[entry.city.toLowerCase()] = entry;
+  return cities;
+}, {});
+
+/**
+ * Look up approximate coordinates for an Indian pincode from the bundled dataset.
+ * The dataset is keyed by the 3-digit sorting district, so results are district-level.
+ * @param {string} pincode - 6-digit pincode.
+ * @returns {Object|null} { latitude, longitude, city, state } or null when unknown.
+ */
+const lookupPincode = (pincode) => {
+  const match = String(pincode || '').trim().match(/^(\d{3})\d{3}$/);
+  return match ? pincodePrefixes[match[1]] || null : null;
+};
+
+/**
+ * Look up approximate coordinates for a city from the bundled dataset.
+ * @param {string} city - City name, case-insensitive.
+ * @returns {Object|null} { latitude, longitude, city, state } or null when unknown.
+ */
+const lookupCity = (city) => {
+  const name = String(city || '').trim().toLowerCase();
+  return citiesByName[CITY_ALIASES[name] || name] || null;
+};
+
+/**
+ * Resolve coordinates for a location from explicit coordinates, its pincode or its city.
+ * @param {Object} location - Location with coordinates, pincode and/or city.
+ * @returns {Object|null} { latitude, longitude } or null when it cannot be resolved.
+ */
+const resolveCoordinates = (location = {}) => {
+  const { coordinates } = location;
+  if (coordinates?.latitude != null && coordinates?.longitude != null) {
+    return { latitude: coordinates.latitude, longitude: coordinates.longitude };
+  }
+
+  const entry = lookupPincode(location.pincode) || lookupCity(location.city);
+  return entry ? { latitude: entry.latitude, longitude: entry.longitude } : null;
+};
+
+/**
+ * Parse a `near` query value given either as "lat,lng" or as a pincode.
+ * @param {string} value - Query value.
+ * @returns {Object|null} { latitude, longitude } or null when it cannot be parsed.
+ */
+const parseNear = (value) => {
+  const parts = String(value || '').split(',').map(part => parseFloat(part));
+  if (parts.length === 2 && parts.every(Number.isFinite) &&
+      Math.abs(parts[0]) <= 90 && Math.abs(parts[1]) <= 180) {
+    return { latitude: parts[0], longitude: parts[1] };
+  }
+
+  const entry = lookupPincode(value);
+  return entry ? { latitude: entry.latitude, longitude: entry.longitude } : null;
+};
+
+/**
+ * Convert coordinates to a GeoJSON point; GeoJSON orders longitude first.
+ * @param {Object} coordinates - { latitude, longitude }.
+ * @returns {Object} GeoJSON Point.
+ */
+const toGeoPoint = ({ latitude, longitude }) => ({
+  type: 'Point',
+  coordinates: [longitude, latitude]
+});
+
+/**
+ * Great-circle distance between two coordinates using the haversine formula.
+ * @param {Object} from - { latitude, longitude }.
+ * @param {Object} to - { latitude, longitude }.
+ * @returns {number} Distance in kilometres.
+ */
+const distanceKm = (from, to) => {
+  const toRadians = degrees => degrees * Math.PI / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+module.exports = {
+  EARTH_RADIUS_KM,
+  DEFAULT_RADIUS_KM,
+  lookupPincode,
+  lookupCity,
+  resolveCoordinates,
+  parseNear,
+  toGeoPoint,
+  distanceKm
+};
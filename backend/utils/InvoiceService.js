@@ -0,0 +1,554 @@
+// utils/InvoiceService.js
+const Invoice = require('../models/Invoice');
+const Contract = require('../models/Contract');
+const Negotiation = require('../models/Negotiation');
+const WasteListing = require('../models/WasteListing');
+const MaterialRequest = require('../models/MaterialRequest');
+const User = require('../models/User');
+const { renderPdf } = require('./PdfWriter');
+const { notifyUsers } = require('./NotificationService');
+
+// HSN code and GST rate for each listing category. Keep in step with the CBIC rate notifications.
+const HSN_CODES = {
+  'Plastic Waste': { hsnCode: '3915', gstRate: 18 },
+  'Metal Scrap': { hsnCode: '7204', gstRate: 18 },
+  'Paper Waste': { hsnCode: '4707', gstRate: 18 },
+  'Textile Waste': { hsnCode: '6310', gstRate: 5 },
+  'Chemical Waste': { hsnCode: '3825', gstRate: 18 },
+  'Electronic Waste': { hsnCode: '8549', gstRate: 18 },
+  'Rubber Waste': { hsnCode: '4004', gstRate: 5 },
+  'Glass Waste': { hsnCode: '7001', gstRate: 18 },
+  'Wood Waste': { hsnCode: '4401', gstRate: 5 },
+  'Organic Waste': { hsnCode: '2308', gstRate: 5 }
+};
+
+// Used when a contract can't be traced back to a listing or request category
+const DEFAULT_HSN = { hsnCode: '3825', gstRate: 18 };
+
+// The platform fee is a marketplace support service, invoiced by the platform to the seller
+const PLATFORM_FEE_SAC = { hsnCode: '998599', gstRate: 18 };
+
+// GST state codes, keyed by state name with everything but letters removed
+const STATE_CODES = {
+  jammuandkashmir: '01', himachalpradesh: '02', punjab: '03', chandigarh: '04', uttarakhand: '05',
+  haryana: '06', delhi: '07', newdelhi: '07', rajasthan: '08', uttarpradesh: '09', bihar: '10',
+  sikkim: '11', arunachalpradesh: '12', nagaland: '13', manipur: '14', mizoram: '15', tripura: '16',
+  meghalaya: '17', assam: '18', westbengal: '19', jharkhand: '20', odisha: '21', orissa: '21',
+  chhattisgarh: '22', madhyapradesh: '23', gujarat: '24', dadraandnagarhavelianddamananddiu: '26',
+  maharashtra: '27', karnataka: '29', goa: '30', lakshadweep: '31', kerala: '32', tamilnadu: '33',
+  puducherry: '34', pondicherry: '34', andamanandnicobarislands: '35', telangana: '36',
+  andhrapradesh: '37', ladakh: '38'
+};
+
+// Unit quantity codes the e-invoice schema accepts for our quantity units
+const UQC_CODES = { kg: 'KGS', tonnes: 'MTS', liters: 'LTR', m3: 'CBM', pieces: 'NOS' };
+
+const DOCUMENT_PREFIXES = { invoice: 'INV', credit_note: 'CN', platform_fee: 'PF' };
+
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+const round2 = (value) => Math.round(value * 100) / 100;
+
+const createError = (message, statusCode) => {
+  const error = new Error(message);
+  error.statusCode = statusCode;
+  return error;
+};
+
+/**
+ * GST state code of a company: from its address, or the first two digits of its GSTIN.
+ * @param {Object} company - User.company.
+ * @returns {string|null}
+ */
+const getStateCode = (company) => {
+  const byName = STATE_CODES[String(company?.address?.state || '').toLowerCase().replace(/[^a-z]/g, '')];
+  if (byName) return byName;
+  return /^\d{2}/.test(company?.gstin || '') ? company.gstin.slice(0, 2) : null;
+};
+
+/**
+ * Indian financial year (April to March, IST) a date falls in, e.g. '2026-27'.
+ * @param {Date} date
+ * @returns {string}
+ */
+const getFinancialYear = (date) => {
+  const ist = new Date(date.getTime() + IST_OFFSET_MS);
+  const start = ist.getUTCMonth() >= 3 ? ist.getUTCFullYear() : ist.getUTCFullYear() - 1;
+  return `${start}-${String(start + 1).slice(2)}`;
+};
+
+// Contract prices are agreed GST-inclusive (the buyer pays exactly terms.totalValue),
+// so each line's taxable value is backed out of its gross amount
+const buildLine = ({ description, hsnCode, gstRate, isService = false, quantity, unit }, gross, intraState) => {
+  const taxableValue = round2(gross * 100 / (100 + gstRate));
+  const tax = round2(gross - taxableValue);
+  const cgst = intraState ? round2(tax / 2) : 0;
+
+  return {
+    description,
+    hsnCode,
+    isService,
+    quantity,
+    unit,
+    unitPrice: quantity ? round2(taxableValue / quantity) : undefined,
+    taxableValue,
+    gstRate,
+    cgst,
+    sgst: intraState ? round2(tax - cgst) : 0,
+    igst: intraState ? 0 : tax,
+    total: round2(gross)
+  };
+};
+
+const sumLines = (lines) => ['taxableValue', 'cgst', 'sgst', 'igst', 'total'].reduce((totals, field) => {
+  totals[field] = round2(lines.reduce((sum, line) => sum + line[field], 0));
+  return totals;
+}, {});
+
+// The platform as the supplier on its fee invoices
+const getPlatformParty = () => {
+  const company = {
+    gstin: process.env.PLATFORM_GSTIN,
+    address: {
+      street: process.env.PLATFORM_ADDRESS_STREET,
+      city: process.env.PLATFORM_ADDRESS_CITY,
+      state: process.env.PLATFORM_ADDRESS_STATE,
+      pincode: process.env.PLATFORM_ADDRESS_PINCODE
+    }
+  };
+  return {
+    name: process.env.PLATFORM_LEGAL_NAME || 'WasteEx',
+    gstin: company.gstin,
+    address: company.address,
+    stateCode: getStateCode(company)
+  };
+};
+
+// An unknown state on either side is invoiced as inter-state; IGST is creditable either way
+const isIntraState = (supplier, recipient) => Boolean(supplier.stateCode) && supplier.stateCode === recipient.stateCode;
+
+const toParty = (user) => ({
+  user: user._id,
+  name: user.company?.name || user.name,
+  gstin: user.company?.gstin,
+  address: {
+    street: user.company?.address?.street,
+    city: user.company?.address?.city,
+    state: user.company?.address?.state,
+    pincode: user.company?.address?.pincode
+  },
+  stateCode: getStateCode(user.company)
+});
+
+/**
+ * Material category of a contract. It lives on the listing or the material request the deal came from.
+ * @param {Object} contract - Contract document.
+ * @returns {Promise<string|null>}
+ */
+const getContractCategory = async (contract) => {
+  if (contract.relatedListing) {
+    const listing = await WasteListing.findById(contract.relatedListing).select('category');
+    if (listing) return listing.category;
+  }
+
+  const negotiation = await Negotiation.findById(contract.relatedNegotiation).select('relatedRequest');
+  if (negotiation?.relatedRequest) {
+    const request = await MaterialRequest.findById(negotiation.relatedRequest).select('category');
+    if (request) return request.category;
+  }
+
+  return null;
+};
+
+// Save with the next number in the document's series, retrying if another document took it first
+const saveWithNextNumber = async (invoice) => {
+  const series = invoice.type === 'platform_fee'
+    ? { type: invoice.type, financialYear: invoice.financialYear }
+    : { seller: invoice.seller, type: invoice.type, financialYear: invoice.financialYear };
+
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const last = await Invoice.findOne(series)
+      .sort({ sequence: -1 })
+      .select('sequence');
+
+    invoice.sequence = (last?.sequence || 0) + 1;
+    // GST invoice numbers are at most 16 characters, e.g. INV/2627/000042
+    invoice.invoiceNumber = `${DOCUMENT_PREFIXES[invoice.type]}/${invoice.financialYear.replace('-', '').slice(2)}/${String(invoice.sequence).padStart(6, '0')}`;
+
+    try {
+      return await invoice.save();
+    } catch (error) {
+      const isSequenceClash = error.code === 11000 && error.keyPattern?.sequence;
+      if (!isSequenceClash) throw error;
+    }
+  }
+  throw new Error('Could not allocate an invoice number');
+};
+
+/**
+ * Issue the seller's tax invoice to the buyer for the material a payment covers, taxed as
+ * CGST + SGST within a state or IGST across states. Issued when the buyer's payment is received
+ * (captured into escrow, or cash on delivery), so later refunds are credited against it.
+ * Returns the existing invoice if the payment has already been invoiced.
+ * @param {Object} payment - Payment received from the buyer.
+ * @param {string} [performedBy] - User whose action recorded the payment; omitted for webhooks.
+ * @returns {Object} Invoice document.
+ */
+const issueInvoice = async (payment, performedBy) => {
+  const existing = await Invoice.findOne({ payment: payment._id, type: 'invoice' });
+  if (existing) return existing;
+
+  const contract = await Contract.findById(payment.contract);
+  const [seller, buyer, category] = await Promise.all([
+    User.findById(payment.seller),
+    User.findById(payment.buyer),
+    getContractCategory(contract)
+  ]);
+
+  const supplier = toParty(seller);
+  const recipient = toParty(buyer);
+  const intraState = isIntraState(supplier, recipient);
+  const { terms } = contract;
+
+  // Installments invoice their share of the contracted quantity
+  const share = payment.amount.total / terms.totalValue;
+  const quantity = Math.round(terms.quantity.value * share * 1000) / 1000;
+  const installmentLabel = { advance: ' (advance)', balance: ' (balance)' }[payment.installment] || '';
+
+  const lines = [
+    buildLine({
+      ...(HSN_CODES[category] || DEFAULT_HSN),
+      description: `${terms.materialType}${installmentLabel} - contract ${contract.contractNumber}`,
+      quantity,
+      unit: terms.quantity.unit
+    }, payment.amount.total, intraState)
+  ];
+
+  const issuedAt = new Date();
+  const invoice = await saveWithNextNumber(new Invoice({
+    type: 'invoice',
+    financialYear: getFinancialYear(issuedAt),
+    seller: payment.seller,
+    buyer: payment.buyer,
+    contract: contract._id,
+    payment: payment._id,
+    issuedAt,
+    supplier,
+    recipient,
+    placeOfSupply: recipient.stateCode,
+    supplyType: intraState ? 'intra_state' : 'inter_state',
+    lines,
+    totals: sumLines(lines),
+    currency: payment.amount.currency,
+    issuedBy: performedBy
+  }));
+
+  contract.auditTrail.push({
+    action: 'Tax invoice issued',
+    performedBy,
+    details: { invoiceId: invoice._id, invoiceNumber: invoice.invoiceNumber, paymentId: payment._id, total: invoice.totals.total }
+  });
+  await contract.save();
+
+  await notifyUsers([payment.buyer, payment.seller], {
+    type: 'payment',
+    title: 'Tax Invoice Issued',
+    message: `Invoice ${invoice.invoiceNumber} for ₹${invoice.totals.total.toLocaleString('en-IN')} on contract ${contract.contractNumber} is ready to download.`,
+    actionUrl: `/contracts/${contract._id}`,
+    metadata: { contractId: contract._id, paymentId: payment._id, invoiceId: invoice._id }
+  });
+
+  return invoice;
+};
+
+/**
+ * Issue the platform's tax invoice to the seller for the fee kept from a payment. Issued once the
+ * seller has been paid, when the fee is final: a partial refund before release reduces it.
+ * Returns the existing invoice if the fee has already been invoiced, or null when there is no fee.
+ * @param {Object} payment - Payment released to the seller, or settled cash on delivery.
+ * @param {string} [performedBy] - User whose action settled the payment.
+ * @returns {Object|null} Invoice document.
+ */
+const issuePlatformFeeInvoice = async (payment, performedBy) => {
+  if (!(payment.amount.platformFee > 0)) return null;
+
+  const existing = await Invoice.findOne({ payment: payment._id, type: 'platform_fee' });
+  if (existing) return existing;
+
+  const [contract, seller] = await Promise.all([
+    Contract.findById(payment.contract),
+    User.findById(payment.seller)
+  ]);
+
+  const supplier = getPlatformParty();
+  const recipient = toParty(seller);
+  const intraState = isIntraState(supplier, recipient);
+  const lines = [
+    buildLine({ ...PLATFORM_FEE_SAC, description: `Platform service fee - contract ${contract.contractNumber}`, isService: true }, payment.amount.platformFee, intraState)
+  ];
+
+  const issuedAt = new Date();
+  const invoice = await saveWithNextNumber(new Invoice({
+    type: 'platform_fee',
+    financialYear: getFinancialYear(issuedAt),
+    seller: payment.seller,
+    contract: contract._id,
+    payment: payment._id,
+    issuedAt,
+    supplier,
+    recipient,
+    placeOfSupply: recipient.stateCode,
+    supplyType: intraState ? 'intra_state' : 'inter_state',
+    lines,
+    totals: sumLines(lines),
+    currency: payment.amount.currency,
+    issuedBy: performedBy
+  }));
+
+  contract.auditTrail.push({
+    action: 'Platform fee invoice issued',
+    performedBy,
+    details: { invoiceId: invoice._id, invoiceNumber: invoice.invoiceNumber, paymentId: payment._id, total: invoice.totals.total }
+  });
+  await contract.save();
+
+  await notifyUsers(payment.seller, {
+    type: 'payment',
+    title: 'Platform Fee Invoice Issued',
+    message: `Invoice ${invoice.invoiceNumber} for the ₹${invoice.totals.total.toLocaleString('en-IN')} platform fee on contract ${contract.contractNumber} is ready to download.`,
+    actionUrl: `/contracts/${contract._id}`,
+    metadata: { contractId: contract._id, paymentId: payment._id, invoiceId: invoice._id }
+  });
+
+  return invoice;
+};
+
+/**
+ * Issue a credit note reducing an invoice, spreading the amount across its lines in proportion.
+ * @param {Object} invoice - Invoice to credit.
+ * @param {number} amount - Gross amount to credit in rupees, tax included.
+ * @param {string} reason - Why the invoice is reduced.
+ * @param {string} [performedBy] - User issuing the credit note.
+ * @returns {Object} Credit note document.
+ * @throws {Error} With statusCode 400 when the amount exceeds what is left to credit.
+ */
+const issueCreditNote = async (invoice, amount, reason, performedBy) => {
+  if (invoice.type !== 'invoice') throw createError('Credit notes can only be issued against invoices', 400);
+
+  const credited = await Invoice.find({ originalInvoice: invoice._id, type: 'credit_note' }).select('totals.total');
+  const remaining = round2(invoice.totals.total - credited.reduce((sum, note) => sum + note.totals.total, 0));
+  if (amount > remaining) {
+    throw createError(`Only ₹${remaining.toLocaleString('en-IN')} of invoice ${invoice.invoiceNumber} is left to credit`, 400);
+  }
+
+  const intraState = invoice.supplyType === 'intra_state';
+  const ratio = amount / invoice.totals.total;
+  const lines = invoice.lines.map(line => buildLine({
+    description: line.description,
+    hsnCode: line.hsnCode,
+    gstRate: line.gstRate,
+    isService: line.isService,
+    quantity: line.quantity ? Math.round(line.quantity * ratio * 1000) / 1000 : undefined,
+    unit: line.unit
+  }, line.total * ratio, intraState));
+
+  // Rounding per line can leave the total a paisa off the amount credited; settle it on the first line
+  const drift = round2(amount - lines.reduce((sum, line) => sum + line.total, 0));
+  if (drift !== 0) {
+    lines[0] = buildLine(lines[0], lines[0].total + drift, intraState);
+  }
+
+  const issuedAt = new Date();
+  const creditNote = await saveWithNextNumber(new Invoice({
+    type: 'credit_note',
+    financialYear: getFinancialYear(issuedAt),
+    seller: invoice.seller,
+    buyer: invoice.buyer,
+    contract: invoice.contract,
+    payment: invoice.payment,
+    originalInvoice: invoice._id,
+    reason,
+    issuedAt,
+    supplier: invoice.supplier,
+    recipient: invoice.recipient,
+    placeOfSupply: invoice.placeOfSupply,
+    supplyType: invoice.supplyType,
+    lines,
+    totals: sumLines(lines),
+    currency: invoice.currency,
+    issuedBy: performedBy
+  }));
+
+  await Contract.updateOne({ _id: invoice.contract }, {
+    $push: {
+      auditTrail: {
+        action: 'Credit note issued',
+        performedBy,
+        details: { invoiceId: creditNote._id, invoiceNumber: creditNote.invoiceNumber, originalInvoice: invoice.invoiceNumber, total: creditNote.totals.total }
+      }
+    }
+  });
+
+  await notifyUsers([invoice.buyer, invoice.seller], {
+    type: 'payment',
+    title: 'Credit Note Issued',
+    message: `Credit note ${creditNote.invoiceNumber} for ₹${creditNote.totals.total.toLocaleString('en-IN')} reduces invoice ${invoice.invoiceNumber}.`,
+    actionUrl: `/contracts/${invoice.contract}`,
+    metadata: { contractId: invoice.contract, paymentId: invoice.payment, invoiceId: creditNote._id }
+  });
+
+  return creditNote;
+};
+
+/**
+ * Credit a refund against the payment's invoice. Returns null when the payment has no invoice,
+ * i.e. invoicing failed when it was received; an admin can issue both documents afterwards.
+ * @param {Object} payment - Refunded payment.
+ * @param {number} amount - Amount refunded in rupees.
+ * @param {string} [performedBy] - Admin approving the refund; omitted for webhooks.
+ * @returns {Object|null} Credit note document.
+ */
+const creditRefund = async (payment, amount, performedBy) => {
+  const invoice = await Invoice.findOne({ payment: payment._id, type: 'invoice' });
+  if (!invoice) return null;
+
+  return issueCreditNote(invoice, amount, payment.refund?.reason || 'Refund to buyer', performedBy);
+};
+
+// Locale-independent formatting, so the document renders the same on any server
+const formatDate = (date) => new Date(date).toISOString().slice(0, 10);
+const formatMoney = (value) => Number(value || 0).toFixed(2);
+const formatAddress = (party) => [party.address?.street, party.address?.city, party.address?.state, party.address?.pincode]
+  .filter(Boolean).join(', ') || '-';
+
+const partyBlocks = (role, party) => [
+  { text: role, bold: true, spaceBefore: 8 },
+  { text: party.name },
+  { text: `GSTIN: ${party.gstin || '-'}` },
+  { text: `Address: ${formatAddress(party)}` },
+  { text: `State code: ${party.stateCode || '-'}` }
+];
+
+/**
+ * Render an invoice or credit note as a PDF.
+ * @param {Object} invoice - Invoice document, with originalInvoice populated for credit notes.
+ * @returns {Buffer} The PDF file.
+ */
+const renderInvoicePdf = (invoice) => {
+  const isCreditNote = invoice.type === 'credit_note';
+  const intraState = invoice.supplyType === 'intra_state';
+
+  const lineBlocks = invoice.lines.flatMap((line, index) => [
+    { text: `${index + 1}. ${line.description}`, bold: true, spaceBefore: 6 },
+    {
+      text: `${line.isService ? 'SAC' : 'HSN'} ${line.hsnCode}` +
+        (line.quantity ? ` | Qty ${line.quantity} ${line.unit} @ ${formatMoney(line.unitPrice)}` : '') +
+        ` | Taxable ${formatMoney(line.taxableValue)} | GST ${line.gstRate}%`
+    },
+    {
+      text: (intraState
+        ? `CGST ${formatMoney(line.cgst)} | SGST ${formatMoney(line.sgst)}`
+        : `IGST ${formatMoney(line.igst)}`) + ` | Line total ${formatMoney(line.total)}`
+    }
+  ]);
+
+  return renderPdf([
+    { text: isCreditNote ? 'CREDIT NOTE' : 'TAX INVOICE', size: 16, bold: true },
+    { text: `${isCreditNote ? 'Credit Note' : 'Invoice'} No: ${invoice.invoiceNumber}`, spaceBefore: 8 },
+    { text: `Date: ${formatDate(invoice.issuedAt)}` },
+    ...(isCreditNote ? [
+      { text: `Against invoice: ${invoice.originalInvoice?.invoiceNumber || '-'} dated ${invoice.originalInvoice ? formatDate(invoice.originalInvoice.issuedAt) : '-'}` },
+      { text: `Reason: ${invoice.reason || '-'}` }
+    ] : []),
+    { text: `Place of supply: ${invoice.placeOfSupply || '-'} (${intraState ? 'intra-state' : 'inter-state'})` },
+
+    ...partyBlocks('Supplier', invoice.supplier),
+    ...partyBlocks('Recipient', invoice.recipient),
+
+    { text: 'ITEMS', size: 12, bold: true, spaceBefore: 16 },
+    ...lineBlocks,
+
+    { text: 'TOTALS', size: 12, bold: true, spaceBefore: 16 },
+    { text: `Taxable value: ${invoice.currency} ${formatMoney(invoice.totals.taxableValue)}`, spaceBefore: 4 },
+    ...(intraState
+      ? [{ text: `CGST: ${formatMoney(invoice.totals.cgst)}` }, { text: `SGST: ${formatMoney(invoice.totals.sgst)}` }]
+      : [{ text: `IGST: ${formatMoney(invoice.totals.igst)}` }]),
+    { text: `${isCreditNote ? 'Total credit' : 'Invoice total'}: ${invoice.currency} ${formatMoney(invoice.totals.total)}`, bold: true },
+    { text: 'Amounts are inclusive of GST as agreed in the contract.', size: 8, spaceBefore: 12 }
+  ]);
+};
+
+const formatEInvoiceDate = (date) => {
+  const ist = new Date(new Date(date).getTime() + IST_OFFSET_MS);
+  return `${String(ist.getUTCDate()).padStart(2, '0')}/${String(ist.getUTCMonth() + 1).padStart(2, '0')}/${ist.getUTCFullYear()}`;
+};
+
+const eInvoiceParty = (party) => ({
+  Gstin: party.gstin,
+  LglNm: party.name,
+  Addr1: party.address?.street || party.address?.city,
+  Loc: party.address?.city,
+  Pin: party.address?.pincode ? Number(party.address.pincode) : undefined,
+  Stcd: party.stateCode
+});
+
+/**
+ * Machine-readable JSON of an invoice or credit note in the GST e-invoice (IRP schema 1.1) format.
+ * @param {Object} invoice - Invoice document, with originalInvoice populated for credit notes.
+ * @returns {Object}
+ */
+const toEInvoiceJson = (invoice) => ({
+  Version: '1.1',
+  TranDtls: { TaxSch: 'GST', SupTyp: 'B2B', RegRev: 'N', IgstOnIntra: 'N' },
+  DocDtls: {
+    Typ: invoice.type === 'credit_note' ? 'CRN' : 'INV',
+    No: invoice.invoiceNumber,
+    Dt: formatEInvoiceDate(invoice.issuedAt)
+  },
+  SellerDtls: eInvoiceParty(invoice.supplier),
+  BuyerDtls: { ...eInvoiceParty(invoice.recipient), Pos: invoice.placeOfSupply },
+  ItemList: invoice.lines.map((line, index) => ({
+    SlNo: String(index + 1),
+    PrdDesc: line.description,
+    IsServc: line.isService ? 'Y' : 'N',
+    HsnCd: line.hsnCode,
+    Qty: line.quantity,
+    Unit: line.isService ? undefined : (UQC_CODES[line.unit] || 'OTH'),
+    UnitPrice: line.unitPrice,
+    TotAmt: line.taxableValue,
+    AssAmt: line.taxableValue,
+    GstRt: line.gstRate,
+    IgstAmt: line.igst,
+    CgstAmt: line.cgst,
+    SgstAmt: line.sgst,
+    TotItemVal: line.total
+  })),
+  ValDtls: {
+    AssVal: invoice.totals.taxableValue,
+    CgstVal: invoice.totals.cgst,
+    SgstVal: invoice.totals.sgst,
+    IgstVal: invoice.totals.igst,
+    TotInvVal: invoice.totals.total
+  },
+  ...(invoice.type === 'credit_note' && invoice.originalInvoice ? {
+    RefDtls: {
+      PrecDocDtls: [{
+        InvNo: invoice.originalInvoice.invoiceNumber,
+        InvDt: formatEInvoiceDate(invoice.originalInvoice.issuedAt)
+      }]
+    }
+  } : {})
+});
+
+module.exports = {
+  HSN_CODES,
+  getStateCode,
+  getFinancialYear,
+  getContractCategory,
+  issueInvoice,
+  issuePlatformFeeInvoice,
+  issueCreditNote,
+  creditRefund,
+  renderInvoicePdf,
+  toEInvoiceJson
+};
@@ -0,0 +1,312 @@
+// utils/MatchingService.js
+const WasteListing = require('../models/WasteListing');
+const MaterialRequest = require('../models/MaterialRequest');
+const { EARTH_RADIUS_KM, toGeoPoint, distanceKm } = require('./GeoService');
+const { toBaseQuantity, getCompatibleUnits } = require('./QuantityUnits');
+
+// Matches kept per request, and the lowest score worth keeping
+const MAX_MATCHES = 20;
+const MIN_MATCH_SCORE = 40;
+
+// Listings are only considered up to this share over a request's budget
+const BUDGET_TOLERANCE = 1.2;
+
+// Material request categories mapped to the waste listing categories that supply them
+const CATEGORY_MAPPING = {
+  'Plastic Materials': 'Plastic Waste',
+  'Metal Materials': 'Metal Scrap',
+  'Paper Materials': 'Paper Waste',
+  'Textile Materials': 'Textile Waste',
+  'Chemical Materials': 'Chemical Waste',
+  'Electronic Materials': 'Electronic Waste',
+  'Rubber Materials': 'Rubber Waste',
+  'Glass Materials': 'Glass Waste',
+  'Wood Materials': 'Wood Waste',
+  'Organic Materials': 'Organic Waste'
+};
+
+// Minimum purity (%) expected for each requested quality grade
+const GRADE_MIN_PURITY = {
+  'Medical Grade': 99,
+  'Food Grade': 98,
+  'Grade A': 95,
+  'Grade B': 85,
+  'Grade C': 70,
+  'Industrial Grade': 60
+};
+
+// How often each frequency delivers, in deliveries per month
+const DELIVERIES_PER_MONTH = { daily: 30, weekly: 4, monthly: 1, 'one-time': 0 };
+
+/**
+ * Map a material request category to the waste listing category that supplies it.
+ * @param {string} materialCategory - Material request category.
+ * @returns {string} Waste listing category.
+ */
+const getListingCategory = (materialCategory) => CATEGORY_MAPPING[materialCategory] || materialCategory;
+
+/**
+ * Map a waste listing category to the material request category it supplies.
+ * @param {string} wasteCategory - Waste listing category.
+ * @returns {string} Material request category.
+ */
+const getRequestCategory = (wasteCategory) =>
+  Object.keys(CATEGORY_MAPPING).find(category => CATEGORY_MAPPING[category] === wasteCategory) || wasteCategory;
+
+const getPoint = (location) => {
+  const [longitude, latitude] = location?.point?.coordinates || [];
+  return latitude != null ? { latitude, longitude } : null;
+};
+
+const getDistance = (request, listing) => {
+  const origin = getPoint(request.location);
+  const point = getPoint(listing.location);
+  return origin && point ? distanceKm(origin, point) : null;
+};
+
+const isPreferredCity = (request, listing) =>
+  (request.location.preferredCities || [])
+    .some(city => city.trim().toLowerCase() === listing.location.city.toLowerCase());
+
+// Purity is free text on listings, e.g. "95%" or "95-98 %"; the first number is taken
+const parsePurity = (purity) => {
+  const value = parseFloat(String(purity || '').replace(/^[^\d.]+/, ''));
+  return Number.isFinite(value) ? value : null;
+};
+
+// Whether a listing lies in the area a request will buy from: within maxDistance, else a preferred city
+const isWithinRequestArea = (request, listing) => {
+  const distance = getDistance(request, listing);
+  if (distance !== null && request.location.maxDistance) return distance <= request.location.maxDistance;
+  if (request.location.preferredCities?.length > 0) return isPreferredCity(request, listing);
+  return true;
+};
+
+// Hard requirements a listing must meet before it is scored against a request
+const isCandidate = (request, listing) =>
+  getListingCategory(request.category) === listing.category &&
+  getCompatibleUnits(request.quantity.unit).includes(listing.quantity.unit) &&
+  listing.price.value <= request.budget.max * BUDGET_TOLERANCE &&
+  isWithinRequestArea(request, listing);
+
+/**
+ * Score how well a listing meets a material request, out of 100.
+ * Weights: quantity 25, price 25, quality 20, frequency 15, distance 15.
+ * @param {Object} request - Material request.
+ * @param {Object} listing - Waste listing.
+ * @returns {Object} { score, reasons }
+ */
+const scoreMatch = (request, listing) => {
+  let score = 0;
+  const reasons = [];
+
+  // Quantity, compared in the base unit so tonnes and kg line up
+  const required = toBaseQuantity(request.quantity.value, request.quantity.unit);
+  const available = toBaseQuantity(listing.quantity.value, listing.quantity.unit);
+  const quantityRatio = required > 0 ? Math.min(available / required, 1) : 1;
+  score += quantityRatio * 25;
+  if (quantityRatio >= 1) reasons.push('Sufficient quantity available');
+  else if (quantityRatio >= 0.5) reasons.push(`Covers ${Math.round(quantityRatio * 100)}% of required quantity`);
+
+  // Price: full marks at or under the minimum budget, tapering to nothing at the tolerance limit
+  const { min = 0, max } = request.budget;
+  const price = listing.price.value;
+  if (price <= max) {
+    score += price <= min ? 25 : 15 + 10 * (max - price) / Math.max(max - min, 1);
+    reasons.push('Within budget');
+  } else {
+    score += Math.max(0, 15 * (1 - (price - max) / (max * (BUDGET_TOLERANCE - 1))));
+  }
+
+  // Quality: listing purity against the purity expected for the requested grade
+  const purity = parsePurity(listing.specifications?.purity);
+  const minPurity = GRADE_MIN_PURITY[request.qualityGrade];
+  const requestedPurity = parsePurity(request.specifications?.purity) || minPurity;
+  if (purity !== null && requestedPurity) {
+    score += Math.min(purity / requestedPurity, 1) * 20;
+    if (purity >= requestedPurity) reasons.push(`Meets ${request.qualityGrade} purity`);
+  } else {
+    score += 10; // Unknown purity scores neutral
+  }
+
+  // Frequency: same schedule scores full; more frequent supply can still serve the request
+  if (request.frequency === listing.frequency) {
+    score += 15;
+    reasons.push('Matching frequency');
+  } else if (DELIVERIES_PER_MONTH[listing.frequency] > DELIVERIES_PER_MONTH[request.frequency]) {
+    score += 8;
+  }
+
+  // Distance, scaled within maxDistance when both locations are known
+  const distance = getDistance(request, listing);
+  if (distance !== null && request.location.maxDistance) {
+    score += Math.max(0, 1 - distance / request.location.maxDistance) * 15;
+    const km = Math.max(1, Math.round(distance));
+    reasons.push(distance <= request.location.maxDistance ? `Within ${km} km` : `${km} km away`);
+  } else if (isPreferredCity(request, listing)) {
+    score += 15;
+    reasons.push('Preferred location');
+  } else if (distance !== null) {
+    score += Math.max(0, 1 - distance / 500) * 15;
+    reasons.push(`${Math.max(1, Math.round(distance))} km away`);
+  }
+
+  return { score: Math.round(score), reasons };
+};
+
+// Rebuild a request's match list from scored listings, keeping the contacted flags already set
+const setRequestMatches = (request, scored) => {
+  const previous = new Map(request.matches.map(match => [match.listing.toString(), match]));
+
+  request.matches = scored
+    .filter(({ score }) => score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_MATCHES)
+    .map(({ listing, score, reasons }) => {
+      const existing = previous.get(listing.toString());
+      return {
+        listing,
+        matchScore: score,
+        reasons,
+        contacted: existing?.contacted || false,
+        contactedAt: existing?.contactedAt
+      };
+    });
+  request.aiMatchScore = request.matches[0]?.matchScore || 0;
+};
+
+// Raise each listing's best score to the highest score it reached against any request
+const updateListingScores = async (scores) => {
+  if (scores.size === 0) return;
+  await WasteListing.bulkWrite([...scores].map(([listingId, score]) => ({
+    updateOne: { filter: { _id: listingId }, update: { $max: { aiMatchScore: score } } }
+  })));
+};
+
+/**
+ * Find and score active listings for a material request, saving them to request.matches.
+ * Errors are logged and swallowed so matching never breaks the calling request.
+ * @param {Object} request - Material request document.
+ * @returns {Array} The saved matches, best first.
+ */
+const matchRequest = async (request) => {
+  try {
+    const criteria = {
+      status: 'active',
+      seller: { $ne: request.buyer },
+      category: getListingCategory(request.category),
+      'quantity.unit': { $in: getCompatibleUnits(request.quantity.unit) },
+      'price.value': { $lte: request.budget.max * BUDGET_TOLERANCE }
+    };
+
+    // Restrict to listings within maxDistance; fall back to preferred cities without a resolvable location
+    const origin = getPoint(request.location);
+    if (origin && request.location.maxDistance) {
+      criteria['location.point'] = {
+        $geoWithin: {
+          $centerSphere: [toGeoPoint(origin).coordinates, request.location.maxDistance / EARTH_RADIUS_KM]
+        }
+      };
+    } else if (request.location.preferredCities?.length > 0) {
+      criteria['location.city'] = { $in: request.location.preferredCities.map(city => new RegExp(`^${escapeRegExp(city.trim())}$`, 'i')) };
+    }
+
+    const listings = await WasteListing.find(criteria)
+      .select('category quantity price specifications frequency location')
+      .sort({ createdAt: -1 })
+      .limit(200);
+
+    const scored = listings.map(listing => ({ listing: listing._id, ...scoreMatch(request, listing) }));
+    setRequestMatches(request, scored);
+    await request.save();
+
+    await updateListingScores(new Map(request.matches.map(match => [match.listing.toString(), match.matchScore])));
+
+    return request.matches;
+  } catch (error) {
+    console.error('Match request error:', error);
+    return [];
+  }
+};
+
+/**
+ * Score a listing against open material requests and add it to the matches of each request it suits.
+ * Errors are logged and swallowed so matching never breaks the calling request.
+ * @param {Object} listing - Waste listing document.
+ * @returns {Array} { request, score, reasons } for each request the listing was matched to, best first.
+ */
+const matchListing = async (listing) => {
+  try {
+    // Requests the listing may now suit, plus those it is already matched to so edits can re-score or drop it
+    const requests = await MaterialRequest.find({
+      status: 'active',
+      buyer: { $ne: listing.seller?._id || listing.seller },
+      $or: [
+        {
+          category: getRequestCategory(listing.category),
+          'quantity.unit': { $in: getCompatibleUnits(listing.quantity.unit) },
+          'budget.max': { $gte: listing.price.value / BUDGET_TOLERANCE }
+        },
+        { 'matches.listing': listing._id }
+      ]
+    })
+      .sort({ createdAt: -1 })
+      .limit(200);
+
+    const matched = [];
+    for (const request of requests) {
+      const isMatch = listing.status === 'active' && isCandidate(request, listing);
+      const { score, reasons } = scoreMatch(request, listing);
+      const listed = request.matches.some(match => match.listing.toString() === listing._id.toString());
+      if (!listed && (!isMatch || score < MIN_MATCH_SCORE)) continue;
+
+      // Re-score this listing among the request's existing matches, or drop it if it no longer qualifies
+      const scored = request.matches
+        .filter(match => match.listing.toString() !== listing._id.toString())
+        .map(match => ({ listing: match.listing, score: match.matchScore, reasons: match.reasons }));
+      if (isMatch) scored.push({ listing: listing._id, score, reasons });
+
+      setRequestMatches(request, scored);
+      await request.save();
+
+      if (isMatch && request.matches.some(match => match.listing.toString() === listing._id.toString())) {
+        matched.push({ request, score, reasons });
+      }
+    }
+
+    listing.aiMatchScore = matched.reduce((best, { score }) => Math.max(best, score), 0);
+    await WasteListing.updateOne({ _id: listing._id }, { aiMatchScore: listing.aiMatchScore });
+
+    return matched.sort((a, b) => b.score - a.score);
+  } catch (error) {
+    console.error('Match listing error:', error);
+    return [];
+  }
+};
+
+/**
+ * Flag the request matches a new negotiation was started from as contacted.
+ * @param {Object} params - requestIds and listingIds the negotiation links; all pairs among them are flagged.
+ */
+const markMatchesContacted = async ({ requestIds = [], listingIds = [] }) => {
+  if (requestIds.length === 0 || listingIds.length === 0) return;
+
+  await MaterialRequest.updateMany(
+    { _id: { $in: requestIds } },
+    { $set: { 'matches.$[match].contacted': true, 'matches.$[match].contactedAt': new Date() } },
+    { arrayFilters: [{ 'match.listing': { $in: listingIds }, 'match.contacted': { $ne: true } }] }
+  );
+};
+
+function escapeRegExp(value) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+module.exports = {
+  getListingCategory,
+  getRequestCategory,
+  scoreMatch,
+  matchRequest,
+  matchListing,
+  markMatchesContacted
+};
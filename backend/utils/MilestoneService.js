@@ -0,0 +1,157 @@
+// utils/MilestoneService.js
+const Contract = require('../models/Contract');
+const { notifyUsers } = require('./NotificationService');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Shipment statuses that complete a milestone of the given type
+const SHIPMENT_MILESTONES = {
+  'picked-up': 'pickup',
+  delivered: 'delivery'
+};
+
+// Forward progression of a shipment; statuses outside it (cancelled, lost...) never complete a milestone
+const SHIPMENT_PROGRESS = ['created', 'pickup-scheduled', 'picked-up', 'in-transit', 'out-for-delivery', 'delivered'];
+
+const addDays = (date, days) => new Date(new Date(date).getTime() + days * DAY_MS);
+
+/**
+ * Build the default milestone schedule for a contract from its payment terms and delivery date.
+ * @param {Object} terms - Contract terms with paymentTerms and deliveryDate.
+ * @param {Date} [startDate] - When the contract was created.
+ * @returns {Array} Milestones ordered by due date.
+ */
+const buildDefaultMilestones = (terms, startDate = new Date()) => {
+  const deliveryDate = new Date(terms.deliveryDate);
+  const pickupDate = new Date(Math.max(addDays(deliveryDate, -2).getTime(), startDate.getTime()));
+  const milestones = [];
+
+  if (terms.paymentTerms === 'advance') {
+    milestones.push({
+      title: 'Advance payment',
+      description: 'Buyer pays the advance share into escrow before pickup',
+      type: 'advance-payment',
+      dueDate: new Date(Math.min(addDays(startDate, 3).getTime(), pickupDate.getTime()))
+    });
+  }
+
+  milestones.push(
+    {
+      title: 'Pickup',
+      description: 'Material collected from the seller',
+      type: 'pickup',
+      dueDate: pickupDate
+    },
+    {
+      title: 'Delivery',
+      description: 'Material delivered to the buyer',
+      type: 'delivery',
+      dueDate: deliveryDate
+    },
+    {
+      title: 'Quality inspection',
+      description: 'Buyer inspects the delivered material against the quality specifications',
+      type: 'inspection',
+      dueDate: addDays(deliveryDate, 3)
+    }
+  );
+
+  if (terms.paymentTerms === 'advance') {
+    milestones.push({
+      title: 'Balance payment',
+      description: 'Buyer pays the remaining contract value into escrow on delivery',
+      type: 'payment',
+      dueDate: deliveryDate
+    });
+  } else if (terms.paymentTerms === 'cod') {
+    milestones.push({
+      title: 'Payment on delivery',
+      description: 'Buyer pays the contract value on delivery',
+      type: 'payment',
+      dueDate: deliveryDate
+    });
+  } else if (terms.paymentTerms && terms.paymentTerms.startsWith('net-')) {
+    const days = parseInt(terms.paymentTerms.split('-')[1]);
+    milestones.push({
+      title: `Payment due (${terms.paymentTerms.toUpperCase()})`,
+      description: `Buyer pays the contract value within ${days} days of delivery`,
+      type: 'payment',
+      dueDate: addDays(deliveryDate, days)
+    });
+  }
+
+  return milestones.sort((a, b) => a.dueDate - b.dueDate);
+};
+
+/**
+ * Complete a contract milestone and record it in the audit trail.
+ * Does not save the contract.
+ * @param {Object} contract - Contract document.
+ * @param {Object} milestone - Milestone subdocument to complete.
+ * @param {string} [performedBy] - User completing the milestone; omitted for shipment-driven completion.
+ * @param {Object} [shipment] - Shipment that triggered the completion.
+ */
+const completeMilestone = (contract, milestone, performedBy, shipment) => {
+  milestone.status = 'completed';
+  milestone.completedAt = new Date();
+  milestone.completedBy = performedBy;
+  if (shipment) milestone.shipment = shipment._id;
+
+  contract.auditTrail.push({
+    action: 'Milestone completed',
+    performedBy,
+    details: { milestoneId: milestone._id, title: milestone.title, shipmentId: shipment?._id }
+  });
+};
+
+/**
+ * Check whether a shipment has progressed far enough to complete a milestone.
+ * Milestones not tied to a shipment status, or contracts without a shipment, are never blocked.
+ * @param {Object} milestone - Milestone subdocument.
+ * @param {Object} [shipment] - Latest shipment for the contract.
+ * @returns {string|null} Why the milestone cannot be completed yet, if blocked.
+ */
+const getShipmentBlocker = (milestone, shipment) => {
+  const requiredStatus = Object.keys(SHIPMENT_MILESTONES).find(status => SHIPMENT_MILESTONES[status] === milestone.type);
+  if (!requiredStatus || !shipment) return null;
+
+  const current = SHIPMENT_PROGRESS.indexOf(shipment.status);
+  if (current >= SHIPMENT_PROGRESS.indexOf(requiredStatus)) return null;
+
+  return `Shipment ${shipment.shipmentNumber} is ${shipment.status.replace(/-/g, ' ')}; this milestone completes once it is ${requiredStatus.replace(/-/g, ' ')}`;
+};
+
+/**
+ * Complete the pickup and delivery milestones a shipment has reached with its new status.
+ * @param {Object} shipment - Shipment whose status just changed.
+ * @param {string} [performedBy] - User who updated the shipment.
+ * @returns {Array} The completed milestones.
+ */
+const syncShipmentMilestones = async (shipment, performedBy) => {
+  if (!Object.keys(SHIPMENT_MILESTONES).includes(shipment.status)) return [];
+
+  const contract = await Contract.findById(shipment.contract);
+  if (!contract) return [];
+
+  const completed = contract.milestones.filter(milestone =>
+    milestone.status !== 'completed' &&
+    Object.values(SHIPMENT_MILESTONES).includes(milestone.type) &&
+    !getShipmentBlocker(milestone, shipment)
+  );
+  if (completed.length === 0) return [];
+
+  completed.forEach(milestone => completeMilestone(contract, milestone, performedBy, shipment));
+  await contract.save();
+
+  await notifyUsers([contract.parties.seller.user, contract.parties.buyer.user], {
+    type: 'deal',
+    title: 'Milestone Completed',
+    message: `${completed.map(m => `"${m.title}"`).join(' and ')} on contract ${contract.contractNumber} completed by shipment ${shipment.shipmentNumber}.`,
+    actionUrl: `/contracts/${contract._id}`,
+    metadata: { contractId: contract._id, shipmentId: shipment._id }
+  });
+
+  return completed;
+};
+
+module.exports = { buildDefaultMilestones, completeMilestone, getShipmentBlocker, syncShipmentMilestones };
@@ -0,0 +1,127 @@
+// utils/NegotiationService.js
+
+/**
+ * Add an offer to a negotiation's history, post it as an offer message and make it the current offer.
+ * Does not save the negotiation.
+ * @param {Object} negotiation - Negotiation document.
+ * @param {string} userId - User making the offer.
+ * @param {Object} data - price, quantity and optional deliveryDate, terms, paymentTerms, qualitySpecs, logistics.
+ * @param {string} [content] - Message text; a summary of the offer is used when omitted.
+ * @param {string} [counterOf] - Offer this one counters.
+ * @returns {Object} The new offer subdocument.
+ */
+const recordOffer = (negotiation, userId, data, content, counterOf) => {
+  const offeredAt = new Date();
+  const offer = negotiation.offers.create({
+    price: data.price,
+    quantity: data.quantity,
+    deliveryDate: data.deliveryDate,
+    terms: data.terms,
+    paymentTerms: data.paymentTerms,
+    qualitySpecs: data.qualitySpecs,
+    logistics: data.logistics,
+    offeredBy: userId,
+    offeredAt,
+    status: 'pending',
+    counterOf
+  });
+
+  const message = negotiation.messages.create({
+    sender: userId,
+    content: content || `${counterOf ? 'Counter offer' : 'Offer'}: ₹${Number(data.price).toLocaleString('en-IN')} for ${data.quantity} units`,
+    type: 'offer',
+    offer: {
+      offerId: offer._id,
+      price: offer.price,
+      quantity: offer.quantity,
+      deliveryDate: offer.deliveryDate,
+      terms: offer.terms
+    }
+  });
+
+  offer.message = message._id;
+  negotiation.offers.push(offer);
+  negotiation.messages.push(message);
+  negotiation.currentOffer = {
+    offerId: offer._id,
+    price: offer.price,
+    quantity: offer.quantity,
+    deliveryDate: offer.deliveryDate,
+    terms: offer.terms,
+    offeredBy: userId,
+    offeredAt,
+    status: 'pending'
+  };
+  negotiation.lastActivity = offeredAt;
+
+  return offer;
+};
+
+/**
+ * Post a system message into a negotiation thread. Does not save the negotiation.
+ * @param {Object} negotiation - Negotiation document.
+ * @param {string|null} userId - User whose action the message records, or null for the platform's own messages.
+ * @param {string} content - Message text.
+ */
+const addSystemMessage = (negotiation, userId, content) => {
+  negotiation.messages.push({
+    sender: userId || undefined,
+    content,
+    type: 'system'
+  });
+  negotiation.lastActivity = new Date();
+};
+
+/**
+ * Add a read receipt from a user to every message in a negotiation they have not read yet.
+ * Their own messages are skipped. Does not save the negotiation.
+ * @param {Object} negotiation - Negotiation document, with or without message senders populated.
+ * @param {string} userId - User who read the messages.
+ * @returns {Array} Ids of the messages that were newly marked as read.
+ */
+const markMessagesRead = (negotiation, userId) => {
+  const readAt = new Date();
+  const marked = [];
+
+  negotiation.messages.forEach(message => {
+    const senderId = message.sender && (message.sender._id || message.sender).toString();
+    if (senderId === userId.toString()) return;
+    if (message.readBy.some(read => read.user.toString() === userId.toString())) return;
+
+    message.readBy.push({ user: userId, readAt });
+    marked.push(message._id);
+  });
+
+  return marked;
+};
+
+/**
+ * Work out which participants the negotiation is waiting on:
+ * the other side of a pending offer, whoever has yet to approve a term change,
+ * the seller once terms are agreed (to draft the contract), otherwise whoever didn't send the last message.
+ * @param {Object} negotiation - Negotiation document.
+ * @returns {Array} User ids of the participants who owe a reply; both when it can't be told.
+ */
+const getAwaitingParticipants = (negotiation) => {
+  const participants = negotiation.participants.map(p => ({ id: (p.user._id || p.user).toString(), role: p.role }));
+  const others = (userId) => participants.filter(p => p.id !== userId?.toString()).map(p => p.id);
+
+  if (negotiation.currentOffer?.status === 'pending' && negotiation.currentOffer.offeredBy) {
+    return others(negotiation.currentOffer.offeredBy);
+  }
+
+  const termChange = negotiation.termChangeRequest;
+  if (termChange?.status === 'pending') {
+    const approved = (termChange.approvedBy || []).map(id => id.toString());
+    return participants.map(p => p.id).filter(id => !approved.includes(id));
+  }
+
+  if (negotiation.status === 'pending') {
+    return participants.filter(p => p.role === 'seller').map(p => p.id);
+  }
+
+  const lastMessage = [...negotiation.messages].reverse().find(message => message.type !== 'system');
+  return lastMessage ? others(lastMessage.sender._id || lastMessage.sender) : participants.map(p => p.id);
+};
+
+module.exports = { recordOffer, addSystemMessage, markMessagesRead, getAwaitingParticipants };
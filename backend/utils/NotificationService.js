@@ -0,0 +1,29 @@
+// utils/NotificationService.js
+const Notification = require('../models/Notification');
+
+/**
+ * Create a notification for each recipient.
+ * Failures are logged and swallowed so they never break the calling request.
+ * @param {Array|string} recipients - User IDs to notify.
+ * @param {Object} data - type, title, message, priority, actionUrl and metadata.
+ * @returns {Array} The created notifications.
+ */
+const notifyUsers = async (recipients, data) => {
+  try {
+    const userIds = [].concat(recipients)
+      .filter(Boolean)
+      .map(id => id.toString());
+
+    const uniqueIds = [...new Set(userIds)];
+    if (uniqueIds.length === 0) return [];
+
+    return await Notification.insertMany(
+      uniqueIds.map(user => ({ ...data, user }))
+    );
+  } catch (error) {
+    console.error('Create notification error:', error);
+    return [];
+  }
+};
+
+module.exports = { notifyUsers };
@@ -0,0 +1,44 @@
+// utils/PaymentStateMachine.js
+
+// Statuses a payment may move to from each status. Released and refunded payments are final.
+// A failed payment can be retried with a new order, or still be captured: Razorpay lets the buyer retry on the same order.
+// Cash on delivery goes straight from pending to released_to_seller, since the seller is paid directly.
+const PAYMENT_TRANSITIONS = {
+  pending: ['held_in_escrow', 'failed', 'released_to_seller'],
+  failed: ['pending', 'held_in_escrow'],
+  paid_to_platform: ['held_in_escrow', 'refunded'],
+  held_in_escrow: ['released_to_seller', 'refunded'],
+  released_to_seller: [],
+  refunded: []
+};
+
+/**
+ * Whether a payment may move between two statuses.
+ * @param {string} from - Current status.
+ * @param {string} to - Requested status.
+ * @returns {boolean}
+ */
+const canTransition = (from, to) => (PAYMENT_TRANSITIONS[from] || []).includes(to);
+
+/**
+ * Move a payment to a new status, enforcing the allowed transitions. Does not save.
+ * Moving to the status it already has is a no-op, so replayed events are harmless.
+ * @param {Object} payment - Payment document.
+ * @param {string} to - Requested status.
+ * @returns {boolean} Whether the status changed.
+ * @throws {Error} With statusCode 409 when the transition is not allowed.
+ */
+const transitionPayment = (payment, to) => {
+  if (payment.status === to) return false;
+
+  if (!canTransition(payment.status, to)) {
+    const error = new Error(`Payment cannot move from ${payment.status} to ${to}`);
+    error.statusCode = 409;
+    throw error;
+  }
+
+  payment.status = to;
+  return true;
+};
+
+module.exports = { PAYMENT_TRANSITIONS, canTransition, transitionPayment };
@@ -0,0 +1,112 @@
+// utils/PdfWriter.js
+
+// A4 in points, with a uniform margin
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+
+// Helvetica averages about half an em per character; used to wrap lines without font metrics
+const AVERAGE_CHAR_WIDTH = 0.5;
+
+// The standard fonts only cover Latin-1; map the few characters we print outside it
+const toLatin1 = (text) => String(text)
+  .replace(/₹/g, 'Rs. ')
+  .replace(/[‘’]/g, "'")
+  .replace(/[“”]/g, '"')
+  .replace(/[–—]/g, '-')
+  .replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+
+const escapeText = (text) => text.replace(/[\\()]/g, '\\$&');
+
+// Break text into lines that fit the page width at the given font size
+const wrap = (text, size) => {
+  const maxChars = Math.floor((PAGE_WIDTH - 2 * MARGIN) / (size * AVERAGE_CHAR_WIDTH));
+  const lines = [];
+
+  String(text).split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(' ').forEach(word => {
+      while (word.length > maxChars) {
+        if (line) lines.push(line);
+        lines.push(word.slice(0, maxChars));
+        word = word.slice(maxChars);
+        line = '';
+      }
+      const candidate = line ? `${line} ${word}` : word;
+      if (candidate.length > maxChars) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+
+  return lines;
+};
+
+/**
+ * Render text blocks to a PDF using the built-in Helvetica fonts.
+ * The output is byte-for-byte reproducible: no creation date or document id is written,
+ * so the same blocks always give the same file and the same hash.
+ * @param {Array} blocks - { text, size = 10, bold = false, spaceBefore = 0 } in reading order.
+ * @returns {Buffer} The PDF file.
+ */
+const renderPdf = (blocks) => {
+  // Lay the text out into pages of positioned lines
+  const pages = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  blocks.forEach(({ text = '', size = 10, bold = false, spaceBefore = 0 }) => {
+    y -= spaceBefore;
+    wrap(toLatin1(text), size).forEach(line => {
+      const lineHeight = size * 1.4;
+      if (y - lineHeight < MARGIN) {
+        pages.push([]);
+        y = PAGE_HEIGHT - MARGIN;
+      }
+      y -= lineHeight;
+      pages[pages.length - 1].push({ line, size, bold, y: Math.round(y * 100) / 100 });
+    });
+  });
+
+  // Objects 1-4 are the catalog, page tree and two fonts; each page adds a page and a content object
+  const objects = [];
+  const pageIds = pages.map((_, index) => 5 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((lines, index) => {
+    const pageId = pageIds[index];
+    const stream = lines
+      .map(({ line, size, bold, y: lineY }) => `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${MARGIN} ${lineY} Td (${escapeText(line)}) Tj ET`)
+      .join('\n');
+
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+  });
+
+  // Serialise with a cross-reference table of byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+};
+
+module.exports = { renderPdf };
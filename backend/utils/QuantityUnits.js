@@ -0,0 +1,51 @@
+// utils/QuantityUnits.js
+
+// Each unit converts to a base unit of the same dimension; units of different
+// dimensions (mass, volume, count) are never compared with each other.
+const UNITS = {
+  kg: { base: 'kg', factor: 1 },
+  tonnes: { base: 'kg', factor: 1000 },
+  liters: { base: 'liters', factor: 1 },
+  m3: { base: 'liters', factor: 1000 },
+  pieces: { base: 'pieces', factor: 1 }
+};
+
+/**
+ * Convert a quantity to its base unit.
+ * @param {number} value - Quantity in the given unit.
+ * @param {string} unit - One of the supported quantity units.
+ * @returns {number} Quantity in the base unit.
+ */
+const toBaseQuantity = (value, unit) => value * (UNITS[unit]?.factor || 1);
+
+/**
+ * List the units that can be compared with the given unit.
+ * @param {string} unit - One of the supported quantity units.
+ * @returns {Array} Units sharing the same base unit.
+ */
+const getCompatibleUnits = (unit) => {
+  const base = UNITS[unit]?.base || unit;
+  return Object.keys(UNITS).filter(candidate => UNITS[candidate].base === base);
+};
+
+/**
+ * Build an aggregation expression that converts a stored quantity to its base unit.
+ * @param {string} path - Path of the quantity subdocument, e.g. 'quantity'.
+ * @returns {Object} MongoDB aggregation expression.
+ */
+const baseQuantityExpression = (path) => ({
+  $multiply: [
+    `$${path}.value`,
+    {
+      $switch: {
+        branches: Object.entries(UNITS).map(([unit, { factor }]) => ({
+          case: { $eq: [`$${path}.unit`, unit] },
+          then: factor
+        })),
+        default: 1
+      }
+    }
+  ]
+});
+
+module.exports = { UNITS, toBaseQuantity, getCompatibleUnits, baseQuantityExpression };
@@ -0,0 +1,84 @@
+// utils/RazorpayWebhookService.js
+const crypto = require('crypto');
+const Payment = require('../models/Payment');
+const { holdPaymentInEscrow, markPaymentFailed, recordRefund } = require('./EscrowService');
+
+/**
+ * Check the X-Razorpay-Signature header: an HMAC-SHA256 of the raw request body
+ * keyed with the webhook secret configured in the Razorpay dashboard.
+ * @param {Buffer} rawBody - Request body exactly as received.
+ * @param {string} signature - Value of the X-Razorpay-Signature header.
+ * @returns {boolean}
+ */
+const verifyWebhookSignature = (rawBody, signature) => {
+  const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+  if (!secret || !rawBody || !signature) return false;
+
+  const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+  return expected.length === signature.length &&
+    crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+};
+
+const handlePaymentCaptured = async ({ payment: { entity } }) => {
+  const payment = await Payment.findOne({ 'gatewayDetails.gatewayOrderId': entity.order_id });
+  if (!payment) return { status: 'ignored', result: `No payment for order ${entity.order_id}` };
+
+  const changed = await holdPaymentInEscrow(
+    payment,
+    { gatewayPaymentId: entity.id, method: entity.method },
+    undefined,
+    'Payment captured (confirmed by Razorpay) and held in escrow'
+  );
+  return { payment, status: changed ? 'processed' : 'ignored', result: changed ? 'held_in_escrow' : 'Already in escrow' };
+};
+
+const handlePaymentFailed = async ({ payment: { entity } }) => {
+  const payment = await Payment.findOne({ 'gatewayDetails.gatewayOrderId': entity.order_id });
+  if (!payment) return { status: 'ignored', result: `No payment for order ${entity.order_id}` };
+
+  const reason = entity.error_description ? `Payment failed: ${entity.error_description}` : 'Payment failed';
+  const changed = await markPaymentFailed(payment, reason);
+  return { payment, status: changed ? 'processed' : 'ignored', result: changed ? 'failed' : `Payment is ${payment.status}` };
+};
+
+const handleRefundProcessed = async ({ refund: { entity } }) => {
+  const payment = await Payment.findOne({ 'gatewayDetails.gatewayPaymentId': entity.payment_id });
+  if (!payment) return { status: 'ignored', result: `No payment for gateway payment ${entity.payment_id}` };
+
+  // Refunds approved on the platform are recorded once the gateway call returns; this only catches dashboard refunds
+  if (payment.refund.status === 'processing') {
+    return { payment, status: 'ignored', result: 'Refund is being recorded by the platform' };
+  }
+
+  const recorded = await recordRefund(payment, entity.amount / 100, entity.id);
+  return { payment, status: recorded ? 'processed' : 'ignored', result: recorded ? 'refunded' : 'Refund already recorded' };
+};
+
+const EVENT_HANDLERS = {
+  'payment.captured': handlePaymentCaptured,
+  'payment.failed': handlePaymentFailed,
+  'refund.processed': handleRefundProcessed
+};
+
+/**
+ * Apply a verified Razorpay webhook event to the matching payment.
+ * Events that don't apply (unknown type, unknown order, or a transition the payment
+ * has already made or can no longer make) are reported as ignored rather than failing.
+ * @param {string} event - Event name, e.g. "payment.captured".
+ * @param {Object} payload - Event payload.
+ * @returns {Object} { payment, status: 'processed' | 'ignored', result }
+ */
+const handleRazorpayEvent = async (event, payload) => {
+  const handler = EVENT_HANDLERS[event];
+  if (!handler) return { status: 'ignored', result: `Unhandled event ${event}` };
+
+  try {
+    return await handler(payload);
+  } catch (error) {
+    // Out-of-order event, e.g. a capture arriving after the payment was refunded
+    if (error.statusCode === 409) return { status: 'ignored', result: error.message };
+    throw error;
+  }
+};
+
+module.exports = { verifyWebhookSignature, handleRazorpayEvent };
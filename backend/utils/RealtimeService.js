@@ -0,0 +1,68 @@
+// utils/RealtimeService.js
+
+// Open Server-Sent Events streams, keyed by user id. Streams live in this process only,
+// so every instance of the API must be reached through the same sticky session.
+const clients = new Map();
+
+// Comment lines keep idle streams from being closed by proxies
+const HEARTBEAT_INTERVAL = 25 * 1000;
+
+const write = (res, chunk) => {
+  res.write(chunk);
+  // compression() buffers writes until flushed
+  if (typeof res.flush === 'function') res.flush();
+};
+
+setInterval(() => {
+  clients.forEach(streams => streams.forEach(res => write(res, ': heartbeat\n\n')));
+}, HEARTBEAT_INTERVAL).unref();
+
+/**
+ * Register an open event stream for a user.
+ * @param {string} userId - User the stream belongs to.
+ * @param {Object} res - Express response the events are written to.
+ * @returns {Function} Removes the stream again; call it when the connection closes.
+ */
+const subscribe = (userId, res) => {
+  const key = userId.toString();
+  if (!clients.has(key)) clients.set(key, new Set());
+  clients.get(key).add(res);
+
+  return () => {
+    const streams = clients.get(key);
+    if (!streams) return;
+    streams.delete(res);
+    if (streams.size === 0) clients.delete(key);
+  };
+};
+
+/**
+ * Push an event to every open stream of the given users. Users without a stream are skipped.
+ * @param {Array} userIds - Recipients.
+ * @param {string} event - Event name, e.g. 'message'.
+ * @param {Object} data - Event payload, sent as JSON.
+ */
+const publish = (userIds, event, data) => {
+  const chunk = `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  userIds.forEach(userId => {
+    const streams = clients.get(userId.toString());
+    if (streams) streams.forEach(res => write(res, chunk));
+  });
+};
+
+/**
+ * Push an event to the participants of a negotiation.
+ * @param {Object} negotiation - Negotiation document, with or without participants populated.
+ * @param {string} event - Event name.
+ * @param {Object} data - Event payload; negotiationId is added.
+ * @param {string} [exceptUserId] - Participant to leave out, usually the one who caused the event.
+ */
+const publishToNegotiation = (negotiation, event, data, exceptUserId) => {
+  const recipients = negotiation.participants
+    .map(p => (p.user._id || p.user).toString())
+    .filter(userId => !exceptUserId || userId !== exceptUserId.toString());
+
+  publish(recipients, event, { negotiationId: negotiation._id, ...data });
+};
+
+module.exports = { subscribe, publish, publishToNegotiation };
@@ -0,0 +1,133 @@
+// utils/SavedSearchService.js
+const SavedSearch = require('../models/SavedSearch');
+const { notifyUsers } = require('./NotificationService');
+const { sendEmail, getFrontendUrl } = require('./EmailService');
+const { toBaseQuantity, getCompatibleUnits } = require('./QuantityUnits');
+const { DEFAULT_RADIUS_KM, parseNear, distanceKm } = require('./GeoService');
+
+const includesIgnoreCase = (value, term) =>
+  String(value || '').toLowerCase().includes(term.toLowerCase());
+
+/**
+ * Check a listing against saved search filters the same way GET /api/waste-listings would.
+ * Free-text search matches when any search term appears in the title, waste type, description or tags.
+ * @param {Object} listing - Waste listing document.
+ * @param {Object} filters - Saved search filters.
+ * @param {Object} seller - Listing seller, used for the sellerVerified filter.
+ * @returns {boolean} Whether the listing matches every filter.
+ */
+const listingMatchesFilters = (listing, filters, seller) => {
+  if (filters.category && listing.category !== filters.category) return false;
+  if (filters.city && !includesIgnoreCase(listing.location?.city, filters.city)) return false;
+  if (filters.state && !includesIgnoreCase(listing.location?.state, filters.state)) return false;
+  if (filters.urgency && listing.urgency !== filters.urgency) return false;
+  if (filters.frequency && listing.frequency !== filters.frequency) return false;
+  if (filters.hazardous != null && Boolean(listing.hazardous) !== filters.hazardous) return false;
+  if (filters.sellerVerified != null && Boolean(seller?.company?.verified) !== filters.sellerVerified) return false;
+
+  if (filters.minPrice != null && listing.price.value < filters.minPrice) return false;
+  if (filters.maxPrice != null && listing.price.value > filters.maxPrice) return false;
+
+  if (filters.qtyUnit || filters.minQty != null || filters.maxQty != null) {
+    const qtyUnit = filters.qtyUnit || 'kg';
+    if (!getCompatibleUnits(qtyUnit).includes(listing.quantity.unit)) return false;
+
+    const baseQuantity = toBaseQuantity(listing.quantity.value, listing.quantity.unit);
+    if (filters.minQty != null && baseQuantity < toBaseQuantity(filters.minQty, qtyUnit)) return false;
+    if (filters.maxQty != null && baseQuantity > toBaseQuantity(filters.maxQty, qtyUnit)) return false;
+  }
+
+  if (filters.certifications) {
+    const held = (listing.certifications || []).map(c => c.toLowerCase());
+    const required = filters.certifications.split(',').map(c => c.trim().toLowerCase()).filter(Boolean);
+    if (!required.every(c => held.includes(c))) return false;
+  }
+
+  if (filters.search) {
+    const fields = [listing.title, listing.wasteType, listing.description, ...(listing.tags || [])];
+    const terms = filters.search.split(/\s+/).filter(Boolean);
+    if (!terms.some(term => fields.some(field => includesIgnoreCase(field, term)))) return false;
+  }
+
+  if (filters.near) {
+    const origin = parseNear(filters.near);
+    const point = listing.location?.point?.coordinates;
+    if (!origin || !point) return false;
+
+    const distance = distanceKm(origin, { latitude: point[1], longitude: point[0] });
+    if (distance > (filters.radiusKm || DEFAULT_RADIUS_KM)) return false;
+  }
+
+  return true;
+};
+
+/**
+ * Alert buyers whose saved searches match a newly created listing.
+ * Instant alerts notify (and email) straight away; daily alerts queue the listing for the digest job.
+ * Failures are logged and swallowed so they never break listing creation.
+ * @param {Object} listing - The new waste listing.
+ * @param {Object} seller - The listing's seller.
+ * @returns {Array} The matching saved searches.
+ */
+const alertSavedSearches = async (listing, seller) => {
+  try {
+    const searches = await SavedSearch.find({
+      'alerts.enabled': true,
+      user: { $ne: seller._id },
+      'filters.category': { $in: [null, '', listing.category] }
+    }).populate('user', 'name email isActive preferences.notifications');
+
+    const matches = searches.filter(search =>
+      search.user?.isActive !== false && listingMatchesFilters(listing, search.filters, seller)
+    );
+    if (matches.length === 0) return [];
+
+    const instant = matches.filter(search => search.alerts.frequency === 'instant');
+    const daily = matches.filter(search => search.alerts.frequency === 'daily');
+
+    await SavedSearch.updateMany(
+      { _id: { $in: matches.map(search => search._id) } },
+      { $inc: { matchCount: 1 }, $set: { lastMatchedAt: new Date() } }
+    );
+    if (daily.length > 0) {
+      await SavedSearch.updateMany(
+        { _id: { $in: daily.map(search => search._id) } },
+        { $addToSet: { pendingListings: listing._id } }
+      );
+    }
+
+    // A buyer with several matching searches gets one alert naming the first of them
+    const byUser = new Map();
+    instant.forEach(search => {
+      const userId = search.user._id.toString();
+      if (!byUser.has(userId)) byUser.set(userId, search);
+    });
+
+    for (const search of byUser.values()) {
+      const message = `"${listing.title}" (${listing.quantity.value} ${listing.quantity.unit} in ${listing.location.city}) matches your saved search "${search.name}".`;
+
+      await notifyUsers(search.user._id, {
+        type: 'deal',
+        title: 'New Listing Matches Your Search',
+        message,
+        actionUrl: `/listings/${listing._id}`,
+        metadata: { listingId: listing._id }
+      });
+
+      if (search.user.preferences?.notifications?.email !== false) {
+        await sendEmail({
+          to: search.user.email,
+          subject: `New listing: ${listing.title}`,
+          text: `Hi ${search.user.name},\n\n${message}\n\nView it at ${getFrontendUrl(`/listings/${listing._id}`)}`
+        });
+      }
+    }
+
+    return matches;
+  } catch (error) {
+    console.error('Saved search alert error:', error);
+    return [];
+  }
+};
+
+module.exports = { listingMatchesFilters, alertSavedSearches };
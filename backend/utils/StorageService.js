@@ -0,0 +1,104 @@
+// utils/StorageService.js
+const fs = require('fs/promises');
+const path = require('path');
+const crypto = require('crypto');
+const cloudinary = require('cloudinary').v2;
+
+// Where the local driver keeps files; server.js serves this directory at /uploads
+const UPLOAD_DIR = path.join(__dirname, '..', 'uploads');
+
+// Keep stored names short and filesystem-safe; the original name is kept on the attachment
+const safeName = (name) => path.basename(name).replace(/[^\w.-]+/g, '_').slice(-100);
+
+// Local disk, for development and tests
+const localDriver = {
+  name: 'local',
+
+  async save(file, folder) {
+    const dir = path.join(UPLOAD_DIR, folder);
+    await fs.mkdir(dir, { recursive: true });
+
+    const key = `${folder}/${crypto.randomBytes(8).toString('hex')}-${safeName(file.originalname)}`;
+    await fs.writeFile(path.join(UPLOAD_DIR, key), file.buffer);
+
+    const baseUrl = (process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 5000}`).replace(/\/$/, '');
+    return { url: `${baseUrl}/uploads/${key}`, publicId: key };
+  },
+
+  async remove(publicId) {
+    await fs.rm(path.join(UPLOAD_DIR, publicId), { force: true });
+  }
+};
+
+// Cloudinary, for production
+const cloudinaryDriver = {
+  name: 'cloudinary',
+
+  save(file, folder) {
+    cloudinary.config({
+      cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+      api_key: process.env.CLOUDINARY_API_KEY,
+      api_secret: process.env.CLOUDINARY_API_SECRET,
+      secure: true
+    });
+
+    return new Promise((resolve, reject) => {
+      const stream = cloudinary.uploader.upload_stream(
+        { folder: `wasteex/${folder}`, resource_type: 'auto', use_filename: true },
+        (error, result) => error ? reject(error) : resolve({ url: result.secure_url, publicId: result.public_id })
+      );
+      stream.end(file.buffer);
+    });
+  },
+
+  async remove(publicId) {
+    await cloudinary.uploader.destroy(publicId);
+  }
+};
+
+/**
+ * The storage driver in use: STORAGE_DRIVER ('local' or 'cloudinary') when set,
+ * otherwise Cloudinary when it is configured and local disk when it isn't.
+ * @returns {Object} Driver with save(file, folder) and remove(publicId).
+ */
+const getStorage = () => {
+  const driver = process.env.STORAGE_DRIVER || (process.env.CLOUDINARY_CLOUD_NAME ? 'cloudinary' : 'local');
+  return driver === 'cloudinary' ? cloudinaryDriver : localDriver;
+};
+
+/**
+ * Store uploaded files and describe them as attachments.
+ * @param {Array} files - Files from multer's memory storage.
+ * @param {string} folder - Folder to group the files under, e.g. 'negotiations/<id>'.
+ * @returns {Array} { name, url, publicId, type, size } for each file, in order.
+ */
+const saveFiles = async (files, folder) => {
+  const storage = getStorage();
+  const saved = [];
+
+  try {
+    for (const file of files) {
+      const { url, publicId } = await storage.save(file, folder);
+      saved.push({ name: file.originalname, url, publicId, type: file.mimetype, size: file.size });
+    }
+  } catch (error) {
+    // Don't leave part of a failed batch behind
+    await removeFiles(saved);
+    throw error;
+  }
+
+  return saved;
+};
+
+/**
+ * Delete stored files. Failures are logged, not thrown.
+ * @param {Array} attachments - Attachments with a publicId.
+ */
+const removeFiles = async (attachments) => {
+  const storage = getStorage();
+  await Promise.all(attachments.map(({ publicId }) =>
+    storage.remove(publicId).catch(error => console.error('Remove file error:', error))
+  ));
+};
+
+module.exports = { UPLOAD_DIR, getStorage, saveFiles, removeFiles };
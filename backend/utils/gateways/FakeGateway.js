@@ -0,0 +1,75 @@
+// utils/gateways/FakeGateway.js
+const crypto = require('crypto');
+
+// Keeps no state of its own: an order's state is read back from the Payment document,
+// so fake payments survive a server restart and work across several server processes
+const ORDER_PREFIX = 'order_fake_';
+
+// How each payment status looks to the gateway
+const ORDER_STATUSES = {
+  pending: 'pending',
+  failed: 'failed',
+  paid_to_platform: 'captured',
+  held_in_escrow: 'captured',
+  released_to_seller: 'captured',
+  refunded: 'refunded'
+};
+
+const fakeId = (prefix) => `${prefix}_fake_${crypto.randomBytes(6).toString('hex')}`;
+
+const isFakeOrder = (payment) => Boolean(payment.gatewayDetails.gatewayOrderId?.startsWith(ORDER_PREFIX));
+
+/**
+ * Issue an order id. There is no hosted checkout; the browser verifies directly.
+ * @param {Object} order - { amount, currency }
+ * @returns {Object} { orderId, checkout }
+ */
+const createOrder = async ({ amount, currency }) => {
+  const orderId = fakeId('order');
+  return { orderId, checkout: { orderId, amount, currency } };
+};
+
+/**
+ * Settle the order as captured, or as failed when params.outcome is 'failure'.
+ * @param {Object} payment - Payment document.
+ * @param {Object} params - { outcome }
+ * @returns {Object} { verified, gatewayPaymentId }
+ */
+const verify = async (payment, { outcome } = {}) => {
+  if (!isFakeOrder(payment)) return { verified: false, reason: 'Unknown order' };
+
+  if (outcome === 'failure') {
+    return { verified: false, reason: 'Simulated payment failure' };
+  }
+
+  return { verified: true, gatewayPaymentId: payment.gatewayDetails.gatewayPaymentId || fakeId('pay'), method: 'upi' };
+};
+
+/**
+ * Refund part or all of a captured order, up to what has not been refunded yet.
+ * @param {Object} payment - Payment document.
+ * @param {number} amount - Amount in rupees.
+ * @returns {Object} { refundId }
+ */
+const refund = async (payment, amount) => {
+  if (!isFakeOrder(payment) || ORDER_STATUSES[payment.status] !== 'captured') {
+    throw new Error('Only captured orders can be refunded');
+  }
+  if (amount > payment.amount.total - (payment.refund?.refundAmount || 0)) {
+    throw new Error('Refund exceeds the amount captured');
+  }
+
+  return { refundId: fakeId('rfnd') };
+};
+
+/**
+ * Report the order's status as recorded on the payment.
+ * @param {Object} payment - Payment document.
+ * @returns {Object} { status, gatewayPaymentId }
+ */
+const fetchStatus = async (payment) => {
+  if (!isFakeOrder(payment)) return { status: 'pending' };
+  return { status: ORDER_STATUSES[payment.status] || 'pending', gatewayPaymentId: payment.gatewayDetails.gatewayPaymentId };
+};
+
+module.exports = { name: 'fake', createOrder, verify, refund, fetchStatus };
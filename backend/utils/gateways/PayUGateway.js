@@ -0,0 +1,116 @@
+// utils/gateways/PayUGateway.js
+const crypto = require('crypto');
+const axios = require('axios');
+
+// Hosted checkout and the merchant "postservice" API; test endpoints unless configured otherwise
+const PAYU_CHECKOUT_URL = process.env.PAYU_BASE_URL || 'https://test.payu.in';
+const PAYU_API_URL = process.env.PAYU_INFO_URL || 'https://test.info.payu.in';
+
+const sha512 = (value) => crypto.createHash('sha512').update(value).digest('hex');
+
+// PayU expects amounts as rupee strings, and the hash must use the exact same string
+const formatAmount = (amount) => Number(amount).toFixed(2);
+
+// PayU posts the buyer back to the API, which verifies the result and redirects to the contract
+const returnUrl = () =>
+  `${(process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 5000}`).replace(/\/$/, '')}/api/payments/payu/return`;
+
+const postService = async (command, var1, extra = {}) => {
+  const key = process.env.PAYU_KEY;
+  const response = await axios.post(
+    `${PAYU_API_URL}/merchant/postservice?form=2`,
+    new URLSearchParams({
+      key,
+      command,
+      var1,
+      ...extra,
+      hash: sha512(`${key}|${command}|${var1}|${process.env.PAYU_SALT}`)
+    }).toString(),
+    { headers: { 'Content-Type': 'application/x-www-form-urlencoded' } }
+  );
+  return response.data;
+};
+
+/**
+ * Prepare a PayU hosted checkout. The browser posts the returned fields to the action URL.
+ * @param {Object} order - { amount, receipt, description, customer }
+ * @returns {Object} { orderId, checkout }
+ */
+const createOrder = async ({ amount, receipt, description, customer }) => {
+  const key = process.env.PAYU_KEY;
+  const txnid = `${receipt.slice(-10)}${Date.now()}`;
+  const fields = {
+    key,
+    txnid,
+    amount: formatAmount(amount),
+    productinfo: description,
+    firstname: customer.name,
+    email: customer.email,
+    surl: returnUrl(),
+    furl: returnUrl()
+  };
+  fields.hash = sha512(
+    `${key}|${txnid}|${fields.amount}|${fields.productinfo}|${fields.firstname}|${fields.email}|||||||||||${process.env.PAYU_SALT}`
+  );
+
+  return { orderId: txnid, checkout: { action: `${PAYU_CHECKOUT_URL}/_payment`, fields } };
+};
+
+/**
+ * Check the reverse hash on the response PayU posts back after checkout.
+ * @param {Object} payment - Payment document.
+ * @param {Object} params - Fields PayU posted to the return URL.
+ * @returns {Object} { verified, gatewayPaymentId, signature, method }
+ */
+const verify = async (payment, params) => {
+  const { status, txnid, amount, productinfo, firstname, email, hash, mihpayid, mode } = params;
+  if (txnid !== payment.gatewayDetails.gatewayOrderId) {
+    return { verified: false, reason: 'Transaction does not belong to this payment' };
+  }
+
+  const udf = ['udf5', 'udf4', 'udf3', 'udf2', 'udf1'].map(field => params[field] || '').join('|');
+  const expectedHash = sha512(
+    `${process.env.PAYU_SALT}|${status}||||||${udf}|${email}|${firstname}|${productinfo}|${amount}|${txnid}|${process.env.PAYU_KEY}`
+  );
+
+  return {
+    verified: expectedHash === hash && status === 'success',
+    gatewayPaymentId: mihpayid,
+    signature: hash,
+    method: { UPI: 'upi', NB: 'netbanking', CC: 'card', DC: 'card', CASH: 'wallet' }[mode],
+    reason: status !== 'success' ? params.error_Message || `PayU reported ${status}` : undefined
+  };
+};
+
+/**
+ * Refund a captured PayU payment, fully or partly.
+ * @param {Object} payment - Payment document.
+ * @param {number} amount - Amount in rupees.
+ * @returns {Object} { refundId }
+ */
+const refund = async (payment, amount) => {
+  const refundToken = `${payment.paymentId}-${Date.now()}`;
+  const result = await postService('cancel_refund_transaction', payment.gatewayDetails.gatewayPaymentId, {
+    var2: refundToken,
+    var3: formatAmount(amount)
+  });
+  if (Number(result.status) !== 1) throw new Error(result.msg || 'PayU refund failed');
+  return { refundId: String(result.request_id || refundToken) };
+};
+
+/**
+ * Look up the transaction on PayU.
+ * @param {Object} payment - Payment document.
+ * @returns {Object} { status: 'pending' | 'captured' | 'failed', gatewayPaymentId, method }
+ */
+const fetchStatus = async (payment) => {
+  const txnid = payment.gatewayDetails.gatewayOrderId;
+  const result = await postService('verify_payment', txnid);
+  const transaction = result.transaction_details?.[txnid];
+
+  if (transaction?.status === 'success') return { status: 'captured', gatewayPaymentId: transaction.mihpayid };
+  if (transaction?.status === 'failure') return { status: 'failed' };
+  return { status: 'pending' };
+};
+
+module.exports = { name: 'payu', createOrder, verify, refund, fetchStatus };
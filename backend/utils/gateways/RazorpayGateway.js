@@ -0,0 +1,79 @@
+// utils/gateways/RazorpayGateway.js
+const crypto = require('crypto');
+const razorpay = require('../RazorpayInstance');
+
+/**
+ * Create a Razorpay order; the browser opens Razorpay Checkout with it.
+ * @param {Object} order - { amount, currency, receipt, description, customer }
+ * @returns {Object} { orderId, checkout }
+ */
+const createOrder = async ({ amount, currency, receipt, description, customer }) => {
+  const razorpayOrder = await razorpay.orders.create({
+    amount: Math.round(amount * 100), // Convert to paise
+    currency,
+    receipt: receipt.slice(-10) // < 40 chars
+  });
+
+  return {
+    orderId: razorpayOrder.id,
+    checkout: {
+      orderId: razorpayOrder.id,
+      amount: razorpayOrder.amount,
+      currency: razorpayOrder.currency,
+      key: process.env.RAZORPAY_KEY_ID,
+      name: 'WasteEx',
+      description,
+      prefill: { name: customer.name, email: customer.email }
+    }
+  };
+};
+
+/**
+ * Check the signature Razorpay Checkout hands the browser after a successful payment.
+ * @param {Object} payment - Payment document.
+ * @param {Object} params - { gatewayPaymentId, signature }
+ * @returns {Object} { verified, gatewayPaymentId, signature }
+ */
+const verify = async (payment, { gatewayPaymentId, signature }) => {
+  if (!gatewayPaymentId || !signature) return { verified: false, reason: 'Gateway payment ID and signature are required' };
+
+  const expectedSignature = crypto
+    .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET)
+    .update(`${payment.gatewayDetails.gatewayOrderId}|${gatewayPaymentId}`)
+    .digest('hex');
+
+  return { verified: expectedSignature === signature, gatewayPaymentId, signature };
+};
+
+/**
+ * Refund a captured Razorpay payment, fully or partly.
+ * @param {Object} payment - Payment document.
+ * @param {number} amount - Amount in rupees.
+ * @param {Object} [options] - { reason }
+ * @returns {Object} { refundId }
+ */
+const refund = async (payment, amount, { reason } = {}) => {
+  const gatewayRefund = await razorpay.payments.refund(payment.gatewayDetails.gatewayPaymentId, {
+    amount: Math.round(amount * 100), // paise
+    notes: { paymentId: payment.paymentId, reason }
+  });
+  return { refundId: gatewayRefund.id };
+};
+
+/**
+ * Look up the order's payments on Razorpay.
+ * @param {Object} payment - Payment document.
+ * @returns {Object} { status: 'pending' | 'captured' | 'failed' | 'refunded', gatewayPaymentId, method }
+ */
+const fetchStatus = async (payment) => {
+  const { items = [] } = await razorpay.orders.fetchPayments(payment.gatewayDetails.gatewayOrderId);
+
+  const settled = items.find(item => item.status === 'refunded') || items.find(item => item.status === 'captured');
+  if (settled) {
+    return { status: settled.status, gatewayPaymentId: settled.id, method: settled.method };
+  }
+  if (items.length > 0 && items.every(item => item.status === 'failed')) return { status: 'failed' };
+  return { status: 'pending' };
+};
+
+module.exports = { name: 'razorpay', createOrder, verify, refund, fetchStatus };
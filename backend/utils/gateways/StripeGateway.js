@@ -0,0 +1,96 @@
+// utils/gateways/StripeGateway.js
+const axios = require('axios');
+
+const STRIPE_API = 'https://api.stripe.com/v1';
+
+const frontendUrl = (path) =>
+  `${(process.env.FRONTEND_URL || 'https://wasteex.vercel.app').replace(/\/$/, '')}${path}`;
+
+// Stripe's API takes form-encoded bodies with bracketed keys for nested fields
+const stripeRequest = async (method, path, params) => {
+  const response = await axios({
+    method,
+    url: `${STRIPE_API}${path}`,
+    auth: { username: process.env.STRIPE_SECRET_KEY, password: '' },
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    data: params ? new URLSearchParams(params).toString() : undefined
+  });
+  return response.data;
+};
+
+/**
+ * Create a Stripe Checkout Session; the browser is redirected to its hosted page
+ * and comes back to the contract with the session id to verify.
+ * @param {Object} order - { amount, currency, description, customer, paymentId, contractId }
+ * @returns {Object} { orderId, checkout }
+ */
+const createOrder = async ({ amount, currency, description, customer, paymentId, contractId }) => {
+  const returnPath = `/contracts/${contractId}?paymentId=${paymentId}&provider=stripe`;
+  const session = await stripeRequest('post', '/checkout/sessions', {
+    mode: 'payment',
+    'line_items[0][quantity]': '1',
+    'line_items[0][price_data][currency]': currency.toLowerCase(),
+    'line_items[0][price_data][unit_amount]': String(Math.round(amount * 100)),
+    'line_items[0][price_data][product_data][name]': description,
+    customer_email: customer.email,
+    client_reference_id: String(paymentId),
+    'metadata[paymentId]': String(paymentId),
+    success_url: frontendUrl(`${returnPath}&sessionId={CHECKOUT_SESSION_ID}`),
+    cancel_url: frontendUrl(returnPath)
+  });
+
+  return { orderId: session.id, checkout: { sessionId: session.id, url: session.url } };
+};
+
+/**
+ * Confirm with Stripe that the checkout session was paid. The session id in the
+ * return URL is only a lookup key; the payment status always comes from Stripe.
+ * @param {Object} payment - Payment document.
+ * @param {Object} params - { sessionId }
+ * @returns {Object} { verified, gatewayPaymentId, method }
+ */
+const verify = async (payment, { sessionId }) => {
+  if (sessionId !== payment.gatewayDetails.gatewayOrderId) {
+    return { verified: false, reason: 'Checkout session does not belong to this payment' };
+  }
+
+  const session = await stripeRequest('get', `/checkout/sessions/${sessionId}`);
+  return {
+    verified: session.payment_status === 'paid',
+    gatewayPaymentId: session.payment_intent,
+    method: 'card',
+    reason: session.payment_status !== 'paid' ? `Checkout session is ${session.status}` : undefined
+  };
+};
+
+/**
+ * Refund the session's payment intent, fully or partly.
+ * @param {Object} payment - Payment document.
+ * @param {number} amount - Amount in rupees.
+ * @param {Object} [options] - { reason }
+ * @returns {Object} { refundId }
+ */
+const refund = async (payment, amount, { reason } = {}) => {
+  const stripeRefund = await stripeRequest('post', '/refunds', {
+    payment_intent: payment.gatewayDetails.gatewayPaymentId,
+    amount: String(Math.round(amount * 100)),
+    'metadata[paymentId]': payment.paymentId,
+    'metadata[reason]': reason || ''
+  });
+  return { refundId: stripeRefund.id };
+};
+
+/**
+ * Look up the checkout session on Stripe.
+ * @param {Object} payment - Payment document.
+ * @returns {Object} { status: 'pending' | 'captured' | 'failed', gatewayPaymentId, method }
+ */
+const fetchStatus = async (payment) => {
+  const session = await stripeRequest('get', `/checkout/sessions/${payment.gatewayDetails.gatewayOrderId}`);
+
+  if (session.payment_status === 'paid') return { status: 'captured', gatewayPaymentId: session.payment_intent, method: 'card' };
+  if (session.status === 'expired') return { status: 'failed' };
+  return { status: 'pending' };
+};
+
+module.exports = { name: 'stripe', createOrder, verify, refund, fetchStatus };
@@ -0,0 +1,43 @@
+// utils/gateways/index.js
+//
+// Every payment gateway adapter implements the same interface:
+//   createOrder({ amount, currency, receipt, description, customer, paymentId, contractId })
+//     -> { orderId, checkout }    checkout is whatever the browser needs to pay with that provider
+//   verify(payment, params)       -> { verified, gatewayPaymentId, signature, method, reason }
+//   refund(payment, amount, { reason }) -> { refundId }
+//   fetchStatus(payment)          -> { status: 'pending' | 'captured' | 'failed' | 'refunded', gatewayPaymentId, method }
+// Amounts are in rupees; adapters convert to the provider's unit.
+const RazorpayGateway = require('./RazorpayGateway');
+const StripeGateway = require('./StripeGateway');
+const PayUGateway = require('./PayUGateway');
+const FakeGateway = require('./FakeGateway');
+
+const GATEWAYS = {
+  razorpay: RazorpayGateway,
+  stripe: StripeGateway,
+  payu: PayUGateway,
+  fake: FakeGateway
+};
+
+/**
+ * Providers buyers can pay with, from PAYMENT_GATEWAYS (comma separated, first is the default).
+ * The fake gateway is never offered in production.
+ * @returns {string[]}
+ */
+const getEnabledProviders = () => (process.env.PAYMENT_GATEWAYS || 'razorpay')
+  .split(',')
+  .map(name => name.trim().toLowerCase())
+  .filter(name => GATEWAYS[name] && !(name === 'fake' && process.env.NODE_ENV === 'production'));
+
+/**
+ * Adapter for a provider. Existing payments keep working even if their provider is later disabled.
+ * @param {string} provider - Provider name stored on the payment.
+ * @returns {Object} Gateway adapter.
+ */
+const getGateway = (provider) => {
+  const gateway = GATEWAYS[provider];
+  if (!gateway) throw new Error(`Unknown payment gateway: ${provider}`);
+  return gateway;
+};
+
+module.exports = { getGateway, getEnabledProviders };
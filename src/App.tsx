@@ -18,6 +18,7 @@ import Settings from './pages/Settings';
 import Notifications from './pages/Notifications';
 import WasteListingDetail from './pages/WasteListingDetails';
 import ContractDetails from './pages/ContractDetails';
+import MaterialRequestDetails from './pages/MaterialRequestDetails';
 
 function App() {
   return (
@@ -32,6 +33,7 @@ function App() {
             <Route path="/dashboard" element={<Dashboard />} />
             <Route path="/waste-listing" element={<WasteListing />} />
             <Route path="/material-request" element={<MaterialRequest />} />
+            <Route path="/material-requests/:id" element={<MaterialRequestDetails />} />
             <Route path="/listings" element={<Listings />} />
             <Route path="/listings/:id" element={<WasteListingDetail />} />
             <Route path="/negotiations" element={<Negotiations />} />
@@ -0,0 +1,411 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AlertTriangle, Paperclip, Send, Scale } from 'lucide-react';
+import { apiService } from '../services/api';
+
+export interface DisputeEvidence {
+  _id?: string;
+  name: string;
+  url: string;
+  type: 'image' | 'document' | 'video' | 'other';
+  uploadedAt?: string;
+}
+
+export interface Dispute {
+  _id: string;
+  disputeNumber: string;
+  contract: {
+    _id: string;
+    contractNumber: string;
+    title: string;
+  };
+  subject: {
+    type: 'contract' | 'payment' | 'shipment';
+  };
+  category: string;
+  reason: string;
+  description: string;
+  raisedBy: {
+    _id: string;
+    name: string;
+    company?: { name: string };
+  };
+  against: {
+    _id: string;
+    name: string;
+    company?: { name: string };
+  };
+  evidence: DisputeEvidence[];
+  responses: {
+    _id: string;
+    user: {
+      _id: string;
+      name: string;
+      type?: string;
+    };
+    message: string;
+    evidence: DisputeEvidence[];
+    createdAt: string;
+  }[];
+  status: 'open' | 'investigating' | 'escalated' | 'resolved';
+  resolution?: string;
+  resolvedAt?: string;
+  createdAt: string;
+}
+
+const getDisputeStatusColor = (status: string) => {
+  switch (status) {
+    case 'open':
+      return 'bg-red-100 text-red-800';
+    case 'investigating':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'escalated':
+      return 'bg-purple-100 text-purple-800';
+    case 'resolved':
+      return 'bg-green-100 text-green-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+const categories = ['quality', 'quantity', 'delay', 'damage', 'lost', 'payment', 'documentation', 'breach', 'other'];
+
+interface DisputePanelProps {
+  contractId: string;
+  currentUserId?: string;
+  isAdmin: boolean;
+  onChange?: () => void;
+}
+
+const EvidenceLinks: React.FC<{ evidence: DisputeEvidence[] }> = ({ evidence }) => (
+  <div className="flex flex-wrap gap-2 mt-2">
+    {evidence.map((item, index) => (
+      <a
+        key={item._id || index}
+        href={item.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="inline-flex items-center px-2 py-1 bg-gray-100 hover:bg-gray-200 rounded text-xs text-blue-700"
+      >
+        <Paperclip className="h-3 w-3 mr-1" />
+        {item.name}
+      </a>
+    ))}
+  </div>
+);
+
+const DisputePanel: React.FC<DisputePanelProps> = ({ contractId, currentUserId, isAdmin, onChange }) => {
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [showRaiseModal, setShowRaiseModal] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [newDispute, setNewDispute] = useState({
+    subject: 'contract',
+    category: 'quality',
+    reason: '',
+    description: '',
+    evidenceName: '',
+    evidenceUrl: ''
+  });
+  const [replies, setReplies] = useState<Record<string, string>>({});
+  const [resolutions, setResolutions] = useState<Record<string, string>>({});
+
+  const fetchDisputes = useCallback(async () => {
+    try {
+      const response = await apiService.getDisputes({ contract: contractId });
+      if (response.success) {
+        setDisputes(response.data.disputes);
+      }
+    } catch (error) {
+      console.error('Failed to fetch disputes:', error);
+    }
+  }, [contractId]);
+
+  useEffect(() => {
+    fetchDisputes();
+  }, [fetchDisputes]);
+
+  const refresh = () => {
+    fetchDisputes();
+    onChange?.();
+  };
+
+  const handleRaiseDispute = async () => {
+    const { evidenceName, evidenceUrl, ...disputeData } = newDispute;
+
+    try {
+      setSubmitting(true);
+      const response = await apiService.raiseDispute({
+        ...disputeData,
+        contractId,
+        evidence: evidenceUrl ? [{ name: evidenceName || 'Evidence', url: evidenceUrl }] : []
+      });
+      if (response.success) {
+        setShowRaiseModal(false);
+        setNewDispute({ subject: 'contract', category: 'quality', reason: '', description: '', evidenceName: '', evidenceUrl: '' });
+        refresh();
+      }
+    } catch (error) {
+      console.error('Failed to raise dispute:', error);
+      alert(error instanceof Error ? error.message : 'Failed to raise dispute. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleRespond = async (disputeId: string) => {
+    const message = replies[disputeId]?.trim();
+    if (!message) return;
+
+    try {
+      setSubmitting(true);
+      const response = await apiService.respondToDispute(disputeId, { message });
+      if (response.success) {
+        setReplies(prev => ({ ...prev, [disputeId]: '' }));
+        fetchDisputes();
+      }
+    } catch (error) {
+      console.error('Failed to respond to dispute:', error);
+      alert(error instanceof Error ? error.message : 'Failed to send response. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleStatusChange = async (disputeId: string, status: string) => {
+    try {
+      setSubmitting(true);
+      const response = await apiService.updateDisputeStatus(disputeId, status, {
+        resolution: status === 'resolved' ? resolutions[disputeId] : undefined
+      });
+      if (response.success) {
+        refresh();
+      }
+    } catch (error) {
+      console.error('Failed to update dispute:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update dispute. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Disputes</h2>
+        {!isAdmin && (
+          <button
+            onClick={() => setShowRaiseModal(true)}
+            className="flex items-center px-4 py-2 border border-red-300 hover:bg-red-50 text-red-700 rounded-lg text-sm font-medium transition-colors"
+          >
+            <AlertTriangle className="h-4 w-4 mr-2" />
+            Raise Dispute
+          </button>
+        )}
+      </div>
+
+      {disputes.length === 0 ? (
+        <p className="text-sm text-gray-600">No disputes have been raised on this contract.</p>
+      ) : (
+        <div className="space-y-6">
+          {disputes.map((dispute) => (
+            <div key={dispute._id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex items-start justify-between mb-2">
+                <div>
+                  <p className="font-semibold text-gray-900">{dispute.reason}</p>
+                  <p className="text-xs text-gray-500">
+                    {dispute.disputeNumber} · <span className="capitalize">{dispute.subject.type}</span> ·{' '}
+                    <span className="capitalize">{dispute.category}</span> · raised by {dispute.raisedBy.name} on{' '}
+                    {new Date(dispute.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <span className={`px-3 py-1 rounded-full text-xs font-medium capitalize ${getDisputeStatusColor(dispute.status)}`}>
+                  {dispute.status}
+                </span>
+              </div>
+              <p className="text-sm text-gray-700 whitespace-pre-line">{dispute.description}</p>
+              {dispute.evidence.length > 0 && <EvidenceLinks evidence={dispute.evidence} />}
+
+              {dispute.responses.length > 0 && (
+                <div className="mt-4 space-y-3 border-l-2 border-gray-200 pl-4">
+                  {dispute.responses.map((response) => (
+                    <div key={response._id} className="text-sm">
+                      <p className="font-medium text-gray-900">
+                        {response.user.name}
+                        {response.user.type === 'admin' && <span className="ml-2 text-xs text-purple-700">Admin</span>}
+                        <span className="ml-2 text-xs font-normal text-gray-500">{new Date(response.createdAt).toLocaleString()}</span>
+                      </p>
+                      <p className="text-gray-700 whitespace-pre-line">{response.message}</p>
+                      {response.evidence.length > 0 && <EvidenceLinks evidence={response.evidence} />}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {dispute.status === 'resolved' ? (
+                <div className="mt-4 p-3 bg-green-50 border border-green-200 rounded-lg">
+                  <div className="flex items-center text-sm font-medium text-green-800 mb-1">
+                    <Scale className="h-4 w-4 mr-2" />
+                    Resolution
+                  </div>
+                  <p className="text-sm text-green-700">{dispute.resolution}</p>
+                </div>
+              ) : (
+                <>
+                  {(isAdmin || dispute.raisedBy._id === currentUserId || dispute.against._id === currentUserId) && (
+                    <div className="mt-4 flex space-x-2">
+                      <input
+                        type="text"
+                        value={replies[dispute._id] || ''}
+                        onChange={(e) => setReplies(prev => ({ ...prev, [dispute._id]: e.target.value }))}
+                        placeholder="Write a response..."
+                        className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <button
+                        onClick={() => handleRespond(dispute._id)}
+                        disabled={submitting || !replies[dispute._id]?.trim()}
+                        className="px-3 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg transition-colors"
+                      >
+                        <Send className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
+
+                  {isAdmin && (
+                    <div className="mt-4 pt-4 border-t border-gray-200 space-y-3">
+                      <div className="flex space-x-2">
+                        {dispute.status !== 'investigating' && (
+                          <button
+                            onClick={() => handleStatusChange(dispute._id, 'investigating')}
+                            disabled={submitting}
+                            className="px-3 py-1 border border-yellow-300 text-yellow-800 hover:bg-yellow-50 rounded-lg text-sm transition-colors"
+                          >
+                            Investigate
+                          </button>
+                        )}
+                        {dispute.status !== 'escalated' && (
+                          <button
+                            onClick={() => handleStatusChange(dispute._id, 'escalated')}
+                            disabled={submitting}
+                            className="px-3 py-1 border border-purple-300 text-purple-800 hover:bg-purple-50 rounded-lg text-sm transition-colors"
+                          >
+                            Escalate
+                          </button>
+                        )}
+                      </div>
+                      <textarea
+                        value={resolutions[dispute._id] || ''}
+                        onChange={(e) => setResolutions(prev => ({ ...prev, [dispute._id]: e.target.value }))}
+                        rows={3}
+                        placeholder="Written resolution..."
+                        className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      />
+                      <button
+                        onClick={() => handleStatusChange(dispute._id, 'resolved')}
+                        disabled={submitting || (resolutions[dispute._id] || '').trim().length < 10}
+                        className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white rounded-lg text-sm font-medium transition-colors"
+                      >
+                        Resolve Dispute
+                      </button>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Raise Dispute Modal */}
+      {showRaiseModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-lg">
+            <div className="p-6">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">Raise Dispute</h2>
+              <div className="space-y-4 mb-6">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Concerning</label>
+                    <select
+                      value={newDispute.subject}
+                      onChange={(e) => setNewDispute(prev => ({ ...prev, subject: e.target.value }))}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      <option value="contract">Contract</option>
+                      <option value="payment">Payment</option>
+                      <option value="shipment">Shipment</option>
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                    <select
+                      value={newDispute.category}
+                      onChange={(e) => setNewDispute(prev => ({ ...prev, category: e.target.value }))}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 capitalize focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    >
+                      {categories.map(category => (
+                        <option key={category} value={category}>{category}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                  <input
+                    type="text"
+                    value={newDispute.reason}
+                    onChange={(e) => setNewDispute(prev => ({ ...prev, reason: e.target.value }))}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                  <textarea
+                    value={newDispute.description}
+                    onChange={(e) => setNewDispute(prev => ({ ...prev, description: e.target.value }))}
+                    rows={4}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Evidence (optional)</label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      type="text"
+                      value={newDispute.evidenceName}
+                      onChange={(e) => setNewDispute(prev => ({ ...prev, evidenceName: e.target.value }))}
+                      placeholder="Name"
+                      className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <input
+                      type="url"
+                      value={newDispute.evidenceUrl}
+                      onChange={(e) => setNewDispute(prev => ({ ...prev, evidenceUrl: e.target.value }))}
+                      placeholder="https://..."
+                      className="border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                </div>
+              </div>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setShowRaiseModal(false)}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleRaiseDispute}
+                  disabled={submitting || newDispute.reason.trim().length < 5 || newDispute.description.trim().length < 20}
+                  className="flex-1 px-4 py-2 bg-red-600 hover:bg-red-700 disabled:bg-red-400 text-white rounded-lg font-medium transition-colors"
+                >
+                  {submitting ? 'Submitting...' : 'Raise Dispute'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DisputePanel;
@@ -0,0 +1,396 @@
+import React, { useState, useEffect } from 'react';
+import { Percent, Plus, Trash2, Tag } from 'lucide-react';
+import { apiService } from '../services/api';
+
+interface FeeTier {
+  above: number;
+  percentage: number;
+}
+
+export interface FeeRule {
+  _id: string;
+  name: string;
+  scope: 'default' | 'category' | 'seller';
+  category?: string;
+  seller?: {
+    _id: string;
+    name: string;
+    company?: { name: string };
+  };
+  isPromotion: boolean;
+  validFrom?: string;
+  validUntil?: string;
+  tiers: FeeTier[];
+  minimumFee?: number;
+  maximumFee?: number;
+  isActive: boolean;
+}
+
+const categories = [
+  'Plastic Waste',
+  'Metal Scrap',
+  'Paper Waste',
+  'Textile Waste',
+  'Chemical Waste',
+  'Electronic Waste',
+  'Rubber Waste',
+  'Glass Waste',
+  'Wood Waste',
+  'Organic Waste',
+];
+
+const emptyForm = {
+  name: '',
+  scope: 'default' as FeeRule['scope'],
+  category: categories[0],
+  seller: '',
+  isPromotion: false,
+  validFrom: '',
+  validUntil: '',
+  tiers: [{ above: '0', percentage: '' }],
+  minimumFee: '',
+  maximumFee: ''
+};
+
+const formatTiers = (tiers: FeeTier[]) =>
+  [...tiers]
+    .sort((a, b) => a.above - b.above)
+    .map(tier => `${tier.percentage}%${tier.above > 0 ? ` above ₹${tier.above.toLocaleString()}` : ''}`)
+    .join(', ');
+
+const formatPeriod = (rule: FeeRule) => {
+  if (!rule.validFrom && !rule.validUntil) return 'Always';
+  const from = rule.validFrom ? new Date(rule.validFrom).toLocaleDateString() : 'Now';
+  const until = rule.validUntil ? new Date(rule.validUntil).toLocaleDateString() : 'open-ended';
+  return `${from} – ${until}`;
+};
+
+const FeeSchedulePanel: React.FC = () => {
+  const [rules, setRules] = useState<FeeRule[]>([]);
+  const [defaultTiers, setDefaultTiers] = useState<FeeTier[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const fetchRules = async () => {
+    try {
+      const response = await apiService.getFeeRules();
+      setRules(response.data.rules);
+      setDefaultTiers(response.data.defaultTiers);
+    } catch (error) {
+      console.error('Failed to fetch fee rules:', error);
+    }
+  };
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const openForm = (rule?: FeeRule) => {
+    setEditingId(rule?._id || null);
+    setForm(rule ? {
+      name: rule.name,
+      scope: rule.scope,
+      category: rule.category || categories[0],
+      seller: rule.seller?._id || '',
+      isPromotion: rule.isPromotion,
+      validFrom: rule.validFrom ? rule.validFrom.slice(0, 10) : '',
+      validUntil: rule.validUntil ? rule.validUntil.slice(0, 10) : '',
+      tiers: rule.tiers.map(tier => ({ above: String(tier.above), percentage: String(tier.percentage) })),
+      minimumFee: rule.minimumFee != null ? String(rule.minimumFee) : '',
+      maximumFee: rule.maximumFee != null ? String(rule.maximumFee) : ''
+    } : emptyForm);
+    setShowForm(true);
+  };
+
+  const updateTier = (index: number, field: 'above' | 'percentage', value: string) => {
+    setForm({
+      ...form,
+      tiers: form.tiers.map((tier, i) => (i === index ? { ...tier, [field]: value } : tier))
+    });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const rule = {
+        name: form.name,
+        scope: form.scope,
+        category: form.scope === 'category' ? form.category : undefined,
+        seller: form.scope === 'seller' ? form.seller : undefined,
+        isPromotion: form.isPromotion,
+        validFrom: form.validFrom || null,
+        validUntil: form.validUntil || null,
+        tiers: form.tiers.map(tier => ({ above: Number(tier.above), percentage: Number(tier.percentage) })),
+        minimumFee: form.minimumFee === '' ? null : Number(form.minimumFee),
+        maximumFee: form.maximumFee === '' ? null : Number(form.maximumFee)
+      };
+
+      if (editingId) {
+        await apiService.updateFeeRule(editingId, rule);
+      } else {
+        await apiService.createFeeRule(rule);
+      }
+      setShowForm(false);
+      fetchRules();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to save fee rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeactivate = async (rule: FeeRule) => {
+    if (!window.confirm(`Deactivate "${rule.name}"? Existing contracts keep their fee.`)) return;
+    try {
+      await apiService.deactivateFeeRule(rule._id);
+      fetchRules();
+    } catch (error) {
+      alert(error instanceof Error ? error.message : 'Failed to deactivate fee rule');
+    }
+  };
+
+  const hasDefaultRule = rules.some(rule => rule.isActive && rule.scope === 'default' && !rule.isPromotion);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Platform Fee Schedule</h3>
+            <p className="text-sm text-gray-500 mt-1">
+              Seller rules override category rules, which override the default. Promotions apply when cheaper.
+              Contracts keep the fee fixed when they were created.
+            </p>
+          </div>
+          <button
+            onClick={() => openForm()}
+            className="flex items-center space-x-2 text-sm text-white bg-blue-600 hover:bg-blue-700 px-4 py-2 rounded-lg"
+          >
+            <Plus className="h-4 w-4" />
+            <span>Add Rule</span>
+          </button>
+        </div>
+
+        {!hasDefaultRule && defaultTiers.length > 0 && (
+          <div className="px-6 py-3 bg-gray-50 text-sm text-gray-600 border-b border-gray-200">
+            No default rule is active, so the standard schedule applies: {formatTiers(defaultTiers)}
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Rule</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Tiers</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Limits</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Period</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rules.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-sm text-gray-500">No fee rules yet</td>
+                </tr>
+              ) : rules.map((rule) => (
+                <tr key={rule._id} className={rule.isActive ? '' : 'opacity-50'}>
+                  <td className="px-6 py-4 text-sm">
+                    <div className="flex items-center space-x-2 font-medium text-gray-900">
+                      {rule.isPromotion ? <Tag className="h-4 w-4 text-green-600" /> : <Percent className="h-4 w-4 text-gray-400" />}
+                      <span>{rule.name}</span>
+                    </div>
+                    {!rule.isActive && <div className="text-xs text-gray-500">Inactive</div>}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {rule.scope === 'category' ? rule.category :
+                     rule.scope === 'seller' ? (rule.seller?.company?.name || rule.seller?.name || 'Seller') :
+                     'All deals'}
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-900">{formatTiers(rule.tiers)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                    {rule.minimumFee != null ? `Min ₹${rule.minimumFee.toLocaleString()}` : ''}
+                    {rule.minimumFee != null && rule.maximumFee != null ? ' · ' : ''}
+                    {rule.maximumFee != null ? `Max ₹${rule.maximumFee.toLocaleString()}` : ''}
+                    {rule.minimumFee == null && rule.maximumFee == null ? '—' : ''}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{formatPeriod(rule)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-3">
+                    <button onClick={() => openForm(rule)} className="text-blue-600 hover:text-blue-900">Edit</button>
+                    {rule.isActive && (
+                      <button onClick={() => handleDeactivate(rule)} className="text-red-600 hover:text-red-900">
+                        <Trash2 className="h-4 w-4 inline" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSave} className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+          <h3 className="text-lg font-semibold text-gray-900">{editingId ? 'Edit Fee Rule' : 'New Fee Rule'}</h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="Rule name"
+              required
+              className="border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <select
+              value={form.scope}
+              onChange={(e) => setForm({ ...form, scope: e.target.value as FeeRule['scope'] })}
+              className="border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="default">All deals</option>
+              <option value="category">One category</option>
+              <option value="seller">One seller</option>
+            </select>
+            {form.scope === 'category' && (
+              <select
+                value={form.category}
+                onChange={(e) => setForm({ ...form, category: e.target.value })}
+                className="border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                {categories.map(category => <option key={category} value={category}>{category}</option>)}
+              </select>
+            )}
+            {form.scope === 'seller' && (
+              <input
+                type="text"
+                value={form.seller}
+                onChange={(e) => setForm({ ...form, seller: e.target.value })}
+                placeholder="Seller user ID"
+                required
+                className="border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Tiers by deal value</p>
+            {form.tiers.map((tier, index) => (
+              <div key={index} className="flex items-center space-x-2 text-sm">
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={tier.percentage}
+                  onChange={(e) => updateTier(index, 'percentage', e.target.value)}
+                  placeholder="%"
+                  required
+                  className="w-24 border border-gray-300 rounded-md px-3 py-2"
+                />
+                <span className="text-gray-600">% on deals above ₹</span>
+                <input
+                  type="number"
+                  min="0"
+                  value={tier.above}
+                  onChange={(e) => updateTier(index, 'above', e.target.value)}
+                  required
+                  className="w-32 border border-gray-300 rounded-md px-3 py-2"
+                />
+                {form.tiers.length > 1 && (
+                  <button
+                    type="button"
+                    onClick={() => setForm({ ...form, tiers: form.tiers.filter((_, i) => i !== index) })}
+                    className="text-red-600 hover:text-red-900"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setForm({ ...form, tiers: [...form.tiers, { above: '', percentage: '' }] })}
+              className="text-sm text-blue-600 hover:text-blue-800"
+            >
+              + Add tier
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
+            <label className="space-y-1">
+              <span className="text-gray-600">Minimum fee (₹)</span>
+              <input
+                type="number"
+                min="0"
+                value={form.minimumFee}
+                onChange={(e) => setForm({ ...form, minimumFee: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">Maximum fee (₹)</span>
+              <input
+                type="number"
+                min="0"
+                value={form.maximumFee}
+                onChange={(e) => setForm({ ...form, maximumFee: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">Valid from</span>
+              <input
+                type="date"
+                value={form.validFrom}
+                onChange={(e) => setForm({ ...form, validFrom: e.target.value })}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-gray-600">Valid until</span>
+              <input
+                type="date"
+                value={form.validUntil}
+                onChange={(e) => setForm({ ...form, validUntil: e.target.value })}
+                required={form.isPromotion}
+                className="w-full border border-gray-300 rounded-md px-3 py-2"
+              />
+            </label>
+          </div>
+
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.isPromotion}
+              onChange={(e) => setForm({ ...form, isPromotion: e.target.checked })}
+            />
+            <span>Promotion (applies only while running, and only when it lowers the fee)</span>
+          </label>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Rule'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default FeeSchedulePanel;
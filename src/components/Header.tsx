@@ -1,9 +1,11 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Link, useLocation, useNavigate } from 'react-router-dom';
 import {
   Recycle, User, LogOut, Bell, Settings, Package, Menu, X
 } from 'lucide-react';
 import { useApp } from '../context/AppContext';
+import { apiService } from '../services/api';
+import type { Notification } from '../services/api';
 
 const Header: React.FC = () => {
   const { user, logout } = useApp();
@@ -11,6 +13,52 @@ const Header: React.FC = () => {
   const navigate = useNavigate();
   const [showNotifications, setShowNotifications] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const [recentNotifications, setRecentNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  // Refresh the bell on login, navigation and whenever the dropdown opens
+  useEffect(() => {
+    if (!user) {
+      setRecentNotifications([]);
+      setUnreadCount(0);
+      return;
+    }
+
+    const fetchNotifications = async () => {
+      try {
+        const response = await apiService.getNotifications({ limit: '5' });
+        if (response.success) {
+          setRecentNotifications(response.data.notifications);
+          setUnreadCount(response.data.unreadCount);
+        }
+      } catch (error) {
+        console.error('Failed to fetch notifications:', error);
+      }
+    };
+
+    fetchNotifications();
+  }, [user, location.pathname, showNotifications]);
+
+  const openNotification = async (notification: Notification) => {
+    setShowNotifications(false);
+    if (!notification.read) {
+      try {
+        await apiService.markNotificationRead(notification._id);
+      } catch (error) {
+        console.error('Failed to mark notification as read:', error);
+      }
+    }
+    navigate(notification.actionUrl || '/notifications');
+  };
+
+  const formatTimeAgo = (dateString: string) => {
+    const diffInSeconds = Math.floor((Date.now() - new Date(dateString).getTime()) / 1000);
+
+    if (diffInSeconds < 60) return 'Just now';
+    if (diffInSeconds < 3600) return `${Math.floor(diffInSeconds / 60)} minutes ago`;
+    if (diffInSeconds < 86400) return `${Math.floor(diffInSeconds / 3600)} hours ago`;
+    return `${Math.floor(diffInSeconds / 86400)} days ago`;
+  };
 
   const handleLogout = () => {
     logout();
@@ -99,9 +147,11 @@ const Header: React.FC = () => {
                   className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg relative"
                 >
                   <Bell className="h-5 w-5" />
-                  <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
-                    3
-                  </span>
+                  {unreadCount > 0 && (
+                    <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-5 w-5 flex items-center justify-center">
+                      {unreadCount > 9 ? '9+' : unreadCount}
+                    </span>
+                  )}
                 </button>
                 {showNotifications && (
                   <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-lg border border-gray-200 z-50">
@@ -112,18 +162,22 @@ const Header: React.FC = () => {
                       </div>
                     </div>
                     <div className="max-h-96 overflow-y-auto">
-                      <div className="p-4 hover:bg-gray-50 border-b">
-                        <p className="text-sm font-medium">New contract signed</p>
-                        <p className="text-xs text-gray-500">2 hours ago</p>
-                      </div>
-                      <div className="p-4 hover:bg-gray-50 border-b">
-                        <p className="text-sm font-medium">Payment received</p>
-                        <p className="text-xs text-gray-500">4 hours ago</p>
-                      </div>
-                      <div className="p-4 hover:bg-gray-50">
-                        <p className="text-sm font-medium">Shipment in transit</p>
-                        <p className="text-xs text-gray-500">6 hours ago</p>
-                      </div>
+                      {recentNotifications.length === 0 ? (
+                        <div className="p-4 text-sm text-gray-500 text-center">No notifications yet</div>
+                      ) : (
+                        recentNotifications.map((notification) => (
+                          <button
+                            key={notification._id}
+                            onClick={() => openNotification(notification)}
+                            className={`block w-full text-left p-4 hover:bg-gray-50 border-b last:border-b-0 ${
+                              !notification.read ? 'bg-blue-50' : ''
+                            }`}
+                          >
+                            <p className="text-sm font-medium">{notification.title}</p>
+                            <p className="text-xs text-gray-500">{formatTimeAgo(notification.createdAt)}</p>
+                          </button>
+                        ))
+                      )}
                     </div>
                   </div>
                 )}
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { CheckCircle, Clock, AlertCircle, Plus, Edit, Truck } from 'lucide-react';
+import { apiService } from '../services/api';
+
+export interface Milestone {
+  _id: string;
+  title: string;
+  description?: string;
+  type: 'advance-payment' | 'pickup' | 'delivery' | 'inspection' | 'payment' | 'custom';
+  dueDate: string;
+  status: 'pending' | 'completed' | 'overdue';
+  completedAt?: string;
+  shipment?: string;
+}
+
+interface MilestoneTrackerProps {
+  contractId: string;
+  milestones: Milestone[];
+  canEdit: boolean;
+  onChange: (milestones: Milestone[]) => void;
+}
+
+const emptyForm = { title: '', description: '', dueDate: '' };
+
+const MilestoneTracker: React.FC<MilestoneTrackerProps> = ({ contractId, milestones, canEdit, onChange }) => {
+  const [editing, setEditing] = useState<Milestone | 'new' | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  const openForm = (milestone: Milestone | 'new') => {
+    setForm(milestone === 'new'
+      ? emptyForm
+      : { title: milestone.title, description: milestone.description || '', dueDate: milestone.dueDate.slice(0, 10) });
+    setEditing(milestone);
+  };
+
+  // Every milestone endpoint responds with the contract's full, sorted milestone list
+  const runAction = async (action: () => Promise<{ success: boolean; data: { milestones: Milestone[] } }>) => {
+    try {
+      setSaving(true);
+      const response = await action();
+      if (response.success) {
+        onChange(response.data.milestones);
+        setEditing(null);
+      }
+    } catch (error) {
+      console.error('Failed to update milestones:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update milestones. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => runAction(() => editing === 'new'
+    ? apiService.addMilestone(contractId, form)
+    : apiService.updateMilestone(contractId, (editing as Milestone)._id, form));
+
+  const getMilestoneIcon = (milestone: Milestone) => {
+    if (milestone.status === 'completed') return <CheckCircle className="h-5 w-5 text-green-600" />;
+    if (milestone.status === 'overdue') return <AlertCircle className="h-5 w-5 text-red-600" />;
+    if (milestone.type === 'pickup' || milestone.type === 'delivery') return <Truck className="h-5 w-5 text-blue-600" />;
+    return <Clock className="h-5 w-5 text-gray-400" />;
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold text-gray-900">Milestones</h2>
+        {canEdit && (
+          <button
+            onClick={() => openForm('new')}
+            className="flex items-center text-sm text-blue-600 hover:text-blue-700 font-medium"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Milestone
+          </button>
+        )}
+      </div>
+
+      {milestones.length === 0 ? (
+        <div className="text-center py-6">
+          <p className="text-sm text-gray-600 mb-4">No milestones have been scheduled for this contract.</p>
+          {canEdit && (
+            <button
+              onClick={() => runAction(() => apiService.generateDefaultMilestones(contractId))}
+              disabled={saving}
+              className="bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+            >
+              Generate from Contract Terms
+            </button>
+          )}
+        </div>
+      ) : (
+        <ol className="relative border-l-2 border-gray-200 ml-2">
+          {milestones.map((milestone) => (
+            <li key={milestone._id} className="mb-6 ml-6 last:mb-0">
+              <span className="absolute -left-[13px] flex items-center justify-center w-6 h-6 bg-white rounded-full">
+                {getMilestoneIcon(milestone)}
+              </span>
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className={`font-medium ${milestone.status === 'completed' ? 'text-gray-500' : 'text-gray-900'}`}>
+                    {milestone.title}
+                  </p>
+                  {milestone.description && <p className="text-sm text-gray-600">{milestone.description}</p>}
+                  <p className={`text-xs mt-1 ${milestone.status === 'overdue' ? 'text-red-600 font-medium' : 'text-gray-500'}`}>
+                    {milestone.status === 'completed' && milestone.completedAt
+                      ? `Completed ${new Date(milestone.completedAt).toLocaleDateString()}`
+                      : `Due ${new Date(milestone.dueDate).toLocaleDateString()}${milestone.status === 'overdue' ? ' · Overdue' : ''}`}
+                    {milestone.shipment && ' · Confirmed by shipment'}
+                  </p>
+                </div>
+                {canEdit && milestone.status !== 'completed' && (
+                  <div className="flex items-center space-x-2 ml-4">
+                    <button
+                      onClick={() => openForm(milestone)}
+                      className="p-1 text-gray-500 hover:text-gray-700"
+                    >
+                      <Edit className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => runAction(() => apiService.completeMilestone(contractId, milestone._id))}
+                      disabled={saving}
+                      className="px-3 py-1 text-xs bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white rounded-lg font-medium transition-colors"
+                    >
+                      Complete
+                    </button>
+                  </div>
+                )}
+              </div>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {/* Milestone Modal */}
+      {editing && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md">
+            <div className="p-6">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">
+                {editing === 'new' ? 'Add Milestone' : 'Edit Milestone'}
+              </h2>
+              <div className="space-y-4 mb-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Title</label>
+                  <input
+                    type="text"
+                    value={form.title}
+                    onChange={(e) => setForm(prev => ({ ...prev, title: e.target.value }))}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                  <textarea
+                    value={form.description}
+                    onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                    rows={3}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Due Date</label>
+                  <input
+                    type="date"
+                    value={form.dueDate}
+                    onChange={(e) => setForm(prev => ({ ...prev, dueDate: e.target.value }))}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setEditing(null)}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={saving || form.title.trim().length < 3 || !form.dueDate}
+                  className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg font-medium transition-colors"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MilestoneTracker;
@@ -0,0 +1,277 @@
+import React, { useState } from 'react';
+import { X, Lock, Users, Pencil, Trash2 } from 'lucide-react';
+import { apiService } from '../services/api';
+
+export interface NegotiationNote {
+  _id: string;
+  user: {
+    _id: string;
+    name: string;
+  };
+  content: string;
+  private: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export type NegotiationPriority = 'low' | 'medium' | 'high';
+
+interface NegotiationNotesPanelProps {
+  negotiationId: string;
+  notes: NegotiationNote[];
+  tags: string[];
+  priority: NegotiationPriority;
+  currentUserId?: string;
+  onUpdate: (update: { notes?: NegotiationNote[]; tags?: string[]; priority?: NegotiationPriority }) => void;
+  onClose: () => void;
+}
+
+const NegotiationNotesPanel: React.FC<NegotiationNotesPanelProps> = ({
+  negotiationId,
+  notes,
+  tags,
+  priority,
+  currentUserId,
+  onUpdate,
+  onClose
+}) => {
+  const [newNote, setNewNote] = useState('');
+  const [shareNote, setShareNote] = useState(false);
+  const [newTag, setNewTag] = useState('');
+  const [editingNote, setEditingNote] = useState<{ id: string; content: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const handleAddNote = async () => {
+    if (!newNote.trim()) return;
+
+    try {
+      setSaving(true);
+      const response = await apiService.addNegotiationNote(negotiationId, { content: newNote.trim(), private: !shareNote });
+      if (response.success) {
+        onUpdate({ notes: [...notes, response.data.note] });
+        setNewNote('');
+        setShareNote(false);
+      }
+    } catch (error) {
+      console.error('Failed to add note:', error);
+      alert(error instanceof Error ? error.message : 'Failed to add note. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUpdateNote = async (noteId: string, update: { content?: string; private?: boolean }) => {
+    try {
+      const response = await apiService.updateNegotiationNote(negotiationId, noteId, update);
+      if (response.success) {
+        onUpdate({ notes: notes.map(note => note._id === noteId ? response.data.note : note) });
+        setEditingNote(null);
+      }
+    } catch (error) {
+      console.error('Failed to update note:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update note. Please try again.');
+    }
+  };
+
+  const handleDeleteNote = async (noteId: string) => {
+    if (!confirm('Delete this note?')) return;
+
+    try {
+      const response = await apiService.deleteNegotiationNote(negotiationId, noteId);
+      if (response.success) {
+        onUpdate({ notes: notes.filter(note => note._id !== noteId) });
+      }
+    } catch (error) {
+      console.error('Failed to delete note:', error);
+    }
+  };
+
+  const saveTags = async (nextTags: string[]) => {
+    try {
+      const response = await apiService.updateNegotiationTags(negotiationId, nextTags);
+      if (response.success) {
+        onUpdate({ tags: response.data.tags });
+      }
+    } catch (error) {
+      console.error('Failed to update tags:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update tags. Please try again.');
+    }
+  };
+
+  const handleAddTag = () => {
+    const tag = newTag.trim().toLowerCase();
+    if (!tag || tags.includes(tag)) return;
+    saveTags([...tags, tag]);
+    setNewTag('');
+  };
+
+  const handlePriorityChange = async (value: NegotiationPriority) => {
+    try {
+      const response = await apiService.updateNegotiationPriority(negotiationId, value);
+      if (response.success) {
+        onUpdate({ priority: response.data.priority });
+      }
+    } catch (error) {
+      console.error('Failed to update priority:', error);
+    }
+  };
+
+  return (
+    <div className="w-80 border-l border-gray-200 flex flex-col bg-white">
+      <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+        <h3 className="font-semibold text-gray-900">Notes & Labels</h3>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-6">
+        {/* Priority */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Priority</label>
+          <select
+            value={priority}
+            onChange={(e) => handlePriorityChange(e.target.value as NegotiationPriority)}
+            className="w-full text-sm border border-gray-300 rounded-md px-3 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="low">Low</option>
+            <option value="medium">Medium</option>
+            <option value="high">High</option>
+          </select>
+        </div>
+
+        {/* Tags */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Tags</label>
+          <div className="flex flex-wrap gap-1 mb-2">
+            {tags.length === 0 && <span className="text-xs text-gray-400">No tags yet</span>}
+            {tags.map(tag => (
+              <span key={tag} className="flex items-center bg-gray-100 text-gray-700 text-xs rounded-full pl-2 pr-1 py-0.5">
+                {tag}
+                <button
+                  onClick={() => saveTags(tags.filter(t => t !== tag))}
+                  className="ml-1 p-0.5 text-gray-400 hover:text-red-600"
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+          </div>
+          <div className="flex space-x-2">
+            <input
+              type="text"
+              value={newTag}
+              onChange={(e) => setNewTag(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddTag()}
+              placeholder="Add a tag"
+              maxLength={30}
+              className="flex-1 text-sm border border-gray-300 rounded-md px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <button
+              onClick={handleAddTag}
+              disabled={!newTag.trim()}
+              className="text-sm text-blue-600 hover:text-blue-700 disabled:text-gray-400 font-medium"
+            >
+              Add
+            </button>
+          </div>
+          <p className="text-xs text-gray-400 mt-1">Tags and priority are only visible to you.</p>
+        </div>
+
+        {/* Notes */}
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Notes</label>
+          <div className="space-y-3 mb-3">
+            {notes.length === 0 && <p className="text-xs text-gray-400">No notes yet</p>}
+            {notes.map(note => {
+              const isOwn = note.user._id === currentUserId;
+
+              return (
+                <div key={note._id} className={`p-3 rounded-lg text-sm ${note.private ? 'bg-yellow-50' : 'bg-blue-50'}`}>
+                  {editingNote?.id === note._id ? (
+                    <div className="space-y-2">
+                      <textarea
+                        value={editingNote.content}
+                        onChange={(e) => setEditingNote({ id: note._id, content: e.target.value })}
+                        rows={3}
+                        className="w-full text-sm border border-gray-300 rounded-md px-2 py-1"
+                      />
+                      <div className="flex justify-end space-x-2 text-xs">
+                        <button onClick={() => setEditingNote(null)} className="text-gray-600 hover:underline">Cancel</button>
+                        <button
+                          onClick={() => handleUpdateNote(note._id, { content: editingNote.content.trim() })}
+                          disabled={!editingNote.content.trim()}
+                          className="text-blue-600 font-medium hover:underline"
+                        >
+                          Save
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="text-gray-800 whitespace-pre-wrap">{note.content}</p>
+                  )}
+                  <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+                    <span className="flex items-center">
+                      {note.private
+                        ? <><Lock className="h-3 w-3 mr-1" />Only you</>
+                        : <><Users className="h-3 w-3 mr-1" />{isOwn ? 'Shared' : note.user.name}</>}
+                      <span className="ml-2">{new Date(note.updatedAt || note.createdAt).toLocaleDateString()}</span>
+                    </span>
+                    {isOwn && editingNote?.id !== note._id && (
+                      <span className="flex items-center space-x-2">
+                        <button
+                          onClick={() => handleUpdateNote(note._id, { private: !note.private })}
+                          className="hover:text-gray-700"
+                        >
+                          {note.private ? 'Share' : 'Make private'}
+                        </button>
+                        <button
+                          onClick={() => setEditingNote({ id: note._id, content: note.content })}
+                          className="hover:text-gray-700"
+                        >
+                          <Pencil className="h-3 w-3" />
+                        </button>
+                        <button onClick={() => handleDeleteNote(note._id)} className="hover:text-red-600">
+                          <Trash2 className="h-3 w-3" />
+                        </button>
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          <textarea
+            value={newNote}
+            onChange={(e) => setNewNote(e.target.value)}
+            placeholder="Add a note..."
+            rows={3}
+            maxLength={2000}
+            className="w-full text-sm border border-gray-300 rounded-md px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <div className="flex items-center justify-between mt-2">
+            <label className="flex items-center text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={shareNote}
+                onChange={(e) => setShareNote(e.target.checked)}
+                className="mr-1"
+              />
+              Share with the other party
+            </label>
+            <button
+              onClick={handleAddNote}
+              disabled={saving || !newNote.trim()}
+              className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-xs rounded font-medium transition-colors"
+            >
+              {saving ? 'Saving...' : 'Add Note'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NegotiationNotesPanel;
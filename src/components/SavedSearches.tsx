@@ -0,0 +1,201 @@
+import React, { useEffect, useState } from 'react';
+import { Bookmark, Bell, BellOff, X } from 'lucide-react';
+import { apiService } from '../services/api';
+
+export interface SavedSearch {
+  _id: string;
+  name: string;
+  filters: Record<string, string | number | boolean>;
+  alerts: {
+    enabled: boolean;
+    frequency: 'instant' | 'daily';
+  };
+  matchCount: number;
+  lastMatchedAt?: string;
+  createdAt: string;
+}
+
+interface SavedSearchesProps {
+  filters: Record<string, string>;
+  onApply: (filters: Record<string, string>) => void;
+}
+
+const SavedSearches: React.FC<SavedSearchesProps> = ({ filters, onApply }) => {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+  const [showSaveModal, setShowSaveModal] = useState(false);
+  const [name, setName] = useState('');
+  const [alertFrequency, setAlertFrequency] = useState<'instant' | 'daily' | 'off'>('instant');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSavedSearches();
+  }, []);
+
+  const fetchSavedSearches = async () => {
+    try {
+      const response = await apiService.getSavedSearches();
+      if (response.success) {
+        setSavedSearches(response.data.savedSearches);
+      }
+    } catch (error) {
+      console.error('Failed to fetch saved searches:', error);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const response = await apiService.createSavedSearch({
+        name: name.trim(),
+        filters,
+        alerts: alertFrequency === 'off'
+          ? { enabled: false }
+          : { enabled: true, frequency: alertFrequency }
+      });
+      if (response.success) {
+        setSavedSearches(prev => [response.data.savedSearch, ...prev]);
+        setShowSaveModal(false);
+        setName('');
+      }
+    } catch (error) {
+      console.error('Failed to save search:', error);
+      alert(error instanceof Error ? error.message : 'Failed to save search. Please try again.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggleAlerts = async (search: SavedSearch) => {
+    try {
+      const response = await apiService.updateSavedSearch(search._id, {
+        alerts: { enabled: !search.alerts.enabled }
+      });
+      if (response.success) {
+        setSavedSearches(prev => prev.map(s => s._id === search._id ? response.data.savedSearch : s));
+      }
+    } catch (error) {
+      console.error('Failed to update saved search:', error);
+    }
+  };
+
+  const handleDelete = async (search: SavedSearch) => {
+    if (!confirm(`Delete saved search "${search.name}"?`)) return;
+
+    try {
+      const response = await apiService.deleteSavedSearch(search._id);
+      if (response.success) {
+        setSavedSearches(prev => prev.filter(s => s._id !== search._id));
+      }
+    } catch (error) {
+      console.error('Failed to delete saved search:', error);
+    }
+  };
+
+  const handleApply = (search: SavedSearch) => {
+    onApply(Object.fromEntries(
+      Object.entries(search.filters).map(([key, value]) => [key, String(value)])
+    ));
+  };
+
+  const hasFilters = Object.keys(filters).length > 0;
+
+  return (
+    <div className="mt-4 flex flex-wrap items-center gap-2">
+      <span className="text-sm text-gray-600 flex items-center mr-1">
+        <Bookmark className="h-4 w-4 mr-1" />
+        Saved searches:
+      </span>
+
+      {savedSearches.length === 0 && (
+        <span className="text-sm text-gray-400">None yet</span>
+      )}
+
+      {savedSearches.map(search => (
+        <div key={search._id} className="flex items-center bg-gray-100 rounded-full pl-3 pr-1 py-1 text-sm">
+          <button
+            onClick={() => handleApply(search)}
+            className="text-gray-800 hover:text-blue-600 font-medium"
+          >
+            {search.name}
+          </button>
+          <button
+            onClick={() => handleToggleAlerts(search)}
+            title={search.alerts.enabled ? `Alerts on (${search.alerts.frequency})` : 'Alerts off'}
+            className="ml-2 p-1 text-gray-500 hover:text-gray-700"
+          >
+            {search.alerts.enabled
+              ? <Bell className="h-3 w-3 text-blue-600" />
+              : <BellOff className="h-3 w-3" />}
+          </button>
+          <button
+            onClick={() => handleDelete(search)}
+            className="p-1 text-gray-400 hover:text-red-600"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      ))}
+
+      <button
+        onClick={() => setShowSaveModal(true)}
+        disabled={!hasFilters}
+        title={hasFilters ? undefined : 'Choose some filters to save a search'}
+        className="text-sm text-blue-600 hover:text-blue-700 disabled:text-gray-400 font-medium ml-1"
+      >
+        + Save this search
+      </button>
+
+      {/* Save Search Modal */}
+      {showSaveModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md">
+            <div className="p-6">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">Save Search</h2>
+              <div className="space-y-4 mb-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="e.g. Copper scrap near Pune"
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Alert me about new matching listings</label>
+                  <select
+                    value={alertFrequency}
+                    onChange={(e) => setAlertFrequency(e.target.value as 'instant' | 'daily' | 'off')}
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="instant">As soon as they are listed</option>
+                    <option value="daily">In a daily digest</option>
+                    <option value="off">Don't alert me</option>
+                  </select>
+                </div>
+              </div>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setShowSaveModal(false)}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={saving || !name.trim()}
+                  className="flex-1 px-4 py-2 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white rounded-lg font-medium transition-colors"
+                >
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedSearches;
@@ -2,13 +2,17 @@ import React, { useState, useEffect } from 'react';
 import {
   Users, TrendingUp, DollarSign, Package, AlertTriangle,
   CheckCircle, Eye, Ban, UserCheck, Building,
-  BarChart3, Globe, Shield
+  BarChart3, Globe, Shield, Scale, Percent
 } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
 import { useApp } from '../context/AppContext';
 import api from '../services/api'; // adjust path to your API utility
+import type { Dispute } from '../components/DisputePanel';
+import FeeSchedulePanel from '../components/FeeSchedulePanel';
 
 const AdminDashboard: React.FC = () => {
   const { user } = useApp();
+  const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState('overview');
   const [stats, setStats] = useState<any>(null);
   const [recentUsers, setRecentUsers] = useState<any[]>([]);
@@ -17,6 +21,8 @@ const AdminDashboard: React.FC = () => {
   const [systemHealth, setSystemHealth] = useState<any>(null);
   const [systemAlerts, setSystemAlerts] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [disputeFilter, setDisputeFilter] = useState('unresolved');
 
   const fetchDashboard = async () => {
     setLoading(true);
@@ -49,6 +55,23 @@ const AdminDashboard: React.FC = () => {
   };
   
 
+  useEffect(() => {
+    if (activeTab !== 'disputes') return;
+
+    const fetchDisputes = async () => {
+      try {
+        const params: Record<string, string> = { limit: '100' };
+        if (disputeFilter !== 'all') params.status = disputeFilter;
+        const response = await api.getDisputes(params);
+        setDisputes(response.data.disputes);
+      } catch (error) {
+        console.error('Failed to fetch disputes:', error);
+      }
+    };
+
+    fetchDisputes();
+  }, [activeTab, disputeFilter]);
+
   useEffect(() => {
     fetchDashboard();
     const interval = setInterval(() => {
@@ -98,6 +121,8 @@ const AdminDashboard: React.FC = () => {
               { id: 'overview', label: 'Overview', icon: BarChart3 },
               { id: 'users', label: 'User Management', icon: Users },
               { id: 'transactions', label: 'Transactions', icon: DollarSign },
+              { id: 'disputes', label: 'Disputes', icon: Scale },
+              { id: 'fees', label: 'Fees', icon: Percent },
               { id: 'system', label: 'System Health', icon: Shield },
             ].map((tab) => (
               <button
@@ -403,6 +428,87 @@ const AdminDashboard: React.FC = () => {
         </div>
       )}
 
+      {/* Disputes Tab */}
+      {activeTab === 'disputes' && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+          <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+            <h3 className="text-lg font-semibold text-gray-900">Dispute Queue</h3>
+            <select
+              value={disputeFilter}
+              onChange={(e) => setDisputeFilter(e.target.value)}
+              className="border border-gray-300 rounded-md px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="unresolved">Unresolved</option>
+              <option value="open">Open</option>
+              <option value="investigating">Investigating</option>
+              <option value="escalated">Escalated</option>
+              <option value="resolved">Resolved</option>
+              <option value="all">All</option>
+            </select>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Dispute</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Contract</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Raised By</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Against</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Subject</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Opened</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {disputes.length === 0 ? (
+                  <tr>
+                    <td colSpan={8} className="px-6 py-8 text-center text-sm text-gray-500">No disputes in this queue</td>
+                  </tr>
+                ) : disputes.map((dispute) => (
+                  <tr key={dispute._id}>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="font-medium text-gray-900">{dispute.disputeNumber}</div>
+                      <div className="text-gray-500">{dispute.reason}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{dispute.contract.contractNumber}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{dispute.raisedBy.company?.name || dispute.raisedBy.name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">{dispute.against.company?.name || dispute.against.name}</td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 capitalize">
+                      {dispute.subject.type} · {dispute.category}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full capitalize ${
+                        dispute.status === 'resolved' ? 'bg-green-100 text-green-800' :
+                        dispute.status === 'escalated' ? 'bg-purple-100 text-purple-800' :
+                        dispute.status === 'investigating' ? 'bg-yellow-100 text-yellow-800' :
+                        'bg-red-100 text-red-800'
+                      }`}>
+                        {dispute.status}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {new Date(dispute.createdAt).toLocaleDateString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                      <button
+                        onClick={() => navigate(`/contracts/${dispute.contract._id}`)}
+                        className="text-blue-600 hover:text-blue-900"
+                      >
+                        <Eye className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      {/* Fees Tab */}
+      {activeTab === 'fees' && <FeeSchedulePanel />}
+
       {/* System Health Tab */}
       {activeTab === 'system' && (
         <div className="space-y-6">
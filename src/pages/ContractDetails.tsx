@@ -1,13 +1,43 @@
-import React, { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { 
   ArrowLeft, FileText, Download, CheckCircle, Clock, AlertTriangle, Shield, 
   Calendar, User, Building, DollarSign, MapPin, CreditCard, Package, 
-  Eye, Edit, MessageCircle, Truck, AlertCircle
+  Eye, Edit, MessageCircle, Truck, AlertCircle, RotateCcw
 } from 'lucide-react';
 import { useApp } from '../context/AppContext';
 import { apiService } from '../services/api';
-import html2pdf from 'html2pdf.js';
+import { signWithWallet } from '../utils/walletSigner';
+import DisputePanel from '../components/DisputePanel';
+import MilestoneTracker from '../components/MilestoneTracker';
+import type { Milestone } from '../components/MilestoneTracker';
+
+interface Payment {
+  _id: string;
+  paymentId: string;
+  status: 'pending' | 'paid_to_platform' | 'held_in_escrow' | 'released_to_seller' | 'refunded' | 'failed';
+  amount: {
+    total: number;
+    sellerAmount: number;
+    platformFee: number;
+    currency: string;
+  };
+  refund?: {
+    status: 'none' | 'requested' | 'processing' | 'rejected' | 'processed';
+    requestedAt?: string;
+    reason?: string;
+    requestedAmount?: number;
+    approvedAt?: string;
+    rejectionReason?: string;
+    refundAmount?: number;
+    refundTransactionId?: string;
+  };
+  timeline: {
+    status: string;
+    timestamp: string;
+    description: string;
+  }[];
+}
 
 interface Contract {
   _id: string;
@@ -24,6 +54,7 @@ interface Contract {
       };
       signedAt?: string;
       signature?: string;
+      signerAddress?: string;
     };
     buyer: {
       user: {
@@ -35,6 +66,7 @@ interface Contract {
       };
       signedAt?: string;
       signature?: string;
+      signerAddress?: string;
     };
   };
   relatedNegotiation?: {
@@ -76,54 +108,187 @@ interface Contract {
     contractAddress?: string;
     deployedAt?: string;
   };
-  paymentStatus: 'not_initiated' | 'pending' | 'held' | 'released' | 'refunded';
-  payment?: any;
+  milestones: Milestone[];
+  paymentStatus: 'not_initiated' | 'pending' | 'held_in_escrow' | 'released_to_seller' | 'refunded' | 'failed';
+  payment?: Payment;
   platformFee?: {
-    percentage: number;
-    amount: number;
+    percentage?: number;
+    amount?: number;
+    ruleName?: string;
     paid: boolean;
   };
   createdAt: string;
   updatedAt: string;
 }
 
+interface PdfVerification {
+  sha256: string;
+  matchesRecordedPdf: boolean;
+  isLatestVersion: boolean;
+  generatedAt?: string;
+  termsMatchChain: boolean | null;
+  contractAddress?: string;
+}
+
+interface PartySignatureStatus {
+  signed: boolean;
+  valid: boolean;
+  signerAddress: string | null;
+}
+
+interface SignatureStatus {
+  termsHash: string;
+  seller: PartySignatureStatus;
+  buyer: PartySignatureStatus;
+}
+
+interface PaymentScheduleItem {
+  installment: 'full' | 'advance' | 'balance';
+  label: string;
+  amount: number;
+  dueOn: 'signing' | 'delivery';
+  netDays: number;
+  settlement: 'escrow' | 'cod';
+  dueDate?: string;
+  payment: {
+    _id: string;
+    paymentId: string;
+    status: Payment['status'];
+  } | null;
+}
+
+interface FeePreview {
+  fee: {
+    percentage: number;
+    amount: number;
+    ruleName: string;
+  };
+  installments: {
+    installment: PaymentScheduleItem['installment'];
+    dueOn: PaymentScheduleItem['dueOn'];
+    amount: number;
+    platformFee: number;
+    sellerAmount: number;
+  }[];
+}
+
+interface InvoiceSummary {
+  _id: string;
+  invoiceNumber: string;
+  type: 'invoice' | 'credit_note' | 'platform_fee';
+  issuedAt: string;
+  supplyType: 'intra_state' | 'inter_state';
+  originalInvoice?: {
+    invoiceNumber: string;
+  };
+  totals: {
+    taxableValue: number;
+    cgst: number;
+    sgst: number;
+    igst: number;
+    total: number;
+  };
+}
+
+const INVOICE_TYPE_LABELS: Record<InvoiceSummary['type'], string> = {
+  invoice: 'Invoice',
+  credit_note: 'Credit note',
+  platform_fee: 'Platform fee invoice'
+};
+
+const PAYMENT_PROVIDER_LABELS: Record<string, string> = {
+  razorpay: 'Razorpay',
+  stripe: 'Stripe',
+  payu: 'PayU',
+  fake: 'Test gateway'
+};
+
 const ContractDetails: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { user } = useApp();
   const [contract, setContract] = useState<Contract | null>(null);
   const [loading, setLoading] = useState(true);
   const [signingContract, setSigningContract] = useState(false);
   const [showSignModal, setShowSignModal] = useState(false);
   const [downloadingPdf, setDownloadingPdf] = useState(false);
+  const [verifyingPdf, setVerifyingPdf] = useState(false);
+  const [pdfVerification, setPdfVerification] = useState<PdfVerification | null>(null);
+  const [signatureStatus, setSignatureStatus] = useState<SignatureStatus | null>(null);
+  const [paymentProviders, setPaymentProviders] = useState<string[]>([]);
+  const [paymentProvider, setPaymentProvider] = useState('');
+  const [paymentSchedule, setPaymentSchedule] = useState<PaymentScheduleItem[]>([]);
+  const [feePreview, setFeePreview] = useState<FeePreview | null>(null);
+  const [codMethod, setCodMethod] = useState('cash');
+  const [settlingCod, setSettlingCod] = useState(false);
+  const [invoices, setInvoices] = useState<InvoiceSummary[]>([]);
+  const [refundAction, setRefundAction] = useState<'request' | 'approve' | 'reject' | null>(null);
+  const [refundReason, setRefundReason] = useState('');
+  const [refundAmount, setRefundAmount] = useState('');
+  const [submittingRefund, setSubmittingRefund] = useState(false);
 
   useEffect(() => {
-    if (id) {
-      fetchContract();
+    apiService.getPaymentGateways()
+      .then(response => {
+        setPaymentProviders(response.data.providers);
+        setPaymentProvider(response.data.defaultProvider || '');
+      })
+      .catch(error => console.error('Failed to fetch payment providers:', error));
+  }, []);
+
+  // Stripe and PayU send the buyer back here after their hosted checkout
+  const completeHostedCheckout = useCallback(async () => {
+    const paymentId = searchParams.get('paymentId');
+    const sessionId = searchParams.get('sessionId');
+    const paymentStatus = searchParams.get('paymentStatus');
+    if (!paymentId && !paymentStatus) return;
+
+    setSearchParams({}, { replace: true });
+
+    if (paymentStatus) {
+      alert(paymentStatus === 'success' ? '🎉 Payment verified and held in escrow!' : 'Payment failed. Please try again.');
+      return;
     }
-  }, [id]);
+    // No session id means the buyer cancelled the checkout
+    if (!paymentId || !sessionId) return;
+
+    try {
+      await apiService.verifyPayment(paymentId, { sessionId });
+      alert('🎉 Payment verified and held in escrow!');
+    } catch (error) {
+      console.error('Failed to verify payment:', error);
+      alert(error instanceof Error ? error.message : 'Payment verification failed. Please contact support.');
+    }
+  }, [searchParams, setSearchParams]);
 
-  const fetchContract = async () => {
+  const fetchContract = useCallback(async () => {
     try {
       setLoading(true);
       const response = await apiService.getContract(id!);
       if (response.success) {
         setContract(response.data.contract);
+        setSignatureStatus(response.data.signatureStatus || null);
+        setPaymentSchedule(response.data.paymentSchedule || []);
+
+        const invoicesResponse = await apiService.getInvoices({ contractId: id! });
+        setInvoices(invoicesResponse.data?.invoices || []);
+
+        const feeResponse = await apiService.getFeePreview({ contractId: id! });
+        setFeePreview(feeResponse.data || null);
       }
     } catch (error) {
       console.error('Failed to fetch contract:', error);
     } finally {
       setLoading(false);
     }
-  };
+  }, [id]);
 
-  // Helper function to calculate platform fee amount
-  const calculatePlatformFeeAmount = (contract: Contract) => {
-    if (!contract.platformFee || !contract.terms.totalValue) {
-      return 0;
+  useEffect(() => {
+    if (id) {
+      completeHostedCheckout().finally(fetchContract);
     }
-    return Math.round((contract.terms.totalValue * 2.5) / 100);
-  };
+  }, [id, completeHostedCheckout, fetchContract]);
 
   const confirmDelivery = async (payment: any) => {
     try {
@@ -136,213 +301,136 @@ const ContractDetails: React.FC = () => {
     }
   };
 
-  // Function to handle PDF download
+  // Cash on delivery never passes through the platform; the seller records it once received
+  const handleSettleCod = async (paymentId: string) => {
+    const reference = codMethod === 'cash' ? undefined : window.prompt('Cheque or transaction reference (optional):') ?? undefined;
+
+    try {
+      setSettlingCod(true);
+      const response = await apiService.settleCodPayment(paymentId, codMethod, reference || undefined);
+      if (response.success) {
+        fetchContract();
+      }
+    } catch (error) {
+      console.error('Failed to record payment:', error);
+      alert(error instanceof Error ? error.message : 'Failed to record payment. Please try again.');
+    } finally {
+      setSettlingCod(false);
+    }
+  };
+
+  const getInstallmentDueText = (item: PaymentScheduleItem) => {
+    if (item.dueDate) return `Due ${new Date(item.dueDate).toLocaleDateString()}`;
+    if (item.dueOn === 'signing') return 'Due after signing';
+    return item.netDays > 0 ? `Due ${item.netDays} days after delivery` : 'Due on delivery';
+  };
+
+  const openRefundModal = (action: 'request' | 'approve' | 'reject') => {
+    const payment = contract?.payment;
+    setRefundReason('');
+    setRefundAmount(
+      action === 'approve'
+        ? String(payment?.refund?.requestedAmount ?? payment?.amount.total ?? '')
+        : action === 'request' ? String(payment?.amount.total ?? '') : ''
+    );
+    setRefundAction(action);
+  };
+
+  const handleRefundSubmit = async () => {
+    const payment = contract?.payment;
+    if (!payment || !refundAction) return;
+
+    const amount = refundAmount ? parseFloat(refundAmount) : undefined;
+
+    try {
+      setSubmittingRefund(true);
+      const response = refundAction === 'request'
+        ? await apiService.requestRefund(payment._id, refundReason, amount)
+        : refundAction === 'approve'
+          ? await apiService.approveRefund(payment._id, amount)
+          : await apiService.rejectRefund(payment._id, refundReason);
+
+      if (response.success) {
+        setRefundAction(null);
+        fetchContract();
+      }
+    } catch (error) {
+      console.error('Failed to update refund:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update refund. Please try again.');
+    } finally {
+      setSubmittingRefund(false);
+    }
+  };
+
+  const getRefundStatusColor = (status: string) => {
+    switch (status) {
+      case 'requested':
+        return 'bg-yellow-100 text-yellow-800';
+      case 'processing':
+        return 'bg-blue-100 text-blue-800';
+      case 'processed':
+        return 'bg-green-100 text-green-800';
+      case 'rejected':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  // The PDF is rendered on the server so every download of the same agreement has the same hash
   const handleDownloadPdf = async () => {
     if (!contract) return;
 
     try {
       setDownloadingPdf(true);
-      
-      // Create the PDF content element
-      const element = document.createElement('div');
-      element.innerHTML = `
-        <div style="font-family: 'Times New Roman', serif; color: #2c3e50; padding: 40px; max-width: 800px; margin: 0 auto; background: white;">
-          <!-- Header -->
-          <div style="text-align: center; border-bottom: 2px solid #34495e; padding-bottom: 20px; margin-bottom: 30px;">
-            <h1 style="color: #2c3e50; font-size: 24px; margin-bottom: 8px; font-weight: 700; text-transform: uppercase; letter-spacing: 1px;">
-              SMART CONTRACT AGREEMENT
-            </h1>
-          </div>
-          
-          <!-- Contract Meta -->
-          <div style="background: #f8f9fa; padding: 15px; border: 1px solid #dee2e6; margin-bottom: 25px;">
-            <p style="margin: 3px 0; font-size: 11px; color: #495057;"><strong>Contract Title:</strong> ${contract.title}</p>
-            <p style="margin: 3px 0; font-size: 11px; color: #495057;"><strong>Contract Number:</strong> ${contract.contractNumber}</p>
-            <p style="margin: 3px 0; font-size: 11px; color: #495057;"><strong>Status:</strong> ${contract.status.charAt(0).toUpperCase() + contract.status.slice(1)}</p>
-            <p style="margin: 3px 0; font-size: 11px; color: #495057;"><strong>Created:</strong> ${new Date(contract.createdAt).toLocaleString()}</p>
-            <p style="margin: 3px 0; font-size: 11px; color: #495057;"><strong>Last Updated:</strong> ${new Date(contract.updatedAt).toLocaleString()}</p>
-          </div>
+      const { blob } = await apiService.downloadContractPdf(contract._id);
 
-          <!-- Parties Section -->
-          <div style="margin: 25px 0;">
-            <h2 style="color: #2c3e50; margin: 25px 0 15px 0; font-size: 16px; border-bottom: 1px solid #dee2e6; padding-bottom: 5px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px;">
-              CONTRACTING PARTIES
-            </h2>
-            <div style="display: grid; grid-template-columns: 1fr 1fr; gap: 20px; margin: 15px 0;">
-              <div style="background: #ffffff; padding: 15px; border: 1px solid #dee2e6;">
-                <h3 style="margin-top: 0; color: #495057; font-size: 12px; margin-bottom: 10px; text-transform: uppercase; letter-spacing: 0.5px;">SELLER</h3>
-                <p style="margin: 5px 0; font-size: 11px; color: #6c757d;"><strong>Name:</strong> ${contract.parties.seller.user.name}</p>
-                <p style="margin: 5px 0; font-size: 11px; color: #6c757d;"><strong>Company:</strong> ${contract.parties.seller.user.company.name}</p>
-                <div style="display: inline-block; padding: 3px 6px; border: 1px solid #dee2e6; font-size: 9px; font-weight: 600; margin-top: 8px; background: #f8f9fa; color: #495057;">
-                  ${contract.parties.seller.signedAt ? `Signed on ${new Date(contract.parties.seller.signedAt).toLocaleDateString()}` : 'Pending Signature'}
-                </div>
-              </div>
-              <div style="background: #ffffff; padding: 15px; border: 1px solid #dee2e6;">
-                <h3 style="margin-top: 0; color: #495057; font-size: 12px; margin-bottom: 10px; text-transform: uppercase; letter-spacing: 0.5px;">BUYER</h3>
-                <p style="margin: 5px 0; font-size: 11px; color: #6c757d;"><strong>Name:</strong> ${contract.parties.buyer.user.name}</p>
-                <p style="margin: 5px 0; font-size: 11px; color: #6c757d;"><strong>Company:</strong> ${contract.parties.buyer.user.company.name}</p>
-                <div style="display: inline-block; padding: 3px 6px; border: 1px solid #dee2e6; font-size: 9px; font-weight: 600; margin-top: 8px; background: #f8f9fa; color: #495057;">
-                  ${contract.parties.buyer.signedAt ? `Signed on ${new Date(contract.parties.buyer.signedAt).toLocaleDateString()}` : 'Pending Signature'}
-                </div>
-              </div>
-            </div>
-          </div>
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${contract.contractNumber}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to download PDF:', error);
+      alert(error instanceof Error ? error.message : 'Failed to download PDF. Please try again.');
+    } finally {
+      setDownloadingPdf(false);
+    }
+  };
 
-          <!-- Terms Section -->
-          <div style="margin: 25px 0;">
-            <h2 style="color: #2c3e50; margin: 25px 0 15px 0; font-size: 16px; border-bottom: 1px solid #dee2e6; padding-bottom: 5px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px;">
-              CONTRACT TERMS & CONDITIONS
-            </h2>
-            <div style="display: grid; grid-template-columns: repeat(auto-fit, minmax(180px, 1fr)); gap: 15px; margin: 15px 0;">
-              <div style="background: #ffffff; padding: 12px; border: 1px solid #dee2e6;">
-                <span style="font-weight: 600; color: #6c757d; font-size: 9px; text-transform: uppercase; letter-spacing: 0.5px; margin-bottom: 5px; display: block;">Material Type</span>
-                <div style="color: #2c3e50; font-size: 11px; font-weight: 500;">${contract.terms.materialType}</div>
-              </div>
-              <div style="background: #ffffff; padding: 12px; border: 1px solid #dee2e6;">
-                <span style="font-weight: 600; color: #6c757d; font-size: 9px; text-transform: uppercase; letter-spacing: 0.5px; margin-bottom: 5px; display: block;">Quantity</span>
-                <div style="color: #2c3e50; font-size: 11px; font-weight: 500;">${contract.terms.quantity.value} ${contract.terms.quantity.unit}</div>
-              </div>
-              <div style="background: #ffffff; padding: 12px; border: 1px solid #dee2e6;">
-                <span style="font-weight: 600; color: #6c757d; font-size: 9px; text-transform: uppercase; letter-spacing: 0.5px; margin-bottom: 5px; display: block;">Unit Price</span>
-                <div style="color: #2c3e50; font-size: 11px; font-weight: 500;">₹${contract.terms.price.value.toLocaleString()} ${contract.terms.price.currency}</div>
-              </div>
-              <div style="background: #ffffff; padding: 12px; border: 1px solid #dee2e6;">
-                <span style="font-weight: 600; color: #6c757d; font-size: 9px; text-transform: uppercase; letter-spacing: 0.5px; margin-bottom: 5px; display: block;">Total Contract Value</span>
-                <div style="color: #2c3e50; font-size: 13px; font-weight: 700;">₹${contract.terms.totalValue.toLocaleString()}</div>
-              </div>
-              <div style="background: #ffffff; padding: 12px; border: 1px solid #dee2e6;">
-                <span style="font-weight: 600; color: #6c757d; font-size: 9px; text-transform: uppercase; letter-spacing: 0.5px; margin-bottom: 5px; display: block;">Delivery Date</span>
-                <div style="color: #2c3e50; font-size: 11px; font-weight: 500;">${new Date(contract.terms.deliveryDate).toLocaleDateString()}</div>
-              </div>
-              <div style="background: #ffffff; padding: 12px; border: 1px solid #dee2e6;">
-                <span style="font-weight: 600; color: #6c757d; font-size: 9px; text-transform: uppercase; letter-spacing: 0.5px; margin-bottom: 5px; display: block;">Payment Terms</span>
-                <div style="color: #2c3e50; font-size: 11px; font-weight: 500;">${contract.terms.paymentTerms.replace('-', ' ').toUpperCase()}</div>
-              </div>
-            </div>
-            
-            ${contract.terms.deliveryLocation ? `
-            <div style="margin: 20px 0; padding: 15px; background: #f8f9fa; border: 1px solid #dee2e6;">
-              <h3 style="color: #495057; margin: 15px 0 10px 0; font-size: 13px; font-weight: 600;">Delivery Location</h3>
-              <div>
-                <p style="margin: 5px 0; padding: 5px 0; border-bottom: 1px solid #dee2e6; font-size: 11px;"><strong>Address:</strong> ${contract.terms.deliveryLocation.address}</p>
-                <p style="margin: 5px 0; padding: 5px 0; border-bottom: 1px solid #dee2e6; font-size: 11px;"><strong>City:</strong> ${contract.terms.deliveryLocation.city}</p>
-                <p style="margin: 5px 0; padding: 5px 0; border-bottom: 1px solid #dee2e6; font-size: 11px;"><strong>State:</strong> ${contract.terms.deliveryLocation.state}</p>
-                ${contract.terms.deliveryLocation.pincode ? `<p style="margin: 5px 0; padding: 5px 0; font-size: 11px;"><strong>Pincode:</strong> ${contract.terms.deliveryLocation.pincode}</p>` : ''}
-              </div>
-            </div>
-            ` : ''}
-            
-            ${contract.terms.qualitySpecs ? `
-            <div style="margin: 20px 0; padding: 15px; background: #f8f9fa; border: 1px solid #dee2e6;">
-              <h3 style="color: #495057; margin: 15px 0 10px 0; font-size: 13px; font-weight: 600;">Quality Specifications</h3>
-              <p style="font-size: 11px;">${contract.terms.qualitySpecs}</p>
-            </div>
-            ` : ''}
-            
-            ${contract.terms.packagingRequirements ? `
-            <div style="margin: 20px 0; padding: 15px; background: #f8f9fa; border: 1px solid #dee2e6;">
-              <h3 style="color: #495057; margin: 15px 0 10px 0; font-size: 13px; font-weight: 600;">Packaging Requirements</h3>
-              <p style="font-size: 11px;">${contract.terms.packagingRequirements}</p>
-            </div>
-            ` : ''}
-            
-            ${contract.terms.inspectionRights ? `
-            <div style="margin: 20px 0; padding: 15px; background: #f8f9fa; border: 1px solid #dee2e6;">
-              <h3 style="color: #495057; margin: 15px 0 10px 0; font-size: 13px; font-weight: 600;">Inspection Rights</h3>
-              <p style="font-size: 11px;">${contract.terms.inspectionRights}</p>
-            </div>
-            ` : ''}
-            
-            ${contract.terms.penalties ? `
-            <div style="margin: 20px 0; padding: 15px; background: #f8f9fa; border: 1px solid #dee2e6;">
-              <h3 style="color: #495057; margin: 15px 0 10px 0; font-size: 13px; font-weight: 600;">Penalty Terms</h3>
-              <div>
-                ${contract.terms.penalties.lateDelivery ? `<div style="margin: 5px 0; padding: 5px 0; border-bottom: 1px solid #dee2e6; font-size: 11px;"><strong>Late Delivery:</strong> ${contract.terms.penalties.lateDelivery}</div>` : ''}
-                ${contract.terms.penalties.qualityIssues ? `<div style="margin: 5px 0; padding: 5px 0; border-bottom: 1px solid #dee2e6; font-size: 11px;"><strong>Quality Issues:</strong> ${contract.terms.penalties.qualityIssues}</div>` : ''}
-                ${contract.terms.penalties.cancellation ? `<div style="margin: 5px 0; padding: 5px 0; font-size: 11px;"><strong>Cancellation:</strong> ${contract.terms.penalties.cancellation}</div>` : ''}
-              </div>
-            </div>
-            ` : ''}
-          </div>
+  const handleDownloadInvoice = async (invoice: InvoiceSummary, format: 'pdf' | 'einvoice') => {
+    try {
+      const blob = await apiService.downloadInvoice(invoice._id, format);
 
-          ${contract.blockchain?.deployed ? `
-          <div style="background: #f8f9fa; padding: 15px; border: 1px solid #dee2e6; margin: 25px 0;">
-            <h2 style="color: #495057; margin-top: 0; color: #2c3e50; margin: 25px 0 15px 0; font-size: 16px; border-bottom: 1px solid #dee2e6; padding-bottom: 5px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px;">BLOCKCHAIN SECURITY</h2>
-            <p style="font-size: 11px; color: #6c757d; margin-bottom: 15px; font-style: italic;">This contract is secured on the blockchain, ensuring immutability and transparency.</p>
-            ${contract.blockchain.transactionHash ? `
-            <div style="margin: 10px 0; padding: 8px; background: #ffffff; border: 1px solid #dee2e6; font-size: 10px;">
-              <strong>Transaction Hash:</strong>
-              <div style="background: #f8f9fa; padding: 2px 4px; font-family: 'Courier New', monospace; font-size: 9px; word-break: break-all; margin-top: 3px; border: 1px solid #dee2e6;">${contract.blockchain.transactionHash}</div>
-            </div>` : ''}
-            ${contract.blockchain.contractAddress ? `
-            <div style="margin: 10px 0; padding: 8px; background: #ffffff; border: 1px solid #dee2e6; font-size: 10px;">
-              <strong>Contract Address:</strong>
-              <div style="background: #f8f9fa; padding: 2px 4px; font-family: 'Courier New', monospace; font-size: 9px; word-break: break-all; margin-top: 3px; border: 1px solid #dee2e6;">${contract.blockchain.contractAddress}</div>
-            </div>` : ''}
-            ${contract.blockchain.deployedAt ? `
-            <div style="margin: 10px 0; padding: 8px; background: #ffffff; border: 1px solid #dee2e6; font-size: 10px;">
-              <strong>Deployed At:</strong>
-              <span style="margin-left: 5px;">${new Date(contract.blockchain.deployedAt).toLocaleString()}</span>
-            </div>` : ''}
-          </div>
-          ` : ''}
-
-          ${contract.platformFee ? `
-          <div style="background: #f8f9fa; padding: 15px; border: 1px solid #dee2e6; margin: 25px 0;">
-            <h2 style="color: #495057; margin-top: 0; color: #2c3e50; margin: 25px 0 15px 0; font-size: 16px; border-bottom: 1px solid #dee2e6; padding-bottom: 5px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px;">PLATFORM FEE</h2>
-            <div style="display: grid; grid-template-columns: repeat(auto-fit, minmax(120px, 1fr)); gap: 10px;">
-              <div style="background: #ffffff; padding: 10px; border: 1px solid #dee2e6; text-align: center;">
-                <span style="display: block; font-size: 9px; color: #6c757d; font-weight: 600; margin-bottom: 3px; text-transform: uppercase;">Fee Rate</span>
-                <span style="font-size: 11px; font-weight: 600; color: #2c3e50;">2.5%</span>
-              </div>
-              <div style="background: #ffffff; padding: 10px; border: 1px solid #dee2e6; text-align: center;">
-                <span style="display: block; font-size: 9px; color: #6c757d; font-weight: 600; margin-bottom: 3px; text-transform: uppercase;">Amount</span>
-                <span style="font-size: 11px; font-weight: 600; color: #2c3e50;">₹${calculatePlatformFeeAmount(contract).toLocaleString()}</span>
-              </div>
-              <div style="background: #ffffff; padding: 10px; border: 1px solid #dee2e6; text-align: center;">
-                <span style="display: block; font-size: 9px; color: #6c757d; font-weight: 600; margin-bottom: 3px; text-transform: uppercase;">Status</span>
-                <span style="font-size: 9px; font-weight: 600; padding: 2px 4px; border: 1px solid #dee2e6; background: #f8f9fa; color: #495057;">${contract.platformFee.paid ? 'PAID' : 'PENDING'}</span>
-              </div>
-            </div>
-          </div>
-          ` : ''}
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${invoice.invoiceNumber.replace(/\//g, '-')}.${format === 'pdf' ? 'pdf' : 'json'}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to download invoice:', error);
+      alert(error instanceof Error ? error.message : 'Failed to download invoice. Please try again.');
+    }
+  };
 
-          <!-- Footer -->
-          <div style="margin-top: 40px; padding-top: 20px; border-top: 1px solid #dee2e6; text-align: center; color: #6c757d;">
-            <p style="margin: 3px 0; font-size: 11px; font-weight: 600; color: #495057;">WasteExchange Platform</p>
-            <p style="margin: 3px 0; font-size: 10px;"><em>Blockchain-Secured Smart Contract System</em></p>
-            <p style="margin: 3px 0; font-size: 10px;"><small>Document generated on: ${new Date().toLocaleString()}</small></p>
-          </div>
-        </div>
-      `;
-
-      // Configure PDF options
-      const options = {
-        margin: 0.5,
-        filename: `contract_${contract.contractNumber}.pdf`,
-        image: { type: 'jpeg', quality: 0.98 },
-        html2canvas: { 
-          scale: 2,
-          useCORS: true,
-          letterRendering: true,
-          allowTaint: false,
-          backgroundColor: '#ffffff'
-        },
-        jsPDF: { 
-          unit: 'in', 
-          format: 'a4', 
-          orientation: 'portrait'
-        }
-      };
+  const handleVerifyPdf = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!contract || !file) return;
 
-      // Generate and download the PDF
-      await html2pdf().set(options).from(element).save();
-      
+    try {
+      setVerifyingPdf(true);
+      const response = await apiService.verifyContractPdf(contract._id, file);
+      if (response.success) {
+        setPdfVerification(response.data);
+      }
     } catch (error) {
-      console.error('Failed to generate PDF:', error);
-      alert('Failed to generate PDF. Please try again.');
+      console.error('Failed to verify PDF:', error);
+      alert(error instanceof Error ? error.message : 'Failed to verify PDF. Please try again.');
     } finally {
-      setDownloadingPdf(false);
+      setVerifyingPdf(false);
     }
   };
 
@@ -351,8 +439,10 @@ const ContractDetails: React.FC = () => {
 
     try {
       setSigningContract(true);
-      const signature = `${user?.name}-${Date.now()}`;
-      
+      // Sign the contract's terms hash with the user's wallet; the server verifies it before recording
+      const request = await apiService.getContractSigningRequest(contract._id);
+      const signature = await signWithWallet(request.data.signingRequest);
+
       const response = await apiService.signContract(contract._id, signature);
       if (response.success) {
         await fetchContract();
@@ -361,7 +451,7 @@ const ContractDetails: React.FC = () => {
       }
     } catch (error) {
       console.error('Failed to sign contract:', error);
-      alert('Failed to sign contract. Please try again.');
+      alert(error instanceof Error ? error.message : 'Failed to sign contract. Please try again.');
     } finally {
       setSigningContract(false);
     }
@@ -474,6 +564,19 @@ const ContractDetails: React.FC = () => {
   const counterparty = getCounterparty();
   const userRole = getUserRole();
   const userIsBuyer = userRole === 'buyer';
+  const refund = contract.payment?.refund;
+  const refundHistory = contract.payment?.timeline.filter(entry => entry.status.startsWith('refund')) || [];
+  const canRequestRefund = userIsBuyer &&
+    contract.payment?.status === 'held_in_escrow' &&
+    refund?.status !== 'requested' && refund?.status !== 'processing';
+  // What the buyer can pay online now: an open invoice, or the upfront installment once signed
+  const payableInstallment = paymentSchedule.find(item =>
+    item.settlement === 'escrow' && (item.payment
+      ? ['pending', 'failed'].includes(item.payment.status)
+      : item.dueOn === 'signing' && contract.status === 'signed')
+  );
+  const codInstallment = paymentSchedule.find(item => item.settlement === 'cod' && item.payment?.status === 'pending');
+  const codPaymentId = codInstallment?.payment?._id;
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
@@ -650,6 +753,26 @@ const ContractDetails: React.FC = () => {
               )}
             </div>
           )}
+
+          {/* Milestones */}
+          {contract.status !== 'draft' && (
+            <MilestoneTracker
+              contractId={contract._id}
+              milestones={contract.milestones || []}
+              canEdit={user?.type !== 'admin' && !['completed', 'cancelled'].includes(contract.status)}
+              onChange={(milestones) => setContract(prev => prev && { ...prev, milestones })}
+            />
+          )}
+
+          {/* Disputes */}
+          {contract.status !== 'draft' && (
+            <DisputePanel
+              contractId={contract._id}
+              currentUserId={user?._id}
+              isAdmin={user?.type === 'admin'}
+              onChange={fetchContract}
+            />
+          )}
         </div>
 
         {/* Sidebar */}
@@ -668,10 +791,24 @@ const ContractDetails: React.FC = () => {
                   </div>
                 </div>
                 {contract.parties.seller.signedAt ? (
-                  <div className="flex items-center text-green-600">
-                    <CheckCircle className="h-5 w-5 mr-1" />
-                    <span className="text-sm font-medium">Signed</span>
-                  </div>
+                  signatureStatus && !signatureStatus.seller.valid ? (
+                    <div className="flex items-center text-red-600">
+                      <AlertTriangle className="h-5 w-5 mr-1" />
+                      <span className="text-sm font-medium">Signature invalid</span>
+                    </div>
+                  ) : (
+                    <div className="flex flex-col items-end text-green-600">
+                      <div className="flex items-center">
+                        <CheckCircle className="h-5 w-5 mr-1" />
+                        <span className="text-sm font-medium">Signed</span>
+                      </div>
+                      {contract.parties.seller.signerAddress && (
+                        <span className="text-xs text-gray-500 font-mono" title={contract.parties.seller.signerAddress}>
+                          {contract.parties.seller.signerAddress.slice(0, 6)}...{contract.parties.seller.signerAddress.slice(-4)}
+                        </span>
+                      )}
+                    </div>
+                  )
                 ) : (
                   <div className="flex items-center text-gray-400">
                     <Clock className="h-5 w-5 mr-1" />
@@ -689,10 +826,24 @@ const ContractDetails: React.FC = () => {
                   </div>
                 </div>
                 {contract.parties.buyer.signedAt ? (
-                  <div className="flex items-center text-green-600">
-                    <CheckCircle className="h-5 w-5 mr-1" />
-                    <span className="text-sm font-medium">Signed</span>
-                  </div>
+                  signatureStatus && !signatureStatus.buyer.valid ? (
+                    <div className="flex items-center text-red-600">
+                      <AlertTriangle className="h-5 w-5 mr-1" />
+                      <span className="text-sm font-medium">Signature invalid</span>
+                    </div>
+                  ) : (
+                    <div className="flex flex-col items-end text-green-600">
+                      <div className="flex items-center">
+                        <CheckCircle className="h-5 w-5 mr-1" />
+                        <span className="text-sm font-medium">Signed</span>
+                      </div>
+                      {contract.parties.buyer.signerAddress && (
+                        <span className="text-xs text-gray-500 font-mono" title={contract.parties.buyer.signerAddress}>
+                          {contract.parties.buyer.signerAddress.slice(0, 6)}...{contract.parties.buyer.signerAddress.slice(-4)}
+                        </span>
+                      )}
+                    </div>
+                  )
                 ) : (
                   <div className="flex items-center text-gray-400">
                     <Clock className="h-5 w-5 mr-1" />
@@ -853,21 +1004,21 @@ const ContractDetails: React.FC = () => {
                     </div>
                     ` : ''}
           
-                    ${contract.platformFee ? `
+                    ${feePreview ? `
                     <div style="background: #f8f9fa; padding: 15px; border: 1px solid #dee2e6; margin: 25px 0;">
                       <h2 style="color: #495057; margin-top: 0; color: #2c3e50; margin: 25px 0 15px 0; font-size: 16px; border-bottom: 1px solid #dee2e6; padding-bottom: 5px; font-weight: 600; text-transform: uppercase; letter-spacing: 0.5px;">PLATFORM FEE</h2>
                       <div style="display: grid; grid-template-columns: repeat(auto-fit, minmax(120px, 1fr)); gap: 10px;">
                         <div style="background: #ffffff; padding: 10px; border: 1px solid #dee2e6; text-align: center;">
                           <span style="display: block; font-size: 9px; color: #6c757d; font-weight: 600; margin-bottom: 3px; text-transform: uppercase;">Fee Rate</span>
-                          <span style="font-size: 11px; font-weight: 600; color: #2c3e50;">2.5%</span>
+                          <span style="font-size: 11px; font-weight: 600; color: #2c3e50;">${feePreview.fee.percentage}%</span>
                         </div>
                         <div style="background: #ffffff; padding: 10px; border: 1px solid #dee2e6; text-align: center;">
                           <span style="display: block; font-size: 9px; color: #6c757d; font-weight: 600; margin-bottom: 3px; text-transform: uppercase;">Amount</span>
-                          <span style="font-size: 11px; font-weight: 600; color: #2c3e50;">₹${calculatePlatformFeeAmount(contract).toLocaleString()}</span>
+                          <span style="font-size: 11px; font-weight: 600; color: #2c3e50;">₹${feePreview.fee.amount.toLocaleString()}</span>
                         </div>
                         <div style="background: #ffffff; padding: 10px; border: 1px solid #dee2e6; text-align: center;">
                           <span style="display: block; font-size: 9px; color: #6c757d; font-weight: 600; margin-bottom: 3px; text-transform: uppercase;">Status</span>
-                          <span style="font-size: 9px; font-weight: 600; padding: 2px 4px; border: 1px solid #dee2e6; background: #f8f9fa; color: #495057;">${contract.platformFee.paid ? 'PAID' : 'PENDING'}</span>
+                          <span style="font-size: 9px; font-weight: 600; padding: 2px 4px; border: 1px solid #dee2e6; background: #f8f9fa; color: #495057;">${contract.platformFee?.paid ? 'PAID' : 'PENDING'}</span>
                         </div>
                       </div>
                     </div>
@@ -903,6 +1054,36 @@ const ContractDetails: React.FC = () => {
                 {downloadingPdf ? 'Generating PDF...' : 'Download PDF'}
               </button>
 
+              <label className={`w-full border border-gray-300 hover:bg-gray-50 text-gray-700 py-2 px-4 rounded-lg font-medium transition-colors flex items-center justify-center cursor-pointer ${verifyingPdf ? 'opacity-50 pointer-events-none' : ''}`}>
+                <Shield className="h-4 w-4 mr-2" />
+                {verifyingPdf ? 'Verifying...' : 'Verify a PDF'}
+                <input type="file" accept="application/pdf" onChange={handleVerifyPdf} className="hidden" />
+              </label>
+
+              {pdfVerification && (
+                <div className={`p-3 rounded-lg text-sm ${
+                  pdfVerification.matchesRecordedPdf && pdfVerification.termsMatchChain !== false
+                    ? 'bg-green-50 text-green-800'
+                    : 'bg-red-50 text-red-800'
+                }`}>
+                  <p className="font-medium">
+                    {pdfVerification.matchesRecordedPdf
+                      ? pdfVerification.isLatestVersion
+                        ? 'This PDF is the current version of the contract.'
+                        : `This PDF is an earlier version of the contract${pdfVerification.generatedAt ? ` (${new Date(pdfVerification.generatedAt).toLocaleString()})` : ''}.`
+                      : 'This PDF does not match any version issued for this contract.'}
+                  </p>
+                  <p className="mt-1">
+                    {pdfVerification.termsMatchChain === null
+                      ? 'On-chain terms could not be checked.'
+                      : pdfVerification.termsMatchChain
+                        ? 'Contract terms match the terms anchored on the blockchain.'
+                        : 'Contract terms differ from the terms anchored on the blockchain.'}
+                  </p>
+                  <p className="mt-1 text-xs font-mono break-all opacity-75">SHA-256: {pdfVerification.sha256}</p>
+                </div>
+              )}
+
               {/* Step 1: Sign Contract */}
               {contract.status === 'pending' && canUserSign() && (
                 <button
@@ -915,14 +1096,53 @@ const ContractDetails: React.FC = () => {
               )}
 
               {/* Step 2: Make Payment */}
-              {contract.status === 'signed' && userIsBuyer && contract.paymentStatus === 'not_initiated' && (
-                <button
-                  onClick={() => apiService.initiatePayment(contract._id)}
-                  className="w-full bg-purple-600 hover:bg-purple-700 text-white py-2 px-4 rounded-lg font-medium transition-colors flex items-center justify-center"
-                >
-                  <CreditCard className="h-4 w-4 mr-2" />
-                  Pay Now
-                </button>
+              {userIsBuyer && payableInstallment && (
+                <div className="space-y-2">
+                  {paymentProviders.length > 1 && (
+                    <select
+                      value={paymentProvider}
+                      onChange={(e) => setPaymentProvider(e.target.value)}
+                      className="w-full text-sm border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    >
+                      {paymentProviders.map(provider => (
+                        <option key={provider} value={provider}>
+                          Pay with {PAYMENT_PROVIDER_LABELS[provider] || provider}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                  <button
+                    onClick={() => apiService.initiatePayment(contract._id, paymentProvider || undefined)}
+                    className="w-full bg-purple-600 hover:bg-purple-700 text-white py-2 px-4 rounded-lg font-medium transition-colors flex items-center justify-center"
+                  >
+                    <CreditCard className="h-4 w-4 mr-2" />
+                    {payableInstallment.payment?.status === 'failed' ? 'Retry Payment' : 'Pay Now'} · ₹{payableInstallment.amount.toLocaleString()}
+                  </button>
+                </div>
+              )}
+
+              {/* Cash on delivery, recorded by the seller */}
+              {userRole === 'seller' && codInstallment && codPaymentId && (
+                <div className="space-y-2">
+                  <select
+                    value={codMethod}
+                    onChange={(e) => setCodMethod(e.target.value)}
+                    className="w-full text-sm border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-green-500 focus:border-transparent"
+                  >
+                    <option value="cash">Received in cash</option>
+                    <option value="cheque">Received by cheque</option>
+                    <option value="upi">Received by UPI</option>
+                    <option value="netbanking">Received by bank transfer</option>
+                  </select>
+                  <button
+                    onClick={() => handleSettleCod(codPaymentId)}
+                    disabled={settlingCod}
+                    className="w-full bg-green-600 hover:bg-green-700 disabled:opacity-50 text-white py-2 px-4 rounded-lg font-medium transition-colors flex items-center justify-center"
+                  >
+                    <DollarSign className="h-4 w-4 mr-2" />
+                    {settlingCod ? 'Recording...' : `Record ₹${codInstallment.amount.toLocaleString()} Received`}
+                  </button>
+                </div>
               )}
 
               {/* Step 4: Confirm Delivery */}
@@ -944,6 +1164,16 @@ const ContractDetails: React.FC = () => {
                 </div>
               )}
 
+              {canRequestRefund && (
+                <button
+                  onClick={() => openRefundModal('request')}
+                  className="w-full border border-red-300 hover:bg-red-50 text-red-700 py-2 px-4 rounded-lg font-medium transition-colors flex items-center justify-center"
+                >
+                  <RotateCcw className="h-4 w-4 mr-2" />
+                  Request Refund
+                </button>
+              )}
+
               {contract.relatedNegotiation && (
                 <button
                   onClick={() => navigate('/negotiations')}
@@ -956,41 +1186,269 @@ const ContractDetails: React.FC = () => {
             </div>
           </div>
 
+          {/* Refund */}
+          {refund && refund.status !== 'none' && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-lg font-semibold text-gray-900">Refund</h3>
+                <span className={`px-3 py-1 rounded-full text-xs font-medium capitalize ${getRefundStatusColor(refund.status)}`}>
+                  {refund.status}
+                </span>
+              </div>
+              <div className="space-y-2 text-sm">
+                {refund.requestedAmount !== undefined && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Requested</span>
+                    <span className="font-medium">₹{refund.requestedAmount.toLocaleString()}</span>
+                  </div>
+                )}
+                {refund.refundAmount !== undefined && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Refunded</span>
+                    <span className="font-medium text-green-600">₹{refund.refundAmount.toLocaleString()}</span>
+                  </div>
+                )}
+                {refund.refundTransactionId && (
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Refund ID</span>
+                    <span className="font-mono text-xs">{refund.refundTransactionId}</span>
+                  </div>
+                )}
+                {refund.reason && (
+                  <div>
+                    <span className="text-gray-600">Reason</span>
+                    <p className="mt-1 text-gray-900">{refund.reason}</p>
+                  </div>
+                )}
+                {refund.status === 'rejected' && refund.rejectionReason && (
+                  <div>
+                    <span className="text-gray-600">Rejection Reason</span>
+                    <p className="mt-1 text-red-700">{refund.rejectionReason}</p>
+                  </div>
+                )}
+              </div>
+
+              {refundHistory.length > 0 && (
+                <div className="border-t border-gray-200 mt-4 pt-4">
+                  <h4 className="text-sm font-medium text-gray-900 mb-3">History</h4>
+                  <div className="space-y-3">
+                    {refundHistory.map((entry, index) => (
+                      <div key={index} className="text-sm">
+                        <p className="text-gray-900">{entry.description}</p>
+                        <p className="text-xs text-gray-500">{new Date(entry.timestamp).toLocaleString()}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {user?.type === 'admin' && refund.status === 'requested' && (
+                <div className="flex space-x-3 mt-4">
+                  <button
+                    onClick={() => openRefundModal('reject')}
+                    className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                  >
+                    Reject
+                  </button>
+                  <button
+                    onClick={() => openRefundModal('approve')}
+                    className="flex-1 px-4 py-2 bg-green-600 hover:bg-green-700 text-white rounded-lg font-medium transition-colors"
+                  >
+                    Approve
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Payment Schedule */}
+          {paymentSchedule.length > 0 && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Payment Schedule</h3>
+              <div className="space-y-3">
+                {paymentSchedule.map(item => {
+                  const isOpen = !item.payment || ['pending', 'failed'].includes(item.payment.status);
+                  const isOverdue = isOpen && item.dueDate && new Date(item.dueDate) < new Date();
+                  return (
+                    <div key={item.installment} className="flex justify-between text-sm">
+                      <div>
+                        <p className="font-medium text-gray-900">{item.label}</p>
+                        <p className={isOverdue ? 'text-red-600' : 'text-gray-500'}>
+                          {isOverdue ? 'Overdue · ' : ''}{getInstallmentDueText(item)}
+                          {item.settlement === 'cod' ? ' · cash on delivery' : ''}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="font-medium">₹{item.amount.toLocaleString()}</p>
+                        <p className="text-gray-500 capitalize">
+                          {item.payment ? item.payment.status.replace(/_/g, ' ') : 'Not invoiced'}
+                        </p>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          {/* Invoices */}
+          {invoices.length > 0 && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Tax Invoices</h3>
+              <div className="space-y-4">
+                {invoices.map(invoice => (
+                  <div key={invoice._id} className="text-sm">
+                    <div className="flex justify-between">
+                      <span className="font-medium text-gray-900">
+                        {INVOICE_TYPE_LABELS[invoice.type]} {invoice.invoiceNumber}
+                      </span>
+                      <span className={`font-medium ${invoice.type === 'credit_note' ? 'text-red-600' : 'text-gray-900'}`}>
+                        {invoice.type === 'credit_note' ? '-' : ''}₹{invoice.totals.total.toLocaleString()}
+                      </span>
+                    </div>
+                    <p className="text-gray-500">
+                      {new Date(invoice.issuedAt).toLocaleDateString()} · {invoice.supplyType === 'intra_state'
+                        ? `CGST ₹${invoice.totals.cgst.toLocaleString()} + SGST ₹${invoice.totals.sgst.toLocaleString()}`
+                        : `IGST ₹${invoice.totals.igst.toLocaleString()}`}
+                      {invoice.originalInvoice ? ` · against ${invoice.originalInvoice.invoiceNumber}` : ''}
+                    </p>
+                    <div className="flex space-x-3 mt-1">
+                      <button
+                        onClick={() => handleDownloadInvoice(invoice, 'pdf')}
+                        className="text-blue-600 hover:text-blue-800 flex items-center"
+                      >
+                        <Download className="h-3 w-3 mr-1" />
+                        PDF
+                      </button>
+                      <button
+                        onClick={() => handleDownloadInvoice(invoice, 'einvoice')}
+                        className="text-blue-600 hover:text-blue-800 flex items-center"
+                      >
+                        <Download className="h-3 w-3 mr-1" />
+                        E-invoice JSON
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Platform Fee */}
-          {contract.platformFee && (
+          {feePreview && (
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
               <h3 className="text-lg font-semibold text-gray-900 mb-4">Platform Fee</h3>
               <div className="space-y-2">
                 <div className="flex justify-between">
                   <span className="text-gray-600">Fee Rate</span>
-                  <span className="font-medium">2.5%</span>
+                  <span className="font-medium">{feePreview.fee.percentage}%</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Amount</span>
-                  <span className="font-medium">₹{calculatePlatformFeeAmount(contract).toLocaleString()}</span>
+                  <span className="font-medium">₹{feePreview.fee.amount.toLocaleString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Schedule</span>
+                  <span className="font-medium text-right">{feePreview.fee.ruleName}</span>
                 </div>
+                {feePreview.installments.length > 1 && feePreview.installments.map((item) => (
+                  <div key={item.installment} className="flex justify-between text-sm">
+                    <span className="text-gray-500 capitalize">{item.installment} payment</span>
+                    <span className="text-gray-700">₹{item.platformFee.toLocaleString()}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between">
                   <span className="text-gray-600">Status</span>
-                  <span className={`font-medium ${contract.platformFee.paid ? 'text-green-600' : 'text-yellow-600'}`}>
-                    {contract.platformFee.paid ? 'Paid' : 'Pending'}
+                  <span className={`font-medium ${contract.platformFee?.paid ? 'text-green-600' : 'text-yellow-600'}`}>
+                    {contract.platformFee?.paid ? 'Paid' : 'Pending'}
                   </span>
                 </div>
+                <p className="text-xs text-gray-500">Deducted from the seller's payout on each installment.</p>
               </div>
             </div>
           )}
         </div>
       </div>
 
+      {/* Refund Modal */}
+      {refundAction && contract.payment && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-xl shadow-xl w-full max-w-md">
+            <div className="p-6">
+              <h2 className="text-xl font-bold text-gray-900 mb-4">
+                {refundAction === 'request' ? 'Request Refund' : refundAction === 'approve' ? 'Approve Refund' : 'Reject Refund'}
+              </h2>
+              <div className="space-y-4 mb-6">
+                {refundAction !== 'reject' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Refund Amount (₹)
+                    </label>
+                    <input
+                      type="number"
+                      min="1"
+                      max={contract.payment.amount.total}
+                      value={refundAmount}
+                      onChange={(e) => setRefundAmount(e.target.value)}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      Amount paid: ₹{contract.payment.amount.total.toLocaleString()}
+                    </p>
+                  </div>
+                )}
+                {refundAction !== 'approve' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {refundAction === 'request' ? 'Reason for Refund' : 'Rejection Reason'}
+                    </label>
+                    <textarea
+                      value={refundReason}
+                      onChange={(e) => setRefundReason(e.target.value)}
+                      rows={4}
+                      className="w-full border border-gray-300 rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    />
+                  </div>
+                )}
+              </div>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setRefundAction(null)}
+                  className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleRefundSubmit}
+                  disabled={submittingRefund || (refundAction !== 'approve' && !refundReason.trim())}
+                  className={`flex-1 px-4 py-2 text-white rounded-lg font-medium transition-colors ${
+                    refundAction === 'approve'
+                      ? 'bg-green-600 hover:bg-green-700 disabled:bg-green-400'
+                      : 'bg-red-600 hover:bg-red-700 disabled:bg-red-400'
+                  }`}
+                >
+                  {submittingRefund ? 'Submitting...' : 'Confirm'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Sign Contract Modal */}
       {showSignModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
           <div className="bg-white rounded-xl shadow-xl w-full max-w-md">
             <div className="p-6">
               <h2 className="text-xl font-bold text-gray-900 mb-4">Sign Contract</h2>
-              <p className="text-gray-600 mb-6">
+              <p className="text-gray-600 mb-3">
                 By signing this contract, you agree to all the terms and conditions specified. 
                 This action cannot be undone.
               </p>
+              <p className="text-sm text-gray-500 mb-6">
+                Your browser wallet (e.g. MetaMask) will ask you to sign the contract's terms hash. 
+                The first wallet you sign with is linked to your account, and any later change to the terms voids the signature.
+              </p>
               <div className="flex space-x-3">
                 <button
                   onClick={() => setShowSignModal(false)}
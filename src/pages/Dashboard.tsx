@@ -21,6 +21,38 @@ interface DashboardStats {
   totalSpent?: number;
 }
 
+interface MyRequest {
+  _id: string;
+  title: string;
+  status: string;
+  quantity: {
+    value: number;
+    unit: string;
+  };
+  responses?: Array<{ status: string }>;
+  createdAt: string;
+}
+
+interface OpenInvoice {
+  _id: string;
+  paymentId: string;
+  installment: 'full' | 'advance' | 'balance';
+  settlement: 'escrow' | 'cod';
+  dueDate: string;
+  daysOverdue: number;
+  isOverdue: boolean;
+  amount: {
+    total: number;
+  };
+  buyer: { name: string; company?: { name: string } };
+  seller: { name: string; company?: { name: string } };
+  contract: {
+    _id: string;
+    contractNumber: string;
+    terms: { materialType: string };
+  };
+}
+
 interface Activity {
   id: string;
   type: string;
@@ -33,6 +65,8 @@ const Dashboard: React.FC = () => {
   const { user, setUser } = useApp();
   const [stats, setStats] = useState<DashboardStats>({});
   const [recentActivity, setRecentActivity] = useState<Activity[]>([]);
+  const [myRequests, setMyRequests] = useState<MyRequest[]>([]);
+  const [openInvoices, setOpenInvoices] = useState<OpenInvoice[]>([]);
   const [loading, setLoading] = useState(true);
   const [showMobileModal, setShowMobileModal] = useState(false);
 
@@ -57,16 +91,21 @@ const Dashboard: React.FC = () => {
         }
       } else {
         // Fetch user-specific data
-        const [contractsRes, listingsRes, requestsRes] = await Promise.all([
+        const [contractsRes, listingsRes, requestsRes, receivablesRes] = await Promise.all([
           apiService.getContracts({ limit: 5 }),
           user?.type === 'seller' ? apiService.getMyListings({ limit: 5 }) : Promise.resolve({ data: { listings: [] } }),
-          user?.type === 'buyer' ? apiService.getMaterialRequests({ limit: 5 }) : Promise.resolve({ data: { requests: [] } })
+          user?.type === 'buyer' ? apiService.getMaterialRequests({ limit: 5 }) : Promise.resolve({ data: { requests: [] } }),
+          apiService.getReceivables()
         ]);
 
+        // Sellers see what they are owed, buyers what they owe
+        setOpenInvoices((user?.type === 'seller' ? receivablesRes.data?.receivables : receivablesRes.data?.payables) || []);
+
         // Calculate stats from real data
         const contracts = contractsRes.data?.contracts || [];
         const listings = listingsRes.data?.listings || [];
         const requests = requestsRes.data?.requests || [];
+        setMyRequests(requests);
 
         if (user?.type === 'seller') {
           const completedContracts = contracts.filter(c => c.status === 'completed');
@@ -472,6 +511,82 @@ const Dashboard: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {/* Material Requests */}
+      {user.type === 'buyer' && myRequests.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 mt-8">
+          <div className="p-6 border-b border-gray-200">
+            <h2 className="text-lg font-semibold text-gray-900">Your Material Requests</h2>
+          </div>
+          <div className="divide-y divide-gray-200">
+            {myRequests.map(request => {
+              const pending = request.responses?.filter(r => r.status === 'pending' || r.status === 'shortlisted').length || 0;
+              return (
+                <Link
+                  key={request._id}
+                  to={`/material-requests/${request._id}`}
+                  className="flex items-center justify-between p-6 hover:bg-gray-50 transition-colors"
+                >
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">{request.title}</p>
+                    <p className="text-xs text-gray-500">
+                      {request.quantity.value} {request.quantity.unit} · {request.status} · {new Date(request.createdAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <span className={`px-3 py-1 rounded-full text-xs font-medium ${pending > 0 ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-600'}`}>
+                    {request.responses?.length || 0} responses{pending > 0 ? ` · ${pending} to review` : ''}
+                  </span>
+                </Link>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Payments Due */}
+      {openInvoices.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 mt-8">
+          <div className="p-6 border-b border-gray-200 flex items-center justify-between">
+            <h2 className="text-lg font-semibold text-gray-900">
+              {user.type === 'seller' ? 'Payments Owed to You' : 'Payments You Owe'}
+            </h2>
+            {openInvoices.some(invoice => invoice.isOverdue) && (
+              <span className="flex items-center text-sm font-medium text-red-600">
+                <AlertTriangle className="h-4 w-4 mr-1" />
+                ₹{openInvoices.filter(invoice => invoice.isOverdue).reduce((sum, invoice) => sum + invoice.amount.total, 0).toLocaleString()} overdue
+              </span>
+            )}
+          </div>
+          <div className="divide-y divide-gray-200">
+            {openInvoices.map(invoice => {
+              const counterparty = user.type === 'seller' ? invoice.buyer : invoice.seller;
+              return (
+                <Link
+                  key={invoice._id}
+                  to={`/contracts/${invoice.contract._id}`}
+                  className="flex items-center justify-between p-6 hover:bg-gray-50 transition-colors"
+                >
+                  <div>
+                    <p className="text-sm font-medium text-gray-900">
+                      {invoice.contract.contractNumber} · {invoice.contract.terms.materialType}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {counterparty.company?.name || counterparty.name} · {invoice.installment === 'full' ? 'Contract value' : `${invoice.installment} payment`}
+                      {invoice.settlement === 'cod' ? ' · cash on delivery' : ''} · due {new Date(invoice.dueDate).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="text-right">
+                    <p className="text-sm font-semibold text-gray-900">₹{invoice.amount.total.toLocaleString()}</p>
+                    <span className={`px-3 py-1 rounded-full text-xs font-medium ${invoice.isOverdue ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'}`}>
+                      {invoice.isOverdue ? `${invoice.daysOverdue} days overdue` : 'Open'}
+                    </span>
+                  </div>
+                </Link>
+              );
+            })}
+          </div>
+        </div>
+      )}
     </div>
   );
 };
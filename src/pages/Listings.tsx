@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Link } from 'react-router-dom';
 import { Search, Filter, MapPin, Calendar, Eye, MessageCircle, Star, Package, TrendingUp, AlertTriangle, Plus } from 'lucide-react';
 import { useApp } from '../context/AppContext';
+import SavedSearches from '../components/SavedSearches';
 import { apiService } from '../services/api';
 
 interface WasteListing {
@@ -32,6 +33,7 @@ interface WasteListing {
     state: string;
     address?: string;
   };
+  distanceKm?: number;
   urgency: 'low' | 'medium' | 'high';
   description?: string;
   images: Array<{
@@ -58,6 +60,15 @@ const Listings: React.FC = () => {
   const [selectedLocation, setSelectedLocation] = useState('');
   const [selectedUrgency, setSelectedUrgency] = useState('');
   const [sortBy, setSortBy] = useState('newest');
+  const [priceRange, setPriceRange] = useState({ min: '', max: '' });
+  const [quantityRange, setQuantityRange] = useState({ min: '', max: '', unit: 'kg' });
+  const [selectedFrequency, setSelectedFrequency] = useState('');
+  const [hazardous, setHazardous] = useState('');
+  const [certifications, setCertifications] = useState('');
+  const [verifiedOnly, setVerifiedOnly] = useState(false);
+  const [nearLocation, setNearLocation] = useState('');
+  const [radiusKm, setRadiusKm] = useState('50');
+  const [pagination, setPagination] = useState({ current: 1, total: 0, hasNext: false });
   const [showFilters, setShowFilters] = useState(false);
   const [inquiringListing, setInquiringListing] = useState<string | null>(null);
 
@@ -89,28 +100,53 @@ const Listings: React.FC = () => {
 
   useEffect(() => {
     fetchWasteListings();
-  }, []);
+  }, [sortBy]);
+
+  // Filter params shared by the listing search and saved searches
+  const getFilterParams = () => {
+    const params: Record<string, string> = {
+      category: selectedCategory,
+      city: selectedLocation.split(',')[0],
+      urgency: selectedUrgency,
+      search: searchTerm,
+      minPrice: priceRange.min,
+      maxPrice: priceRange.max,
+      minQty: quantityRange.min,
+      maxQty: quantityRange.max,
+      frequency: selectedFrequency,
+      hazardous,
+      certifications,
+      sellerVerified: verifiedOnly ? 'true' : ''
+    };
+    if (nearLocation) {
+      params.near = nearLocation.replace(/\s+/g, '');
+      params.radiusKm = radiusKm;
+    }
+    if (quantityRange.min || quantityRange.max) params.qtyUnit = quantityRange.unit;
+
+    // Remove empty params
+    Object.keys(params).forEach(key => {
+      if (!params[key]) {
+        delete params[key];
+      }
+    });
 
-  const fetchWasteListings = async () => {
+    return params;
+  };
+
+  const fetchWasteListings = async (page = 1, filters = getFilterParams()) => {
     try {
       setLoading(true);
-      const params = {
-        category: selectedCategory,
-        urgency: selectedUrgency,
-        search: searchTerm,
-        sort: sortBy
+      const params: Record<string, string> = {
+        ...filters,
+        page: String(page),
+        sort: sortBy === 'distance' && !filters.near ? 'newest' : sortBy
       };
-      
-      // Remove empty params
-      Object.keys(params).forEach(key => {
-        if (!params[key as keyof typeof params]) {
-          delete params[key as keyof typeof params];
-        }
-      });
 
       const response = await apiService.getWasteListings(params);
       if (response.success) {
-        setWasteListings(response.data.listings);
+        setWasteListings(prev => page > 1 ? [...prev, ...response.data.listings] : response.data.listings);
+        setPagination(response.data.pagination);
       }
     } catch (error) {
       console.error('Failed to fetch listings:', error);
@@ -119,6 +155,33 @@ const Listings: React.FC = () => {
     }
   };
 
+  const applySavedSearch = (filters: Record<string, string>) => {
+    setSelectedCategory(filters.category || '');
+    setSelectedLocation(filters.city ? locations.find(l => l.split(',')[0] === filters.city) || '' : '');
+    setSelectedUrgency(filters.urgency || '');
+    setSearchTerm(filters.search || '');
+    setPriceRange({ min: filters.minPrice || '', max: filters.maxPrice || '' });
+    setQuantityRange({ min: filters.minQty || '', max: filters.maxQty || '', unit: filters.qtyUnit || 'kg' });
+    setSelectedFrequency(filters.frequency || '');
+    setHazardous(filters.hazardous || '');
+    setCertifications(filters.certifications || '');
+    setVerifiedOnly(filters.sellerVerified === 'true');
+    setNearLocation(filters.near || '');
+    setRadiusKm(filters.radiusKm || '50');
+    fetchWasteListings(1, filters);
+  };
+
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      alert('Location is not available in this browser. Enter a pincode instead.');
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => setNearLocation(`${coords.latitude.toFixed(4)},${coords.longitude.toFixed(4)}`),
+      () => alert('Could not get your location. Enter a pincode instead.')
+    );
+  };
+
   const handleInquire = async (listingId: string) => {
     if (!user) {
       alert('Please login to inquire about listings');
@@ -172,43 +235,10 @@ const Listings: React.FC = () => {
       }
     } catch (error) {
       console.error('Failed to start negotiation:', error);
-      alert('Failed to start negotiation. Please try again.');
+      alert(error instanceof Error ? error.message : 'Failed to start negotiation. Please try again.');
     }
   };
 
-  // Apply filters and sorting
-  const filteredListings = wasteListings.filter(listing => {
-    const matchesSearch = listing.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         listing.wasteType.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         listing.description?.toLowerCase().includes(searchTerm.toLowerCase());
-    
-    const matchesCategory = !selectedCategory || listing.category === selectedCategory;
-    const matchesLocation = !selectedLocation || 
-                           `${listing.location.city}, ${listing.location.state}` === selectedLocation;
-    const matchesUrgency = !selectedUrgency || listing.urgency === selectedUrgency;
-
-    return matchesSearch && matchesCategory && matchesLocation && matchesUrgency;
-  });
-
-  const sortedListings = [...filteredListings].sort((a, b) => {
-    switch (sortBy) {
-      case 'newest':
-        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-      case 'oldest':
-        return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
-      case 'price-high':
-        return b.price.value - a.price.value;
-      case 'price-low':
-        return a.price.value - b.price.value;
-      case 'quantity-high':
-        return b.quantity.value - a.quantity.value;
-      case 'quantity-low':
-        return a.quantity.value - b.quantity.value;
-      default:
-        return 0;
-    }
-  });
-
   const getUrgencyColor = (urgency: string) => {
     switch (urgency) {
       case 'high':
@@ -283,6 +313,7 @@ const Listings: React.FC = () => {
               <option value="price-low">Price: Low to High</option>
               <option value="quantity-high">Quantity: High to Low</option>
               <option value="quantity-low">Quantity: Low to High</option>
+              {nearLocation && <option value="distance">Nearest First</option>}
             </select>
 
             <button
@@ -294,7 +325,7 @@ const Listings: React.FC = () => {
             </button>
 
             <button
-              onClick={fetchWasteListings}
+              onClick={() => fetchWasteListings()}
               className="px-4 py-3 bg-blue-600 hover:bg-blue-700 text-white rounded-lg font-medium transition-colors"
             >
               Search
@@ -302,6 +333,10 @@ const Listings: React.FC = () => {
           </div>
         </div>
 
+        {user?.type === 'buyer' && (
+          <SavedSearches filters={getFilterParams()} onApply={applySavedSearch} />
+        )}
+
         {/* Advanced Filters */}
         {showFilters && (
           <div className="mt-6 pt-6 border-t border-gray-200">
@@ -320,6 +355,39 @@ const Listings: React.FC = () => {
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Near</label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    value={nearLocation}
+                    onChange={(e) => setNearLocation(e.target.value)}
+                    placeholder="Pincode or lat,lng"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleUseMyLocation}
+                    title="Use my location"
+                    className="px-3 py-2 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+                  >
+                    <MapPin className="h-4 w-4 text-gray-600" />
+                  </button>
+                  <select
+                    value={radiusKm}
+                    onChange={(e) => setRadiusKm(e.target.value)}
+                    className="px-2 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="10">10 km</option>
+                    <option value="25">25 km</option>
+                    <option value="50">50 km</option>
+                    <option value="100">100 km</option>
+                    <option value="250">250 km</option>
+                    <option value="500">500 km</option>
+                  </select>
+                </div>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">Urgency</label>
                 <select
@@ -334,6 +402,112 @@ const Listings: React.FC = () => {
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Frequency</label>
+                <select
+                  value={selectedFrequency}
+                  onChange={(e) => setSelectedFrequency(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Any Frequency</option>
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                  <option value="monthly">Monthly</option>
+                  <option value="one-time">One-time</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Price per Unit (₹)</label>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    value={priceRange.min}
+                    onChange={(e) => setPriceRange(prev => ({ ...prev, min: e.target.value }))}
+                    placeholder="Min"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    value={priceRange.max}
+                    onChange={(e) => setPriceRange(prev => ({ ...prev, max: e.target.value }))}
+                    placeholder="Max"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Quantity</label>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    value={quantityRange.min}
+                    onChange={(e) => setQuantityRange(prev => ({ ...prev, min: e.target.value }))}
+                    placeholder="Min"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    value={quantityRange.max}
+                    onChange={(e) => setQuantityRange(prev => ({ ...prev, max: e.target.value }))}
+                    placeholder="Max"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <select
+                    value={quantityRange.unit}
+                    onChange={(e) => setQuantityRange(prev => ({ ...prev, unit: e.target.value }))}
+                    className="px-2 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    <option value="kg">kg</option>
+                    <option value="tonnes">tonnes</option>
+                    <option value="liters">liters</option>
+                    <option value="m3">m³</option>
+                    <option value="pieces">pieces</option>
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Hazardous</label>
+                <select
+                  value={hazardous}
+                  onChange={(e) => setHazardous(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">Any</option>
+                  <option value="false">Non-hazardous only</option>
+                  <option value="true">Hazardous only</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Certifications</label>
+                <input
+                  type="text"
+                  value={certifications}
+                  onChange={(e) => setCertifications(e.target.value)}
+                  placeholder="e.g. ISO 14001, CPCB"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                />
+              </div>
+
+              <div className="flex items-end">
+                <label className="flex items-center text-sm text-gray-700 py-2">
+                  <input
+                    type="checkbox"
+                    checked={verifiedOnly}
+                    onChange={(e) => setVerifiedOnly(e.target.checked)}
+                    className="mr-2 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  Verified sellers only
+                </label>
+              </div>
+
               <div className="flex items-end">
                 <button
                   onClick={() => {
@@ -341,6 +515,12 @@ const Listings: React.FC = () => {
                     setSelectedLocation('');
                     setSelectedUrgency('');
                     setSearchTerm('');
+                    setPriceRange({ min: '', max: '' });
+                    setQuantityRange({ min: '', max: '', unit: 'kg' });
+                    setSelectedFrequency('');
+                    setHazardous('');
+                    setCertifications('');
+                    setVerifiedOnly(false);
                     fetchWasteListings();
                   }}
                   className="w-full px-4 py-2 text-gray-600 hover:text-gray-800 transition-colors"
@@ -356,7 +536,7 @@ const Listings: React.FC = () => {
       {/* Results Summary */}
       <div className="flex items-center justify-between mb-6">
         <p className="text-gray-600">
-          Showing {sortedListings.length} listings
+          Showing {wasteListings.length} of {pagination.total} listings
         </p>
         {user?.type === 'seller' && (
           <Link
@@ -384,7 +564,7 @@ const Listings: React.FC = () => {
             </div>
           ))}
         </div>
-      ) : sortedListings.length === 0 ? (
+      ) : wasteListings.length === 0 ? (
         <div className="text-center py-12">
           <Package className="h-16 w-16 text-gray-400 mx-auto mb-4" />
           <h3 className="text-xl font-semibold text-gray-900 mb-2">No listings found</h3>
@@ -401,7 +581,7 @@ const Listings: React.FC = () => {
         </div>
       ) : (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {sortedListings.map((listing) => (
+          {wasteListings.map((listing) => (
             <Link
               key={listing._id}
               to={`/listings/${listing._id}`}
@@ -452,6 +632,9 @@ const Listings: React.FC = () => {
                 <div className="flex items-center text-sm text-gray-600 mb-3">
                   <MapPin className="h-4 w-4 mr-1" />
                   {listing.location.city}, {listing.location.state}
+                  {listing.distanceKm !== undefined && (
+                    <span className="ml-2 text-blue-600">· {listing.distanceKm} km away</span>
+                  )}
                 </div>
 
                 <div className="grid grid-cols-2 gap-4 mb-4">
@@ -514,10 +697,10 @@ const Listings: React.FC = () => {
       )}
 
       {/* Load More */}
-      {sortedListings.length > 0 && sortedListings.length >= 10 && (
+      {pagination.hasNext && (
         <div className="text-center mt-8">
           <button
-            onClick={fetchWasteListings}
+            onClick={() => fetchWasteListings(pagination.current + 1)}
             className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-6 py-3 rounded-lg font-medium transition-colors"
           >
             Load More Listings
@@ -0,0 +1,446 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import {
+  ArrowLeft, Package, MapPin, Calendar, Star, CheckCircle, XCircle,
+  MessageCircle, AlertCircle, ArrowUpDown
+} from 'lucide-react';
+import { useApp } from '../context/AppContext';
+import { apiService } from '../services/api';
+
+interface RequestResponse {
+  _id: string;
+  seller: {
+    _id: string;
+    name: string;
+    company: {
+      name: string;
+      verified: boolean;
+    };
+    stats?: {
+      rating: number;
+      totalDeals: number;
+    };
+  };
+  listing?: {
+    _id: string;
+    title: string;
+    quantity: {
+      value: number;
+      unit: string;
+    };
+    price: {
+      value: number;
+    };
+    location: {
+      city: string;
+      state: string;
+    };
+    specifications?: {
+      purity?: string;
+    };
+    certifications?: string[];
+    frequency: string;
+  };
+  message: string;
+  quotedPrice?: number;
+  status: 'pending' | 'shortlisted' | 'declined' | 'negotiating' | 'accepted';
+  declineReason?: string;
+  negotiation?: string;
+  createdAt: string;
+}
+
+interface MaterialRequestDetail {
+  _id: string;
+  buyer: {
+    _id: string;
+    name: string;
+  };
+  title: string;
+  materialType: string;
+  category: string;
+  quantity: {
+    value: number;
+    unit: string;
+  };
+  frequency: string;
+  budget: {
+    min?: number;
+    max: number;
+  };
+  location: {
+    preferredCities?: string[];
+    maxDistance?: number;
+  };
+  qualityGrade: string;
+  description?: string;
+  urgency: 'low' | 'medium' | 'high';
+  status: 'active' | 'fulfilled' | 'cancelled' | 'expired';
+  responses: RequestResponse[];
+  expiryDate?: string;
+  createdAt: string;
+}
+
+type ResponseFilter = 'all' | 'shortlisted' | 'declined';
+
+const MaterialRequestDetails: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { user } = useApp();
+  const [request, setRequest] = useState<MaterialRequestDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [filter, setFilter] = useState<ResponseFilter>('all');
+  const [sortByPrice, setSortByPrice] = useState(false);
+  const [updatingResponse, setUpdatingResponse] = useState<string | null>(null);
+
+  const fetchRequest = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await apiService.getMaterialRequest(id!);
+      if (response.success) {
+        setRequest(response.data.request);
+      }
+    } catch (error) {
+      console.error('Failed to fetch material request:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (id) {
+      fetchRequest();
+    }
+  }, [id, fetchRequest]);
+
+  const handleStatusChange = async (response: RequestResponse, status: 'pending' | 'shortlisted' | 'declined') => {
+    let reason: string | undefined;
+    if (status === 'declined') {
+      const input = prompt('Reason for declining (optional):');
+      if (input === null) return;
+      reason = input.trim() || undefined;
+    }
+
+    try {
+      setUpdatingResponse(response._id);
+      const result = await apiService.updateResponseStatus(request!._id, response._id, status, reason);
+      if (result.success) {
+        setRequest(prev => prev && {
+          ...prev,
+          responses: prev.responses.map(r => r._id === response._id ? { ...r, status, declineReason: reason } : r)
+        });
+      }
+    } catch (error) {
+      console.error('Failed to update response:', error);
+      alert(error instanceof Error ? error.message : 'Failed to update response. Please try again.');
+    } finally {
+      setUpdatingResponse(null);
+    }
+  };
+
+  const handleNegotiate = async (response: RequestResponse) => {
+    try {
+      setUpdatingResponse(response._id);
+      const result = await apiService.negotiateResponse(request!._id, response._id);
+      if (result.success) {
+        navigate('/negotiations');
+      }
+    } catch (error) {
+      console.error('Failed to start negotiation:', error);
+      alert(error instanceof Error ? error.message : 'Failed to start negotiation. Please try again.');
+    } finally {
+      setUpdatingResponse(null);
+    }
+  };
+
+  const getResponseStatusColor = (status: string) => {
+    switch (status) {
+      case 'shortlisted':
+        return 'bg-blue-100 text-blue-800';
+      case 'declined':
+        return 'bg-red-100 text-red-800';
+      case 'negotiating':
+        return 'bg-yellow-100 text-yellow-800';
+      case 'accepted':
+        return 'bg-green-100 text-green-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'active':
+        return 'bg-green-100 text-green-800';
+      case 'fulfilled':
+        return 'bg-blue-100 text-blue-800';
+      case 'cancelled':
+        return 'bg-red-100 text-red-800';
+      default:
+        return 'bg-gray-100 text-gray-800';
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="animate-pulse">
+          <div className="h-8 bg-gray-200 rounded w-1/3 mb-8"></div>
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+            <div className="h-64 bg-gray-200 rounded"></div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!request) {
+    return (
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center">
+          <AlertCircle className="h-16 w-16 text-red-500 mx-auto mb-4" />
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Request Not Found</h2>
+          <p className="text-gray-600 mb-6">The material request you're looking for doesn't exist or you don't have access to it.</p>
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-6 py-2 rounded-lg font-medium transition-colors"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const isOwner = user?._id === request.buyer._id;
+  const canAct = isOwner && request.status === 'active';
+
+  const responses = request.responses
+    .filter(r => filter === 'all' || r.status === filter)
+    .sort((a, b) => sortByPrice
+      ? (a.quotedPrice ?? Infinity) - (b.quotedPrice ?? Infinity)
+      : new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      {/* Header */}
+      <div className="mb-8">
+        <button
+          onClick={() => navigate('/dashboard')}
+          className="flex items-center text-gray-600 hover:text-gray-900 mb-4 transition-colors"
+        >
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Dashboard
+        </button>
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{request.title}</h1>
+            <p className="text-gray-600 mt-1">{request.materialType} · {request.category}</p>
+          </div>
+          <span className={`px-4 py-2 rounded-full text-sm font-medium ${getStatusColor(request.status)}`}>
+            {request.status.charAt(0).toUpperCase() + request.status.slice(1)}
+          </span>
+        </div>
+      </div>
+
+      {/* Request Summary */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 mb-8">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+          <div>
+            <p className="text-sm text-gray-500 flex items-center"><Package className="h-4 w-4 mr-1" />Quantity</p>
+            <p className="font-semibold text-gray-900">{request.quantity.value} {request.quantity.unit} · {request.frequency}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500">Budget</p>
+            <p className="font-semibold text-gray-900">
+              {request.budget.min ? `₹${request.budget.min.toLocaleString()} - ` : 'Up to '}₹{request.budget.max.toLocaleString()}
+            </p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500 flex items-center"><Star className="h-4 w-4 mr-1" />Quality</p>
+            <p className="font-semibold text-gray-900">{request.qualityGrade}</p>
+          </div>
+          <div>
+            <p className="text-sm text-gray-500 flex items-center"><MapPin className="h-4 w-4 mr-1" />Location</p>
+            <p className="font-semibold text-gray-900">
+              {request.location.preferredCities?.join(', ') || 'Any'}
+              {request.location.maxDistance ? ` (within ${request.location.maxDistance} km)` : ''}
+            </p>
+          </div>
+        </div>
+        {request.description && <p className="text-gray-700 mt-6">{request.description}</p>}
+        {request.expiryDate && (
+          <p className="text-sm text-gray-500 mt-4 flex items-center">
+            <Calendar className="h-4 w-4 mr-1" />
+            Expires {new Date(request.expiryDate).toLocaleDateString()}
+          </p>
+        )}
+      </div>
+
+      {/* Responses */}
+      <div className="bg-white rounded-xl shadow-sm border border-gray-200">
+        <div className="p-6 border-b border-gray-200 flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <h2 className="text-xl font-semibold text-gray-900">
+            {isOwner ? `Seller Responses (${request.responses.length})` : 'Your Response'}
+          </h2>
+          {isOwner && (
+            <div className="flex items-center gap-2">
+              {(['all', 'shortlisted', 'declined'] as ResponseFilter[]).map(key => (
+                <button
+                  key={key}
+                  onClick={() => setFilter(key)}
+                  className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                    filter === key ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {key.charAt(0).toUpperCase() + key.slice(1)}
+                </button>
+              ))}
+              <button
+                onClick={() => setSortByPrice(!sortByPrice)}
+                className={`flex items-center px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                  sortByPrice ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                <ArrowUpDown className="h-3 w-3 mr-1" />
+                Lowest Quote
+              </button>
+            </div>
+          )}
+        </div>
+
+        {responses.length === 0 ? (
+          <div className="p-12 text-center">
+            <MessageCircle className="h-12 w-12 text-gray-300 mx-auto mb-3" />
+            <p className="text-gray-600">
+              {request.responses.length === 0 ? 'No sellers have responded yet.' : 'No responses match this filter.'}
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Seller</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Quote</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Listing</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Quality</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                  {canAct && <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {responses.map(response => (
+                  <tr key={response._id} className={response.status === 'declined' ? 'bg-gray-50 text-gray-500' : ''}>
+                    <td className="px-6 py-4 align-top">
+                      <div className="flex items-center font-medium text-gray-900">
+                        {response.seller.company?.name || response.seller.name}
+                        {response.seller.company?.verified && <CheckCircle className="h-4 w-4 ml-1 text-green-500" />}
+                      </div>
+                      {response.seller.stats && response.seller.stats.totalDeals > 0 && (
+                        <p className="text-xs text-gray-500 flex items-center mt-1">
+                          <Star className="h-3 w-3 mr-1 text-yellow-500" />
+                          {response.seller.stats.rating.toFixed(1)} · {response.seller.stats.totalDeals} deals
+                        </p>
+                      )}
+                      <p className="text-sm text-gray-600 mt-2 max-w-xs">{response.message}</p>
+                    </td>
+                    <td className="px-6 py-4 align-top whitespace-nowrap">
+                      {response.quotedPrice != null ? (
+                        <>
+                          <p className="font-semibold text-gray-900">₹{response.quotedPrice.toLocaleString()}</p>
+                          <p className={`text-xs ${response.quotedPrice <= request.budget.max ? 'text-green-600' : 'text-red-600'}`}>
+                            {response.quotedPrice <= request.budget.max
+                              ? 'Within budget'
+                              : `${Math.round((response.quotedPrice / request.budget.max - 1) * 100)}% over budget`}
+                          </p>
+                        </>
+                      ) : (
+                        <span className="text-sm text-gray-500">No quote</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 align-top text-sm">
+                      {response.listing ? (
+                        <>
+                          <Link to={`/listings/${response.listing._id}`} className="text-blue-600 hover:text-blue-700 font-medium">
+                            {response.listing.title}
+                          </Link>
+                          <p className="text-gray-600">{response.listing.quantity.value} {response.listing.quantity.unit} · {response.listing.frequency}</p>
+                          <p className="text-gray-500 flex items-center">
+                            <MapPin className="h-3 w-3 mr-1" />
+                            {response.listing.location.city}, {response.listing.location.state}
+                          </p>
+                        </>
+                      ) : (
+                        <span className="text-gray-500">Not linked</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 align-top text-sm">
+                      <p className="text-gray-900">{response.listing?.specifications?.purity || '—'}</p>
+                      {response.listing?.certifications && response.listing.certifications.length > 0 && (
+                        <p className="text-xs text-gray-500">{response.listing.certifications.join(', ')}</p>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 align-top">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${getResponseStatusColor(response.status)}`}>
+                        {response.status.charAt(0).toUpperCase() + response.status.slice(1)}
+                      </span>
+                      {response.declineReason && <p className="text-xs text-gray-500 mt-1">{response.declineReason}</p>}
+                    </td>
+                    {canAct && (
+                      <td className="px-6 py-4 align-top">
+                        <div className="flex flex-col items-end gap-2">
+                          {response.status === 'negotiating' ? (
+                            <Link to="/negotiations" className="text-sm text-blue-600 hover:text-blue-700 font-medium">
+                              View Negotiation
+                            </Link>
+                          ) : response.status === 'declined' ? (
+                            <button
+                              onClick={() => handleStatusChange(response, 'pending')}
+                              disabled={updatingResponse === response._id}
+                              className="text-sm text-gray-600 hover:text-gray-900"
+                            >
+                              Undo Decline
+                            </button>
+                          ) : response.status !== 'accepted' && (
+                            <>
+                              <button
+                                onClick={() => handleNegotiate(response)}
+                                disabled={updatingResponse === response._id}
+                                className="px-3 py-1 bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white text-sm rounded-lg font-medium transition-colors"
+                              >
+                                Negotiate
+                              </button>
+                              <div className="flex gap-3">
+                                <button
+                                  onClick={() => handleStatusChange(response, response.status === 'shortlisted' ? 'pending' : 'shortlisted')}
+                                  disabled={updatingResponse === response._id}
+                                  className="text-sm text-blue-600 hover:text-blue-700"
+                                >
+                                  {response.status === 'shortlisted' ? 'Unshortlist' : 'Shortlist'}
+                                </button>
+                                <button
+                                  onClick={() => handleStatusChange(response, 'declined')}
+                                  disabled={updatingResponse === response._id}
+                                  className="flex items-center text-sm text-red-600 hover:text-red-700"
+                                >
+                                  <XCircle className="h-3 w-3 mr-1" />
+                                  Decline
+                                </button>
+                              </div>
+                            </>
+                          )}
+                        </div>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MaterialRequestDetails;
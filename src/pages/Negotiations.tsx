@@ -1,9 +1,45 @@
-import React, { useState, useEffect } from 'react';
-import { MessageCircle, Phone, FileText, CheckCircle, Clock, AlertTriangle, Shield, Send, Paperclip, User, DollarSign, FileCheck, X, Plus, Calendar, MapPin, CreditCard } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { MessageCircle, Phone, FileText, CheckCircle, Clock, AlertTriangle, Shield, Send, Paperclip, User, DollarSign, FileCheck, X, Plus, Calendar, MapPin, CreditCard, StickyNote } from 'lucide-react';
 import { useApp } from '../context/AppContext';
 import { apiService } from '../services/api';
+import NegotiationNotesPanel, { NegotiationNote, NegotiationPriority } from '../components/NegotiationNotesPanel';
 import { useNavigate } from 'react-router-dom';
 
+interface NegotiationMessage {
+  _id: string;
+  // Absent on system messages from the platform
+  sender?: {
+    _id: string;
+    name: string;
+  };
+  content: string;
+  type: 'text' | 'file' | 'offer' | 'system' | 'price-discussion' | 'terms-discussion';
+  offer?: {
+    offerId?: string;
+    price: number;
+    quantity: number;
+    deliveryDate: string;
+    terms: string;
+  };
+  attachments?: Array<{
+    name: string;
+    url: string;
+    type: string;
+    size: number;
+  }>;
+  createdAt: string;
+  readBy: Array<{
+    user: string;
+    readAt: string;
+  }>;
+  edited?: boolean;
+  editedAt?: string;
+  editHistory?: Array<{
+    content: string;
+    editedAt: string;
+  }>;
+}
+
 interface Negotiation {
   _id: string;
   title: string;
@@ -27,34 +63,15 @@ interface Negotiation {
     title: string;
     materialType: string;
   };
-  status: 'active' | 'pending' | 'completed' | 'cancelled';
-  messages: Array<{
-    _id: string;
-    sender: {
-      _id: string;
-      name: string;
-    };
-    content: string;
-    type: 'text' | 'file' | 'offer' | 'price-discussion' | 'terms-discussion';
-    offer?: {
-      price: number;
-      quantity: number;
-      deliveryDate: string;
-      terms: string;
-    };
-    attachments?: Array<{
-      name: string;
-      url: string;
-      type: string;
-      size: number;
-    }>;
-    createdAt: string;
-    readBy: Array<{
-      user: string;
-      readAt: string;
-    }>;
-  }>;
+  status: 'active' | 'pending' | 'completed' | 'cancelled' | 'expired';
+  offers?: Offer[];
+  messages: NegotiationMessage[];
+  unreadCount?: number;
+  priority?: NegotiationPriority;
+  tags?: string[];
+  notes?: NegotiationNote[];
   currentOffer?: {
+    offerId?: string;
     price: number;
     quantity: number;
     deliveryDate: string;
@@ -62,11 +79,68 @@ interface Negotiation {
     offeredBy: string;
     status: 'pending' | 'accepted' | 'rejected' | 'countered';
   };
+  agreedTerms?: {
+    price: number;
+    quantity: number;
+    deliveryDate?: string;
+    paymentTerms?: string;
+    qualitySpecs?: string;
+    logistics?: string;
+  };
+  dealValue?: number;
+  termChangeRequest?: {
+    changes: {
+      price?: number;
+      quantity?: number;
+      deliveryDate?: string;
+      paymentTerms?: string;
+    };
+    reason?: string;
+    requestedBy: string;
+    approvedBy: string[];
+    status: 'pending' | 'approved' | 'rejected';
+  };
+  contract?: string;
   lastActivity: string;
   createdAt: string;
   updatedAt: string;
 }
 
+interface Offer {
+  _id: string;
+  price: number;
+  quantity: number;
+  deliveryDate?: string;
+  terms?: string;
+  paymentTerms?: string;
+  offeredBy: string;
+  offeredAt: string;
+  status: 'pending' | 'accepted' | 'rejected' | 'countered';
+  counterOf?: string;
+}
+
+// Payloads of the events pushed on GET /negotiations/stream
+type OfferUpdate = Pick<Negotiation, 'status' | 'currentOffer' | 'offers' | 'agreedTerms' | 'dealValue'>;
+
+interface StreamEvent {
+  negotiationId: string;
+}
+
+// Typing is re-announced every few seconds while the user types; an indicator that isn't refreshed expires
+const TYPING_THROTTLE = 3000;
+const TYPING_EXPIRY = 6000;
+
+// Mirrors the server's edit window for messages
+const MESSAGE_EDIT_WINDOW = 15 * 60 * 1000;
+const EDITABLE_MESSAGE_TYPES = ['text', 'file', 'price-discussion', 'terms-discussion'];
+
+interface AgreedTerms {
+  price: number;
+  quantity: number;
+  deliveryDate?: string;
+  paymentTerms?: string;
+}
+
 interface ContractFormData {
   materialType: string;
   quantity: {
@@ -102,6 +176,10 @@ const Negotiations: React.FC = () => {
   const [newMessage, setNewMessage] = useState('');
   const [messageType, setMessageType] = useState<'text' | 'price-discussion' | 'terms-discussion' | 'offer'>('text');
   const [filterStatus, setFilterStatus] = useState<string>('all');
+  const [filterTag, setFilterTag] = useState('');
+  const [filterPriority, setFilterPriority] = useState('');
+  const [availableTags, setAvailableTags] = useState<string[]>([]);
+  const [showNotesPanel, setShowNotesPanel] = useState(false);
   const [loading, setLoading] = useState(true);
   const [sendingMessage, setSendingMessage] = useState(false);
   const [showContractModal, setShowContractModal] = useState(false);
@@ -111,16 +189,27 @@ const Negotiations: React.FC = () => {
     price: '',
     quantity: '',
     deliveryDate: '',
-    terms: ''
+    terms: '',
+    paymentTerms: ''
   });
+  const [counterTarget, setCounterTarget] = useState<string | null>(null);
+  const [respondingOffer, setRespondingOffer] = useState(false);
+  const [typingUsers, setTypingUsers] = useState<Record<string, string>>({});
+  const selectedNegotiationRef = useRef<string | null>(null);
+  const lastTypingSentRef = useRef(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [uploadingFiles, setUploadingFiles] = useState(false);
+  const [editingMessage, setEditingMessage] = useState<{ id: string; content: string } | null>(null);
 
   const navigate = useNavigate();
 
+  const [contractDraftTerms, setContractDraftTerms] = useState<AgreedTerms | null>(null);
+  const [loadingDraft, setLoadingDraft] = useState(false);
   const [contractForm, setContractForm] = useState<ContractFormData>({
     materialType: '',
     quantity: {
       value: 0,
-      unit: 'tons'
+      unit: 'tonnes'
     },
     price: {
       value: 0,
@@ -144,14 +233,13 @@ const Negotiations: React.FC = () => {
     }
   });
 
-  useEffect(() => {
-    fetchNegotiations();
-  }, []);
-
-  const fetchNegotiations = async () => {
+  const fetchNegotiations = useCallback(async () => {
     try {
       setLoading(true);
-      const response = await apiService.getNegotiations();
+      const response = await apiService.getNegotiations({
+        ...(filterTag && { tag: filterTag }),
+        ...(filterPriority && { priority: filterPriority })
+      });
       if (response.success) {
         setNegotiations(response.data.negotiations);
       }
@@ -160,6 +248,133 @@ const Negotiations: React.FC = () => {
     } finally {
       setLoading(false);
     }
+  }, [filterTag, filterPriority]);
+
+  useEffect(() => {
+    fetchNegotiations();
+  }, [fetchNegotiations]);
+
+  useEffect(() => {
+    fetchTags();
+  }, []);
+
+  useEffect(() => {
+    selectedNegotiationRef.current = selectedNegotiation;
+  }, [selectedNegotiation]);
+
+  // Live updates for every negotiation the user takes part in
+  useEffect(() => {
+    const userId = user?._id;
+    if (!userId) return;
+    const stream = apiService.openNegotiationStream();
+    if (!stream) return;
+
+    const typingTimers: Record<string, ReturnType<typeof setTimeout>> = {};
+
+    const clearTyping = (negotiationId: string) => {
+      clearTimeout(typingTimers[negotiationId]);
+      setTypingUsers(prev => {
+        const next = { ...prev };
+        delete next[negotiationId];
+        return next;
+      });
+    };
+
+    const updateNegotiation = (negotiationId: string, update: (negotiation: Negotiation) => Negotiation) => {
+      setNegotiations(prev => prev.map(neg => neg._id === negotiationId ? update(neg) : neg));
+    };
+
+    stream.addEventListener('message', (event) => {
+      const { negotiationId, message } = JSON.parse(event.data) as StreamEvent & { message: NegotiationMessage };
+      const fromOther = message.sender?._id !== userId;
+      const isOpen = selectedNegotiationRef.current === negotiationId;
+
+      // Messages arriving in the open conversation are read straight away
+      if (fromOther && isOpen) {
+        message.readBy = [...message.readBy, { user: userId, readAt: new Date().toISOString() }];
+      }
+
+      updateNegotiation(negotiationId, neg => {
+        if (neg.messages.some(m => m._id === message._id)) return neg;
+        return {
+          ...neg,
+          messages: [...neg.messages, message],
+          lastActivity: message.createdAt,
+          unreadCount: fromOther && !isOpen ? (neg.unreadCount ?? 0) + 1 : neg.unreadCount
+        };
+      });
+
+      if (fromOther) {
+        clearTyping(negotiationId);
+        if (isOpen) apiService.markNegotiationRead(negotiationId).catch(() => undefined);
+      }
+    });
+
+    stream.addEventListener('message-edited', (event) => {
+      const { negotiationId, message } = JSON.parse(event.data) as StreamEvent & { message: NegotiationMessage };
+      updateNegotiation(negotiationId, neg => ({
+        ...neg,
+        messages: neg.messages.map(m => m._id === message._id ? { ...message, readBy: m.readBy } : m)
+      }));
+    });
+
+    stream.addEventListener('offer', (event) => {
+      const { negotiationId, ...update } = JSON.parse(event.data) as StreamEvent & OfferUpdate;
+      updateNegotiation(negotiationId, neg => ({ ...neg, ...update }));
+    });
+
+    stream.addEventListener('status', (event) => {
+      const { negotiationId, status, lastActivity } = JSON.parse(event.data) as StreamEvent & Pick<Negotiation, 'status' | 'lastActivity'>;
+      updateNegotiation(negotiationId, neg => ({ ...neg, status, lastActivity }));
+    });
+
+    stream.addEventListener('read', (event) => {
+      const { negotiationId, userId: readerId, messageIds, readAt } = JSON.parse(event.data) as StreamEvent & {
+        userId: string;
+        messageIds: string[];
+        readAt: string;
+      };
+      updateNegotiation(negotiationId, neg => ({
+        ...neg,
+        messages: neg.messages.map(message => messageIds.includes(message._id)
+          ? { ...message, readBy: [...message.readBy, { user: readerId, readAt }] }
+          : message)
+      }));
+    });
+
+    stream.addEventListener('typing', (event) => {
+      const { negotiationId, user: typist, typing } = JSON.parse(event.data) as StreamEvent & {
+        user: { _id: string; name: string };
+        typing: boolean;
+      };
+      if (!typing) return clearTyping(negotiationId);
+
+      setTypingUsers(prev => ({ ...prev, [negotiationId]: typist.name }));
+      clearTimeout(typingTimers[negotiationId]);
+      typingTimers[negotiationId] = setTimeout(() => clearTyping(negotiationId), TYPING_EXPIRY);
+    });
+
+    return () => {
+      stream.close();
+      Object.values(typingTimers).forEach(clearTimeout);
+    };
+  }, [user?._id]);
+
+  const fetchTags = async () => {
+    try {
+      const response = await apiService.getNegotiationTags();
+      if (response.success) {
+        setAvailableTags(response.data.tags);
+      }
+    } catch (error) {
+      console.error('Failed to fetch negotiation tags:', error);
+    }
+  };
+
+  const handleNotesPanelUpdate = (update: { notes?: NegotiationNote[]; tags?: string[]; priority?: NegotiationPriority }) => {
+    if (!selectedNegotiation) return;
+    setNegotiations(prev => prev.map(neg => neg._id === selectedNegotiation ? { ...neg, ...update } : neg));
+    if (update.tags) fetchTags();
   };
 
   const fetchNegotiationDetails = async (id: string) => {
@@ -175,80 +390,282 @@ const Negotiations: React.FC = () => {
     }
   };
 
+  const resetComposer = () => {
+    setNewMessage('');
+    setOfferData({ price: '', quantity: '', deliveryDate: '', terms: '', paymentTerms: '' });
+    setMessageType('text');
+    setCounterTarget(null);
+    setShowQuickActions(false);
+  };
+
+  const handleComposerChange = (value: string) => {
+    setNewMessage(value);
+    if (!selectedNegotiation || !value.trim()) return;
+
+    const now = Date.now();
+    if (now - lastTypingSentRef.current < TYPING_THROTTLE) return;
+    lastTypingSentRef.current = now;
+    apiService.sendTypingIndicator(selectedNegotiation, true).catch(() => undefined);
+  };
+
+  const replaceNegotiation = (updated: Negotiation) => {
+    setNegotiations(prev => prev.map(neg => neg._id === updated._id ? updated : neg));
+  };
+
+  const handleSendOffer = async () => {
+    if (!selectedNegotiation || !offerData.price || !offerData.quantity) return;
+
+    const payload = {
+      price: parseFloat(offerData.price),
+      quantity: parseFloat(offerData.quantity),
+      ...(offerData.deliveryDate && { deliveryDate: offerData.deliveryDate }),
+      ...(offerData.terms && { terms: offerData.terms }),
+      ...(offerData.paymentTerms && { paymentTerms: offerData.paymentTerms }),
+      ...(newMessage.trim() && { message: newMessage.trim() })
+    };
+
+    const response = counterTarget
+      ? await apiService.counterOffer(selectedNegotiation, counterTarget, payload)
+      : await apiService.makeOffer(selectedNegotiation, payload);
+
+    if (response.success) {
+      resetComposer();
+      replaceNegotiation(response.data.negotiation);
+    }
+  };
+
   const handleSendMessage = async () => {
-    if (!newMessage.trim() || !selectedNegotiation) return;
+    if (!selectedNegotiation) return;
+    if (messageType !== 'offer' && !newMessage.trim()) return;
 
     try {
       setSendingMessage(true);
-      let messageData: any = {
+
+      if (messageType === 'offer') {
+        await handleSendOffer();
+        return;
+      }
+
+      const messageData = {
         content: newMessage,
         type: messageType
       };
 
-      // Add offer data if it's an offer message
-      if (messageType === 'offer' && offerData.price && offerData.quantity) {
-        messageData.offer = {
-          price: parseFloat(offerData.price),
-          quantity: parseFloat(offerData.quantity),
-          deliveryDate: offerData.deliveryDate,
-          terms: offerData.terms
-        };
-      }
-
       const response = await apiService.sendMessage(selectedNegotiation, messageData);
 
       if (response.success) {
-        setNewMessage('');
-        setOfferData({ price: '', quantity: '', deliveryDate: '', terms: '' });
-        setMessageType('text');
-        setShowQuickActions(false);
-        await fetchNegotiationDetails(selectedNegotiation);
+        resetComposer();
+        lastTypingSentRef.current = 0;
+        appendMessage(selectedNegotiation, response.data.message);
       }
     } catch (error) {
       console.error('Failed to send message:', error);
-      alert('Failed to send message. Please try again.');
+      alert(`Failed to send message: ${error instanceof Error ? error.message : 'Please try again.'}`);
     } finally {
       setSendingMessage(false);
     }
   };
 
+  const appendMessage = (negotiationId: string, message: NegotiationMessage) => {
+    setNegotiations(prev => prev.map(neg => neg._id === negotiationId && !neg.messages.some(m => m._id === message._id)
+      ? { ...neg, messages: [...neg.messages, message], lastActivity: message.createdAt }
+      : neg));
+  };
+
+  const handleUploadFiles = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files || []);
+    event.target.value = '';
+    if (!selectedNegotiation || files.length === 0) return;
+
+    try {
+      setUploadingFiles(true);
+      const response = await apiService.uploadNegotiationFiles(selectedNegotiation, files, newMessage.trim() || undefined);
+      if (response.success) {
+        resetComposer();
+        appendMessage(selectedNegotiation, response.data.message);
+      }
+    } catch (error) {
+      console.error('Failed to upload files:', error);
+      alert(`Failed to upload files: ${error instanceof Error ? error.message : 'Please try again.'}`);
+    } finally {
+      setUploadingFiles(false);
+    }
+  };
+
+  const canEditMessage = (message: NegotiationMessage) =>
+    message.sender?._id === user?._id &&
+    EDITABLE_MESSAGE_TYPES.includes(message.type) &&
+    Date.now() - new Date(message.createdAt).getTime() < MESSAGE_EDIT_WINDOW;
+
+  const handleSaveEdit = async () => {
+    if (!selectedNegotiation || !editingMessage || !editingMessage.content.trim()) return;
+
+    try {
+      const response = await apiService.editMessage(selectedNegotiation, editingMessage.id, editingMessage.content.trim());
+      if (response.success) {
+        const edited: NegotiationMessage = response.data.message;
+        setNegotiations(prev => prev.map(neg => neg._id === selectedNegotiation
+          ? { ...neg, messages: neg.messages.map(m => m._id === edited._id ? { ...edited, readBy: m.readBy } : m) }
+          : neg));
+        setEditingMessage(null);
+      }
+    } catch (error) {
+      console.error('Failed to edit message:', error);
+      alert(`Failed to edit message: ${error instanceof Error ? error.message : 'Please try again.'}`);
+    }
+  };
+
+  const handleAcceptOffer = async (offerId: string) => {
+    if (!selectedNegotiation) return;
+    try {
+      setRespondingOffer(true);
+      const response = await apiService.acceptOffer(selectedNegotiation, offerId);
+      if (response.success) replaceNegotiation(response.data.negotiation);
+    } catch (error) {
+      console.error('Failed to accept offer:', error);
+      alert(`Failed to accept offer: ${error instanceof Error ? error.message : 'Please try again.'}`);
+    } finally {
+      setRespondingOffer(false);
+    }
+  };
+
+  const handleRejectOffer = async (offerId: string) => {
+    if (!selectedNegotiation) return;
+    const reason = window.prompt('Reason for rejecting (optional):') ?? undefined;
+    try {
+      setRespondingOffer(true);
+      const response = await apiService.rejectOffer(selectedNegotiation, offerId, reason || undefined);
+      if (response.success) replaceNegotiation(response.data.negotiation);
+    } catch (error) {
+      console.error('Failed to reject offer:', error);
+      alert(`Failed to reject offer: ${error instanceof Error ? error.message : 'Please try again.'}`);
+    } finally {
+      setRespondingOffer(false);
+    }
+  };
+
+  const startCounterOffer = (offer: Offer) => {
+    setCounterTarget(offer._id);
+    setMessageType('offer');
+    setShowQuickActions(true);
+    setOfferData({
+      price: String(offer.price),
+      quantity: String(offer.quantity),
+      deliveryDate: offer.deliveryDate ? offer.deliveryDate.slice(0, 10) : '',
+      terms: offer.terms || '',
+      paymentTerms: offer.paymentTerms || ''
+    });
+  };
+
+  const getOffer = (negotiation: Negotiation, offerId?: string) => {
+    if (!offerId) return undefined;
+    return negotiation.offers?.find(offer => offer._id === offerId);
+  };
+
+  const getOfferStatusColor = (status: string) => {
+    switch (status) {
+      case 'accepted':
+        return 'bg-green-100 text-green-800';
+      case 'rejected':
+        return 'bg-red-100 text-red-800';
+      case 'countered':
+        return 'bg-yellow-100 text-yellow-800';
+      default:
+        return 'bg-purple-100 text-purple-800';
+    }
+  };
+
+  const openContractModal = async () => {
+    if (!selectedNegotiation) return;
+
+    try {
+      setLoadingDraft(true);
+      const response = await apiService.getContractDraft(selectedNegotiation);
+      if (response.success) {
+        const { draft, agreedTerms } = response.data;
+        setContractDraftTerms(agreedTerms);
+        setContractForm({
+          materialType: draft.materialType || '',
+          quantity: { value: draft.quantity.value, unit: draft.quantity.unit },
+          price: { value: draft.price.value, currency: draft.price.currency || 'INR' },
+          deliveryDate: draft.deliveryDate ? draft.deliveryDate.slice(0, 10) : '',
+          deliveryLocation: {
+            address: draft.deliveryLocation?.address || '',
+            city: draft.deliveryLocation?.city || '',
+            state: draft.deliveryLocation?.state || '',
+            pincode: draft.deliveryLocation?.pincode || ''
+          },
+          paymentTerms: draft.paymentTerms || 'net-30',
+          qualitySpecs: draft.qualitySpecs || '',
+          packagingRequirements: draft.packagingRequirements || '',
+          inspectionRights: '',
+          penalties: { lateDelivery: '', qualityIssues: '', cancellation: '' }
+        });
+        setShowContractModal(true);
+      }
+    } catch (error) {
+      console.error('Failed to load contract draft:', error);
+      alert(`Unable to draft contract: ${error instanceof Error ? error.message : 'Please try again.'}`);
+    } finally {
+      setLoadingDraft(false);
+    }
+  };
+
+  // Commercial terms that differ from the accepted offer need both parties' approval
+  const getTermChanges = () => {
+    if (!contractDraftTerms) return {};
+    const changes: Record<string, unknown> = {};
+    if (contractForm.price.value !== contractDraftTerms.price) changes.price = contractForm.price.value;
+    if (contractForm.quantity.value !== contractDraftTerms.quantity) changes.quantity = contractForm.quantity.value;
+    if (contractDraftTerms.deliveryDate && contractForm.deliveryDate !== contractDraftTerms.deliveryDate.slice(0, 10)) {
+      changes.deliveryDate = contractForm.deliveryDate;
+    }
+    if (contractDraftTerms.paymentTerms && contractForm.paymentTerms !== contractDraftTerms.paymentTerms) {
+      changes.paymentTerms = contractForm.paymentTerms;
+    }
+    return changes;
+  };
+
+  const handleProposeTermChange = async () => {
+    if (!selectedNegotiation) return;
+    const reason = window.prompt('Why do the terms need to change?') ?? '';
+
+    try {
+      const response = await apiService.proposeTermChange(selectedNegotiation, { ...getTermChanges(), reason });
+      if (response.success) {
+        setShowContractModal(false);
+        alert('Term change proposed. The contract can be created once the other party approves.');
+        await fetchNegotiationDetails(selectedNegotiation);
+      }
+    } catch (error) {
+      console.error('Failed to propose term change:', error);
+      alert(`Failed to propose term change: ${error instanceof Error ? error.message : 'Please try again.'}`);
+    }
+  };
+
+  const handleResolveTermChange = async (decision: 'approve' | 'reject') => {
+    if (!selectedNegotiation) return;
+
+    try {
+      const response = await apiService.resolveTermChange(selectedNegotiation, decision);
+      if (response.success) {
+        await fetchNegotiationDetails(selectedNegotiation);
+      }
+    } catch (error) {
+      console.error('Failed to resolve term change:', error);
+      alert(`Failed to ${decision} term change: ${error instanceof Error ? error.message : 'Please try again.'}`);
+    }
+  };
+
   const handleCreateContract = async () => {
     if (!selectedNegotiation) return;
 
     try {
       setCreatingContract(true);
-      
-      // Calculate total value
-      const totalValue = contractForm.quantity.value * contractForm.price.value;
-      
-      // Get the selected negotiation data to extract related information
-      const selectedNegotiationData = negotiations.find(n => n._id === selectedNegotiation);
-      
-      // Get buyer and seller information from the negotiation
-      const sellerParticipant = selectedNegotiationData?.participants.find(p => p.role === 'seller');
-      const buyerParticipant = selectedNegotiationData?.participants.find(p => p.role === 'buyer');
-      
-      if (!sellerParticipant || !buyerParticipant) {
-        throw new Error('Unable to identify buyer and seller from negotiation');
-      }
-      
-      // Prepare contract data in the exact format expected by the backend
+
+      // The server derives the contract from the accepted offer and computes the total itself
       const contractData = {
-        title: `${contractForm.materialType} Supply Contract`,
-        parties: {
-          seller: {
-            user: sellerParticipant.user._id,
-            company: sellerParticipant.user.company.name
-          },
-          buyer: {
-            user: buyerParticipant.user._id,
-            company: buyerParticipant.user.company.name
-          }
-        },
         relatedNegotiation: selectedNegotiation,
-        ...(selectedNegotiationData?.relatedListing && {
-          relatedListing: selectedNegotiationData.relatedListing._id
-        }),
         terms: {
           materialType: contractForm.materialType,
           quantity: {
@@ -259,7 +676,6 @@ const Negotiations: React.FC = () => {
             value: contractForm.price.value,
             currency: contractForm.price.currency
           },
-          totalValue: totalValue,
           deliveryDate: contractForm.deliveryDate,
           ...(contractForm.deliveryLocation.address && {
             deliveryLocation: {
@@ -283,25 +699,11 @@ const Negotiations: React.FC = () => {
         }
       };
 
-      console.log('Creating contract with data:', JSON.stringify(contractData, null, 2));
-
       const response = await apiService.createContract(contractData);
       
       if (response.success) {
         setShowContractModal(false);
-        // Reset form
-        setContractForm({
-          materialType: '',
-          quantity: { value: 0, unit: 'tons' },
-          price: { value: 0, currency: 'INR' },
-          deliveryDate: '',
-          deliveryLocation: { address: '', city: '', state: '', pincode: '' },
-          paymentTerms: 'net-30',
-          qualitySpecs: '',
-          packagingRequirements: '',
-          inspectionRights: '',
-          penalties: { lateDelivery: '', qualityIssues: '', cancellation: '' }
-        });
+        setContractDraftTerms(null);
         
         // Refresh negotiations
         await fetchNegotiations();
@@ -326,10 +728,11 @@ const Negotiations: React.FC = () => {
   };
 
   const getUnreadCount = (negotiation: Negotiation) => {
+    if (negotiation.unreadCount !== undefined) return negotiation.unreadCount;
     if (!user) return 0;
     return negotiation.messages.filter(message => {
       const isRead = message.readBy.some(read => read.user === user._id);
-      return !isRead && message.sender._id !== user._id;
+      return !isRead && message.sender?._id !== user._id;
     }).length;
   };
 
@@ -343,6 +746,8 @@ const Negotiations: React.FC = () => {
         return <CheckCircle className="h-4 w-4 text-blue-500" />;
       case 'cancelled':
         return <AlertTriangle className="h-4 w-4 text-red-500" />;
+      case 'expired':
+        return <Clock className="h-4 w-4 text-gray-400" />;
       default:
         return null;
     }
@@ -358,6 +763,8 @@ const Negotiations: React.FC = () => {
         return 'bg-blue-100 text-blue-800';
       case 'cancelled':
         return 'bg-red-100 text-red-800';
+      case 'expired':
+        return 'bg-gray-100 text-gray-600';
       default:
         return 'bg-gray-100 text-gray-800';
     }
@@ -438,9 +845,32 @@ const Negotiations: React.FC = () => {
                   <option value="active">Active</option>
                   <option value="pending">Pending</option>
                   <option value="completed">Completed</option>
+                  <option value="expired">Expired</option>
                 </select>
               </div>
             </div>
+            <div className="flex space-x-2">
+              <select
+                value={filterTag}
+                onChange={(e) => setFilterTag(e.target.value)}
+                className="flex-1 text-sm border border-gray-300 rounded-md px-3 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">All tags</option>
+                {availableTags.map(tag => (
+                  <option key={tag} value={tag}>{tag}</option>
+                ))}
+              </select>
+              <select
+                value={filterPriority}
+                onChange={(e) => setFilterPriority(e.target.value)}
+                className="flex-1 text-sm border border-gray-300 rounded-md px-3 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              >
+                <option value="">Any priority</option>
+                <option value="high">High priority</option>
+                <option value="medium">Medium priority</option>
+                <option value="low">Low priority</option>
+              </select>
+            </div>
           </div>
 
           <div className="flex-1 overflow-y-auto">
@@ -500,9 +930,17 @@ const Negotiations: React.FC = () => {
                         {negotiation.messages[negotiation.messages.length - 1].content}
                       </p>
                     )}
-                    <p className="text-xs text-gray-500 mt-1">
-                      {new Date(negotiation.lastActivity).toLocaleDateString()}
-                    </p>
+                    <div className="flex items-center flex-wrap gap-1 mt-1">
+                      <span className="text-xs text-gray-500 mr-1">
+                        {new Date(negotiation.lastActivity).toLocaleDateString()}
+                      </span>
+                      {negotiation.priority === 'high' && (
+                        <span className="text-xs px-2 py-0.5 rounded-full bg-red-100 text-red-700">High priority</span>
+                      )}
+                      {negotiation.tags?.map(tag => (
+                        <span key={tag} className="text-xs px-2 py-0.5 rounded-full bg-gray-100 text-gray-600">{tag}</span>
+                      ))}
+                    </div>
                   </div>
                 );
               })
@@ -511,7 +949,7 @@ const Negotiations: React.FC = () => {
         </div>
 
         {/* Chat Area */}
-        <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-gray-200 flex flex-col">
+        <div className="lg:col-span-2 bg-white rounded-xl shadow-sm border border-gray-200 flex flex-col relative overflow-hidden">
           {selectedNegotiationData ? (
             <>
               {/* Chat Header */}
@@ -540,19 +978,30 @@ const Negotiations: React.FC = () => {
                     <button className="p-2 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded-lg transition-colors">
                       <FileText className="h-5 w-5" />
                     </button>
+                    <button
+                      onClick={() => setShowNotesPanel(!showNotesPanel)}
+                      title="Notes, tags and priority"
+                      className={`p-2 rounded-lg transition-colors ${
+                        showNotesPanel ? 'bg-blue-100 text-blue-600' : 'text-gray-400 hover:text-gray-600 hover:bg-gray-100'
+                      }`}
+                    >
+                      <StickyNote className="h-5 w-5" />
+                    </button>
                     {(() => {
                       // Check if current user is a seller in this negotiation
                       const isCurrentUserSeller = selectedNegotiationData && user && 
                         selectedNegotiationData.participants.some(p => 
                           p.user._id === user._id && p.role === 'seller'
                         );
+                      const hasAgreedTerms = selectedNegotiationData.agreedTerms?.price != null;
                       
-                      return isCurrentUserSeller && (
+                      return isCurrentUserSeller && hasAgreedTerms && !selectedNegotiationData.contract && (
                         <button
-                          onClick={() => setShowContractModal(true)}
-                          className="px-3 py-1 bg-green-600 hover:bg-green-700 text-white text-sm rounded-lg transition-colors font-medium"
+                          onClick={openContractModal}
+                          disabled={loadingDraft}
+                          className="px-3 py-1 bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white text-sm rounded-lg transition-colors font-medium"
                         >
-                          Make Contract
+                          {loadingDraft ? 'Drafting...' : 'Make Contract'}
                         </button>
                       );
                     })()}
@@ -563,6 +1012,22 @@ const Negotiations: React.FC = () => {
                 </div>
               </div>
 
+              {/* Notes Panel */}
+              {showNotesPanel && (
+                <div className="absolute inset-y-0 right-0 z-10 flex shadow-xl">
+                  <NegotiationNotesPanel
+                    key={selectedNegotiationData._id}
+                    negotiationId={selectedNegotiationData._id}
+                    notes={selectedNegotiationData.notes || []}
+                    tags={selectedNegotiationData.tags || []}
+                    priority={selectedNegotiationData.priority || 'medium'}
+                    currentUserId={user?._id}
+                    onUpdate={handleNotesPanelUpdate}
+                    onClose={() => setShowNotesPanel(false)}
+                  />
+                </div>
+              )}
+
               {/* Deal Summary */}
               {selectedNegotiationData.currentOffer && (
                 <div className="p-4 bg-blue-50 border-b border-gray-200">
@@ -589,10 +1054,59 @@ const Negotiations: React.FC = () => {
                 </div>
               )}
 
+              {/* Pending term change */}
+              {selectedNegotiationData.termChangeRequest?.status === 'pending' && (
+                <div className="p-4 bg-yellow-50 border-b border-gray-200">
+                  <div className="flex items-center justify-between">
+                    <div className="text-sm text-yellow-800">
+                      <p className="font-medium">Term change requested</p>
+                      <p className="text-xs mt-1">
+                        {Object.entries(selectedNegotiationData.termChangeRequest.changes)
+                          .filter(([, value]) => value != null)
+                          .map(([field, value]) => `${field}: ${field === 'deliveryDate' ? new Date(String(value)).toLocaleDateString() : value}`)
+                          .join(' · ')}
+                        {selectedNegotiationData.termChangeRequest.reason && ` — ${selectedNegotiationData.termChangeRequest.reason}`}
+                      </p>
+                    </div>
+                    {user && !selectedNegotiationData.termChangeRequest.approvedBy.includes(user._id) && (
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => handleResolveTermChange('approve')}
+                          className="px-3 py-1 bg-green-600 hover:bg-green-700 text-white text-xs rounded font-medium transition-colors"
+                        >
+                          Approve
+                        </button>
+                        <button
+                          onClick={() => handleResolveTermChange('reject')}
+                          className="px-3 py-1 bg-red-600 hover:bg-red-700 text-white text-xs rounded font-medium transition-colors"
+                        >
+                          Reject
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+
               {/* Messages */}
               <div className="flex-1 overflow-y-auto p-4 space-y-4">
                 {selectedNegotiationData.messages.map((message) => {
-                  const isOwn = message.sender._id === user?._id;
+                  const isOwn = message.sender?._id === user?._id;
+
+                  if (message.type === 'system') {
+                    return (
+                      <div key={message._id} className="flex justify-center">
+                        <span className="text-xs text-gray-500 bg-gray-100 px-3 py-1 rounded-full">
+                          {message.content}
+                        </span>
+                      </div>
+                    );
+                  }
+
+                  const offer = getOffer(selectedNegotiationData, message.offer?.offerId);
+                  const canRespond = !isOwn && offer?.status === 'pending' &&
+                    selectedNegotiationData.status === 'active' &&
+                    selectedNegotiationData.currentOffer?.offerId === offer._id;
                   
                   return (
                     <div
@@ -622,38 +1136,122 @@ const Negotiations: React.FC = () => {
                           {message.type === 'file' && message.attachments && (
                             <div className="mb-2">
                               {message.attachments.map((attachment, index) => (
-                                <div key={index} className="flex items-center space-x-2 p-2 bg-white bg-opacity-20 rounded mb-1">
+                                <a
+                                  key={index}
+                                  href={attachment.url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="flex items-center space-x-2 p-2 bg-white bg-opacity-20 rounded mb-1 hover:underline"
+                                >
                                   <Paperclip className="h-4 w-4" />
                                   <span className="text-sm">{attachment.name}</span>
                                   <span className="text-xs opacity-75">
                                     ({Math.round(attachment.size / 1024)}KB)
                                   </span>
-                                </div>
+                                </a>
                               ))}
                             </div>
                           )}
                           
                           {message.type === 'offer' && message.offer && (
                             <div className="mb-2 p-3 bg-white bg-opacity-20 rounded">
-                              <div className="text-sm font-medium mb-2">Offer Details</div>
+                              <div className="flex items-center justify-between mb-2">
+                                <span className="text-sm font-medium">
+                                  {offer?.counterOf ? 'Counter Offer' : 'Offer Details'}
+                                </span>
+                                {offer && (
+                                  <span className={`text-xs px-2 py-0.5 rounded-full capitalize ${getOfferStatusColor(offer.status)}`}>
+                                    {offer.status}
+                                  </span>
+                                )}
+                              </div>
                               <div className="text-xs space-y-1">
                                 <div>Price: ₹{message.offer.price.toLocaleString()}</div>
                                 <div>Quantity: {message.offer.quantity}</div>
-                                <div>Delivery: {new Date(message.offer.deliveryDate).toLocaleDateString()}</div>
+                                {message.offer.deliveryDate && (
+                                  <div>Delivery: {new Date(message.offer.deliveryDate).toLocaleDateString()}</div>
+                                )}
+                                {offer?.paymentTerms && <div>Payment: {offer.paymentTerms}</div>}
                                 {message.offer.terms && <div>Terms: {message.offer.terms}</div>}
                               </div>
+                              {canRespond && offer && (
+                                <div className="flex space-x-2 mt-3">
+                                  <button
+                                    onClick={() => handleAcceptOffer(offer._id)}
+                                    disabled={respondingOffer}
+                                    className="px-3 py-1 bg-green-600 hover:bg-green-700 disabled:bg-gray-300 text-white text-xs rounded font-medium transition-colors"
+                                  >
+                                    Accept
+                                  </button>
+                                  <button
+                                    onClick={() => startCounterOffer(offer)}
+                                    disabled={respondingOffer}
+                                    className="px-3 py-1 bg-yellow-500 hover:bg-yellow-600 disabled:bg-gray-300 text-white text-xs rounded font-medium transition-colors"
+                                  >
+                                    Counter
+                                  </button>
+                                  <button
+                                    onClick={() => handleRejectOffer(offer._id)}
+                                    disabled={respondingOffer}
+                                    className="px-3 py-1 bg-red-600 hover:bg-red-700 disabled:bg-gray-300 text-white text-xs rounded font-medium transition-colors"
+                                  >
+                                    Reject
+                                  </button>
+                                </div>
+                              )}
                             </div>
                           )}
                           
-                          <p className="text-sm">{message.content}</p>
+                          {editingMessage?.id === message._id ? (
+                            <div className="space-y-2">
+                              <input
+                                type="text"
+                                value={editingMessage.content}
+                                onChange={(e) => setEditingMessage({ id: message._id, content: e.target.value })}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') handleSaveEdit();
+                                  if (e.key === 'Escape') setEditingMessage(null);
+                                }}
+                                className="w-full px-2 py-1 text-sm text-gray-900 rounded border border-gray-300"
+                                autoFocus
+                              />
+                              <div className="flex justify-end space-x-2 text-xs">
+                                <button onClick={() => setEditingMessage(null)} className="hover:underline">Cancel</button>
+                                <button onClick={handleSaveEdit} className="font-medium hover:underline">Save</button>
+                              </div>
+                            </div>
+                          ) : (
+                            <p className="text-sm">{message.content}</p>
+                          )}
                           <p className={`text-xs mt-1 ${isOwn ? 'text-blue-200' : 'text-gray-500'}`}>
                             {new Date(message.createdAt).toLocaleTimeString()}
+                            {message.edited && (
+                              <span
+                                title={message.editHistory?.map(edit => `${new Date(edit.editedAt).toLocaleString()}: ${edit.content}`).join('\n')}
+                              >
+                                {' · Edited'}
+                              </span>
+                            )}
+                            {isOwn && message.readBy.some(read => read.user !== user?._id) && ' · Seen'}
+                            {canEditMessage(message) && editingMessage?.id !== message._id && (
+                              <button
+                                onClick={() => setEditingMessage({ id: message._id, content: message.content })}
+                                className="ml-2 underline"
+                              >
+                                Edit
+                              </button>
+                            )}
                           </p>
                         </div>
                       </div>
                     </div>
                   );
                 })}
+                {typingUsers[selectedNegotiationData._id] && (
+                  <p className="text-xs text-gray-500 italic">
+                    {typingUsers[selectedNegotiationData._id]} is typing...
+                  </p>
+                )}
               </div>
 
               {/* Quick Actions */}
@@ -695,7 +1293,11 @@ const Negotiations: React.FC = () => {
                       Make Offer
                     </button>
                     <button
-                      onClick={() => setShowQuickActions(false)}
+                      onClick={() => {
+                        setShowQuickActions(false);
+                        setCounterTarget(null);
+                        setMessageType('text');
+                      }}
                       className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
                     >
                       <X className="h-4 w-4" />
@@ -703,6 +1305,11 @@ const Negotiations: React.FC = () => {
                   </div>
 
                   {/* Offer Form */}
+                  {messageType === 'offer' && counterTarget && (
+                    <div className="text-xs text-yellow-700 mb-2">
+                      Countering the current offer — adjust the terms below.
+                    </div>
+                  )}
                   {messageType === 'offer' && (
                     <div className="grid grid-cols-2 gap-2 mb-2">
                       <input
@@ -732,6 +1339,18 @@ const Negotiations: React.FC = () => {
                         onChange={(e) => setOfferData(prev => ({ ...prev, terms: e.target.value }))}
                         className="px-3 py-1 border border-gray-300 rounded text-sm"
                       />
+                      <select
+                        value={offerData.paymentTerms}
+                        onChange={(e) => setOfferData(prev => ({ ...prev, paymentTerms: e.target.value }))}
+                        className="px-3 py-1 border border-gray-300 rounded text-sm"
+                      >
+                        <option value="">Payment terms</option>
+                        <option value="advance">Advance</option>
+                        <option value="cod">Cash on Delivery</option>
+                        <option value="net-15">Net 15</option>
+                        <option value="net-30">Net 30</option>
+                        <option value="net-45">Net 45</option>
+                      </select>
                     </div>
                   )}
                 </div>
@@ -750,13 +1369,26 @@ const Negotiations: React.FC = () => {
                   >
                     <Plus className="h-5 w-5" />
                   </button>
-                  <button className="p-2 text-gray-400 hover:text-gray-600 transition-colors">
+                  <button
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={uploadingFiles}
+                    title="Attach files (up to 5, 10 MB each)"
+                    className="p-2 text-gray-400 hover:text-gray-600 disabled:text-gray-300 transition-colors"
+                  >
                     <Paperclip className="h-5 w-5" />
                   </button>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    accept="image/*,.pdf,.txt,.csv,.doc,.docx,.xls,.xlsx"
+                    onChange={handleUploadFiles}
+                    className="hidden"
+                  />
                   <input
                     type="text"
                     value={newMessage}
-                    onChange={(e) => setNewMessage(e.target.value)}
+                    onChange={(e) => handleComposerChange(e.target.value)}
                     placeholder={
                       messageType === 'price-discussion' ? 'Discuss pricing...' :
                       messageType === 'terms-discussion' ? 'Discuss terms...' :
@@ -769,7 +1401,10 @@ const Negotiations: React.FC = () => {
                   />
                   <button
                     onClick={handleSendMessage}
-                    disabled={!newMessage.trim() || sendingMessage}
+                    disabled={
+                      sendingMessage ||
+                      (messageType === 'offer' ? !offerData.price || !offerData.quantity : !newMessage.trim())
+                    }
                     className="p-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
                   >
                     <Send className="h-5 w-5" />
@@ -857,10 +1492,11 @@ const Negotiations: React.FC = () => {
                         }))}
                         className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                       >
-                        <option value="tons">Tons</option>
                         <option value="kg">Kg</option>
-                        <option value="pieces">Pieces</option>
+                        <option value="tonnes">Tonnes</option>
                         <option value="liters">Liters</option>
+                        <option value="pieces">Pieces</option>
+                        <option value="m3">Cubic Meters</option>
                       </select>
                     </div>
                   </div>
@@ -1078,6 +1714,11 @@ const Negotiations: React.FC = () => {
                   <div>Total Contract Value: <span className="font-semibold text-gray-900">
                     ₹{(contractForm.quantity.value * contractForm.price.value).toLocaleString()}
                   </span></div>
+                  {Object.keys(getTermChanges()).length > 0 && (
+                    <div className="text-xs text-yellow-700 mt-1">
+                      Terms differ from the accepted offer and need the other party's approval.
+                    </div>
+                  )}
                 </div>
                 <div className="flex space-x-3">
                   <button
@@ -1086,13 +1727,22 @@ const Negotiations: React.FC = () => {
                   >
                     Cancel
                   </button>
-                  <button
-                    onClick={handleCreateContract}
-                    disabled={creatingContract || !contractForm.materialType || !contractForm.quantity.value || !contractForm.price.value}
-                    className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white rounded-lg font-medium transition-colors"
-                  >
-                    {creatingContract ? 'Creating Contract...' : 'Create Contract'}
-                  </button>
+                  {Object.keys(getTermChanges()).length > 0 ? (
+                    <button
+                      onClick={handleProposeTermChange}
+                      className="px-4 py-2 bg-yellow-500 hover:bg-yellow-600 text-white rounded-lg font-medium transition-colors"
+                    >
+                      Propose Term Change
+                    </button>
+                  ) : (
+                    <button
+                      onClick={handleCreateContract}
+                      disabled={creatingContract || !contractForm.materialType || !contractForm.quantity.value || !contractForm.price.value}
+                      className="px-4 py-2 bg-green-600 hover:bg-green-700 disabled:bg-green-400 text-white rounded-lg font-medium transition-colors"
+                    >
+                      {creatingContract ? 'Creating Contract...' : 'Create Contract'}
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
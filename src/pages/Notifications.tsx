@@ -1,146 +1,101 @@
-import React, { useState, useEffect } from 'react';
-import { Bell, Check, Trash2, Filter, MessageCircle, Package, DollarSign, Truck, AlertTriangle, CheckCircle, Clock } from 'lucide-react';
+import React, { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Bell, Check, Trash2, Filter, MessageCircle, Package, DollarSign, Truck, AlertTriangle, CheckCircle } from 'lucide-react';
 import { useApp } from '../context/AppContext';
+import { apiService } from '../services/api';
+import type { Notification } from '../services/api';
 
-interface Notification {
-  id: string;
-  type: 'deal' | 'message' | 'shipment' | 'payment' | 'system' | 'security';
-  title: string;
-  message: string;
-  read: boolean;
-  createdAt: string;
-  actionUrl?: string;
-  priority: 'low' | 'medium' | 'high';
-  metadata?: {
-    contractId?: string;
-    negotiationId?: string;
-    shipmentId?: string;
-    amount?: number;
-  };
-}
+type NotificationFilter = 'all' | 'unread' | 'deal' | 'message' | 'shipment' | 'payment';
 
 const Notifications: React.FC = () => {
   const { user } = useApp();
+  const navigate = useNavigate();
   const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [filter, setFilter] = useState<'all' | 'unread' | 'deal' | 'message' | 'shipment' | 'payment'>('all');
+  const [filter, setFilter] = useState<NotificationFilter>('all');
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [page, setPage] = useState(1);
+  const [hasNext, setHasNext] = useState(false);
   const [loading, setLoading] = useState(true);
 
-  useEffect(() => {
-    fetchNotifications();
-  }, []);
-
-  const fetchNotifications = async () => {
+  const fetchNotifications = useCallback(async (pageToLoad = 1) => {
+    if (!user) return;
     try {
-      setLoading(true);
-      // Mock notifications - in real app, this would come from API
-      const mockNotifications: Notification[] = [
-        {
-          id: '1',
-          type: 'deal',
-          title: 'New Contract Signed',
-          message: 'Your contract for HDPE Plastic Waste has been signed by the buyer.',
-          read: false,
-          createdAt: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(), // 2 hours ago
-          priority: 'high',
-          metadata: { contractId: 'contract-1' }
-        },
-        {
-          id: '2',
-          type: 'message',
-          title: 'New Message',
-          message: 'Rajesh Kumar sent you a message about the steel scrap negotiation.',
-          read: false,
-          createdAt: new Date(Date.now() - 4 * 60 * 60 * 1000).toISOString(), // 4 hours ago
-          priority: 'medium',
-          metadata: { negotiationId: 'negotiation-1' }
-        },
-        {
-          id: '3',
-          type: 'shipment',
-          title: 'Shipment Update',
-          message: 'Your shipment SH-2025-001 is now in transit and will arrive tomorrow.',
-          read: true,
-          createdAt: new Date(Date.now() - 6 * 60 * 60 * 1000).toISOString(), // 6 hours ago
-          priority: 'medium',
-          metadata: { shipmentId: 'shipment-1' }
-        },
-        {
-          id: '4',
-          type: 'payment',
-          title: 'Payment Received',
-          message: 'Payment of ₹1,25,000 has been received for contract WE-2025-001.',
-          read: true,
-          createdAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000).toISOString(), // 1 day ago
-          priority: 'high',
-          metadata: { amount: 125000, contractId: 'contract-1' }
-        },
-        {
-          id: '5',
-          type: 'system',
-          title: 'Profile Verification',
-          message: 'Your company profile has been successfully verified.',
-          read: true,
-          createdAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000).toISOString(), // 2 days ago
-          priority: 'medium'
-        },
-        {
-          id: '6',
-          type: 'deal',
-          title: 'New Inquiry',
-          message: 'Priya Sharma is interested in your Paper Waste listing.',
-          read: false,
-          createdAt: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(), // 3 days ago
-          priority: 'medium'
-        },
-        {
-          id: '7',
-          type: 'security',
-          title: 'Login from New Device',
-          message: 'We detected a login from a new device. If this wasn\'t you, please secure your account.',
-          read: true,
-          createdAt: new Date(Date.now() - 5 * 24 * 60 * 60 * 1000).toISOString(), // 5 days ago
-          priority: 'high'
-        }
-      ];
+      if (pageToLoad === 1) setLoading(true);
+      const params: Record<string, string> = { page: String(pageToLoad) };
+      if (filter === 'unread') params.unread = 'true';
+      else if (filter !== 'all') params.type = filter;
 
-      setNotifications(mockNotifications);
+      const response = await apiService.getNotifications(params);
+      if (response.success) {
+        const { notifications: fetched, unreadCount: unread, pagination } = response.data;
+        setNotifications(prev => pageToLoad === 1 ? fetched : [...prev, ...fetched]);
+        setUnreadCount(unread);
+        setPage(pagination.current);
+        setHasNext(pagination.hasNext);
+      }
     } catch (error) {
       console.error('Failed to fetch notifications:', error);
     } finally {
       setLoading(false);
     }
+  }, [user, filter]);
+
+  useEffect(() => {
+    fetchNotifications(1);
+  }, [fetchNotifications]);
+
+  const markAsRead = async (notificationId: string) => {
+    try {
+      await apiService.markNotificationRead(notificationId);
+      setNotifications(prev =>
+        prev.map(notification =>
+          notification._id === notificationId
+            ? { ...notification, read: true }
+            : notification
+        )
+      );
+      setUnreadCount(prev => Math.max(prev - 1, 0));
+    } catch (error) {
+      console.error('Failed to mark notification as read:', error);
+    }
   };
 
-  const markAsRead = (notificationId: string) => {
-    setNotifications(prev => 
-      prev.map(notification => 
-        notification.id === notificationId 
-          ? { ...notification, read: true }
-          : notification
-      )
-    );
+  const markAllAsRead = async () => {
+    try {
+      await apiService.markAllNotificationsRead();
+      setNotifications(prev =>
+        prev.map(notification => ({ ...notification, read: true }))
+      );
+      setUnreadCount(0);
+    } catch (error) {
+      console.error('Failed to mark notifications as read:', error);
+    }
   };
 
-  const markAllAsRead = () => {
-    setNotifications(prev => 
-      prev.map(notification => ({ ...notification, read: true }))
-    );
+  const deleteNotification = async (notificationId: string) => {
+    try {
+      const target = notifications.find(n => n._id === notificationId);
+      await apiService.deleteNotification(notificationId);
+      setNotifications(prev =>
+        prev.filter(notification => notification._id !== notificationId)
+      );
+      if (target && !target.read) setUnreadCount(prev => Math.max(prev - 1, 0));
+    } catch (error) {
+      console.error('Failed to delete notification:', error);
+    }
   };
 
-  const deleteNotification = (notificationId: string) => {
-    setNotifications(prev => 
-      prev.filter(notification => notification.id !== notificationId)
-    );
+  const openNotification = async (notification: Notification) => {
+    if (!notification.read) await markAsRead(notification._id);
+    if (notification.actionUrl) navigate(notification.actionUrl);
   };
 
+  // Filtering is done server-side; this keeps the list consistent after local updates
   const filteredNotifications = notifications.filter(notification => {
-    if (filter === 'all') return true;
     if (filter === 'unread') return !notification.read;
-    return notification.type === filter;
+    return true;
   });
 
-  const unreadCount = notifications.filter(n => !n.read).length;
-
   const getNotificationIcon = (type: string) => {
     switch (type) {
       case 'deal':
@@ -245,7 +200,7 @@ const Notifications: React.FC = () => {
             ].map((filterOption) => (
               <button
                 key={filterOption.key}
-                onClick={() => setFilter(filterOption.key as any)}
+                onClick={() => setFilter(filterOption.key as NotificationFilter)}
                 className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
                   filter === filterOption.key
                     ? 'bg-blue-100 text-blue-700'
@@ -274,7 +229,7 @@ const Notifications: React.FC = () => {
         ) : (
           filteredNotifications.map((notification) => (
             <div
-              key={notification.id}
+              key={notification._id}
               className={`bg-white rounded-xl shadow-sm border-l-4 border border-gray-200 p-6 transition-all hover:shadow-md ${
                 getPriorityColor(notification.priority)
               } ${!notification.read ? 'bg-blue-50' : ''}`}
@@ -308,7 +263,7 @@ const Notifications: React.FC = () => {
                 <div className="flex items-center space-x-2 ml-4">
                   {!notification.read && (
                     <button
-                      onClick={() => markAsRead(notification.id)}
+                      onClick={() => markAsRead(notification._id)}
                       className="p-2 text-gray-400 hover:text-blue-600 hover:bg-blue-100 rounded-lg transition-colors"
                       title="Mark as read"
                     >
@@ -316,7 +271,7 @@ const Notifications: React.FC = () => {
                     </button>
                   )}
                   <button
-                    onClick={() => deleteNotification(notification.id)}
+                    onClick={() => deleteNotification(notification._id)}
                     className="p-2 text-gray-400 hover:text-red-600 hover:bg-red-100 rounded-lg transition-colors"
                     title="Delete notification"
                   >
@@ -328,7 +283,10 @@ const Notifications: React.FC = () => {
               {/* Action buttons for specific notification types */}
               {notification.actionUrl && (
                 <div className="mt-4 pt-4 border-t border-gray-200">
-                  <button className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors">
+                  <button
+                    onClick={() => openNotification(notification)}
+                    className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors"
+                  >
                     View Details
                   </button>
                 </div>
@@ -339,9 +297,12 @@ const Notifications: React.FC = () => {
       </div>
 
       {/* Load More */}
-      {filteredNotifications.length > 0 && (
+      {filteredNotifications.length > 0 && hasNext && (
         <div className="text-center mt-8">
-          <button className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-6 py-3 rounded-lg font-medium transition-colors">
+          <button
+            onClick={() => fetchNotifications(page + 1)}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-700 px-6 py-3 rounded-lg font-medium transition-colors"
+          >
             Load More Notifications
           </button>
         </div>
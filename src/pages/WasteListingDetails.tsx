@@ -4,7 +4,7 @@ import {
   ArrowLeft, MapPin, Calendar, Eye, MessageCircle, Star, Package, 
   TrendingUp, AlertTriangle, Download, FileText,
   Shield, Clock, DollarSign, Scale, Building, Phone, Mail,
-  CheckCircle
+  CheckCircle, Users
 } from 'lucide-react';
 import { useApp } from '../context/AppContext';
 import { apiService } from '../services/api';
@@ -86,6 +86,37 @@ interface WasteListing {
   updatedAt: string;
 }
 
+interface BuyerMatch {
+  request: {
+    _id: string;
+    title: string;
+    materialType: string;
+    quantity: {
+      value: number;
+      unit: string;
+    };
+    budget: {
+      min?: number;
+      max: number;
+    };
+    qualityGrade: string;
+    frequency: string;
+    urgency: 'low' | 'medium' | 'high';
+    buyer: {
+      _id: string;
+      name: string;
+      company: {
+        name: string;
+        verified: boolean;
+      };
+    };
+  };
+  matchScore: number;
+  reasons: string[];
+  contacted: boolean;
+  contactedAt?: string;
+}
+
 const WasteListingDetail: React.FC = () => {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
@@ -95,6 +126,8 @@ const WasteListingDetail: React.FC = () => {
   const [selectedImage, setSelectedImage] = useState(0);
   const [startingNegotiation, setStartingNegotiation] = useState(false);
   const [inquiring, setInquiring] = useState(false);
+  const [buyerMatches, setBuyerMatches] = useState<BuyerMatch[]>([]);
+  const [contactingRequest, setContactingRequest] = useState<string | null>(null);
 
   useEffect(() => {
     if (id) {
@@ -108,6 +141,9 @@ const WasteListingDetail: React.FC = () => {
       const response = await apiService.getWasteListing(id!);
       if (response.success) {
         setListing(response.data.listing);
+        if (user?.type === 'seller' && response.data.listing.seller._id === user._id) {
+          fetchBuyerMatches();
+        }
       }
     } catch (error) {
       console.error('Failed to fetch listing:', error);
@@ -116,6 +152,41 @@ const WasteListingDetail: React.FC = () => {
     }
   };
 
+  const fetchBuyerMatches = async () => {
+    try {
+      const response = await apiService.getListingMatches(id!);
+      if (response.success) {
+        setBuyerMatches(response.data.matches);
+      }
+    } catch (error) {
+      console.error('Failed to fetch buyer matches:', error);
+    }
+  };
+
+  const handleContactBuyer = async (match: BuyerMatch) => {
+    if (!listing) return;
+
+    try {
+      setContactingRequest(match.request._id);
+      const response = await apiService.createNegotiation({
+        title: `${listing.title} for ${match.request.title}`,
+        counterpartyId: match.request.buyer._id,
+        type: 'request',
+        relatedId: match.request._id,
+        listingId: listing._id
+      });
+
+      if (response.success) {
+        navigate('/negotiations');
+      }
+    } catch (error) {
+      console.error('Failed to start negotiation:', error);
+      alert(error instanceof Error ? error.message : 'Failed to start negotiation. Please try again.');
+    } finally {
+      setContactingRequest(null);
+    }
+  };
+
   const handleStartNegotiation = async () => {
     if (!user) {
       alert('Please login to start negotiations');
@@ -144,7 +215,7 @@ const WasteListingDetail: React.FC = () => {
       }
     } catch (error) {
       console.error('Failed to start negotiation:', error);
-      alert('Failed to start negotiation. Please try again.');
+      alert(error instanceof Error ? error.message : 'Failed to start negotiation. Please try again.');
     } finally {
       setStartingNegotiation(false);
     }
@@ -599,6 +670,66 @@ const WasteListingDetail: React.FC = () => {
             </div>
           </div>
 
+          {/* Buyers Who Want This */}
+          {user?.type === 'seller' && user._id === listing.seller._id && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+              <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+                <Users className="h-5 w-5 mr-2 text-blue-600" />
+                Buyers Who Want This
+              </h3>
+
+              {buyerMatches.length === 0 ? (
+                <p className="text-sm text-gray-600">No open material requests match this listing yet.</p>
+              ) : (
+                <div className="space-y-4">
+                  {buyerMatches.map(match => (
+                    <div key={match.request._id} className="border border-gray-200 rounded-lg p-4">
+                      <div className="flex items-start justify-between mb-2">
+                        <div>
+                          <p className="font-medium text-gray-900">{match.request.title}</p>
+                          <p className="text-sm text-gray-600 flex items-center">
+                            {match.request.buyer.company?.name || match.request.buyer.name}
+                            {match.request.buyer.company?.verified && (
+                              <CheckCircle className="h-3 w-3 ml-1 text-green-500" />
+                            )}
+                          </p>
+                        </div>
+                        <span className="px-2 py-1 bg-blue-100 text-blue-800 text-xs font-medium rounded-full">
+                          {match.matchScore}% match
+                        </span>
+                      </div>
+                      <p className="text-sm text-gray-600 mb-2">
+                        Needs {match.request.quantity.value} {match.request.quantity.unit} {match.request.frequency} · {match.request.qualityGrade} · Budget up to ₹{match.request.budget.max}
+                      </p>
+                      {match.reasons.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mb-3">
+                          {match.reasons.map(reason => (
+                            <span key={reason} className="px-2 py-0.5 bg-gray-100 text-gray-700 text-xs rounded">
+                              {reason}
+                            </span>
+                          ))}
+                        </div>
+                      )}
+                      {match.contacted ? (
+                        <p className="text-xs text-gray-500">
+                          Contacted{match.contactedAt ? ` on ${new Date(match.contactedAt).toLocaleDateString()}` : ''}
+                        </p>
+                      ) : (
+                        <button
+                          onClick={() => handleContactBuyer(match)}
+                          disabled={contactingRequest === match.request._id || listing.status !== 'active'}
+                          className="w-full bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 text-white px-3 py-2 rounded-lg text-sm font-medium transition-colors"
+                        >
+                          {contactingRequest === match.request._id ? 'Starting...' : 'Start Negotiation'}
+                        </button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Location Details */}
           <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Location</h3>
@@ -1,5 +1,22 @@
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'https://wasteex.onrender.com/api';
 
+export interface Notification {
+  _id: string;
+  type: 'deal' | 'message' | 'shipment' | 'payment' | 'system' | 'security';
+  title: string;
+  message: string;
+  read: boolean;
+  createdAt: string;
+  actionUrl?: string;
+  priority: 'low' | 'medium' | 'high';
+  metadata?: {
+    contractId?: string;
+    negotiationId?: string;
+    shipmentId?: string;
+    amount?: number;
+  };
+}
+
 class ApiService {
   constructor() {}
 
@@ -23,10 +40,14 @@ class ApiService {
   private async request(endpoint: string, options: RequestInit = {}) {
     const url = `${API_BASE_URL}${endpoint}`;
     
+    const headers: Record<string, string> = this.getHeaders();
+    // Let the browser set the multipart boundary for uploads
+    if (options.body instanceof FormData) delete headers['Content-Type'];
+
     const config: RequestInit = {
       ...options,
       headers: {
-        ...this.getHeaders(),
+        ...headers,
         ...options.headers,
       },
     };
@@ -118,11 +139,40 @@ class ApiService {
     });
   }
 
+  async getListingMatches(id: string) {
+    return this.request(`/waste-listings/${id}/matches`);
+  }
+
   async getMyListings(params?: any) {
     const queryString = params ? '?' + new URLSearchParams(params).toString() : '';
     return this.request(`/waste-listings/my/listings${queryString}`);
   }
 
+  // --- Saved Searches ---
+  async getSavedSearches() {
+    return this.request('/saved-searches');
+  }
+
+  async createSavedSearch(searchData: Record<string, unknown>) {
+    return this.request('/saved-searches', {
+      method: 'POST',
+      body: JSON.stringify(searchData),
+    });
+  }
+
+  async updateSavedSearch(id: string, searchData: Record<string, unknown>) {
+    return this.request(`/saved-searches/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(searchData),
+    });
+  }
+
+  async deleteSavedSearch(id: string) {
+    return this.request(`/saved-searches/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
   // --- Material Requests ---
   async getMaterialRequests(params?: any) {
     const queryString = params ? '?' + new URLSearchParams(params).toString() : '';
@@ -160,6 +210,19 @@ class ApiService {
     });
   }
 
+  async updateResponseStatus(id: string, responseId: string, status: string, reason?: string) {
+    return this.request(`/material-requests/${id}/responses/${responseId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ status, reason }),
+    });
+  }
+
+  async negotiateResponse(id: string, responseId: string) {
+    return this.request(`/material-requests/${id}/responses/${responseId}/negotiate`, {
+      method: 'POST',
+    });
+  }
+
   // --- Negotiations ---
   async getNegotiations(params?: any) {
     const queryString = params ? '?' + new URLSearchParams(params).toString() : '';
@@ -184,6 +247,51 @@ class ApiService {
     });
   }
 
+  async editMessage(negotiationId: string, messageId: string, content: string) {
+    return this.request(`/negotiations/${negotiationId}/messages/${messageId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ content }),
+    });
+  }
+
+  async uploadNegotiationFiles(negotiationId: string, files: File[], content?: string) {
+    const formData = new FormData();
+    files.forEach(file => formData.append('files', file));
+    if (content) formData.append('content', content);
+
+    return this.request(`/negotiations/${negotiationId}/attachments`, {
+      method: 'POST',
+      body: formData,
+    });
+  }
+
+  async makeOffer(negotiationId: string, offerData: Record<string, unknown>) {
+    return this.request(`/negotiations/${negotiationId}/offers`, {
+      method: 'POST',
+      body: JSON.stringify(offerData),
+    });
+  }
+
+  async acceptOffer(negotiationId: string, offerId: string) {
+    return this.request(`/negotiations/${negotiationId}/offers/${offerId}/accept`, {
+      method: 'POST',
+    });
+  }
+
+  async rejectOffer(negotiationId: string, offerId: string, reason?: string) {
+    return this.request(`/negotiations/${negotiationId}/offers/${offerId}/reject`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
+  async counterOffer(negotiationId: string, offerId: string, offerData: Record<string, unknown>) {
+    return this.request(`/negotiations/${negotiationId}/offers/${offerId}/counter`, {
+      method: 'POST',
+      body: JSON.stringify(offerData),
+    });
+  }
+
   async updateNegotiationStatus(id: string, status: string) {
     return this.request(`/negotiations/${id}/status`, {
       method: 'PUT',
@@ -191,6 +299,64 @@ class ApiService {
     });
   }
 
+  async getNegotiationTags() {
+    return this.request('/negotiations/tags');
+  }
+
+  async addNegotiationNote(id: string, note: { content: string; private: boolean }) {
+    return this.request(`/negotiations/${id}/notes`, {
+      method: 'POST',
+      body: JSON.stringify(note),
+    });
+  }
+
+  async updateNegotiationNote(id: string, noteId: string, note: { content?: string; private?: boolean }) {
+    return this.request(`/negotiations/${id}/notes/${noteId}`, {
+      method: 'PUT',
+      body: JSON.stringify(note),
+    });
+  }
+
+  async deleteNegotiationNote(id: string, noteId: string) {
+    return this.request(`/negotiations/${id}/notes/${noteId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async updateNegotiationTags(id: string, tags: string[]) {
+    return this.request(`/negotiations/${id}/tags`, {
+      method: 'PUT',
+      body: JSON.stringify({ tags }),
+    });
+  }
+
+  async updateNegotiationPriority(id: string, priority: string) {
+    return this.request(`/negotiations/${id}/priority`, {
+      method: 'PUT',
+      body: JSON.stringify({ priority }),
+    });
+  }
+
+  async markNegotiationRead(id: string) {
+    return this.request(`/negotiations/${id}/read`, {
+      method: 'POST',
+    });
+  }
+
+  async sendTypingIndicator(id: string, typing: boolean) {
+    return this.request(`/negotiations/${id}/typing`, {
+      method: 'POST',
+      body: JSON.stringify({ typing }),
+    });
+  }
+
+  // EventSource cannot send an Authorization header, so the token goes in the query string
+  openNegotiationStream(): EventSource | null {
+    const token = this.getToken();
+    if (!token) return null;
+    return new EventSource(`${API_BASE_URL}/negotiations/stream?token=${encodeURIComponent(token)}`);
+  }
+
   // --- Contracts ---
   async getContracts(params?: any) {
     const queryString = params ? '?' + new URLSearchParams(params).toString() : '';
@@ -217,6 +383,54 @@ class ApiService {
     });
   }
 
+  async getContractDraft(negotiationId: string) {
+    return this.request(`/contracts/draft/${negotiationId}`);
+  }
+
+  async proposeTermChange(negotiationId: string, changes: Record<string, unknown>) {
+    return this.request(`/contracts/draft/${negotiationId}/term-changes`, {
+      method: 'POST',
+      body: JSON.stringify(changes),
+    });
+  }
+
+  async resolveTermChange(negotiationId: string, decision: 'approve' | 'reject') {
+    return this.request(`/contracts/draft/${negotiationId}/term-changes/${decision}`, {
+      method: 'POST',
+    });
+  }
+
+  // The PDF is binary, so it is fetched directly rather than through request()
+  async downloadContractPdf(id: string) {
+    const response = await fetch(`${API_BASE_URL}/contracts/${id}/pdf`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.message || 'Failed to download contract PDF');
+    }
+
+    return {
+      blob: await response.blob(),
+      sha256: response.headers.get('X-Content-SHA256'),
+    };
+  }
+
+  async verifyContractPdf(id: string, file: File) {
+    const formData = new FormData();
+    formData.append('file', file);
+
+    return this.request(`/contracts/${id}/verify`, {
+      method: 'POST',
+      body: formData,
+    });
+  }
+
+  async getContractSigningRequest(id: string) {
+    return this.request(`/contracts/${id}/signing-request`);
+  }
+
   async signContract(id: string, signature: string) {
     return this.request(`/contracts/${id}/sign`, {
       method: 'POST',
@@ -224,6 +438,32 @@ class ApiService {
     });
   }
 
+  async addMilestone(contractId: string, milestoneData: Record<string, unknown>) {
+    return this.request(`/contracts/${contractId}/milestones`, {
+      method: 'POST',
+      body: JSON.stringify(milestoneData),
+    });
+  }
+
+  async generateDefaultMilestones(contractId: string) {
+    return this.request(`/contracts/${contractId}/milestones/defaults`, {
+      method: 'POST',
+    });
+  }
+
+  async updateMilestone(contractId: string, milestoneId: string, milestoneData: Record<string, unknown>) {
+    return this.request(`/contracts/${contractId}/milestones/${milestoneId}`, {
+      method: 'PUT',
+      body: JSON.stringify(milestoneData),
+    });
+  }
+
+  async completeMilestone(contractId: string, milestoneId: string) {
+    return this.request(`/contracts/${contractId}/milestones/${milestoneId}/complete`, {
+      method: 'POST',
+    });
+  }
+
   // --- Logistics ---
   async getShipments(params?: any) {
     const queryString = params ? '?' + new URLSearchParams(params).toString() : '';
@@ -261,23 +501,102 @@ class ApiService {
     return this.request(`/payments${queryString}`);
   }
 
-  async initiatePayment(contractId: string) {
+  async getPaymentGateways() {
+    return this.request('/payments/gateways');
+  }
+
+  async verifyPayment(paymentId: string, params: Record<string, string>) {
+    return this.request('/payments/verify', {
+      method: 'POST',
+      body: JSON.stringify({ paymentId, ...params }),
+    });
+  }
+
+  async getReceivables() {
+    return this.request('/payments/receivables');
+  }
+
+  async settleCodPayment(paymentId: string, method: string, reference?: string) {
+    return this.request(`/payments/${paymentId}/settle-cod`, {
+      method: 'POST',
+      body: JSON.stringify({ method, reference }),
+    });
+  }
+
+  async getFeePreview(params: Record<string, string>) {
+    const queryString = '?' + new URLSearchParams(params).toString();
+    return this.request(`/payments/fee-preview${queryString}`);
+  }
+
+  // --- Invoices ---
+  async getInvoices(params?: Record<string, string>) {
+    const queryString = params ? '?' + new URLSearchParams(params).toString() : '';
+    return this.request(`/invoices${queryString}`);
+  }
+
+  // Invoice PDFs and e-invoice JSON are downloaded as files, so they are fetched directly
+  async downloadInvoice(id: string, format: 'pdf' | 'einvoice') {
+    const response = await fetch(`${API_BASE_URL}/invoices/${id}/${format}`, {
+      headers: this.getHeaders(),
+    });
+
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.message || 'Failed to download invoice');
+    }
+
+    return response.blob();
+  }
+
+  async reconcilePayment(paymentId: string) {
+    return this.request(`/payments/${paymentId}/reconcile`, {
+      method: 'POST',
+    });
+  }
+
+  // PayU's hosted checkout takes a form POST, so build one and submit it
+  private postToGateway(action: string, fields: Record<string, string>) {
+    const form = document.createElement('form');
+    form.method = 'POST';
+    form.action = action;
+    Object.entries(fields).forEach(([name, value]) => {
+      const input = document.createElement('input');
+      input.type = 'hidden';
+      input.name = name;
+      input.value = value;
+      form.appendChild(input);
+    });
+    document.body.appendChild(form);
+    form.submit();
+  }
+
+  async initiatePayment(contractId: string, provider?: string) {
     try {
       console.log('💫 Initiating payment for contract:', contractId);
-  
-      const res = await fetch(`${API_BASE_URL}/payments/create-order`, {
+
+      const data = await this.request('/payments/create-order', {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${localStorage.getItem('token')}`,
-        },
-        body: JSON.stringify({ contractId }),
+        body: JSON.stringify({ contractId, provider }),
       });
-  
-      if (!res.ok) throw new Error('Failed to create payment order');
-  
-      const data = await res.json();
       const { gatewayResponse, payment } = data.data;
+
+      // Each provider has its own checkout; Stripe and PayU return to the contract page afterwards
+      if (gatewayResponse.provider === 'stripe') {
+        window.location.assign(gatewayResponse.url);
+        return;
+      }
+
+      if (gatewayResponse.provider === 'payu') {
+        this.postToGateway(gatewayResponse.action, gatewayResponse.fields);
+        return;
+      }
+
+      if (gatewayResponse.provider === 'fake') {
+        await this.verifyPayment(payment._id, { outcome: 'success' });
+        alert('🎉 Test payment verified and held in escrow!');
+        return;
+      }
+
       const user = await this.getCurrentUser();
   
       const options = {
@@ -297,22 +616,10 @@ class ApiService {
         handler: async (response: any) => {
           // 💘 Directly verify after success
           try {
-            const verifyRes = await fetch(`${API_BASE_URL}/payments/verify`, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                Authorization: `Bearer ${localStorage.getItem('token')}`,
-              },
-              body: JSON.stringify({
-                paymentId: payment._id, // This links the MongoDB payment
-                gatewayPaymentId: response.razorpay_payment_id,
-                signature: response.razorpay_signature,
-              }),
+            const result = await this.verifyPayment(payment._id, {
+              gatewayPaymentId: response.razorpay_payment_id,
+              signature: response.razorpay_signature,
             });
-  
-            if (!verifyRes.ok) throw new Error('Payment verification failed');
-  
-            const result = await verifyRes.json();
             console.log('✅ Payment verified:', result);
             alert('🎉 Payment verified and held in escrow!');
           } catch (err) {
@@ -326,7 +633,7 @@ class ApiService {
       razor.open();
     } catch (error) {
       console.error('🔥 initiatePayment error:', error);
-      alert('💔 Payment initiation failed. Please try again.');
+      alert(error instanceof Error ? error.message : '💔 Payment initiation failed. Please try again.');
     }
   }
   
@@ -344,6 +651,27 @@ class ApiService {
     });
   }
 
+  async requestRefund(paymentId: string, reason: string, amount?: number) {
+    return this.request(`/payments/${paymentId}/refund-request`, {
+      method: 'POST',
+      body: JSON.stringify({ reason, amount }),
+    });
+  }
+
+  async approveRefund(paymentId: string, amount?: number) {
+    return this.request(`/payments/${paymentId}/refund/approve`, {
+      method: 'POST',
+      body: JSON.stringify({ amount }),
+    });
+  }
+
+  async rejectRefund(paymentId: string, reason: string) {
+    return this.request(`/payments/${paymentId}/refund/reject`, {
+      method: 'POST',
+      body: JSON.stringify({ reason }),
+    });
+  }
+
   // --- Admin ---
   async getAdminDashboard() {
     return this.request('/admin/dashboard');
@@ -363,6 +691,85 @@ class ApiService {
     return this.request('/admin/analytics');
   }
 
+  async getFeeRules() {
+    return this.request('/admin/fee-rules');
+  }
+
+  async createFeeRule(rule: Record<string, unknown>) {
+    return this.request('/admin/fee-rules', {
+      method: 'POST',
+      body: JSON.stringify(rule),
+    });
+  }
+
+  async updateFeeRule(id: string, rule: Record<string, unknown>) {
+    return this.request(`/admin/fee-rules/${id}`, {
+      method: 'PUT',
+      body: JSON.stringify(rule),
+    });
+  }
+
+  async deactivateFeeRule(id: string) {
+    return this.request(`/admin/fee-rules/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // --- Notifications ---
+  async getNotifications(params?: Record<string, string>) {
+    const queryString = params ? '?' + new URLSearchParams(params).toString() : '';
+    return this.request(`/notifications${queryString}`);
+  }
+
+  async markNotificationRead(id: string) {
+    return this.request(`/notifications/${id}/read`, {
+      method: 'PUT',
+    });
+  }
+
+  async markAllNotificationsRead() {
+    return this.request('/notifications/read-all', {
+      method: 'PUT',
+    });
+  }
+
+  async deleteNotification(id: string) {
+    return this.request(`/notifications/${id}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // --- Disputes ---
+  async getDisputes(params?: Record<string, string>) {
+    const queryString = params ? '?' + new URLSearchParams(params).toString() : '';
+    return this.request(`/disputes${queryString}`);
+  }
+
+  async getDispute(id: string) {
+    return this.request(`/disputes/${id}`);
+  }
+
+  async raiseDispute(disputeData: Record<string, unknown>) {
+    return this.request('/disputes', {
+      method: 'POST',
+      body: JSON.stringify(disputeData),
+    });
+  }
+
+  async respondToDispute(id: string, responseData: Record<string, unknown>) {
+    return this.request(`/disputes/${id}/responses`, {
+      method: 'POST',
+      body: JSON.stringify(responseData),
+    });
+  }
+
+  async updateDisputeStatus(id: string, status: string, details?: { note?: string; resolution?: string }) {
+    return this.request(`/disputes/${id}/status`, {
+      method: 'PUT',
+      body: JSON.stringify({ status, ...details }),
+    });
+  }
+
   // --- Users ---
   async getUserProfile() {
     return this.request('/users/profile');
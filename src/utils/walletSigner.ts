@@ -0,0 +1,35 @@
+// utils/walletSigner.ts
+import { BrowserProvider, Eip1193Provider, TypedDataDomain, TypedDataField } from 'ethers';
+
+declare global {
+  interface Window {
+    ethereum?: Eip1193Provider;
+  }
+}
+
+export interface SigningRequest {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  primaryType: string;
+  message: Record<string, unknown>;
+}
+
+// Ask the browser wallet (MetaMask or similar) to sign EIP-712 typed data; resolves to the hex signature
+export const signWithWallet = async ({ domain, types, message }: SigningRequest) => {
+  if (!window.ethereum) {
+    throw new Error('No browser wallet found. Install MetaMask or another Ethereum wallet to sign contracts.');
+  }
+
+  // Wallets refuse typed data for a chain other than the active one
+  if (domain.chainId !== undefined && domain.chainId !== null) {
+    const chainId = `0x${BigInt(domain.chainId).toString(16)}`;
+    const activeChainId = await window.ethereum.request({ method: 'eth_chainId' });
+    if (BigInt(activeChainId) !== BigInt(chainId)) {
+      await window.ethereum.request({ method: 'wallet_switchEthereumChain', params: [{ chainId }] });
+    }
+  }
+
+  const provider = new BrowserProvider(window.ethereum);
+  const signer = await provider.getSigner();
+  return signer.signTypedData(domain, types, message);
+};